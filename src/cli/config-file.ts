@@ -0,0 +1,180 @@
+/**
+ * Project config file discovery.
+ * Looks for .mddiffrc / md-diff.config.json from cwd up to the git root,
+ * so a repo can pin its own diff defaults. CLI flags always win.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import type { CustomMatchingProfile } from "../config.js";
+import type { ThemeName } from "../ui/themes.js";
+import type { UISettings } from "../ui/template.js";
+
+/** File names checked in each directory, in order of preference */
+export const CONFIG_FILE_NAMES = [".mddiffrc", ".mddiffrc.json", "md-diff.config.json"] as const;
+
+export type OutputMode = "html" | "json" | "text" | "markdown" | "critic" | "preview" | "copy";
+
+const OUTPUT_MODES: OutputMode[] = ["html", "json", "text", "markdown", "critic", "preview", "copy"];
+
+/** Contents of a project config file (all fields optional) */
+export interface ProjectConfig {
+  /** Default theme (overridden by --theme) */
+  theme?: ThemeName;
+  /** Default matching level or custom profile name (overridden by --match) */
+  match?: string;
+  /** Default output mode (overridden by --format, --json, --preview, --copy) */
+  output?: OutputMode;
+  /** Default output file (overridden by --out) */
+  out?: string;
+  /** Open the result in a browser (overridden by --no-open) */
+  open?: boolean;
+  /** Only diff files matching one of these globs in multi-file modes */
+  files?: string[];
+  /** Skip files matching any of these globs in multi-file modes */
+  ignore?: string[];
+  /** UI settings embedded in the generated HTML */
+  ui?: UISettings;
+  /** Custom matching profiles, selectable via match / --match */
+  profiles?: Record<string, CustomMatchingProfile>;
+}
+
+// ─── Discovery ──────────────────────────────────────────────────────────────
+
+/**
+ * Find the nearest config file, walking up from startDir.
+ * Stops after stopDir (normally the git root), or at the filesystem root
+ * when stopDir is null.
+ */
+export function findConfigFile(startDir: string, stopDir: string | null): string | null {
+  const stop = stopDir ? resolve(stopDir) : null;
+  let dir = resolve(startDir);
+
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) return candidate;
+    }
+    const parent = dirname(dir);
+    if (dir === stop || parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// ─── Loading ────────────────────────────────────────────────────────────────
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Check field types, so a typo fails loudly instead of being silently ignored */
+function validateConfig(raw: unknown): ProjectConfig {
+  if (!isPlainObject(raw)) throw new Error("expected a JSON object");
+
+  if (raw["theme"] !== undefined && raw["theme"] !== "dark" && raw["theme"] !== "solar") {
+    throw new Error("\"theme\" must be \"dark\" or \"solar\"");
+  }
+  if (raw["match"] !== undefined && typeof raw["match"] !== "string") {
+    throw new Error("\"match\" must be a string");
+  }
+  if (raw["output"] !== undefined && !OUTPUT_MODES.includes(raw["output"] as OutputMode)) {
+    throw new Error(`"output" must be one of: ${OUTPUT_MODES.join(", ")}`);
+  }
+  if (raw["out"] !== undefined && typeof raw["out"] !== "string") {
+    throw new Error("\"out\" must be a string");
+  }
+  if (raw["open"] !== undefined && typeof raw["open"] !== "boolean") {
+    throw new Error("\"open\" must be true or false");
+  }
+  for (const key of ["files", "ignore"]) {
+    if (raw[key] !== undefined && !isStringArray(raw[key])) {
+      throw new Error(`"${key}" must be an array of glob strings`);
+    }
+  }
+  for (const key of ["ui", "profiles"]) {
+    if (raw[key] !== undefined && !isPlainObject(raw[key])) {
+      throw new Error(`"${key}" must be an object`);
+    }
+  }
+
+  return raw as ProjectConfig;
+}
+
+/**
+ * Read and validate a config file.
+ * Relative "out" paths are resolved against the config file's directory.
+ */
+export function loadProjectConfig(path: string): ProjectConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    throw new Error(`Failed to load config file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  let config: ProjectConfig;
+  try {
+    config = validateConfig(raw);
+  } catch (err) {
+    throw new Error(`Invalid config file ${path}: ${(err as Error).message}`);
+  }
+
+  if (config.out && config.out !== "-") {
+    config = { ...config, out: resolve(dirname(path), config.out) };
+  }
+  return config;
+}
+
+// ─── File Filtering ─────────────────────────────────────────────────────────
+
+/**
+ * Convert a glob to a RegExp.
+ * Supports `**` (any number of directories), `*` and `?` (within a segment).
+ * Patterns without a slash match the file name anywhere, like .gitignore.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.startsWith("/") ? glob.slice(1) : glob;
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const anchored = glob.includes("/") ? source : `(?:.*/)?${source}`;
+  return new RegExp(`^${anchored}$`);
+}
+
+/**
+ * Build a predicate over repo-relative paths from the files/ignore globs.
+ * Returns null when the config doesn't restrict anything.
+ */
+export function createPathFilter(config: Pick<ProjectConfig, "files" | "ignore">): ((path: string) => boolean) | null {
+  const include = (config.files ?? []).map(globToRegExp);
+  const exclude = (config.ignore ?? []).map(globToRegExp);
+  if (include.length === 0 && exclude.length === 0) return null;
+
+  return (path: string) => {
+    const normalized = path.replace(/\\/g, "/");
+    if (include.length > 0 && !include.some((re) => re.test(normalized))) return false;
+    return !exclude.some((re) => re.test(normalized));
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Git integration: --difftool mode and `md-diff install-git`.
+ *
+ * --difftool understands three ways git hands over files:
+ * - external diff (GIT_EXTERNAL_DIFF, diff.<driver>.command):
+ *   path old-file old-hex old-mode new-file new-hex new-mode [new-path rename-info],
+ *   once per file; invocations of one `git diff` are batched into a single page
+ *   (except for diff drivers, see gitConfigEntries)
+ * - `git difftool -d`: two directories holding the old and new trees
+ * - `git difftool`: "$LOCAL" "$REMOTE" "$MERGED" for each file
+ */
+
+import {
+  existsSync,
+  lstatSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+  appendFileSync,
+} from "node:fs";
+import { createHash } from "node:crypto";
+import { basename, dirname, join, relative } from "node:path";
+import { homedir, tmpdir } from "node:os";
+import { c, logError, logInfo, logSuccess } from "./colors.js";
+import { getGitConfig, getGitRoot, setGitConfig } from "./git.js";
+import { readInputFile } from "./input.js";
+import { filterChangedFiles, runMultiFile } from "./multi-file.js";
+import type { OutputOptions } from "./output.js";
+
+/** One file handed over by git: repo-relative path and both versions */
+export interface DifftoolEntry {
+  path: string;
+  leftContent: string;
+  rightContent: string;
+}
+
+/** Name of the git diff driver and difftool md-diff installs */
+export const GIT_TOOL_NAME = "md-diff";
+
+// ─── External Diff Arguments ────────────────────────────────────────────────
+
+/** git's external diff arguments (see GIT_EXTERNAL_DIFF in git(1)) */
+export interface ExternalDiffArgs {
+  path: string;
+  oldFile: string;
+  oldHex: string;
+  oldMode: string;
+  newFile: string;
+  newHex: string;
+  newMode: string;
+  /** New path when git detected a rename */
+  newPath?: string;
+}
+
+/** Parse external diff arguments; null when the argument count doesn't match */
+export function parseExternalDiffArgs(args: string[]): ExternalDiffArgs | null {
+  if (args.length !== 7 && args.length !== 9) return null;
+  const [path, oldFile, oldHex, oldMode, newFile, newHex, newMode, newPath] = args;
+  return { path, oldFile, oldHex, oldMode, newFile, newHex, newMode, newPath };
+}
+
+/** Read one side; git passes /dev/null for a missing side */
+function readSide(file: string): string {
+  return file === "/dev/null" ? "" : readFileSync(file, "utf-8");
+}
+
+export function externalDiffEntry(args: ExternalDiffArgs): DifftoolEntry {
+  const path = args.newPath && args.newPath !== args.path ? `${args.path} → ${args.newPath}` : args.path;
+  return { path, leftContent: readSide(args.oldFile), rightContent: readSide(args.newFile) };
+}
+
+// ─── Batching ───────────────────────────────────────────────────────────────
+
+export interface BatchOptions {
+  /** Environment with git's GIT_DIFF_PATH_COUNTER / GIT_DIFF_PATH_TOTAL */
+  env?: NodeJS.ProcessEnv;
+  /** Identifies the batch; git runs external diffs from the repository root */
+  key?: string;
+  /** Where pending entries are kept between invocations */
+  dir?: string;
+}
+
+/**
+ * Create the batch directory readable by this user only, or check an existing one.
+ * The parent is usually the shared temp directory, so a directory (or symlink)
+ * another user put there first is refused instead of read back into the page.
+ */
+function privateBatchDir(dir: string): string {
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const stat = lstatSync(dir);
+  const uid = process.getuid?.();
+  // Windows has no uid or permission bits to check
+  const foreign = uid !== undefined && (stat.uid !== uid || (stat.mode & 0o077) !== 0);
+  if (!stat.isDirectory() || foreign) {
+    throw new Error(`Refusing to use ${dir}: not a private directory of the current user`);
+  }
+  return dir;
+}
+
+/**
+ * Add one invocation's entry (or null for a skipped file) to its batch.
+ * git runs the external diff once per file, counting with
+ * GIT_DIFF_PATH_COUNTER up to GIT_DIFF_PATH_TOTAL. Entries are stored until
+ * the last invocation, which gets every entry of the batch back; earlier
+ * ones get null. Without the counters each invocation is its own batch.
+ */
+export function collectBatchEntry(entry: DifftoolEntry | null, options: BatchOptions = {}): DifftoolEntry[] | null {
+  const env = options.env ?? process.env;
+  const counter = Number(env.GIT_DIFF_PATH_COUNTER);
+  const total = Number(env.GIT_DIFF_PATH_TOTAL);
+  if (!Number.isInteger(counter) || !Number.isInteger(total) || total <= 1) {
+    return entry ? [entry] : [];
+  }
+
+  const key = createHash("sha1").update(options.key ?? process.cwd()).digest("hex").slice(0, 12);
+  const user = process.getuid?.() ?? "user";
+  const dir = privateBatchDir(join(options.dir ?? tmpdir(), `md-diff-batch-${user}-${key}`));
+  // The first file starts a new batch, dropping leftovers of an interrupted one
+  if (counter === 1) {
+    for (const name of readdirSync(dir)) rmSync(join(dir, name), { recursive: true, force: true });
+  }
+  if (entry) writeFileSync(join(dir, `${counter}.json`), JSON.stringify(entry), { encoding: "utf-8", mode: 0o600 });
+  if (counter < total) return null;
+
+  const entries = readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort((a, b) => parseInt(a, 10) - parseInt(b, 10))
+    .map((name) => JSON.parse(readFileSync(join(dir, name), "utf-8")) as DifftoolEntry);
+  rmSync(dir, { recursive: true, force: true });
+  return entries;
+}
+
+// ─── Directory Diff ─────────────────────────────────────────────────────────
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+export function isDirectoryPair(left: string, right: string): boolean {
+  return isDirectory(left) && isDirectory(right);
+}
+
+/** Relative paths of .md files under dir (follows the symlinks git difftool -d creates) */
+function listMarkdownFiles(dir: string, base = dir): string[] {
+  const files: string[] = [];
+  for (const name of readdirSync(dir)) {
+    const path = join(dir, name);
+    if (isDirectory(path)) {
+      if (name !== ".git") files.push(...listMarkdownFiles(path, base));
+    } else if (name.endsWith(".md")) {
+      files.push(relative(base, path));
+    }
+  }
+  return files;
+}
+
+/** Changed .md files between the two trees of `git difftool -d` */
+export function directoryEntries(leftDir: string, rightDir: string): DifftoolEntry[] {
+  const paths = new Set([...listMarkdownFiles(leftDir), ...listMarkdownFiles(rightDir)]);
+  const read = (dir: string, path: string) => {
+    const file = join(dir, path);
+    return existsSync(file) ? readFileSync(file, "utf-8") : "";
+  };
+  return [...paths]
+    .sort((a, b) => a.localeCompare(b))
+    .map((path) => ({ path, leftContent: read(leftDir, path), rightContent: read(rightDir, path) }))
+    .filter((entry) => entry.leftContent !== entry.rightContent);
+}
+
+// ─── Difftool Mode ──────────────────────────────────────────────────────────
+
+/**
+ * --difftool: files handed over by git (external diff, difftool or difftool -d).
+ * External diff runs of one `git diff` are batched into a single page.
+ */
+export async function runDifftoolMode(args: string[], outputOpts: OutputOptions, batch: boolean) {
+  let entries: DifftoolEntry[] | null;
+  const external = parseExternalDiffArgs(args);
+  const collect = (entry: DifftoolEntry | null) => batch ? collectBatchEntry(entry) : entry ? [entry] : [];
+
+  if (external) {
+    const isMarkdown = [external.path, external.newPath].some((p) => p?.endsWith(".md"));
+    entries = collect(isMarkdown ? externalDiffEntry(external) : null);
+  } else if (args.length >= 2 && isDirectoryPair(args[0], args[1])) {
+    entries = directoryEntries(args[0], args[1]);
+  } else if (args.length === 2 || args.length === 3) {
+    // git difftool: "$LOCAL" "$REMOTE" "$MERGED"
+    const path = args[2] || basename(args[1]);
+    const entry = { path, leftContent: readInputFile(args[0]), rightContent: readInputFile(args[1]) };
+    entries = collect(path.endsWith(".md") ? entry : null);
+  } else {
+    logError("Unexpected difftool arguments", "Run md-diff install-git to configure git");
+    process.exit(1);
+  }
+
+  // More files of this batch are still to come
+  if (!entries) return;
+
+  const files = filterChangedFiles(entries, outputOpts);
+  if (files.length === 0) {
+    logInfo("No changed .md files");
+    return;
+  }
+  await runMultiFile(files, "old", "new", outputOpts);
+}
+
+// ─── install-git ────────────────────────────────────────────────────────────
+
+/**
+ * git config entries that register md-diff as a difftool and a diff driver.
+ * The diff driver only sees .md files while git counts every changed file,
+ * so the batch would never complete: it opens one page per file instead.
+ */
+export function gitConfigEntries(command = GIT_TOOL_NAME): Array<[key: string, value: string]> {
+  return [
+    [`difftool.${GIT_TOOL_NAME}.cmd`, `${command} --difftool "$LOCAL" "$REMOTE" "$MERGED"`],
+    [`diff.${GIT_TOOL_NAME}.command`, `${command} --difftool --no-batch`],
+  ];
+}
+
+/** gitattributes line routing Markdown files through the md-diff diff driver */
+export const GIT_ATTRIBUTES_LINE = `*.md diff=${GIT_TOOL_NAME}`;
+
+/** Global attributes file: core.attributesFile if set, else git's XDG default */
+export function globalAttributesFile(configured: string | null, env: NodeJS.ProcessEnv = process.env): string {
+  if (configured) return configured.replace(/^~(?=\/)/, homedir());
+  const configHome = env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "git", "attributes");
+}
+
+/**
+ * Append the attributes line unless the file already has it.
+ * Returns false when nothing needed to change.
+ */
+export function addGitAttributes(file: string): boolean {
+  const current = existsSync(file) ? readFileSync(file, "utf-8") : "";
+  if (current.split("\n").some((line) => line.trim() === GIT_ATTRIBUTES_LINE)) return false;
+  mkdirSync(dirname(file), { recursive: true });
+  const separator = current && !current.endsWith("\n") ? "\n" : "";
+  appendFileSync(file, `${separator}${GIT_ATTRIBUTES_LINE}\n`, "utf-8");
+  return true;
+}
+
+/** install-git: register md-diff as a git difftool and diff driver */
+export function runInstallGit(global: boolean, attributes: boolean) {
+  const root = getGitRoot();
+  if (!global && !root) {
+    logError("Not in a git repository", "Run inside a repository, or use --global");
+    process.exit(1);
+  }
+
+  const scope = global ? "--global " : "";
+  for (const [key, value] of gitConfigEntries()) {
+    setGitConfig(key, value, global);
+    logSuccess(`git config ${scope}${key} '${value}'`);
+  }
+
+  if (attributes) {
+    const file = global
+      ? globalAttributesFile(getGitConfig("core.attributesFile", true))
+      : join(root!, ".gitattributes");
+    if (addGitAttributes(file)) logSuccess(`Added "${GIT_ATTRIBUTES_LINE}" to ${file}`);
+    else logInfo(`${file} already routes .md files to md-diff`);
+  }
+
+  console.log(`
+${c.bold}Usage${c.reset}
+  git difftool -t ${GIT_TOOL_NAME} -d @~1          ${c.dim}# all changed files on one page${c.reset}
+  git difftool -t ${GIT_TOOL_NAME} -y main -- docs ${c.dim}# file by file, batched${c.reset}${attributes ? `
+  git diff                               ${c.dim}# .md files open in md-diff (--no-ext-diff for plain text)${c.reset}` : ""}`);
+}
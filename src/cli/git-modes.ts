@@ -0,0 +1,246 @@
+/**
+ * Git modes: --git, --compare, --staged and --pr (and the @ shortcuts).
+ * Each diffs one file or every changed .md file between two versions.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { c, logError, logInfo } from "./colors.js";
+import {
+  getGitFileContent,
+  getStagedContent,
+  getChangedMdFilesWithRenames,
+  getStagedMdFilesWithRenames,
+  getUntrackedMdFiles,
+  getPrInfo,
+  fetchRefs,
+  findOldPath,
+  type ChangedFile,
+} from "./git.js";
+import type { OutputOptions } from "./output.js";
+import {
+  sortFilesByPath,
+  filterChangedFiles,
+  isLive,
+  runMultiFile,
+  type MultiFileEntry,
+} from "./multi-file.js";
+import { runSingleFile } from "./single-file.js";
+
+// ─── Git Mode ────────────────────────────────────────────────────────────────
+
+export async function runGitMode(ref1: string, ref2: string, file: string | undefined, outputOpts: OutputOptions) {
+  if (file) {
+    // Check if file was renamed between refs
+    const oldPath = findOldPath(ref1, ref2, file);
+    const leftPath = oldPath ?? file;
+
+    const leftContent = getGitFileContent(ref1, leftPath);
+    const rightContent = getGitFileContent(ref2, file);
+
+    if (!leftContent && !rightContent) {
+      logError(`File "${file}" not found in either ref`, `Check with: git show ${ref1}:${file}`);
+      process.exit(1);
+    }
+
+    const leftTitle = oldPath ? `${ref1} (${oldPath})` : ref1;
+    await runSingleFile({
+      left: { content: leftContent, title: leftTitle },
+      right: { content: rightContent, title: ref2 },
+    }, outputOpts, false);
+  } else {
+    const changedFiles = filterChangedFiles(getChangedMdFilesWithRenames(ref1, ref2), outputOpts);
+
+    if (changedFiles.length === 0) {
+      logInfo(`No changed .md files between ${ref1} and ${ref2}`);
+      process.exit(0);
+    }
+
+    if (!outputOpts.quiet) {
+      console.log(`Found ${c.bold}${changedFiles.length}${c.reset} changed .md file(s)`);
+    }
+
+    const files = sortFilesByPath(changedFiles.map((f) => {
+      // Use oldPath if file was renamed, otherwise use current path
+      const leftPath = f.oldPath ?? f.path;
+      const displayPath = f.oldPath ? `${f.oldPath} → ${f.path}` : f.path;
+      return {
+        path: displayPath,
+        leftContent: getGitFileContent(ref1, leftPath),
+        rightContent: getGitFileContent(ref2, f.path),
+        linesAdded: f.linesAdded,
+        linesRemoved: f.linesRemoved,
+      };
+    }));
+
+    await runMultiFile(files, ref1, ref2, outputOpts);
+  }
+}
+
+// ─── Compare Mode ────────────────────────────────────────────────────────────
+
+/** Changed and untracked .md files in the working directory relative to a branch */
+function getWorkingDirChanges(branch: string, outputOpts: OutputOptions): ChangedFile[] {
+  const trackedFiles = getChangedMdFilesWithRenames(branch, "", true);
+  const untrackedFiles = getUntrackedMdFiles();
+
+  // Build a set of paths already in trackedFiles to avoid duplicates
+  const changedPaths = new Set(trackedFiles.map((f) => f.path));
+
+  // Add untracked files that aren't already in the list
+  for (const path of untrackedFiles) {
+    if (!changedPaths.has(path)) {
+      trackedFiles.push({ path, status: "A" });
+    }
+  }
+  return filterChangedFiles(trackedFiles, outputOpts);
+}
+
+/** Read both sides of each changed file: the branch version and the working copy */
+function loadWorkingDirFiles(branch: string, changedFiles: ChangedFile[]): MultiFileEntry[] {
+  return sortFilesByPath(changedFiles.map((f) => {
+    let rightContent = "";
+    try {
+      rightContent = readFileSync(resolve(f.path), "utf-8");
+    } catch {
+      // File deleted
+    }
+    // Use oldPath if file was renamed, otherwise use current path
+    const leftPath = f.oldPath ?? f.path;
+    const displayPath = f.oldPath ? `${f.oldPath} → ${f.path}` : f.path;
+    const leftContent = getGitFileContent(branch, leftPath);
+
+    // For untracked files (no git stats), calculate line counts
+    let linesAdded = f.linesAdded;
+    let linesRemoved = f.linesRemoved;
+    if (linesAdded === undefined && rightContent && !leftContent) {
+      // New/untracked file: count non-empty lines as added
+      const lines = rightContent.split("\n");
+      // Don't count trailing empty line from final newline
+      linesAdded = lines.length - (lines[lines.length - 1] === "" ? 1 : 0);
+    }
+
+    return {
+      path: displayPath,
+      leftContent,
+      rightContent,
+      linesAdded,
+      linesRemoved,
+    };
+  }));
+}
+
+export async function runCompareMode(
+  branch: string,
+  file: string | undefined,
+  outputOpts: OutputOptions,
+  watch: boolean,
+) {
+  if (file) {
+    let rightContent: string;
+
+    try {
+      rightContent = readFileSync(resolve(file), "utf-8");
+    } catch {
+      logError(`File "${file}" not found in working directory`);
+      process.exit(1);
+    }
+
+    // Check if file was renamed from branch
+    const oldPath = findOldPath(branch, "", file, true);
+    const leftPath = oldPath ?? file;
+    const leftContent = getGitFileContent(branch, leftPath);
+
+    if (!leftContent) {
+      logError(`File "${file}" not found in branch "${branch}"`, `Check with: git show ${branch}:${file}`);
+      process.exit(1);
+    }
+
+    const leftTitle = oldPath ? `${branch} (${oldPath})` : branch;
+    await runSingleFile({
+      left: { content: leftContent, title: leftTitle },
+      right: { content: rightContent, title: "working directory", path: resolve(file) },
+    }, outputOpts, watch);
+  } else {
+    const changedFiles = getWorkingDirChanges(branch, outputOpts);
+
+    if (changedFiles.length === 0) {
+      logInfo(`No changed .md files compared to ${branch}`);
+      // Keep watching: files may change later
+      if (!isLive(outputOpts, watch)) process.exit(0);
+    } else if (!outputOpts.quiet) {
+      console.log(`Found ${c.bold}${changedFiles.length}${c.reset} changed .md file(s)`);
+    }
+
+    const files = loadWorkingDirFiles(branch, changedFiles);
+    await runMultiFile(files, branch, "working directory", outputOpts, {
+      load: () => loadWorkingDirFiles(branch, getWorkingDirChanges(branch, outputOpts)),
+      target: "worktree",
+    }, watch);
+  }
+}
+
+// ─── Staged Mode ─────────────────────────────────────────────────────────────
+
+export async function runStagedMode(file: string | undefined, outputOpts: OutputOptions, watch: boolean) {
+  if (file) {
+    const leftContent = getGitFileContent("HEAD", file);
+    const rightContent = getStagedContent(file);
+
+    if (!rightContent) {
+      logError(`File "${file}" has no staged changes`, `Stage changes with: git add ${file}`);
+      process.exit(1);
+    }
+
+    await runSingleFile({
+      left: { content: leftContent, title: "HEAD" },
+      right: { content: rightContent, title: "staged" },
+    }, outputOpts, false);
+  } else {
+    const stagedFiles = filterChangedFiles(getStagedMdFilesWithRenames(), outputOpts);
+
+    if (stagedFiles.length === 0) {
+      logInfo("No staged .md files");
+      if (!isLive(outputOpts, watch)) process.exit(0);
+    } else if (!outputOpts.quiet) {
+      console.log(`Found ${c.bold}${stagedFiles.length}${c.reset} staged .md file(s)`);
+    }
+
+    const loadFiles = (changed: ChangedFile[]) => sortFilesByPath(changed.map((f) => {
+      // Use oldPath if file was renamed, otherwise use current path
+      const leftPath = f.oldPath ?? f.path;
+      const displayPath = f.oldPath ? `${f.oldPath} → ${f.path}` : f.path;
+      return {
+        path: displayPath,
+        leftContent: getGitFileContent("HEAD", leftPath),
+        rightContent: getStagedContent(f.path),
+        linesAdded: f.linesAdded,
+        linesRemoved: f.linesRemoved,
+      };
+    }));
+
+    await runMultiFile(loadFiles(stagedFiles), "HEAD", "staged", outputOpts, {
+      load: () => loadFiles(filterChangedFiles(getStagedMdFilesWithRenames(), outputOpts)),
+      target: "index",
+    }, watch);
+  }
+}
+
+// ─── PR Mode ─────────────────────────────────────────────────────────────────
+
+export async function runPrMode(prNumber: string, outputOpts: OutputOptions) {
+  const prInfo = getPrInfo(prNumber);
+
+  if (!prInfo) {
+    logError(`Failed to get PR #${prNumber}`, "Install GitHub CLI (gh) from: https://cli.github.com/");
+    process.exit(1);
+  }
+
+  fetchRefs([prInfo.baseRef, prInfo.headRef]);
+
+  if (!outputOpts.quiet) {
+    console.log(`Comparing PR #${prNumber}: ${c.dim}${prInfo.baseRef}${c.reset} → ${c.bold}${prInfo.headRef}${c.reset}`);
+  }
+
+  await runGitMode(`origin/${prInfo.baseRef}`, `origin/${prInfo.headRef}`, undefined, outputOpts);
+}
@@ -21,6 +21,37 @@ export function getGitRoot(): string | null {
   }
 }
 
+/** Absolute path of the .git directory (index, HEAD and refs live here) */
+export function getGitDir(): string | null {
+  try {
+    return git(["rev-parse", "--absolute-git-dir"]).trim();
+  } catch {
+    return null;
+  }
+}
+
+export function getGitConfig(key: string, global = false): string | null {
+  try {
+    return git(["config", ...(global ? ["--global"] : []), "--get", key]).trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+export function setGitConfig(key: string, value: string, global = false): void {
+  git(["config", ...(global ? ["--global"] : []), key, value]);
+}
+
+/** Whether .gitignore or another exclude file covers the path */
+export function isGitIgnored(path: string): boolean {
+  try {
+    execFileSync("git", ["check-ignore", "--quiet", path], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export function isGitRepo(): boolean {
   try {
     execFileSync("git", ["rev-parse", "--git-dir"], { stdio: "ignore" });
@@ -46,6 +77,27 @@ export function getStagedContent(file: string): string {
   }
 }
 
+/**
+ * Content of a conflicted file at an index stage: 1 = base, 2 = ours, 3 = theirs.
+ * A missing stage (e.g. no base for add/add conflicts) is empty.
+ */
+export function getConflictStage(stage: 1 | 2 | 3, file: string): string {
+  try {
+    return git(["show", `:${stage}:${file}`]);
+  } catch {
+    return "";
+  }
+}
+
+/** Markdown files with unresolved merge conflicts, relative to the repo root */
+export function getConflictedMdFiles(): string[] {
+  try {
+    return gitLines(["diff", "--name-only", "--diff-filter=U", "--", ":/*.md"]);
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Information about a changed file, including rename detection.
  */
@@ -241,6 +293,17 @@ export function getUntrackedMdFiles(): string[] {
   }
 }
 
+/**
+ * All tracked and untracked (non-ignored) .md files, relative to the repo root.
+ */
+export function getAllMdFiles(): string[] {
+  try {
+    return gitLines(["ls-files", "--cached", "--others", "--exclude-standard", "--full-name", "--", ":/*.md"]);
+  } catch {
+    return [];
+  }
+}
+
 export interface PrInfo {
   baseRef: string;
   headRef: string;
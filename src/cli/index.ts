@@ -5,14 +5,20 @@
  * Wires together modular components from src/cli/*.
  */
 
-import { program } from "commander";
-import { readFileSync, watchFile, existsSync } from "node:fs";
+import { program, type OptionValues } from "commander";
+import { readFileSync, existsSync } from "node:fs";
 import { resolve, basename } from "node:path";
 import { createInterface } from "node:readline";
-import { parseMarkdown, extractBlocks } from "../text/parse.js";
-import { diffBlocks, type DiffPair } from "../core/diff.js";
-import { renderDiffPairs, type RenderedRow } from "../render/render.js";
-import { setMatchingLevel, getMatchingLevel, type MatchingLevel, MATCHING_LEVELS } from "../config.js";
+import { blockToText } from "../text/parse.js";
+import { parseCriticMarkup } from "../text/critic.js";
+import type { DiffPair } from "../core/diff.js";
+import {
+  createDiffOptions,
+  listMatchingLevels,
+  type CustomMatchingProfile,
+  type DiffOptions,
+  type MatchingLevel,
+} from "../config.js";
 
 // ─── UI Settings Interface ───────────────────────────────────────────────────
 
@@ -26,110 +32,42 @@ export interface UISettings {
   matchLevel?: MatchingLevel;
   gapAlign?: boolean;
   showMinor?: boolean;
+  showMoves?: boolean;
   mergeMinor?: "off" | "conservative" | "aggressive";
   compact?: boolean;
 }
 
-function loadSettingsFile(path: string): UISettings {
+/** Contents of a --settings JSON file: UI settings plus custom matching profiles */
+interface SettingsFile extends UISettings {
+  profiles?: Record<string, CustomMatchingProfile>;
+}
+
+function loadSettingsFile(path: string): SettingsFile {
   try {
     const content = readFileSync(path, "utf-8");
-    return JSON.parse(content) as UISettings;
+    return JSON.parse(content) as SettingsFile;
   } catch (err) {
     logError(`Failed to load settings file: ${path}`, String(err));
     process.exit(1);
   }
 }
-import type { FileDiff } from "../ui/template.js";
-import type { ThemeName } from "../ui/themes.js";
 
 import { c, logError, logInfo } from "./colors.js";
-import { createTimer, verbose } from "../debug.js";
-import {
-  isGitRepo,
-  getGitFileContent,
-  getStagedContent,
-  getChangedMdFilesWithRenames,
-  getStagedMdFilesWithRenames,
-  getUntrackedMdFiles,
-  getPrInfo,
-  fetchRefs,
-  expandGitShortcut,
-  findOldPath,
-  getGitRoot,
-} from "./git.js";
-import {
-  outputSingleFile,
-  outputMultiFile,
-  openInBrowser,
-  type OutputOptions,
-} from "./output.js";
+import { verbose } from "../debug.js";
+import { isGitRepo, expandGitShortcut, getGitRoot } from "./git.js";
+import type { OutputOptions } from "./output.js";
 import { getCompletion, isValidShell } from "./completions.js";
-import { computeInlineDiff, type InlinePart } from "../core/inline-diff.js";
-import { countTotalWords, countSharedWords } from "../text/text-metrics.js";
+import { parseOutputFlags } from "./options.js";
+import { runDifftoolMode, runInstallGit } from "./difftool.js";
+import { getPairs } from "./multi-file.js";
+import { VERSION } from "./version.js";
+import { readStdin } from "./input.js";
+import { runMergeMode } from "./merge.js";
+import { runSingleFile } from "./single-file.js";
+import { runGitMode, runCompareMode, runStagedMode, runPrMode } from "./git-modes.js";
+import { findConfigFile, loadProjectConfig, createPathFilter, type ProjectConfig } from "./config-file.js";
+import type { InlinePart } from "../core/inline-diff.js";
 import { isSideBySide } from "../render/layout.js";
-import { RENDER_CONFIG } from "../config.js";
-import { blockToText } from "../text/parse.js";
-
-// ─── Helpers ─────────────────────────────────────────────────────────────────
-
-/** Sort files alphabetically by path (groups files in same directory together) */
-function sortFilesByPath<T extends { path: string }>(files: T[]): T[] {
-  return [...files].sort((a, b) => a.path.localeCompare(b.path));
-}
-
-// ─── Version ─────────────────────────────────────────────────────────────────
-
-function getVersion(): string {
-  try {
-    const pkgPath = new URL("../package.json", import.meta.url);
-    const pkg = JSON.parse(readFileSync(pkgPath, "utf-8"));
-    return pkg.version || "unknown";
-  } catch {
-    return "unknown";
-  }
-}
-
-const VERSION = getVersion();
-
-// ─── Content Processing ─────────────────────────────────────────────────────
-
-function getPairs(leftContent: string, rightContent: string): DiffPair[] {
-  const leftTree = parseMarkdown(leftContent);
-  const rightTree = parseMarkdown(rightContent);
-  const leftBlocks = extractBlocks(leftTree);
-  const rightBlocks = extractBlocks(rightTree);
-  return diffBlocks(leftBlocks, rightBlocks);
-}
-
-/** Compute rendered rows at all three matching levels */
-function getRowsAtAllLevels(
-  leftContent: string,
-  rightContent: string,
-): Record<MatchingLevel, RenderedRow[]> {
-  const originalLevel = getMatchingLevel();
-  const result: Record<MatchingLevel, RenderedRow[]> = {} as Record<MatchingLevel, RenderedRow[]>;
-
-  for (const level of ["strict", "normal", "loose"] as MatchingLevel[]) {
-    setMatchingLevel(level);
-    const pairs = getPairs(leftContent, rightContent);
-    result[level] = renderDiffPairs(pairs);
-  }
-
-  // Restore original level
-  setMatchingLevel(originalLevel);
-  return result;
-}
-
-// ─── Stdin ───────────────────────────────────────────────────────────────────
-
-function readStdin(): Promise<string> {
-  return new Promise((resolve) => {
-    let data = "";
-    process.stdin.setEncoding("utf-8");
-    process.stdin.on("data", (chunk) => (data += chunk));
-    process.stdin.on("end", () => resolve(data));
-  });
-}
 
 // ─── Interactive Mode ────────────────────────────────────────────────────────
 
@@ -146,291 +84,6 @@ function prompt(question: string, choices: string[]): Promise<number> {
   });
 }
 
-// ─── Single File Mode ────────────────────────────────────────────────────────
-
-interface SingleFileInput {
-  left: { content: string; title: string; path?: string };
-  right: { content: string; title: string; path?: string };
-}
-
-async function runSingleFile(input: SingleFileInput, outputOpts: OutputOptions, watch: boolean) {
-  let { left, right } = input;
-
-  const generateOutput = async () => {
-    const timer = createTimer(`${left.title} → ${right.title}`);
-    const pairs = timer.time("diff", () => getPairs(left.content, right.content));
-    const rows = timer.time("render", () => renderDiffPairs(pairs));
-    // Compute all matching levels for UI switching
-    const rowsByLevel = timer.time("multi-level", () =>
-      getRowsAtAllLevels(left.content, right.content),
-    );
-    const result = await timer.timeAsync("output", () =>
-      outputSingleFile(pairs, rows, left.title, right.title, outputOpts, VERSION, rowsByLevel),
-    );
-    timer.done();
-    return result;
-  };
-
-  const outputPath = await generateOutput();
-
-  if (watch && left.path && right.path) {
-    logInfo("Watching for changes... (Ctrl+C to stop)");
-    const leftPath = left.path;
-    const rightPath = right.path;
-
-    const reloadFn = async () => {
-      try {
-        left = { ...left, content: readFileSync(leftPath, "utf-8") };
-        right = { ...right, content: readFileSync(rightPath, "utf-8") };
-        await generateOutput();
-        logInfo(`[${new Date().toLocaleTimeString()}] Regenerated`);
-      } catch (err) {
-        logError(`Failed to reload: ${err}`);
-      }
-    };
-
-    watchFile(leftPath, { interval: 500 }, reloadFn);
-    watchFile(rightPath, { interval: 500 }, reloadFn);
-
-    if (!outputOpts.noOpen && outputPath) {
-      await openInBrowser(outputPath, outputOpts.inspect);
-    }
-
-    await new Promise(() => {}); // Keep alive
-  } else if (!outputOpts.noOpen && outputPath && !outputOpts.preview && !outputOpts.json && !outputOpts.copy) {
-    await openInBrowser(outputPath, outputOpts.inspect);
-  }
-}
-
-// ─── Multi-File Mode ─────────────────────────────────────────────────────────
-
-async function runMultiFile(
-  files: Array<{ path: string; leftContent: string; rightContent: string; linesAdded?: number; linesRemoved?: number }>,
-  leftTitle: string,
-  rightTitle: string,
-  outputOpts: OutputOptions,
-) {
-  const fileDiffs: FileDiff[] = [];
-  const filesPairs: Array<{ path: string; pairs: DiffPair[] }> = [];
-
-  verbose(`Processing ${files.length} file(s)...\n`);
-
-  for (const f of files) {
-    const timer = createTimer(f.path);
-    const pairs = timer.time("diff", () => getPairs(f.leftContent, f.rightContent));
-    const rows = timer.time("render", () => renderDiffPairs(pairs));
-    fileDiffs.push({ path: f.path, rows, added: f.linesAdded, removed: f.linesRemoved });
-    filesPairs.push({ path: f.path, pairs });
-    timer.done();
-  }
-
-  const outputPath = await outputMultiFile(fileDiffs, filesPairs, leftTitle, rightTitle, outputOpts, VERSION);
-
-  if (!outputOpts.noOpen && outputPath && !outputOpts.preview && !outputOpts.json && !outputOpts.copy) {
-    await openInBrowser(outputPath, outputOpts.inspect);
-  }
-}
-
-// ─── Git Mode ────────────────────────────────────────────────────────────────
-
-async function runGitMode(ref1: string, ref2: string, file: string | undefined, outputOpts: OutputOptions) {
-  if (file) {
-    // Check if file was renamed between refs
-    const oldPath = findOldPath(ref1, ref2, file);
-    const leftPath = oldPath ?? file;
-
-    const leftContent = getGitFileContent(ref1, leftPath);
-    const rightContent = getGitFileContent(ref2, file);
-
-    if (!leftContent && !rightContent) {
-      logError(`File "${file}" not found in either ref`, `Check with: git show ${ref1}:${file}`);
-      process.exit(1);
-    }
-
-    const leftTitle = oldPath ? `${ref1} (${oldPath})` : ref1;
-    await runSingleFile({
-      left: { content: leftContent, title: leftTitle },
-      right: { content: rightContent, title: ref2 },
-    }, outputOpts, false);
-  } else {
-    const changedFiles = getChangedMdFilesWithRenames(ref1, ref2);
-
-    if (changedFiles.length === 0) {
-      logInfo(`No changed .md files between ${ref1} and ${ref2}`);
-      process.exit(0);
-    }
-
-    if (!outputOpts.quiet) {
-      console.log(`Found ${c.bold}${changedFiles.length}${c.reset} changed .md file(s)`);
-    }
-
-    const files = sortFilesByPath(changedFiles.map((f) => {
-      // Use oldPath if file was renamed, otherwise use current path
-      const leftPath = f.oldPath ?? f.path;
-      const displayPath = f.oldPath ? `${f.oldPath} → ${f.path}` : f.path;
-      return {
-        path: displayPath,
-        leftContent: getGitFileContent(ref1, leftPath),
-        rightContent: getGitFileContent(ref2, f.path),
-        linesAdded: f.linesAdded,
-        linesRemoved: f.linesRemoved,
-      };
-    }));
-
-    await runMultiFile(files, ref1, ref2, outputOpts);
-  }
-}
-
-// ─── Compare Mode ────────────────────────────────────────────────────────────
-
-async function runCompareMode(branch: string, file: string | undefined, outputOpts: OutputOptions, watch: boolean) {
-  if (file) {
-    let rightContent: string;
-
-    try {
-      rightContent = readFileSync(resolve(file), "utf-8");
-    } catch {
-      logError(`File "${file}" not found in working directory`);
-      process.exit(1);
-    }
-
-    // Check if file was renamed from branch
-    const oldPath = findOldPath(branch, "", file, true);
-    const leftPath = oldPath ?? file;
-    const leftContent = getGitFileContent(branch, leftPath);
-
-    if (!leftContent) {
-      logError(`File "${file}" not found in branch "${branch}"`, `Check with: git show ${branch}:${file}`);
-      process.exit(1);
-    }
-
-    const leftTitle = oldPath ? `${branch} (${oldPath})` : branch;
-    await runSingleFile({
-      left: { content: leftContent, title: leftTitle },
-      right: { content: rightContent, title: "working directory", path: resolve(file) },
-    }, outputOpts, watch);
-  } else {
-    const changedFiles = getChangedMdFilesWithRenames(branch, "", true);
-    const untrackedFiles = getUntrackedMdFiles();
-
-    // Build a set of paths already in changedFiles to avoid duplicates
-    const changedPaths = new Set(changedFiles.map((f) => f.path));
-
-    // Add untracked files that aren't already in the list
-    for (const path of untrackedFiles) {
-      if (!changedPaths.has(path)) {
-        changedFiles.push({ path, status: "A" });
-      }
-    }
-
-    if (changedFiles.length === 0) {
-      logInfo(`No changed .md files compared to ${branch}`);
-      process.exit(0);
-    }
-
-    if (!outputOpts.quiet) {
-      console.log(`Found ${c.bold}${changedFiles.length}${c.reset} changed .md file(s)`);
-    }
-
-    const files = sortFilesByPath(changedFiles.map((f) => {
-      let rightContent = "";
-      try {
-        rightContent = readFileSync(resolve(f.path), "utf-8");
-      } catch {
-        // File deleted
-      }
-      // Use oldPath if file was renamed, otherwise use current path
-      const leftPath = f.oldPath ?? f.path;
-      const displayPath = f.oldPath ? `${f.oldPath} → ${f.path}` : f.path;
-      const leftContent = getGitFileContent(branch, leftPath);
-
-      // For untracked files (no git stats), calculate line counts
-      let linesAdded = f.linesAdded;
-      let linesRemoved = f.linesRemoved;
-      if (linesAdded === undefined && rightContent && !leftContent) {
-        // New/untracked file: count non-empty lines as added
-        const lines = rightContent.split("\n");
-        // Don't count trailing empty line from final newline
-        linesAdded = lines.length - (lines[lines.length - 1] === "" ? 1 : 0);
-      }
-
-      return {
-        path: displayPath,
-        leftContent,
-        rightContent,
-        linesAdded,
-        linesRemoved,
-      };
-    }));
-
-    await runMultiFile(files, branch, "working directory", outputOpts);
-  }
-}
-
-// ─── Staged Mode ─────────────────────────────────────────────────────────────
-
-async function runStagedMode(file: string | undefined, outputOpts: OutputOptions) {
-  if (file) {
-    const leftContent = getGitFileContent("HEAD", file);
-    const rightContent = getStagedContent(file);
-
-    if (!rightContent) {
-      logError(`File "${file}" has no staged changes`, `Stage changes with: git add ${file}`);
-      process.exit(1);
-    }
-
-    await runSingleFile({
-      left: { content: leftContent, title: "HEAD" },
-      right: { content: rightContent, title: "staged" },
-    }, outputOpts, false);
-  } else {
-    const stagedFiles = getStagedMdFilesWithRenames();
-
-    if (stagedFiles.length === 0) {
-      logInfo("No staged .md files");
-      process.exit(0);
-    }
-
-    if (!outputOpts.quiet) {
-      console.log(`Found ${c.bold}${stagedFiles.length}${c.reset} staged .md file(s)`);
-    }
-
-    const files = sortFilesByPath(stagedFiles.map((f) => {
-      // Use oldPath if file was renamed, otherwise use current path
-      const leftPath = f.oldPath ?? f.path;
-      const displayPath = f.oldPath ? `${f.oldPath} → ${f.path}` : f.path;
-      return {
-        path: displayPath,
-        leftContent: getGitFileContent("HEAD", leftPath),
-        rightContent: getStagedContent(f.path),
-        linesAdded: f.linesAdded,
-        linesRemoved: f.linesRemoved,
-      };
-    }));
-
-    await runMultiFile(files, "HEAD", "staged", outputOpts);
-  }
-}
-
-// ─── PR Mode ─────────────────────────────────────────────────────────────────
-
-async function runPrMode(prNumber: string, outputOpts: OutputOptions) {
-  const prInfo = getPrInfo(prNumber);
-
-  if (!prInfo) {
-    logError(`Failed to get PR #${prNumber}`, "Install GitHub CLI (gh) from: https://cli.github.com/");
-    process.exit(1);
-  }
-
-  fetchRefs([prInfo.baseRef, prInfo.headRef]);
-
-  if (!outputOpts.quiet) {
-    console.log(`Comparing PR #${prNumber}: ${c.dim}${prInfo.baseRef}${c.reset} → ${c.bold}${prInfo.headRef}${c.reset}`);
-  }
-
-  await runGitMode(`origin/${prInfo.baseRef}`, `origin/${prInfo.headRef}`, undefined, outputOpts);
-}
-
 // ─── Interactive Mode ────────────────────────────────────────────────────────
 
 async function runInteractiveMode(outputOpts: OutputOptions, watch: boolean) {
@@ -468,7 +121,7 @@ async function runInteractiveMode(outputOpts: OutputOptions, watch: boolean) {
       await runCompareMode("origin/main", undefined, outputOpts, watch);
       break;
     case 5:
-      await runStagedMode(undefined, outputOpts);
+      await runStagedMode(undefined, outputOpts, watch);
       break;
   }
 }
@@ -528,6 +181,37 @@ async function runFileMode(args: string[], outputOpts: OutputOptions, watch: boo
   }, outputOpts, watch);
 }
 
+// ─── CriticMarkup Mode ───────────────────────────────────────────────────────
+
+/** Diff a CriticMarkup-annotated file: changes rejected on the left, accepted on the right */
+async function runCriticMode(file: string, outputOpts: OutputOptions) {
+  let source: string;
+  let title: string;
+  if (file === "-") {
+    source = await readStdin();
+    title = "stdin";
+  } else {
+    const path = resolve(file);
+    if (!existsSync(path)) {
+      logError(`File not found: ${file}`);
+      process.exit(1);
+    }
+    source = readFileSync(path, "utf-8");
+    title = basename(path);
+  }
+
+  const doc = parseCriticMarkup(source);
+  if (doc.changes === 0) {
+    logInfo(`No CriticMarkup changes found in ${title}`);
+  }
+
+  // No paths: the sides are derived from one file, so they aren't re-read on --watch
+  await runSingleFile({
+    left: { content: doc.original, title: `${title} (original)` },
+    right: { content: doc.modified, title: `${title} (accepted)` },
+  }, outputOpts, false);
+}
+
 // ─── Command Setup ───────────────────────────────────────────────────────────
 
 program
@@ -537,21 +221,35 @@ program
   .argument("[files...]", "Files to compare (left.md right.md)")
   .option("-o, --out <file>", "Write HTML to file (use - for stdout)")
   .option("-t, --theme <name>", "Theme: dark (default) or solar", "dark")
-  .option("-m, --match <level>", "Matching sensitivity: strict, normal (default), loose", "normal")
+  .option("-m, --match <level>", "Matching sensitivity: strict, normal (default), loose, or a custom profile", "normal")
+  .option("--ignore-whitespace", "Ignore whitespace-only changes inside code blocks")
+  .option("--render-diagrams", "Draw Graphviz and PlantUML blocks with local dot/plantuml (runs them on the input)")
   .option("-q, --quiet", "Suppress non-essential output")
   .option("-w, --watch", "Watch files and regenerate on changes")
   .option("-p, --preview", "Show diff in terminal (no browser)")
   .option("-j, --json", "Output as JSON")
+  .option("-f, --format <name>", "Output format: html (default), json, text, markdown, critic")
+  .option("-U, --unified <blocks>", "Unchanged blocks shown around each change in text output", "1")
+  .option("--redline-style <style>", "Change markers in markdown output: html (<del>/<ins>, default) or markdown (~~/**)", "html")
   .option("-c, --copy", "Copy HTML to clipboard")
   .option("--no-open", "Don't auto-open in browser")
   .option("--verbose", "Show timing info for each file")
   .option("--debug", "Enable granular debug output")
   .option("--inspect", "Open in Chrome with remote debugging (port 9222)")
+  .option("--serve [port]", "Serve the diff on a local port and live-reload it on changes")
   .option("--settings <file>", "Load settings from JSON file")
+  .option("--config <file>", "Use this project config instead of discovering .mddiffrc / md-diff.config.json")
+  .option("--no-config", "Ignore project config files")
   .option("--git <refs...>", "Compare between git refs: --git <ref1> <ref2> [file]")
   .option("--compare <branch>", "Compare working dir to branch")
   .option("--staged", "Compare staged changes to HEAD")
   .option("--pr <number>", "Compare markdown files in a PR")
+  .option("--merge", "Three-way diff: --merge <base.md> <ours.md> <theirs.md>, or --merge [file] during a git merge")
+  .option("--difftool", "Diff files handed over by git difftool / external diff (see install-git)")
+  .option("--no-batch", "With --difftool: one page per file instead of one per git command")
+  .option("--global", "With install-git: write to the global git config")
+  .option("--attributes", "With install-git: also route .md files in git diff through md-diff")
+  .option("--critic <file>", "Diff a CriticMarkup-annotated file (rejected vs accepted changes)")
   .option("--completions <shell>", "Output shell completion script (bash, zsh, fish)")
   .option("--debug-pair <texts...>", "Debug inline diff for a pair of texts: --debug-pair \"left\" \"right\"");
 
@@ -577,12 +275,23 @@ ${c.bold}Examples${c.reset}
   ${c.dim}# Watch mode with custom theme${c.reset}
   md-diff --watch --theme solar left.md right.md
 
+  ${c.dim}# Live-reloading page for docs changed against main${c.reset}
+  md-diff --serve @main
+
+  ${c.dim}# Word-level text diff for chat or CI logs, 2 context blocks${c.reset}
+  md-diff --format text -U 2 @main
+
   ${c.dim}# Quick terminal preview${c.reset}
   md-diff --preview draft.md final.md
 
   ${c.dim}# Pipe from stdin${c.reset}
   curl -s https://example.com/doc.md | md-diff - local.md
 
+${c.bold}Git Integration${c.reset}
+  ${c.dim}# Register md-diff as a difftool (add --global for all repositories)${c.reset}
+  md-diff install-git
+  git difftool -t md-diff -d @~1
+
 ${c.bold}Shell Completions${c.reset}
   ${c.dim}# Bash (add to ~/.bashrc)${c.reset}
   eval "$(md-diff --completions bash)"
@@ -619,6 +328,7 @@ function printInlineParts(parts: InlinePart[]): void {
       : c.green;
     const flags: string[] = [];
     if (part.minor) flags.push("minor");
+    if (part.formatting) flags.push("formatting");
     if (part.absorbLevel) flags.push(`absorb:${part.absorbLevel}`);
     if (part.children) flags.push(`children:${part.children.length}`);
     const flagStr = flags.length > 0 ? ` ${c.yellow}[${flags.join(", ")}]${c.reset}` : "";
@@ -627,9 +337,15 @@ function printInlineParts(parts: InlinePart[]): void {
 }
 
 /** Print metrics and layout decision for a modified pair */
-function printMetricsAndLayout(sharedWords: number, totalWords: number, pair: DiffPair): void {
+function printMetricsAndLayout(
+  sharedWords: number,
+  totalWords: number,
+  pair: DiffPair,
+  diffOptions: DiffOptions,
+): void {
   const ratio = totalWords > 0 ? sharedWords / totalWords : 0;
-  const sideBySide = isSideBySide(pair);
+  const sideBySide = isSideBySide(pair, diffOptions);
+  const RENDER_CONFIG = diffOptions.render;
 
   console.log(`  ${c.bold}Metrics:${c.reset} shared=${sharedWords} total=${totalWords} ratio=${ratio.toFixed(3)}`);
   console.log(`  ${c.bold}Layout:${c.reset}  ${sideBySide ? `${c.green}side-by-side${c.reset}` : `${c.yellow}stacked${c.reset}`}`);
@@ -640,7 +356,7 @@ function printMetricsAndLayout(sharedWords: number, totalWords: number, pair: Di
   }
 }
 
-function runDebugPair(leftArg: string, rightArg: string): void {
+function runDebugPair(leftArg: string, rightArg: string, diffOptions: DiffOptions): void {
   const left = resolveDebugArg(leftArg);
   const right = resolveDebugArg(rightArg);
 
@@ -649,7 +365,7 @@ function runDebugPair(leftArg: string, rightArg: string): void {
   console.log();
 
   // Run full pipeline to get all pairs
-  const pairs = getPairs(left.content, right.content);
+  const pairs = getPairs(left.content, right.content, diffOptions);
 
   for (let i = 0; i < pairs.length; i++) {
     const pair = pairs[i];
@@ -679,13 +395,28 @@ function runDebugPair(leftArg: string, rightArg: string): void {
         console.log(`  ${c.green}+${c.reset} ${truncate(rightText)}`);
         console.log(`  ${c.bold}Parts:${c.reset}`);
         printInlineParts(pair.inlineDiff);
-        printMetricsAndLayout(pair.metrics.sharedWords, pair.metrics.totalWords, pair);
+        printMetricsAndLayout(pair.metrics.sharedWords, pair.metrics.totalWords, pair, diffOptions);
         break;
       }
       case "split": {
         const text = blockToText(pair.original);
         console.log(`${header}${c.yellow}split${c.reset}   ${truncate(text)}`);
-        console.log(`  ${c.dim}at char ${pair.splitPoint}${c.reset}`);
+        console.log(`  ${c.dim}at char ${pair.splitPoints.join(", ")}${c.reset}`);
+        break;
+      }
+      case "join": {
+        const text = blockToText(pair.joined);
+        console.log(`${header}${c.yellow}join${c.reset}    ${truncate(text)}`);
+        console.log(`  ${c.dim}${pair.originals.length} paragraphs, at char ${pair.joinPoints.join(", ")}${c.reset}`);
+        break;
+      }
+      case "moved": {
+        const text = blockToText(pair.place === "from" ? pair.left : pair.right);
+        const where = pair.place === "from"
+          ? `to line ${pair.right.position?.start.line}`
+          : `from line ${pair.left.position?.start.line}`;
+        console.log(`${header}${c.blue}moved${c.reset}   ${truncate(text)} ${c.dim}[${where}]${c.reset}`);
+        if (pair.place === "to" && pair.inlineDiff) printInlineParts(pair.inlineDiff);
         break;
       }
     }
@@ -694,101 +425,68 @@ function runDebugPair(leftArg: string, rightArg: string): void {
   }
 
   // Summary for multi-pair output
-  if (pairs.length > 1) {
-    const counts = { equal: 0, removed: 0, added: 0, modified: 0, split: 0 };
-    for (const p of pairs) counts[p.status]++;
-    console.log();
-    console.log(
-      `${c.bold}Summary:${c.reset} ${pairs.length} pairs — ` +
-      [
-        counts.equal && `${counts.equal} equal`,
-        counts.modified && `${c.cyan}${counts.modified} modified${c.reset}`,
-        counts.removed && `${c.red}${counts.removed} removed${c.reset}`,
-        counts.added && `${c.green}${counts.added} added${c.reset}`,
-        counts.split && `${c.yellow}${counts.split} split${c.reset}`,
-      ].filter(Boolean).join(", "),
-    );
-  }
+  if (pairs.length > 1) printPairSummary(pairs);
 }
 
-// ─── Main ────────────────────────────────────────────────────────────────────
-
-async function main() {
-  program.parse();
-
-  const options = program.opts();
-  const args = program.args;
-
-  // Load UI settings file if provided (embedded in generated HTML)
-  let uiSettings: UISettings | undefined;
-  if (options.settings) {
-    uiSettings = loadSettingsFile(options.settings);
-    // Apply matching level from settings if specified
-    if (uiSettings.matchLevel) {
-      options.match = uiSettings.matchLevel;
-    }
-  }
-
-  // Completions mode - output and exit
-  if (options.completions) {
-    const shell = options.completions as string;
-    if (!isValidShell(shell)) {
-      logError(`Unknown shell "${shell}"`, "Supported shells: bash, zsh, fish");
-      process.exit(1);
-    }
-    console.log(getCompletion(shell));
-    process.exit(0);
-  }
-
-  // Debug-pair mode - inline diff diagnostics for a single pair
-  if (options.debugPair) {
-    const texts = options.debugPair as string[];
-    if (texts.length < 2) {
-      logError("--debug-pair requires two text arguments", 'Usage: md-diff --debug-pair "left text" "right text"');
-      process.exit(1);
-    }
-    runDebugPair(texts[0], texts[1]);
-    process.exit(0);
-  }
+/** One-line count of each pair status */
+function printPairSummary(pairs: DiffPair[]): void {
+  const counts = { equal: 0, removed: 0, added: 0, modified: 0, split: 0, join: 0, moved: 0 };
+  for (const p of pairs) counts[p.status]++;
+  console.log();
+  console.log(
+    `${c.bold}Summary:${c.reset} ${pairs.length} pairs — ` +
+    [
+      counts.equal && `${counts.equal} equal`,
+      counts.modified && `${c.cyan}${counts.modified} modified${c.reset}`,
+      counts.removed && `${c.red}${counts.removed} removed${c.reset}`,
+      counts.added && `${c.green}${counts.added} added${c.reset}`,
+      counts.split && `${c.yellow}${counts.split} split${c.reset}`,
+      counts.join && `${c.yellow}${counts.join} joined${c.reset}`,
+      counts.moved && `${c.blue}${counts.moved / 2} moved${c.reset}`,
+    ].filter(Boolean).join(", "),
+  );
+}
 
-  // Verbose mode - show timing info
-  if (options.verbose) {
-    (globalThis as Record<string, unknown>).__MD_DIFF_VERBOSE__ = true;
-  }
+// ─── Project Config ──────────────────────────────────────────────────────────
 
-  // Debug mode - granular internals
-  if (options.debug) {
-    (globalThis as Record<string, unknown>).__MD_DIFF_DEBUG__ = true;
-  }
+/** Load --config <file>, or discover a config file from cwd up to the git root (unless --no-config) */
+function resolveProjectConfig(configOption: string | boolean): ProjectConfig {
+  if (configOption === false) return {};
+  const path = typeof configOption === "string"
+    ? resolve(configOption)
+    : findConfigFile(process.cwd(), getGitRoot());
+  if (!path) return {};
 
-  // Validate theme
-  const theme = options.theme as ThemeName;
-  if (theme !== "dark" && theme !== "solar") {
-    logError(`Unknown theme "${theme}"`, "Available themes: dark, solar");
+  try {
+    const config = loadProjectConfig(path);
+    verbose(`Using config ${path}`);
+    return config;
+  } catch (err) {
+    logError((err as Error).message);
     process.exit(1);
   }
+}
 
-  // Validate and set matching level
-  const matchLevel = options.match as string;
-  if (!(matchLevel in MATCHING_LEVELS)) {
-    logError(`Unknown matching level "${matchLevel}"`, "Available levels: strict, normal, loose");
-    process.exit(1);
+/** Fill in options not given on the command line from the project config */
+function applyConfigDefaults(options: Record<string, unknown>, config: ProjectConfig): void {
+  const fromCli = (name: string) => program.getOptionValueSource(name) === "cli";
+
+  if (config.theme && !fromCli("theme")) options.theme = config.theme;
+  if (config.match && !fromCli("match")) options.match = config.match;
+  if (config.out && !fromCli("out")) options.out = config.out;
+  if (config.open === false && !fromCli("open")) options.open = false;
+  // An explicit output flag replaces the configured output mode
+  const outputFromCli = ["format", "json", "preview", "copy"].some(fromCli);
+  if (config.output && config.output !== "html" && !outputFromCli) {
+    if (config.output === "text" || config.output === "markdown" || config.output === "critic") options.format = config.output;
+    else options[config.output] = true;
   }
-  setMatchingLevel(matchLevel as MatchingLevel);
+}
 
-  const outputOpts: OutputOptions = {
-    outFile: options.out || null,
-    theme,
-    quiet: Boolean(options.quiet),
-    noOpen: !options.open,
-    json: Boolean(options.json),
-    preview: Boolean(options.preview),
-    copy: Boolean(options.copy),
-    inspect: Boolean(options.inspect),
-    projectRoot: getGitRoot() || process.cwd(),
-    uiSettings,
-  };
+// ─── Mode Dispatch ───────────────────────────────────────────────────────────
 
+/** Run the mode selected by the flags and arguments, recording the command shown in the page */
+async function runMode(options: OptionValues, args: string[], outputOpts: OutputOptions) {
   const watch = Boolean(options.watch);
 
   // PR mode
@@ -801,7 +499,7 @@ async function main() {
   // Staged mode
   if (options.staged) {
     outputOpts.command = args[0] ? `--staged ${args[0]}` : "--staged";
-    await runStagedMode(args[0], outputOpts);
+    await runStagedMode(args[0], outputOpts, watch);
     return;
   }
 
@@ -812,6 +510,27 @@ async function main() {
     return;
   }
 
+  // Difftool mode
+  if (options.difftool) {
+    outputOpts.command = "--difftool";
+    await runDifftoolMode(args, outputOpts, options.batch !== false);
+    return;
+  }
+
+  // Merge mode
+  if (options.merge) {
+    outputOpts.command = ["--merge", ...args].join(" ");
+    await runMergeMode(args, outputOpts);
+    return;
+  }
+
+  // CriticMarkup mode
+  if (options.critic) {
+    outputOpts.command = `--critic ${options.critic}`;
+    await runCriticMode(options.critic, outputOpts);
+    return;
+  }
+
   // Git mode
   if (options.git) {
     const gitArgs = options.git as string[];
@@ -847,6 +566,99 @@ async function main() {
   await runFileMode(args, outputOpts, watch);
 }
 
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  program.parse();
+
+  const options = program.opts();
+  const args = program.args;
+
+  // Verbose mode - show timing info
+  if (options.verbose) {
+    (globalThis as Record<string, unknown>).__MD_DIFF_VERBOSE__ = true;
+  }
+
+  // Debug mode - granular internals
+  if (options.debug) {
+    (globalThis as Record<string, unknown>).__MD_DIFF_DEBUG__ = true;
+  }
+
+  // Project config provides defaults; anything given on the command line wins
+  const projectConfig = resolveProjectConfig(options.config as string | boolean);
+  applyConfigDefaults(options, projectConfig);
+
+  // Load UI settings file if provided (embedded in generated HTML)
+  let uiSettings: UISettings | undefined = projectConfig.ui;
+  let profiles: Record<string, CustomMatchingProfile> | undefined = projectConfig.profiles;
+  if (options.settings) {
+    const { profiles: fileProfiles, ...fileUiSettings } = loadSettingsFile(options.settings);
+    uiSettings = { ...uiSettings, ...fileUiSettings };
+    profiles = { ...profiles, ...fileProfiles };
+    // Apply matching level from settings unless --match was given explicitly
+    if (fileUiSettings.matchLevel && program.getOptionValueSource("match") !== "cli") {
+      options.match = fileUiSettings.matchLevel;
+    }
+  }
+
+  // Completions mode - output and exit
+  if (options.completions) {
+    const shell = options.completions as string;
+    if (!isValidShell(shell)) {
+      logError(`Unknown shell "${shell}"`, "Supported shells: bash, zsh, fish");
+      process.exit(1);
+    }
+    console.log(getCompletion(shell));
+    process.exit(0);
+  }
+
+  // Git integration setup - configure and exit
+  if (args[0] === "install-git") {
+    runInstallGit(Boolean(options.global), Boolean(options.attributes));
+    process.exit(0);
+  }
+
+  // Validate matching level and build per-run diff options
+  const matchLevel = options.match as string;
+  const availableLevels = listMatchingLevels(profiles);
+  if (!availableLevels.includes(matchLevel)) {
+    logError(`Unknown matching level "${matchLevel}"`, `Available levels: ${availableLevels.join(", ")}`);
+    process.exit(1);
+  }
+  // Local image paths in the documents resolve against the repository (or working directory)
+  const projectRoot = getGitRoot() || process.cwd();
+  const diffOptions = createDiffOptions({
+    matchLevel, profiles, ignoreWhitespace: Boolean(options.ignoreWhitespace), projectRoot,
+    renderDiagrams: Boolean(options.renderDiagrams),
+  });
+  // The viewer opens on the selected level (an explicit --match beats the UI's remembered choice)
+  if (program.getOptionValueSource("match") === "cli" || projectConfig.match || uiSettings?.matchLevel) {
+    uiSettings = { ...uiSettings, matchLevel };
+  }
+
+  // Debug-pair mode - inline diff diagnostics for a single pair
+  if (options.debugPair) {
+    const texts = options.debugPair as string[];
+    if (texts.length < 2) {
+      logError("--debug-pair requires two text arguments", 'Usage: md-diff --debug-pair "left text" "right text"');
+      process.exit(1);
+    }
+    runDebugPair(texts[0], texts[1], diffOptions);
+    process.exit(0);
+  }
+
+  const outputOpts: OutputOptions = {
+    ...parseOutputFlags(options),
+    projectRoot,
+    uiSettings,
+    diffOptions,
+    profiles,
+    pathFilter: createPathFilter(projectConfig) ?? undefined,
+  };
+
+  await runMode(options, args, outputOpts);
+}
+
 main().catch((err) => {
   logError(err.message || String(err));
   process.exit(1);
@@ -0,0 +1,26 @@
+/**
+ * Reading the documents named on the command line.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { resolve } from "node:path";
+import { logError } from "./colors.js";
+
+/** Read a file argument, exiting with an error if it doesn't exist */
+export function readInputFile(file: string): string {
+  const path = resolve(file);
+  if (!existsSync(path)) {
+    logError(`File not found: ${file}`);
+    process.exit(1);
+  }
+  return readFileSync(path, "utf-8");
+}
+
+export function readStdin(): Promise<string> {
+  return new Promise((resolve) => {
+    let data = "";
+    process.stdin.setEncoding("utf-8");
+    process.stdin.on("data", (chunk) => (data += chunk));
+    process.stdin.on("end", () => resolve(data));
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * --merge: three-way view of a merge (base, ours, theirs).
+ */
+
+import { basename } from "node:path";
+import { parseMarkdown, extractBlocks } from "../text/parse.js";
+import { diffThreeWay } from "../core/merge.js";
+import type { MergeTitles } from "../ui/template.js";
+import { logError } from "./colors.js";
+import { getConflictStage, getConflictedMdFiles } from "./git.js";
+import { outputMerge, openInBrowser, type OutputOptions } from "./output.js";
+import { readInputFile } from "./input.js";
+import { filterChangedFiles } from "./multi-file.js";
+import { VERSION } from "./version.js";
+
+/**
+ * Three-way view of a merge: base, ours, theirs.
+ * Takes three files, or a conflicted file whose versions come from the index stages.
+ */
+export async function runMergeMode(args: string[], outputOpts: OutputOptions) {
+  let contents: { base: string; ours: string; theirs: string };
+  let titles: MergeTitles;
+
+  if (args.length === 3) {
+    const [base, ours, theirs] = args;
+    contents = { base: readInputFile(base), ours: readInputFile(ours), theirs: readInputFile(theirs) };
+    titles = { base: basename(base), ours: basename(ours), theirs: basename(theirs) };
+  } else if (args.length <= 1) {
+    let file = args[0];
+    if (!file) {
+      const conflicted = filterChangedFiles(getConflictedMdFiles().map((path) => ({ path })), outputOpts);
+      if (conflicted.length !== 1) {
+        logError(
+          conflicted.length === 0 ? "No conflicted .md files" : "Several conflicted .md files",
+          conflicted.length === 0
+            ? "Usage: md-diff --merge <base.md> <ours.md> <theirs.md>"
+            : `Pick one: ${conflicted.map((f) => f.path).join(", ")}`,
+        );
+        process.exit(1);
+      }
+      file = conflicted[0].path;
+    }
+    contents = { base: getConflictStage(1, file), ours: getConflictStage(2, file), theirs: getConflictStage(3, file) };
+    if (!contents.ours && !contents.theirs) {
+      logError(`File "${file}" has no merge conflict`, "Usage: md-diff --merge [file] during a conflicted merge");
+      process.exit(1);
+    }
+    titles = { base: `${file} (base)`, ours: `${file} (ours)`, theirs: `${file} (theirs)` };
+  } else {
+    logError("Merge mode takes three files or one conflicted file", "Usage: md-diff --merge <base.md> <ours.md> <theirs.md>");
+    process.exit(1);
+  }
+
+  const blocks = (text: string) => extractBlocks(parseMarkdown(text));
+  const rows = diffThreeWay(
+    blocks(contents.base), blocks(contents.ours), blocks(contents.theirs), outputOpts.diffOptions,
+  );
+  const outputPath = await outputMerge(rows, titles, outputOpts, VERSION);
+
+  if (outputPath && !outputOpts.noOpen && !outputOpts.json && !outputOpts.copy) {
+    await openInBrowser(outputPath, outputOpts.inspect);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Multi-file mode: diffs a list of changed files onto one page.
+ * Shared by the git, compare, staged, PR, interactive and difftool modes.
+ */
+
+import { parseMarkdown, extractBlocks } from "../text/parse.js";
+import { diffBlocks, type DiffPair } from "../core/diff.js";
+import { diffDocumentFrontmatter } from "../core/frontmatter.js";
+import { outlineSections } from "../core/sections.js";
+import { renderDiffPairs } from "../render/render.js";
+import type { DiffOptions } from "../config.js";
+import { generateMultiFileHtml, type FileDiff } from "../ui/template.js";
+import { logError, logInfo } from "./colors.js";
+import { createTimer, verbose } from "../debug.js";
+import { outputMultiFile, openInBrowser, pageOptions, type FilePairs, type OutputOptions } from "./output.js";
+import { serveLive } from "./serve.js";
+import { watchRepository, type WatchTarget } from "./watch.js";
+import { VERSION } from "./version.js";
+
+/** Parse both documents and diff their blocks */
+export function getPairs(leftContent: string, rightContent: string, diffOptions: DiffOptions): DiffPair[] {
+  const leftTree = parseMarkdown(leftContent);
+  const rightTree = parseMarkdown(rightContent);
+  const leftBlocks = extractBlocks(leftTree);
+  const rightBlocks = extractBlocks(rightTree);
+  return diffBlocks(leftBlocks, rightBlocks, diffOptions);
+}
+
+// ─── Changed Files ───────────────────────────────────────────────────────────
+
+/** Sort files alphabetically by path (groups files in same directory together) */
+export function sortFilesByPath<T extends { path: string }>(files: T[]): T[] {
+  return [...files].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Apply the project config's files/ignore globs to a changed-file list */
+export function filterChangedFiles<T extends { path: string }>(files: T[], outputOpts: OutputOptions): T[] {
+  const filter = outputOpts.pathFilter;
+  return filter ? files.filter((f) => filter(f.path)) : files;
+}
+
+// ─── Diffing and Output ──────────────────────────────────────────────────────
+
+export interface MultiFileEntry {
+  path: string;
+  leftContent: string;
+  rightContent: string;
+  linesAdded?: number;
+  linesRemoved?: number;
+}
+
+/** Re-reads the changed file list and contents when the repository changes */
+export interface MultiFileSource {
+  load: () => MultiFileEntry[];
+  target: WatchTarget;
+}
+
+/** Diffed files from the previous run, reused while both sides are unchanged */
+type DiffCache = Map<string, { entry: MultiFileEntry; fileDiff: FileDiff; filePairs: FilePairs }>;
+
+function diffFiles(files: MultiFileEntry[], diffOptions: DiffOptions, cache?: DiffCache) {
+  const fileDiffs: FileDiff[] = [];
+  const filesPairs: FilePairs[] = [];
+  let reused = 0;
+
+  verbose(`Processing ${files.length} file(s)...\n`);
+
+  for (const f of files) {
+    const cached = cache?.get(f.path);
+    if (cached && cached.entry.leftContent === f.leftContent && cached.entry.rightContent === f.rightContent) {
+      fileDiffs.push(cached.fileDiff);
+      filesPairs.push(cached.filePairs);
+      reused++;
+      continue;
+    }
+
+    const timer = createTimer(f.path);
+    const pairs = timer.time("diff", () => getPairs(f.leftContent, f.rightContent, diffOptions));
+    const frontmatter = diffDocumentFrontmatter(f.leftContent, f.rightContent);
+    const rows = timer.time("render", () => renderDiffPairs(pairs, diffOptions));
+    const fileDiff: FileDiff = {
+      path: f.path, rows, added: f.linesAdded, removed: f.linesRemoved, frontmatter, outline: outlineSections(pairs),
+    };
+    const filePairs: FilePairs = { path: f.path, pairs, frontmatter };
+    fileDiffs.push(fileDiff);
+    filesPairs.push(filePairs);
+    cache?.set(f.path, { entry: f, fileDiff, filePairs });
+    timer.done();
+  }
+
+  if (cache) {
+    // Drop files that are no longer changed
+    const current = new Set(files.map((f) => f.path));
+    for (const path of cache.keys()) {
+      if (!current.has(path)) cache.delete(path);
+    }
+    if (reused > 0) verbose(`Reused ${reused} unchanged file(s)\n`);
+  }
+
+  return { fileDiffs, filesPairs };
+}
+
+/** Whether the view keeps updating after the first render (--watch or --serve) */
+export function isLive(outputOpts: OutputOptions, watch: boolean): boolean {
+  return watch || outputOpts.serve !== undefined;
+}
+
+export async function runMultiFile(
+  files: MultiFileEntry[],
+  leftTitle: string,
+  rightTitle: string,
+  outputOpts: OutputOptions,
+  source?: MultiFileSource,
+  watch = false,
+) {
+  const cache: DiffCache = new Map();
+
+  if (outputOpts.serve !== undefined) {
+    let firstRender = true;
+    const renderPage = () => {
+      // The first render reuses the files the caller already loaded
+      const current = source && !firstRender ? source.load() : files;
+      firstRender = false;
+      const { fileDiffs } = diffFiles(current, outputOpts.diffOptions, cache);
+      return generateMultiFileHtml(fileDiffs, leftTitle, rightTitle, pageOptions(outputOpts));
+    };
+    await serveLive(renderPage, source ? watchRepository(source.target) : () => {}, outputOpts);
+  }
+
+  const { fileDiffs, filesPairs } = diffFiles(files, outputOpts.diffOptions, cache);
+
+  const outputPath = await outputMultiFile(fileDiffs, filesPairs, leftTitle, rightTitle, outputOpts, VERSION);
+
+  if (watch && source) {
+    logInfo("Watching for changes... (Ctrl+C to stop)");
+    // Regenerate into the same file, so a reload in the browser picks it up
+    const watchOpts: OutputOptions = { ...outputOpts, outFile: outputPath ?? outputOpts.outFile, quiet: true };
+
+    watchRepository(source.target)(async () => {
+      try {
+        const next = diffFiles(source.load(), outputOpts.diffOptions, cache);
+        await outputMultiFile(next.fileDiffs, next.filesPairs, leftTitle, rightTitle, watchOpts, VERSION);
+        logInfo(`[${new Date().toLocaleTimeString()}] Regenerated (${next.fileDiffs.length} file(s))`);
+      } catch (err) {
+        logError(`Failed to reload: ${err}`);
+      }
+    });
+
+    if (!outputOpts.noOpen && outputPath) {
+      await openInBrowser(outputPath, outputOpts.inspect);
+    }
+
+    await new Promise(() => {}); // Keep alive
+  } else if (!outputOpts.noOpen && outputPath && !outputOpts.preview && !outputOpts.json && !outputOpts.copy) {
+    await openInBrowser(outputPath, outputOpts.inspect);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Output flag validation.
+ * Checks the flags that pick the output (theme, format, context, redline
+ * style, --serve) and turns them into OutputOptions fields.
+ * Invalid values exit with an error and a usage hint.
+ */
+
+import type { OptionValues } from "commander";
+import { REDLINE_STYLES, type RedlineStyle } from "../render/markdown.js";
+import type { ThemeName } from "../ui/themes.js";
+import { logError } from "./colors.js";
+import { OUTPUT_FORMATS, type OutputFormat, type OutputOptions } from "./output.js";
+
+/** OutputOptions fields that come straight from command-line flags */
+export type OutputFlags = Pick<
+  OutputOptions,
+  "outFile" | "theme" | "quiet" | "noOpen" | "json" | "preview" | "copy" | "inspect" |
+  "format" | "context" | "redlineStyle" | "serve"
+>;
+
+function parseTheme(value: string): ThemeName {
+  if (value !== "dark" && value !== "solar") {
+    logError(`Unknown theme "${value}"`, "Available themes: dark, solar");
+    process.exit(1);
+  }
+  return value;
+}
+
+/** --format, with --json as shorthand for --format json */
+function parseFormat(options: OptionValues): OutputFormat {
+  const format = (options.format ?? (options.json ? "json" : "html")) as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    logError(`Unknown format "${format}"`, `Available formats: ${OUTPUT_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+  return format;
+}
+
+function parseContext(value: string): number {
+  const context = Number(value);
+  if (!Number.isInteger(context) || context < 0) {
+    logError(`Invalid context "${value}"`, "Usage: -U <blocks>, e.g. -U 0 for changes only");
+    process.exit(1);
+  }
+  return context;
+}
+
+function parseRedlineStyle(value: string): RedlineStyle {
+  const redlineStyle = value as RedlineStyle;
+  if (!REDLINE_STYLES.includes(redlineStyle)) {
+    logError(`Unknown redline style "${value}"`, `Available styles: ${REDLINE_STYLES.join(", ")}`);
+    process.exit(1);
+  }
+  return redlineStyle;
+}
+
+/** --serve port; --serve alone picks a free port */
+function parseServePort(options: OptionValues, format: OutputFormat): number | undefined {
+  if (options.serve === undefined) return undefined;
+  const serve = options.serve === true ? 0 : Number(options.serve);
+  if (!Number.isInteger(serve) || serve < 0 || serve > 65535) {
+    logError(`Invalid port "${options.serve}"`, "Usage: md-diff --serve [port]");
+    process.exit(1);
+  }
+  if (format !== "html" || options.preview || options.copy) {
+    logError("--serve only works with HTML output", "Remove --format, --json, --preview or --copy");
+    process.exit(1);
+  }
+  return serve;
+}
+
+/** Validate the output flags; --merge only supports HTML and JSON pages */
+export function parseOutputFlags(options: OptionValues): OutputFlags {
+  const theme = parseTheme(options.theme as string);
+  const format = parseFormat(options);
+  const context = parseContext(options.unified as string);
+  const redlineStyle = parseRedlineStyle(options.redlineStyle as string);
+
+  if (options.merge && ((format !== "html" && format !== "json") || options.preview || options.serve !== undefined)) {
+    logError("--merge only supports HTML and JSON output", "Remove --format, --preview or --serve");
+    process.exit(1);
+  }
+
+  return {
+    outFile: options.out || null,
+    theme,
+    quiet: Boolean(options.quiet),
+    noOpen: !options.open,
+    json: format === "json" || Boolean(options.json),
+    preview: Boolean(options.preview),
+    copy: Boolean(options.copy),
+    inspect: Boolean(options.inspect),
+    format,
+    context,
+    redlineStyle,
+    serve: parseServePort(options, format),
+  };
+}
@@ -7,14 +7,31 @@ import { join } from "node:path";
 import { homedir, tmpdir } from "node:os";
 import { execSync, spawn } from "node:child_process";
 import type { DiffPair } from "../core/diff.js";
-import type { RenderedRow } from "../render/render.js";
-import { generateHtml, generateMultiFileHtml, type FileDiff } from "../ui/template.js";
-import type { MatchingLevel } from "../config.js";
+import { renderMergeRows, type RenderedRow } from "../render/render.js";
+import type { MergeRow, MergeStatus } from "../core/merge.js";
+import type { FrontmatterDiff } from "../core/frontmatter.js";
+import { outlineSections } from "../core/sections.js";
+import { renderText } from "../render/text.js";
+import { renderMarkdown, type MarkdownRenderOptions, type RedlineStyle } from "../render/markdown.js";
+import {
+  generateHtml,
+  generateMultiFileHtml,
+  generateMergeHtml,
+  type FileDiff,
+  type MergeTitles,
+  type PageOptions,
+  type UISettings,
+} from "../ui/template.js";
+import type { CustomMatchingProfile, DiffOptions, MatchingLevel } from "../config.js";
 import type { ThemeName } from "../ui/themes.js";
 import { c, logSuccess, logError } from "./colors.js";
 import { computeStats, aggregateStats, formatStats, extractTextFromNode, type DiffStats } from "./stats.js";
 
-import type { UISettings } from "./index.js";
+
+/** --format values; "json" is the same as --json */
+export type OutputFormat = "html" | "json" | "text" | "markdown" | "critic";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["html", "json", "text", "markdown", "critic"];
 
 export interface OutputOptions {
   outFile: string | null;
@@ -28,6 +45,27 @@ export interface OutputOptions {
   projectRoot?: string;
   uiSettings?: UISettings;
   command?: string;
+  /** Matching level and thresholds used to compute the diff */
+  diffOptions: DiffOptions;
+  /** Custom matching profiles, rendered as extra levels in the viewer */
+  profiles?: Record<string, CustomMatchingProfile>;
+  /** Restricts multi-file modes to matching paths (from the project config's files/ignore globs) */
+  pathFilter?: (path: string) => boolean;
+  /** Output format (--format); preview and copy still apply to html */
+  format: OutputFormat;
+  /** Unchanged context blocks around each change in text output (-U) */
+  context?: number;
+  /** How markdown output marks changes (--redline-style) */
+  redlineStyle?: RedlineStyle;
+  /** Serve the page on this port with live reload (--serve); 0 picks a free port */
+  serve?: number;
+}
+
+/** One file's diff in multi-file modes */
+export interface FilePairs {
+  path: string;
+  pairs: DiffPair[];
+  frontmatter?: FrontmatterDiff | null;
 }
 
 // ─── Terminal Preview ───────────────────────────────────────────────────────
@@ -77,6 +115,15 @@ export function renderPreview(pairs: DiffPair[]): string {
         }
         break;
       }
+      case "moved": {
+        // Shown once, where it now is
+        if (pair.place === "to") {
+          const text = extractTextFromNode(pair.right).substring(0, 80);
+          const from = pair.left.position?.start.line;
+          lines.push(`${c.blue}> ${text}${text.length >= 80 ? "..." : ""} ${c.dim}(moved from line ${from})${c.reset}`);
+        }
+        break;
+      }
     }
   }
 
@@ -90,13 +137,14 @@ export function generateJson(
   leftTitle: string,
   rightTitle: string,
   version: string,
+  frontmatter?: FrontmatterDiff | null,
 ): string {
-  const stats = computeStats(pairs);
-  return JSON.stringify({ version, leftTitle, rightTitle, stats, pairs }, null, 2);
+  const stats = computeStats(pairs, frontmatter);
+  return JSON.stringify({ version, leftTitle, rightTitle, stats, frontmatter, pairs }, null, 2);
 }
 
 export function generateMultiFileJson(
-  files: Array<{ path: string; pairs: DiffPair[] }>,
+  files: FilePairs[],
   leftTitle: string,
   rightTitle: string,
   version: string,
@@ -131,6 +179,26 @@ function log(msg: string, quiet: boolean): void {
   if (!quiet) console.log(msg);
 }
 
+/** Redline style for --format markdown; --format critic forces CriticMarkup */
+function redlineStyle(opts: OutputOptions): MarkdownRenderOptions["style"] {
+  return opts.format === "critic" ? "critic" : opts.redlineStyle;
+}
+
+/** Theme and header details for the HTML page */
+export function pageOptions(opts: OutputOptions): PageOptions {
+  return { theme: opts.theme, uiSettings: opts.uiSettings, projectRoot: opts.projectRoot, command: opts.command };
+}
+
+/** Write plain-text output to --out, or stdout */
+function writeTextOutput(text: string, opts: OutputOptions, label = "Text"): void {
+  if (opts.outFile && opts.outFile !== "-") {
+    writeFileSync(opts.outFile, text, "utf-8");
+    logSuccess(`${label} written to: ${opts.outFile}`);
+  } else {
+    process.stdout.write(text);
+  }
+}
+
 export async function outputSingleFile(
   pairs: DiffPair[],
   rows: RenderedRow[],
@@ -138,9 +206,12 @@ export async function outputSingleFile(
   rightTitle: string,
   opts: OutputOptions,
   version: string,
-  rowsByLevel?: Record<MatchingLevel, RenderedRow[]>,
+  { rowsByLevel, frontmatter }: {
+    rowsByLevel?: Partial<Record<MatchingLevel, RenderedRow[]>>;
+    frontmatter?: FrontmatterDiff | null;
+  } = {},
 ): Promise<string | undefined> {
-  const stats = computeStats(pairs);
+  const stats = computeStats(pairs, frontmatter);
 
   // Preview mode
   if (opts.preview) {
@@ -150,9 +221,22 @@ export async function outputSingleFile(
     return;
   }
 
+  // Text mode
+  if (opts.format === "text") {
+    writeTextOutput(renderText(pairs, leftTitle, rightTitle, { context: opts.context, frontmatter }), opts);
+    return;
+  }
+
+  // Markdown redline and CriticMarkup modes
+  if (opts.format === "markdown" || opts.format === "critic") {
+    const markdown = renderMarkdown(pairs, { style: redlineStyle(opts), frontmatter });
+    writeTextOutput(markdown, opts, "Markdown");
+    return;
+  }
+
   // JSON mode
   if (opts.json) {
-    const json = generateJson(pairs, leftTitle, rightTitle, version);
+    const json = generateJson(pairs, leftTitle, rightTitle, version, frontmatter);
     if (opts.outFile === "-") {
       process.stdout.write(json);
     } else if (opts.outFile) {
@@ -164,7 +248,9 @@ export async function outputSingleFile(
     return;
   }
 
-  const html = generateHtml(rows, leftTitle, rightTitle, opts.theme, rowsByLevel, opts.uiSettings, opts.projectRoot, opts.command);
+  const html = generateHtml(rows, leftTitle, rightTitle, {
+    ...pageOptions(opts), rowsByLevel, frontmatter, outline: outlineSections(pairs),
+  });
 
   // Copy mode
   if (opts.copy) {
@@ -196,13 +282,13 @@ export async function outputSingleFile(
 
 export async function outputMultiFile(
   fileDiffs: FileDiff[],
-  filesPairs: Array<{ path: string; pairs: DiffPair[] }>,
+  filesPairs: FilePairs[],
   leftTitle: string,
   rightTitle: string,
   opts: OutputOptions,
   version: string,
 ): Promise<string | undefined> {
-  const stats = aggregateStats(filesPairs.map((f) => computeStats(f.pairs)));
+  const stats = aggregateStats(filesPairs.map((f) => computeStats(f.pairs, f.frontmatter)));
 
   // Preview mode
   if (opts.preview) {
@@ -214,6 +300,25 @@ export async function outputMultiFile(
     return;
   }
 
+  // Text mode
+  if (opts.format === "text") {
+    const text = filesPairs
+      .map(({ path, pairs, frontmatter }) => renderText(pairs, `a/${path}`, `b/${path}`, { context: opts.context, frontmatter }))
+      .join("");
+    writeTextOutput(text, opts);
+    return;
+  }
+
+  // Markdown redline and CriticMarkup modes: one section per file
+  // (headers are left out; mid-document they would not parse as frontmatter)
+  if (opts.format === "markdown" || opts.format === "critic") {
+    const markdown = filesPairs
+      .map(({ path, pairs }) => `**${path}**\n\n` + renderMarkdown(pairs, { style: redlineStyle(opts) }))
+      .join("\n---\n\n");
+    writeTextOutput(markdown, opts, "Markdown");
+    return;
+  }
+
   // JSON mode
   if (opts.json) {
     const json = generateMultiFileJson(filesPairs, leftTitle, rightTitle, version, stats);
@@ -228,7 +333,7 @@ export async function outputMultiFile(
     return;
   }
 
-  const html = generateMultiFileHtml(fileDiffs, leftTitle, rightTitle, opts.theme, undefined, opts.projectRoot, opts.command);
+  const html = generateMultiFileHtml(fileDiffs, leftTitle, rightTitle, pageOptions(opts));
 
   // Copy mode
   if (opts.copy) {
@@ -258,6 +363,73 @@ export async function outputMultiFile(
   return outputPath;
 }
 
+// ─── Three-Way Output ───────────────────────────────────────────────────────
+
+/** Rows per merge status, for the summary line and JSON output */
+function countMergeRows(rows: MergeRow[]): Record<MergeStatus, number> {
+  const counts: Record<MergeStatus, number> = { equal: 0, ours: 0, theirs: 0, both: 0, conflict: 0 };
+  for (const row of rows) counts[row.status]++;
+  return counts;
+}
+
+function formatMergeCounts(counts: Record<MergeStatus, number>): string {
+  const merged = counts.ours + counts.theirs + counts.both;
+  const conflicts = counts.conflict > 0
+    ? `${c.bold}${c.red}${counts.conflict}${c.reset} conflict${counts.conflict !== 1 ? "s" : ""}`
+    : `${c.green}no conflicts${c.reset}`;
+  return `${conflicts}, ${c.bold}${merged}${c.reset} block${merged !== 1 ? "s" : ""} merge cleanly`;
+}
+
+export async function outputMerge(
+  rows: MergeRow[],
+  titles: MergeTitles,
+  opts: OutputOptions,
+  version: string,
+): Promise<string | undefined> {
+  const counts = countMergeRows(rows);
+
+  // JSON mode
+  if (opts.json) {
+    const json = JSON.stringify({ version, titles, counts, rows }, null, 2);
+    if (opts.outFile && opts.outFile !== "-") {
+      writeFileSync(opts.outFile, json, "utf-8");
+      logSuccess(`JSON written to: ${opts.outFile}`);
+    } else {
+      console.log(json);
+    }
+    return;
+  }
+
+  const html = generateMergeHtml(renderMergeRows(rows, opts.diffOptions), titles, pageOptions(opts));
+
+  // Copy mode
+  if (opts.copy) {
+    const success = await copyToClipboard(html);
+    if (success) {
+      logSuccess("HTML copied to clipboard");
+      log(formatMergeCounts(counts), opts.quiet);
+    } else {
+      logError("Failed to copy to clipboard");
+    }
+    return;
+  }
+
+  // Stdout mode
+  if (opts.outFile === "-") {
+    process.stdout.write(html);
+    return;
+  }
+
+  // File output
+  const outputPath = opts.outFile || join(mkdtempSync(join(tmpdir(), "md-diff-")), "merge.html");
+  writeFileSync(outputPath, html, "utf-8");
+
+  log(`${c.dim}Written to:${c.reset} ${outputPath}`, opts.quiet);
+  log(formatMergeCounts(counts), opts.quiet);
+
+  return outputPath;
+}
+
 export async function openInBrowser(path: string, inspect = false): Promise<void> {
   if (inspect) {
     await openInChromeDebug(path);
@@ -0,0 +1,130 @@
+/**
+ * Local HTTP server for --serve.
+ * Hosts the diff page and pushes a "reload" Server-Sent Event when the
+ * sources change; the page keeps its active file and scroll position.
+ * serveLive() runs the server for a CLI mode until it is stopped.
+ */
+
+import { createServer, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { watchFile } from "node:fs";
+import { logError, logInfo } from "./colors.js";
+import { openInBrowser, type OutputOptions } from "./output.js";
+
+/** Endpoint the page subscribes to with EventSource */
+export const EVENTS_PATH = "/__md-diff/events";
+
+export interface DiffServer {
+  /** Base URL of the page, e.g. http://127.0.0.1:4280/ */
+  url: string;
+  /** Re-render the page and tell connected browsers to reload */
+  reload(): void;
+  close(): Promise<void>;
+}
+
+/** Mark the page so its script connects to the event stream */
+function withLiveReload(html: string): string {
+  return html.replace("<html ", `<html data-live-reload="${EVENTS_PATH}" `);
+}
+
+/**
+ * Start serving the page produced by render().
+ * If a re-render throws, the previous page stays up and onError is called.
+ */
+export function startDiffServer(
+  render: () => string,
+  port: number,
+  onError: (err: unknown) => void = () => {},
+): Promise<DiffServer> {
+  let html = withLiveReload(render());
+  let version = 0;
+  const clients = new Set<ServerResponse>();
+
+  const server = createServer((req, res) => {
+    const path = (req.url ?? "/").split("?")[0];
+
+    if (path === EVENTS_PATH) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.write("retry: 1000\n\n");
+      clients.add(res);
+      req.on("close", () => clients.delete(res));
+      return;
+    }
+
+    if (path === "/" || path === "/index.html") {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" });
+      res.end(html);
+      return;
+    }
+
+    res.writeHead(404, { "Content-Type": "text/plain" });
+    res.end("Not found");
+  });
+
+  const reload = () => {
+    try {
+      html = withLiveReload(render());
+    } catch (err) {
+      onError(err);
+      return;
+    }
+    version++;
+    for (const client of clients) {
+      client.write(`event: reload\ndata: ${version}\n\n`);
+    }
+  };
+
+  const close = () => new Promise<void>((resolve) => {
+    for (const client of clients) client.end();
+    clients.clear();
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      const { port: actualPort } = server.address() as AddressInfo;
+      resolve({ url: `http://127.0.0.1:${actualPort}/`, reload, close });
+    });
+  });
+}
+
+// ─── Serve Mode ──────────────────────────────────────────────────────────────
+
+/** Subscribes to source changes, calling onChange after each one */
+export type WatchSources = (onChange: () => void) => void;
+
+/** Poll individual files for changes (explicit file paths) */
+export function watchPaths(paths: string[]): WatchSources {
+  return (onChange) => {
+    for (const path of paths) watchFile(path, { interval: 500 }, onChange);
+  };
+}
+
+/** Serve the page from renderPage() and reload it whenever the sources change (never returns) */
+export async function serveLive(
+  renderPage: () => string,
+  watchSources: WatchSources,
+  outputOpts: OutputOptions,
+): Promise<never> {
+  const server = await startDiffServer(renderPage, outputOpts.serve ?? 0, (err) => {
+    logError(`Failed to reload: ${err}`);
+  });
+  logInfo(`Serving at ${server.url} (Ctrl+C to stop)`);
+
+  watchSources(() => {
+    server.reload();
+    logInfo(`[${new Date().toLocaleTimeString()}] Reloaded`);
+  });
+
+  if (!outputOpts.noOpen) {
+    await openInBrowser(server.url, outputOpts.inspect);
+  }
+
+  return new Promise<never>(() => {}); // Keep alive
+}
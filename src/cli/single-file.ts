@@ -0,0 +1,121 @@
+/**
+ * Single-file mode: one pair of documents on one page.
+ * Used for file arguments, stdin, --critic and the single-file variants of the git modes.
+ */
+
+import { readFileSync, watchFile } from "node:fs";
+import { diffDocumentFrontmatter } from "../core/frontmatter.js";
+import { outlineSections } from "../core/sections.js";
+import { renderDiffPairs, type RenderedRow } from "../render/render.js";
+import {
+  createDiffOptions,
+  listMatchingLevels,
+  type CustomMatchingProfile,
+  type DiffOptions,
+  type MatchingLevel,
+} from "../config.js";
+import { generateHtml } from "../ui/template.js";
+import { logError, logInfo } from "./colors.js";
+import { createTimer } from "../debug.js";
+import { outputSingleFile, openInBrowser, pageOptions, type OutputOptions } from "./output.js";
+import { serveLive, watchPaths } from "./serve.js";
+import { getPairs } from "./multi-file.js";
+import { VERSION } from "./version.js";
+
+/** Compute rendered rows at every matching level (built-in and custom profiles), keeping the other options */
+function getRowsAtAllLevels(
+  leftContent: string,
+  rightContent: string,
+  profiles: Record<string, CustomMatchingProfile> | undefined,
+  { ignoreWhitespace, projectRoot, renderDiagrams }: DiffOptions,
+): Partial<Record<MatchingLevel, RenderedRow[]>> {
+  const result: Partial<Record<MatchingLevel, RenderedRow[]>> = {};
+
+  for (const level of listMatchingLevels(profiles)) {
+    const levelOptions = createDiffOptions({
+      matchLevel: level, profiles, ignoreWhitespace, projectRoot, renderDiagrams,
+    });
+    const pairs = getPairs(leftContent, rightContent, levelOptions);
+    result[level] = renderDiffPairs(pairs, levelOptions);
+  }
+
+  return result;
+}
+
+export interface SingleFileInput {
+  left: { content: string; title: string; path?: string };
+  right: { content: string; title: string; path?: string };
+}
+
+export async function runSingleFile(input: SingleFileInput, outputOpts: OutputOptions, watch: boolean) {
+  let { left, right } = input;
+
+  if (outputOpts.serve !== undefined) {
+    const renderPage = () => {
+      if (left.path) left = { ...left, content: readFileSync(left.path, "utf-8") };
+      if (right.path) right = { ...right, content: readFileSync(right.path, "utf-8") };
+      const pairs = getPairs(left.content, right.content, outputOpts.diffOptions);
+      const rows = renderDiffPairs(pairs, outputOpts.diffOptions);
+      const rowsByLevel = getRowsAtAllLevels(
+        left.content, right.content, outputOpts.profiles, outputOpts.diffOptions,
+      );
+      return generateHtml(rows, left.title, right.title, {
+        ...pageOptions(outputOpts),
+        rowsByLevel,
+        frontmatter: diffDocumentFrontmatter(left.content, right.content),
+        outline: outlineSections(pairs),
+      });
+    };
+    const paths = [left.path, right.path].filter((p): p is string => Boolean(p));
+    await serveLive(renderPage, watchPaths(paths), outputOpts);
+  }
+
+  // Regenerations in watch mode overwrite the first output file instead of creating new temp files
+  let opts = outputOpts;
+  const generateOutput = async () => {
+    const timer = createTimer(`${left.title} → ${right.title}`);
+    const pairs = timer.time("diff", () => getPairs(left.content, right.content, outputOpts.diffOptions));
+    const frontmatter = diffDocumentFrontmatter(left.content, right.content);
+    const rows = timer.time("render", () => renderDiffPairs(pairs, outputOpts.diffOptions));
+    // Compute all matching levels for UI switching
+    const rowsByLevel = timer.time("multi-level", () =>
+      getRowsAtAllLevels(left.content, right.content, outputOpts.profiles, outputOpts.diffOptions),
+    );
+    const result = await timer.timeAsync("output", () =>
+      outputSingleFile(pairs, rows, left.title, right.title, opts, VERSION, { rowsByLevel, frontmatter }),
+    );
+    timer.done();
+    return result;
+  };
+
+  const outputPath = await generateOutput();
+  if (outputPath) opts = { ...outputOpts, outFile: outputPath };
+
+  if (watch && left.path && right.path) {
+    logInfo("Watching for changes... (Ctrl+C to stop)");
+    const leftPath = left.path;
+    const rightPath = right.path;
+
+    const reloadFn = async () => {
+      try {
+        left = { ...left, content: readFileSync(leftPath, "utf-8") };
+        right = { ...right, content: readFileSync(rightPath, "utf-8") };
+        await generateOutput();
+        logInfo(`[${new Date().toLocaleTimeString()}] Regenerated`);
+      } catch (err) {
+        logError(`Failed to reload: ${err}`);
+      }
+    };
+
+    watchFile(leftPath, { interval: 500 }, reloadFn);
+    watchFile(rightPath, { interval: 500 }, reloadFn);
+
+    if (!outputOpts.noOpen && outputPath) {
+      await openInBrowser(outputPath, outputOpts.inspect);
+    }
+
+    await new Promise(() => {}); // Keep alive
+  } else if (!outputOpts.noOpen && outputPath && !outputOpts.preview && !outputOpts.json && !outputOpts.copy) {
+    await openInBrowser(outputPath, outputOpts.inspect);
+  }
+}
@@ -2,7 +2,9 @@
  * Diff statistics computation and formatting.
  */
 
-import type { DiffPair } from "../core/diff.js";
+import type { DiffPair, ModifiedPair, MovedPair } from "../core/diff.js";
+import type { FrontmatterDiff } from "../core/frontmatter.js";
+import { countRetyped } from "../core/container-diff.js";
 import { c } from "./colors.js";
 
 export interface DiffStats {
@@ -11,8 +13,23 @@ export interface DiffStats {
   blocksModified: number;
   blocksAdded: number;
   blocksRemoved: number;
+  /** Whole blocks that moved, counted once; words edited on the way are counted as added and removed */
+  blocksMoved: number;
+  /** Sections that moved as a whole, counted once; their unchanged blocks are counted as equal */
+  sectionsMoved: number;
+  /** Paragraphs broken into several, or several run together; the text itself is unchanged */
+  blocksSplit: number;
+  blocksJoined: number;
   wordsAdded: number;
   wordsRemoved: number;
+  /** Frontmatter keys, counted apart from the body blocks */
+  keysAdded: number;
+  keysRemoved: number;
+  keysChanged: number;
+  /** Callout types or directive names changed (NOTE → WARNING), counted apart from the text */
+  containersRetyped: number;
+  /** Bold, italic, code or strikethrough toggled on unchanged text; those words aren't counted as added or removed */
+  formattingChanged: number;
 }
 
 function countWords(text: string): number {
@@ -29,30 +46,58 @@ export function extractTextFromNode(node: unknown): string {
   return "";
 }
 
-export function computeStats(pairs: DiffPair[]): DiffStats {
+/** Add a modified or moved block's changed words and formatting changes; renumbered footnotes aren't counted */
+function countInlineChanges(stats: DiffStats, pair: ModifiedPair | MovedPair): void {
+  const code = pair.status === "modified" && pair.codeDiff;
+  for (const part of pair.inlineDiff ?? []) {
+    // A renumbered footnote is the same footnote: no words changed
+    if (part.renumbered) continue;
+    // In code blocks `*` and backticks are code, not formatting
+    if (part.formatting && !code) {
+      if (part.type === "added") stats.formattingChanged++;
+    } else if (part.type === "added") {
+      stats.wordsAdded += countWords(part.value);
+    } else if (part.type === "removed") {
+      stats.wordsRemoved += countWords(part.value);
+    }
+  }
+}
+
+export function computeStats(pairs: DiffPair[], frontmatter?: FrontmatterDiff | null): DiffStats {
   const stats: DiffStats = {
     filesChanged: 1,
     blocksEqual: 0,
     blocksModified: 0,
     blocksAdded: 0,
     blocksRemoved: 0,
+    blocksMoved: 0,
+    sectionsMoved: 0,
+    blocksSplit: 0,
+    blocksJoined: 0,
     wordsAdded: 0,
     wordsRemoved: 0,
+    keysAdded: 0,
+    keysRemoved: 0,
+    keysChanged: 0,
+    containersRetyped: countRetyped(pairs),
+    formattingChanged: 0,
   };
 
+  for (const change of frontmatter?.changes ?? []) {
+    if (change.status === "added") stats.keysAdded++;
+    if (change.status === "removed") stats.keysRemoved++;
+    if (change.status === "changed") stats.keysChanged++;
+  }
+
   for (const pair of pairs) {
+    if ((pair.status === "equal" || pair.status === "modified") && pair.sectionMoved) stats.sectionsMoved++;
     switch (pair.status) {
       case "equal":
         stats.blocksEqual++;
         break;
       case "modified":
         stats.blocksModified++;
-        if (pair.inlineDiff) {
-          for (const part of pair.inlineDiff) {
-            if (part.type === "added") stats.wordsAdded += countWords(part.value);
-            if (part.type === "removed") stats.wordsRemoved += countWords(part.value);
-          }
-        }
+        countInlineChanges(stats, pair);
         break;
       case "added":
         stats.blocksAdded++;
@@ -66,6 +111,19 @@ export function computeStats(pairs: DiffPair[]): DiffStats {
           stats.wordsRemoved += countWords(extractTextFromNode(pair.left));
         }
         break;
+      case "split":
+        stats.blocksSplit++;
+        break;
+      case "join":
+        stats.blocksJoined++;
+        break;
+      case "moved":
+        // Listed at both places; counted at the new one
+        if (pair.place === "to") {
+          stats.blocksMoved++;
+          countInlineChanges(stats, pair);
+        }
+        break;
     }
   }
 
@@ -80,8 +138,17 @@ export function aggregateStats(allStats: DiffStats[]): DiffStats {
       blocksModified: acc.blocksModified + stats.blocksModified,
       blocksAdded: acc.blocksAdded + stats.blocksAdded,
       blocksRemoved: acc.blocksRemoved + stats.blocksRemoved,
+      blocksMoved: acc.blocksMoved + stats.blocksMoved,
+      sectionsMoved: acc.sectionsMoved + stats.sectionsMoved,
+      blocksSplit: acc.blocksSplit + stats.blocksSplit,
+      blocksJoined: acc.blocksJoined + stats.blocksJoined,
       wordsAdded: acc.wordsAdded + stats.wordsAdded,
       wordsRemoved: acc.wordsRemoved + stats.wordsRemoved,
+      keysAdded: acc.keysAdded + stats.keysAdded,
+      keysRemoved: acc.keysRemoved + stats.keysRemoved,
+      keysChanged: acc.keysChanged + stats.keysChanged,
+      containersRetyped: acc.containersRetyped + stats.containersRetyped,
+      formattingChanged: acc.formattingChanged + stats.formattingChanged,
     }),
     {
       filesChanged: 0,
@@ -89,8 +156,17 @@ export function aggregateStats(allStats: DiffStats[]): DiffStats {
       blocksModified: 0,
       blocksAdded: 0,
       blocksRemoved: 0,
+      blocksMoved: 0,
+      sectionsMoved: 0,
+      blocksSplit: 0,
+      blocksJoined: 0,
       wordsAdded: 0,
       wordsRemoved: 0,
+      keysAdded: 0,
+      keysRemoved: 0,
+      keysChanged: 0,
+      containersRetyped: 0,
+      formattingChanged: 0,
     },
   );
 }
@@ -107,6 +183,26 @@ export function formatStats(stats: DiffStats): string {
     parts.push(`${c.bold}${blockChanges}${c.reset} block${blockChanges !== 1 ? "s" : ""} changed`);
   }
 
+  if (stats.blocksMoved > 0) {
+    const n = stats.blocksMoved;
+    parts.push(`${c.bold}${n}${c.reset} block${n !== 1 ? "s" : ""} moved`);
+  }
+
+  if (stats.sectionsMoved > 0) {
+    const n = stats.sectionsMoved;
+    parts.push(`${c.bold}${n}${c.reset} section${n !== 1 ? "s" : ""} moved`);
+  }
+
+  if (stats.blocksSplit > 0) {
+    const n = stats.blocksSplit;
+    parts.push(`${c.bold}${n}${c.reset} paragraph${n !== 1 ? "s" : ""} split`);
+  }
+
+  if (stats.blocksJoined > 0) {
+    const n = stats.blocksJoined;
+    parts.push(`${c.bold}${n}${c.reset} paragraph join${n !== 1 ? "s" : ""}`);
+  }
+
   if (stats.wordsAdded > 0) {
     parts.push(`${c.green}+${stats.wordsAdded}${c.reset} words`);
   }
@@ -115,6 +211,21 @@ export function formatStats(stats: DiffStats): string {
     parts.push(`${c.red}-${stats.wordsRemoved}${c.reset} words`);
   }
 
+  const keyChanges = stats.keysAdded + stats.keysRemoved + stats.keysChanged;
+  if (keyChanges > 0) {
+    parts.push(`${c.bold}${keyChanges}${c.reset} frontmatter key${keyChanges !== 1 ? "s" : ""} changed`);
+  }
+
+  if (stats.containersRetyped > 0) {
+    const n = stats.containersRetyped;
+    parts.push(`${c.bold}${n}${c.reset} container type${n !== 1 ? "s" : ""} changed`);
+  }
+
+  if (stats.formattingChanged > 0) {
+    const n = stats.formattingChanged;
+    parts.push(`${c.bold}${n}${c.reset} formatting change${n !== 1 ? "s" : ""}`);
+  }
+
   if (parts.length === 0) {
     return `${c.dim}No changes${c.reset}`;
   }
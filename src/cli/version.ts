@@ -0,0 +1,17 @@
+/**
+ * Package version, shown by --version and embedded in the output.
+ */
+
+import { readFileSync } from "node:fs";
+
+function getVersion(): string {
+  try {
+    const pkgPath = new URL("../package.json", import.meta.url);
+    const pkg = JSON.parse(readFileSync(pkgPath, "utf-8"));
+    return pkg.version || "unknown";
+  } catch {
+    return "unknown";
+  }
+}
+
+export const VERSION = getVersion();
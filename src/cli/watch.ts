@@ -0,0 +1,163 @@
+/**
+ * Repository watcher for --watch / --serve in multi-file git modes.
+ * Watches the directories that hold .md files (plus new subdirectories git
+ * doesn't ignore) and the git state files, and reports changes in debounced
+ * batches. Directory trees are watched one directory at a time: recursive
+ * fs.watch needs Node 20 on Linux.
+ */
+
+import { watch, readdirSync, statSync, type FSWatcher } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { getAllMdFiles, getGitDir, getGitRoot, isGitIgnored } from "./git.js";
+import type { WatchSources } from "./serve.js";
+
+/**
+ * What a view depends on:
+ * - worktree: working-tree .md files (--compare, @branch)
+ * - index: the staging area only (--staged)
+ * Both also follow HEAD and refs, so commits and checkouts are picked up.
+ */
+export type WatchTarget = "worktree" | "index";
+
+export interface RepoWatchOptions {
+  /** Repository root (working tree) */
+  root: string;
+  /** Absolute .git directory */
+  gitDir: string;
+  target: WatchTarget;
+  /** Repo-relative .md paths; their directories are watched */
+  listFiles: () => string[];
+  /** Called once per batch of changes with the changed paths */
+  onChange: (changed: string[]) => void;
+  /** Whether git ignores a path; new directories it ignores (node_modules, build output) aren't watched */
+  isIgnored?: (path: string) => boolean;
+  debounceMs?: number;
+}
+
+export interface RepoWatcher {
+  close(): void;
+}
+
+/** Files in the git directory whose changes affect a diff against the index or a ref */
+const GIT_STATE_FILES = new Set(["index", "HEAD", "packed-refs"]);
+
+/** Every directory containing one of the files, plus its ancestors up to root */
+export function markdownDirs(root: string, files: string[]): Set<string> {
+  const base = resolve(root);
+  const dirs = new Set<string>([base]);
+  for (const file of files) {
+    let dir = dirname(resolve(base, file));
+    while (dir.startsWith(base) && !dirs.has(dir)) {
+      dirs.add(dir);
+      dir = dirname(dir);
+    }
+  }
+  return dirs;
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+export function watchRepo(options: RepoWatchOptions): RepoWatcher {
+  const { root, gitDir, target, listFiles, onChange, isIgnored = () => false, debounceMs = 300 } = options;
+  const watchers = new Map<string, FSWatcher>();
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  const flush = () => {
+    if (closed) return;
+    // Newly created .md files may live in directories we haven't seen yet
+    if (target === "worktree") watchMarkdownDirs();
+    const changed = [...pending];
+    pending.clear();
+    onChange(changed);
+  };
+
+  const schedule = (path: string) => {
+    pending.add(path);
+    clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  const watchDir = (dir: string, listener: (name: string) => void) => {
+    if (watchers.has(dir)) return;
+    try {
+      const watcher = watch(dir, (_event, name) => {
+        if (name) listener(name.toString());
+      });
+      // Deleted directories error out; forget them so they can be re-added
+      watcher.on("error", () => {
+        watcher.close();
+        watchers.delete(dir);
+      });
+      watchers.set(dir, watcher);
+    } catch {
+      // Directory vanished between listing and watching
+    }
+  };
+
+  const onWorktreeEvent = (dir: string) => (name: string) => {
+    const path = join(dir, name);
+    if (name.endsWith(".md")) {
+      schedule(path);
+    } else if (isDirectory(path) && !isIgnored(path)) {
+      watchDir(path, onWorktreeEvent(path));
+      schedule(path);
+    }
+  };
+
+  /** A directory and every directory below it, including ones created later */
+  const watchTree = (dir: string, onPath: (path: string) => void) => {
+    watchDir(dir, (name) => {
+      const path = join(dir, name);
+      if (isDirectory(path)) watchTree(path, onPath);
+      onPath(path);
+    });
+    try {
+      for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        if (entry.isDirectory()) watchTree(join(dir, entry.name), onPath);
+      }
+    } catch {
+      // Directory vanished before it could be listed
+    }
+  };
+
+  const watchMarkdownDirs = () => {
+    for (const dir of markdownDirs(root, listFiles())) {
+      watchDir(dir, onWorktreeEvent(dir));
+    }
+  };
+
+  // Staging rewrites the index; commits, checkouts and fetches move HEAD and refs
+  watchDir(gitDir, (name) => {
+    if (GIT_STATE_FILES.has(name)) schedule(join(gitDir, name));
+  });
+  watchTree(join(gitDir, "refs"), schedule);
+
+  if (target === "worktree") watchMarkdownDirs();
+
+  return {
+    close() {
+      closed = true;
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
+
+/** Watch the working tree or index of the current repository */
+export function watchRepository(target: WatchTarget): WatchSources {
+  return (onChange) => {
+    const root = getGitRoot();
+    const gitDir = getGitDir();
+    if (!root || !gitDir) return;
+    watchRepo({ root, gitDir, target, listFiles: getAllMdFiles, onChange, isIgnored: isGitIgnored });
+  };
+}
@@ -4,11 +4,41 @@
  */
 
 /**
- * Matching sensitivity levels for block pairing
+ * Built-in matching sensitivity levels for block pairing
  */
-export type MatchingLevel = "strict" | "normal" | "loose";
+export type BuiltinMatchingLevel = "strict" | "normal" | "loose";
 
-export const MATCHING_LEVELS: Record<MatchingLevel, { similarity: number; sharedWords: number }> = {
+/**
+ * Name of a matching profile: one of the built-in levels or a custom profile.
+ * (`string & {}` keeps editor completion for the built-in names.)
+ */
+export type MatchingLevel = BuiltinMatchingLevel | (string & {});
+
+/**
+ * Thresholds of a matching profile.
+ * Built-in levels only set `similarity` and `sharedWords`; custom profiles can
+ * also tune move detection and the side-by-side layout decision.
+ */
+export interface MatchingProfile {
+  /** Minimum bigram similarity (0-1) to match blocks (BLOCK_CONFIG.SIMILARITY_THRESHOLD) */
+  similarity: number;
+  /** Minimum shared contiguous words to pair blocks (WORD_CONFIG.MIN_SHARED_FOR_PAIRING) */
+  sharedWords: number;
+  /** Minimum shared words to detect moved text (WORD_CONFIG.MIN_SHARED_FOR_MOVED) */
+  minSharedForMoved?: number;
+  /** Minimum segment length for moved text detection (WORD_CONFIG.MIN_SEGMENT_LENGTH_FOR_MOVED) */
+  minSegmentLengthForMoved?: number;
+  /** Minimum shared/total word ratio for side-by-side display (RENDER_CONFIG.MIN_SHARED_RATIO_FOR_SIDE_BY_SIDE) */
+  minSharedRatioForSideBySide?: number;
+}
+
+/**
+ * A custom profile as written in a settings file.
+ * Unset thresholds are inherited from the `extends` level (default: "normal").
+ */
+export type CustomMatchingProfile = Partial<MatchingProfile> & { extends?: BuiltinMatchingLevel };
+
+export const MATCHING_LEVELS: Record<BuiltinMatchingLevel, MatchingProfile> = {
   /** Strict: requires high similarity, fewer false matches */
   strict: { similarity: 0.7, sharedWords: 6 },
   /** Normal: balanced matching (default) */
@@ -17,64 +47,177 @@ export const MATCHING_LEVELS: Record<MatchingLevel, { similarity: number; shared
   loose: { similarity: 0.4, sharedWords: 3 },
 };
 
-/** Current matching level - can be set at runtime */
-let currentMatchingLevel: MatchingLevel = "normal";
-
-export function setMatchingLevel(level: MatchingLevel): void {
-  currentMatchingLevel = level;
-}
-
-export function getMatchingLevel(): MatchingLevel {
-  return currentMatchingLevel;
-}
-
 /**
- * Block-level matching thresholds (dynamic based on matching level)
+ * Block-level matching thresholds
  */
-export const BLOCK_CONFIG = {
+export interface BlockConfig {
   /** Minimum bigram similarity (0-1) to consider blocks as matching. */
-  get SIMILARITY_THRESHOLD(): number {
-    return MATCHING_LEVELS[currentMatchingLevel].similarity;
-  },
-} as const;
+  SIMILARITY_THRESHOLD: number;
+}
 
 /**
  * Word-level matching thresholds
  */
-export const WORD_CONFIG = {
+export interface WordConfig {
   /** Minimum contiguous matching words to anchor a diff segment */
-  MIN_ANCHOR_RUN: 3,
-  /** Minimum shared contiguous words to pair removed+added blocks (dynamic) */
-  get MIN_SHARED_FOR_PAIRING(): number {
-    return MATCHING_LEVELS[currentMatchingLevel].sharedWords;
-  },
+  MIN_ANCHOR_RUN: number;
+  /** Minimum shared contiguous words to pair removed+added blocks */
+  MIN_SHARED_FOR_PAIRING: number;
   /** Minimum shared words to detect moved text between blocks */
-  MIN_SHARED_FOR_MOVED: 8,
+  MIN_SHARED_FOR_MOVED: number;
   /** Minimum segment length (chars) to consider for moved text detection */
-  MIN_SEGMENT_LENGTH_FOR_MOVED: 30,
-} as const;
+  MIN_SEGMENT_LENGTH_FOR_MOVED: number;
+}
 
 /**
  * Rendering thresholds
  */
-export const RENDER_CONFIG = {
+export interface RenderConfig {
   /** Minimum words in an equal segment to trigger alignment break */
-  ALIGN_MIN_WORDS: 5,
+  ALIGN_MIN_WORDS: number;
   /** Paragraphs with this many words or more are considered "long" */
-  LONG_PARAGRAPH_WORDS: 20,
+  LONG_PARAGRAPH_WORDS: number;
   /** Long paragraphs need at least this many shared words for side-by-side display */
-  MIN_SHARED_WORDS_FOR_SIDE_BY_SIDE: 3,
+  MIN_SHARED_WORDS_FOR_SIDE_BY_SIDE: number;
   /** Long paragraphs need at least this ratio of shared/total words for side-by-side */
-  MIN_SHARED_RATIO_FOR_SIDE_BY_SIDE: 0.15,
-} as const;
+  MIN_SHARED_RATIO_FOR_SIDE_BY_SIDE: number;
+}
 
 /**
  * Boundary optimization thresholds
  */
-export const BOUNDARY_CONFIG = {
+export interface BoundaryConfig {
   /** Max chars to absorb between same-type changes */
+  SHORT_MATCH_THRESHOLD: number;
+}
+
+/** Default block-level thresholds (normal matching level) */
+export const BLOCK_CONFIG: Readonly<BlockConfig> = {
+  SIMILARITY_THRESHOLD: MATCHING_LEVELS.normal.similarity,
+};
+
+/** Default word-level thresholds (normal matching level) */
+export const WORD_CONFIG: Readonly<WordConfig> = {
+  MIN_ANCHOR_RUN: 3,
+  MIN_SHARED_FOR_PAIRING: MATCHING_LEVELS.normal.sharedWords,
+  MIN_SHARED_FOR_MOVED: 8,
+  MIN_SEGMENT_LENGTH_FOR_MOVED: 30,
+};
+
+/** Default rendering thresholds */
+export const RENDER_CONFIG: Readonly<RenderConfig> = {
+  ALIGN_MIN_WORDS: 5,
+  LONG_PARAGRAPH_WORDS: 20,
+  MIN_SHARED_WORDS_FOR_SIDE_BY_SIDE: 3,
+  MIN_SHARED_RATIO_FOR_SIDE_BY_SIDE: 0.15,
+};
+
+/** Default boundary optimization thresholds */
+export const BOUNDARY_CONFIG: Readonly<BoundaryConfig> = {
   SHORT_MATCH_THRESHOLD: 2,
-} as const;
+};
+
+// ─── Per-call Options ───────────────────────────────────────────────────────
+
+/**
+ * Fully-resolved options for a single diff call.
+ * Passed explicitly through the pipeline and render layer, so concurrent
+ * diffs with different settings never interfere with each other.
+ */
+export interface DiffOptions {
+  matchLevel: MatchingLevel;
+  /** Treat lines of code blocks that differ only in whitespace as unchanged */
+  ignoreWhitespace: boolean;
+  /** Directory local image paths resolve against, for thumbnails of changed images (none when unset) */
+  projectRoot?: string;
+  /**
+   * Draw Graphviz and PlantUML blocks with the local `dot` and `plantuml`
+   * executables. Off by default: they would run on whatever Markdown is diffed.
+   */
+  renderDiagrams: boolean;
+  block: Readonly<BlockConfig>;
+  word: Readonly<WordConfig>;
+  render: Readonly<RenderConfig>;
+  boundary: Readonly<BoundaryConfig>;
+}
+
+/** Partial diff options; omitted values fall back to the matching level preset and defaults */
+export interface DiffOptionsInput {
+  matchLevel?: MatchingLevel;
+  ignoreWhitespace?: boolean;
+  projectRoot?: string;
+  renderDiagrams?: boolean;
+  /** Custom matching profiles, selectable by name via matchLevel */
+  profiles?: Record<string, CustomMatchingProfile>;
+  block?: Partial<BlockConfig>;
+  word?: Partial<WordConfig>;
+  render?: Partial<RenderConfig>;
+  boundary?: Partial<BoundaryConfig>;
+}
+
+function isBuiltinLevel(name: string): name is BuiltinMatchingLevel {
+  return Object.prototype.hasOwnProperty.call(MATCHING_LEVELS, name);
+}
+
+/** List all selectable matching level names: built-ins first, then custom profiles */
+export function listMatchingLevels(profiles: Record<string, CustomMatchingProfile> = {}): MatchingLevel[] {
+  const custom = Object.keys(profiles).filter((name) => !isBuiltinLevel(name));
+  return [...Object.keys(MATCHING_LEVELS), ...custom];
+}
+
+/**
+ * Look up a matching profile by name.
+ * Custom profiles take precedence over built-ins, so a settings file can retune "normal".
+ * Throws if the name is neither a built-in level nor a custom profile.
+ */
+export function resolveMatchingProfile(
+  name: MatchingLevel,
+  profiles: Record<string, CustomMatchingProfile> = {},
+): MatchingProfile {
+  const custom = Object.prototype.hasOwnProperty.call(profiles, name) ? profiles[name] : undefined;
+  if (custom) {
+    const { extends: base, ...overrides } = custom;
+    const parent = isBuiltinLevel(name) && !base ? MATCHING_LEVELS[name] : MATCHING_LEVELS[base ?? "normal"];
+    return { ...parent, ...overrides };
+  }
+  if (isBuiltinLevel(name)) return MATCHING_LEVELS[name];
+  throw new Error(`Unknown matching level "${name}" (available: ${listMatchingLevels(profiles).join(", ")})`);
+}
+
+/**
+ * Resolve partial options into a complete DiffOptions object.
+ * The matching profile supplies the thresholds it defines (similarity, shared
+ * words, and for custom profiles move/layout tuning) unless they are
+ * overridden explicitly.
+ */
+export function createDiffOptions(input: DiffOptionsInput = {}): DiffOptions {
+  const matchLevel = input.matchLevel ?? "normal";
+  const profile = resolveMatchingProfile(matchLevel, input.profiles);
+  return {
+    matchLevel,
+    ignoreWhitespace: input.ignoreWhitespace ?? false,
+    projectRoot: input.projectRoot,
+    renderDiagrams: input.renderDiagrams ?? false,
+    block: { ...BLOCK_CONFIG, SIMILARITY_THRESHOLD: profile.similarity, ...input.block },
+    word: {
+      ...WORD_CONFIG,
+      MIN_SHARED_FOR_PAIRING: profile.sharedWords,
+      MIN_SHARED_FOR_MOVED: profile.minSharedForMoved ?? WORD_CONFIG.MIN_SHARED_FOR_MOVED,
+      MIN_SEGMENT_LENGTH_FOR_MOVED: profile.minSegmentLengthForMoved ?? WORD_CONFIG.MIN_SEGMENT_LENGTH_FOR_MOVED,
+      ...input.word,
+    },
+    render: {
+      ...RENDER_CONFIG,
+      MIN_SHARED_RATIO_FOR_SIDE_BY_SIDE:
+        profile.minSharedRatioForSideBySide ?? RENDER_CONFIG.MIN_SHARED_RATIO_FOR_SIDE_BY_SIDE,
+      ...input.render,
+    },
+    boundary: { ...BOUNDARY_CONFIG, ...input.boundary },
+  };
+}
+
+/** Options used when a caller doesn't pass any */
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = createDiffOptions();
 
 /**
  * Type representing the side of a diff (left = old, right = new)
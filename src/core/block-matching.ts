@@ -4,13 +4,18 @@
  */
 import type { RootContent } from "mdast";
 import { blockToText, blockInnerText, getWrapTag } from "../text/parse.js";
-import { similarity, sharedWordRunScore, buildBigramCache, computeDiceCached } from "../text/similarity.js";
+import { sharedWordRunScore, buildBigramCache, computeDiceCached } from "../text/similarity.js";
 import { computeInlineDiff, type InlinePart } from "./inline-diff.js";
+import type { TableDiff } from "./table-diff.js";
+import type { ListDiff } from "./list-diff.js";
+import type { CodeDiff } from "./code-diff.js";
+import type { ContainerDiff } from "./container-diff.js";
+import type { HtmlDiff } from "./html-diff.js";
 import { countTotalWords, countSharedWords } from "../text/text-metrics.js";
-import { BLOCK_CONFIG, WORD_CONFIG } from "../config.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
 import { debug } from "../debug.js";
 
-export type DiffStatus = "equal" | "added" | "removed" | "modified" | "split";
+export type DiffStatus = "equal" | "added" | "removed" | "modified" | "split" | "join" | "moved";
 
 // ─── Metrics Type ─────────────────────────────────────────────────────────────
 
@@ -29,6 +34,8 @@ export type EqualPair = {
   status: "equal";
   left: RootContent;
   right: RootContent;
+  /** True on the heading of a section that moved as a whole (its pairs are placed where it now is) */
+  sectionMoved?: true;
 };
 
 /** Added pair: only right side present */
@@ -56,28 +63,67 @@ export type ModifiedPair = {
   inlineDiff: InlinePart[];
   /** Pre-computed metrics for layout decisions */
   metrics: DiffMetrics;
-  /** HTML tag to wrap rendered content: "h1"-"h6", "p", "blockquote", "pre", "ul", "div" */
+  /** HTML tag to wrap rendered content: "h1"-"h6", "p", "blockquote", "pre", "ul", "ol", "div" */
   wrapTag: string;
+  /** Row, column and cell changes when both blocks are tables */
+  tableDiff?: TableDiff;
+  /** Item-level changes when both blocks are lists */
+  listDiff?: ListDiff;
+  /** Line-level changes when both blocks are fenced code */
+  codeDiff?: CodeDiff;
+  /** Block-level changes inside when both blocks are containers (quotes, callouts, directives, details) */
+  containerDiff?: ContainerDiff;
+  /** Element, attribute and text changes when both blocks are raw HTML */
+  htmlDiff?: HtmlDiff;
+  /** True on the heading of a section that moved as a whole (its pairs are placed where it now is) */
+  sectionMoved?: true;
 };
 
 /**
- * Split pair: one paragraph split into two.
- * Renders as two rows: original vs first part, then spacer vs second part.
+ * Split pair: one paragraph split into two or more.
+ * Renders as one row: the original, next to its text with a ¶ at each break.
  */
 export type SplitPair = {
   status: "split";
   /** The original paragraph (left side) */
   original: RootContent;
-  /** First part after split (right side) */
-  firstPart: RootContent;
-  /** Second part after split (right side) */
-  secondPart: RootContent;
-  /** Character index in original text where the split occurs */
-  splitPoint: number;
+  /** Every part after the split, in order (right side) */
+  parts: RootContent[];
+  /** Character index in original text of each break, one fewer than the parts */
+  splitPoints: number[];
+};
+
+/**
+ * Join pair: two or more paragraphs joined into one, the inverse of a split.
+ * Renders as one row: the originals' text with a removed ¶ at each break, next to the joined paragraph.
+ */
+export type JoinPair = {
+  status: "join";
+  /** The original paragraphs, in order (left side) */
+  originals: RootContent[];
+  /** The paragraph they became (right side) */
+  joined: RootContent;
+  /** Character index in joined text of each removed break, one fewer than the originals */
+  joinPoints: number[];
+};
+
+/**
+ * Moved pair: a whole block that now sits elsewhere, unchanged or lightly edited.
+ * It appears twice, like a moved list item: at its old place ("from", shown as
+ * an anchor to the new place) and at its new place ("to", shown with its edits).
+ * Both entries hold the same two blocks.
+ */
+export type MovedPair = {
+  status: "moved";
+  left: RootContent;
+  right: RootContent;
+  place: "from" | "to";
+  /** Word-level changes when the block was edited as well as moved */
+  inlineDiff?: InlinePart[];
 };
 
 /** Discriminated union of all pair types */
-export type DiffPair = EqualPair | AddedPair | RemovedPair | ModifiedPair | SplitPair;
+export type DiffPair = EqualPair | AddedPair | RemovedPair | ModifiedPair | SplitPair | JoinPair | MovedPair;
 
 // ─── Type Guards ─────────────────────────────────────────────────────────────
 
@@ -101,6 +147,14 @@ export function isSplitPair(pair: DiffPair): pair is SplitPair {
   return pair.status === "split";
 }
 
+export function isJoinPair(pair: DiffPair): pair is JoinPair {
+  return pair.status === "join";
+}
+
+export function isMovedPair(pair: DiffPair): pair is MovedPair {
+  return pair.status === "moved";
+}
+
 // ─── Factory Functions ───────────────────────────────────────────────────────
 
 export function createEqualPair(left: RootContent, right: RootContent): EqualPair {
@@ -118,13 +172,23 @@ export function createRemovedPair(left: RootContent): RemovedPair {
   return { status: "removed", left };
 }
 
-export function createSplitPair(
-  original: RootContent,
-  firstPart: RootContent,
-  secondPart: RootContent,
-  splitPoint: number,
-): SplitPair {
-  return { status: "split", original, firstPart, secondPart, splitPoint };
+export function createSplitPair(original: RootContent, parts: RootContent[], splitPoints: number[]): SplitPair {
+  return { status: "split", original, parts, splitPoints };
+}
+
+export function createJoinPair(originals: RootContent[], joined: RootContent, joinPoints: number[]): JoinPair {
+  return { status: "join", originals, joined, joinPoints };
+}
+
+export function createMovedPair(
+  left: RootContent,
+  right: RootContent,
+  place: "from" | "to",
+  inlineDiff?: InlinePart[],
+): MovedPair {
+  const pair: MovedPair = { status: "moved", left, right, place };
+  if (inlineDiff) pair.inlineDiff = inlineDiff;
+  return pair;
 }
 
 export interface BlockMatch {
@@ -141,6 +205,7 @@ export interface BlockMatch {
 export function findBlockMatches(
   leftTexts: string[],
   rightTexts: string[],
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
 ): BlockMatch[] {
   const m = leftTexts.length;
   const n = rightTexts.length;
@@ -154,6 +219,7 @@ export function findBlockMatches(
   // opening — shared prefix is the strongest signal that two blocks are versions
   // of the same paragraph, preventing the LCS from matching a later paragraph
   // that shares scattered phrases over an earlier one sharing the actual opening.
+  const THRESHOLD = options.block.SIMILARITY_THRESHOLD;
   const sim: number[][] = Array.from({ length: m }, () => new Array(n).fill(0));
   for (let i = 0; i < m; i++) {
     for (let j = 0; j < n; j++) {
@@ -166,15 +232,13 @@ export function findBlockMatches(
         // A strong shared prefix (opening sentence preserved) is sufficient
         // to consider blocks as versions of the same paragraph, even if dice
         // is below threshold due to heavy rewriting after the opening.
-        if (dice >= BLOCK_CONFIG.SIMILARITY_THRESHOLD || prefix >= WORD_CONFIG.MIN_SHARED_FOR_PAIRING) {
+        if (dice >= THRESHOLD || prefix >= options.word.MIN_SHARED_FOR_PAIRING) {
           sim[i][j] = dice + prefix / maxWords;
         }
       }
     }
   }
 
-  const THRESHOLD = BLOCK_CONFIG.SIMILARITY_THRESHOLD;
-
   // LCS DP where a "match" is any pair with similarity > threshold
   const dp: number[][] = Array.from({ length: m + 1 }, () =>
     new Array(n + 1).fill(0),
@@ -233,7 +297,7 @@ function sharedPrefixWords(a: string, b: string): number {
  * Post-process diff results to pair up consecutive removed/added blocks
  * that share significant text content.
  */
-export function pairUpUnmatchedBlocks(pairs: DiffPair[]): DiffPair[] {
+export function pairUpUnmatchedBlocks(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): DiffPair[] {
   const result: DiffPair[] = [];
   let i = 0;
 
@@ -254,7 +318,7 @@ export function pairUpUnmatchedBlocks(pairs: DiffPair[]): DiffPair[] {
 
     // Try to pair them up if we have both
     if (removedBlocks.length > 0 && addedBlocks.length > 0) {
-      result.push(...pairRemovedAndAdded(removedBlocks, addedBlocks));
+      result.push(...pairRemovedAndAdded(removedBlocks, addedBlocks, options));
     } else {
       // No pairing possible, just add them as-is
       result.push(...removedBlocks, ...addedBlocks);
@@ -274,9 +338,8 @@ export function pairUpUnmatchedBlocks(pairs: DiffPair[]): DiffPair[] {
  * Compute minimum shared words required to pair two blocks.
  * Uses percentage-based threshold for short blocks (headings, etc).
  */
-function getMinSharedForPairing(leftWordCount: number, rightWordCount: number): number {
+function getMinSharedForPairing(leftWordCount: number, rightWordCount: number, configMin: number): number {
   const shorter = Math.min(leftWordCount, rightWordCount);
-  const configMin = WORD_CONFIG.MIN_SHARED_FOR_PAIRING;
 
   // For short blocks (headings, etc), require at least 50% of words to be shared
   // but always require at least 2 words
@@ -291,7 +354,7 @@ function getMinSharedForPairing(leftWordCount: number, rightWordCount: number):
  * Try to pair up removed and added blocks based on shared content.
  * Uses longest common contiguous word run to match blocks.
  */
-function pairRemovedAndAdded(removed: RemovedPair[], added: AddedPair[]): DiffPair[] {
+function pairRemovedAndAdded(removed: RemovedPair[], added: AddedPair[], options: DiffOptions): DiffPair[] {
   const result: DiffPair[] = [];
   const usedAdded = new Set<number>();
   const pairing = new Map<number, number>(); // ri -> ai
@@ -310,7 +373,7 @@ function pairRemovedAndAdded(removed: RemovedPair[], added: AddedPair[]): DiffPa
       const score = sharedWordRunScore(leftText, rightText);
 
       // Require minimum shared contiguous words to pair (scaled for short blocks)
-      const minRequired = getMinSharedForPairing(leftWordCount, rightWordCount);
+      const minRequired = getMinSharedForPairing(leftWordCount, rightWordCount, options.word.MIN_SHARED_FOR_PAIRING);
       if (score >= minRequired && score > bestScore) {
         bestScore = score;
         bestMatch = ai;
@@ -335,7 +398,7 @@ function pairRemovedAndAdded(removed: RemovedPair[], added: AddedPair[]): DiffPa
   for (let ai = 0; ai < added.length; ai++) {
     const ri = reversePairing.get(ai);
     if (ri !== undefined) {
-      result.push(createModifiedPair(removed[ri].left, added[ai].right));
+      result.push(createModifiedPair(removed[ri].left, added[ai].right, options));
     } else {
       result.push(added[ai]);
     }
@@ -345,11 +408,15 @@ function pairRemovedAndAdded(removed: RemovedPair[], added: AddedPair[]): DiffPa
 }
 
 /** Create a modified pair with computed inline diff and metrics */
-export function createModifiedPair(left: RootContent, right: RootContent): ModifiedPair {
+export function createModifiedPair(
+  left: RootContent,
+  right: RootContent,
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+): ModifiedPair {
   // Use inner text for inline diff so heading prefixes (###) aren't diffed
   const leftText = blockInnerText(left);
   const rightText = blockInnerText(right);
-  const inlineDiff = computeInlineDiff(leftText, rightText);
+  const inlineDiff = computeInlineDiff(leftText, rightText, options);
   const metrics: DiffMetrics = {
     sharedWords: countSharedWords(inlineDiff),
     totalWords: countTotalWords(inlineDiff),
@@ -6,7 +6,7 @@
  * 2. Absorb very short non-whitespace equal segments between same-type changes
  */
 import type { InlinePart } from "./inline-diff.js";
-import { BOUNDARY_CONFIG } from "../config.js";
+import { BOUNDARY_CONFIG, DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
 
 // ─── Word Boundary Detection ─────────────────────────────────────────────────
 
@@ -190,7 +190,7 @@ function optimizeSingleDiffs(parts: InlinePart[]): InlinePart[] {
  * 1. Shift diffs to word boundary positions
  * 2. Absorb very short matches between same-type changes
  */
-export function optimizeBoundaries(parts: InlinePart[]): InlinePart[] {
+export function optimizeBoundaries(parts: InlinePart[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): InlinePart[] {
   if (parts.length === 0) return parts;
 
   let result = optimizeSingleDiffs(parts);
@@ -198,7 +198,7 @@ export function optimizeBoundaries(parts: InlinePart[]): InlinePart[] {
   let prevLength = -1;
   while (result.length !== prevLength) {
     prevLength = result.length;
-    result = absorbShortMatches(result);
+    result = absorbShortMatches(result, options.boundary.SHORT_MATCH_THRESHOLD);
   }
 
   return result.filter(p => p.value !== "");
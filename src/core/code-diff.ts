@@ -0,0 +1,108 @@
+/**
+ * Line-level diff for fenced code blocks.
+ * Code is compared line by line instead of through the prose word tokenizer,
+ * so indentation and line structure survive; lines edited in place get a
+ * char-level diff of their own.
+ */
+import { diffArrays, diffChars } from "diff";
+import type { Code } from "mdast";
+import { createEqualPair, type DiffPair, type ModifiedPair } from "./block-matching.js";
+import type { InlinePart } from "./inline-diff.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
+
+export type CodeLineStatus = "equal" | "modified" | "added" | "removed";
+
+export interface CodeLineDiff {
+  status: CodeLineStatus;
+  left?: string;
+  right?: string;
+  /** 1-based line number inside the code block */
+  leftLine?: number;
+  rightLine?: number;
+  /** Char-level diff of a modified line; missing when the lines have too little in common */
+  inlineDiff?: InlinePart[];
+}
+
+export interface CodeDiff {
+  lang: string | null;
+  /** Whitespace-only differences were ignored when comparing */
+  ignoreWhitespace: boolean;
+  lines: CodeLineDiff[];
+}
+
+/** Lines sharing less than this fraction of their characters are shown as replaced, not edited */
+const MIN_SHARED_CHARS = 0.5;
+
+function splitLines(code: string): string[] {
+  return code === "" ? [] : code.split("\n");
+}
+
+function diffLine(left: string, right: string, leftLine: number, rightLine: number): CodeLineDiff {
+  const changes = diffChars(left, right);
+  const shared = changes.filter((c) => !c.added && !c.removed).reduce((n, c) => n + c.value.length, 0);
+  const line: CodeLineDiff = { status: "modified", left, right, leftLine, rightLine };
+  if (shared / Math.max(left.length, right.length, 1) < MIN_SHARED_CHARS) return line;
+  line.inlineDiff = changes.map((c): InlinePart => ({
+    type: c.added ? "added" : c.removed ? "removed" : "equal",
+    value: c.value,
+  }));
+  return line;
+}
+
+export function diffCode(left: string, right: string, options: DiffOptions = DEFAULT_DIFF_OPTIONS): CodeDiff {
+  const leftLines = splitLines(left);
+  const rightLines = splitLines(right);
+  const normalize = (line: string) => (options.ignoreWhitespace ? line.replace(/\s+/g, "") : line);
+  const chunks = diffArrays(leftLines, rightLines, { comparator: (a, b) => normalize(a) === normalize(b) });
+
+  const lines: CodeLineDiff[] = [];
+  let l = 0;
+  let r = 0;
+  for (let c = 0; c < chunks.length; c++) {
+    const chunk = chunks[c];
+    const count = chunk.value.length;
+    if (chunk.removed) {
+      // A removed run directly followed by an added one is an edit: pair its lines up
+      const next = chunks[c + 1];
+      const added = next?.added ? next.value.length : 0;
+      for (let k = 0; k < Math.max(count, added); k++) {
+        if (k < count && k < added) lines.push(diffLine(leftLines[l + k], rightLines[r + k], l + k + 1, r + k + 1));
+        else if (k < count) lines.push({ status: "removed", left: leftLines[l + k], leftLine: l + k + 1 });
+        else lines.push({ status: "added", right: rightLines[r + k], rightLine: r + k + 1 });
+      }
+      l += count;
+      r += added;
+      if (added) c++;
+    } else if (chunk.added) {
+      for (let k = 0; k < count; k++, r++) lines.push({ status: "added", right: rightLines[r], rightLine: r + 1 });
+    } else {
+      for (let k = 0; k < count; k++, l++, r++) {
+        lines.push({ status: "equal", left: leftLines[l], right: rightLines[r], leftLine: l + 1, rightLine: r + 1 });
+      }
+    }
+  }
+
+  return { lang: null, ignoreWhitespace: options.ignoreWhitespace, lines };
+}
+
+/** Diff two code blocks; the new block's language is used for highlighting */
+export function diffCodeBlocks(left: Code, right: Code, options: DiffOptions = DEFAULT_DIFF_OPTIONS): CodeDiff {
+  return { ...diffCode(left.value, right.value, options), lang: right.lang ?? left.lang ?? null };
+}
+
+/**
+ * Pipeline stage: attach a line diff to every modified code block pair.
+ * With ignoreWhitespace, a block whose lines only changed in whitespace
+ * becomes an equal pair.
+ */
+export function attachCodeDiffs(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): DiffPair[] {
+  return pairs.map((pair): DiffPair => {
+    if (pair.status !== "modified" || pair.left.type !== "code" || pair.right.type !== "code") return pair;
+    const codeDiff = diffCodeBlocks(pair.left, pair.right, options);
+    if (options.ignoreWhitespace && pair.left.lang === pair.right.lang &&
+      codeDiff.lines.every((line) => line.status === "equal")) {
+      return createEqualPair(pair.left, pair.right);
+    }
+    return { ...pair, codeDiff } satisfies ModifiedPair;
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Recursive diff for container blocks: blockquotes, callouts (`> [!NOTE]`),
+ * `:::` directive containers and `<details>`.
+ * The blocks inside a container are diffed like a document of their own, so
+ * one edited paragraph in a long quote is the only change shown. A callout
+ * type or directive name change (NOTE → WARNING) is reported on its own.
+ */
+import type { RootContent } from "mdast";
+import { containerChildren, containerInfo, type ContainerInfo } from "../text/containers.js";
+import type { DiffPair, ModifiedPair } from "./block-matching.js";
+import { computeInlineDiff, type InlinePart } from "./inline-diff.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
+
+export interface ContainerDiff {
+  left: ContainerInfo;
+  right: ContainerInfo;
+  /** Container kind, callout type or directive name changed */
+  retyped: boolean;
+  /** Word-level diff of a directive label or details summary present on both sides and changed */
+  titleDiff?: InlinePart[];
+  /** The blocks inside, diffed by the same pipeline as the document */
+  pairs: DiffPair[];
+}
+
+/** Block diff used for container content; the pipeline passes itself in */
+export type DiffChildren = (left: RootContent[], right: RootContent[], options: DiffOptions) => DiffPair[];
+
+/** Diff two container blocks, or null when either one is not a container */
+export function diffContainers(
+  left: RootContent,
+  right: RootContent,
+  diffChildren: DiffChildren,
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+): ContainerDiff | null {
+  const leftInfo = containerInfo(left);
+  const rightInfo = containerInfo(right);
+  if (!leftInfo || !rightInfo) return null;
+  const diff: ContainerDiff = {
+    left: leftInfo,
+    right: rightInfo,
+    retyped: leftInfo.kind !== rightInfo.kind || leftInfo.type !== rightInfo.type,
+    pairs: diffChildren(containerChildren(left), containerChildren(right), options),
+  };
+  if (leftInfo.title !== null && rightInfo.title !== null && leftInfo.title !== rightInfo.title) {
+    diff.titleDiff = computeInlineDiff(leftInfo.title, rightInfo.title, options);
+  }
+  return diff;
+}
+
+/** Pipeline stage: attach a recursive diff to every modified container pair */
+export function attachContainerDiffs(
+  pairs: DiffPair[],
+  diffChildren: DiffChildren,
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+): DiffPair[] {
+  return pairs.map((pair): DiffPair => {
+    if (pair.status !== "modified") return pair;
+    const containerDiff = diffContainers(pair.left, pair.right, diffChildren, options);
+    return containerDiff ? { ...pair, containerDiff } satisfies ModifiedPair : pair;
+  });
+}
+
+/** Number of callout type or directive name changes, counting nested containers */
+export function countRetyped(pairs: DiffPair[]): number {
+  let count = 0;
+  for (const pair of pairs) {
+    if (pair.status !== "modified" || !pair.containerDiff) continue;
+    count += (pair.containerDiff.retyped ? 1 : 0) + countRetyped(pair.containerDiff.pairs);
+  }
+  return count;
+}
@@ -5,6 +5,7 @@ import type { RootContent } from "mdast";
 import { type DiffPair } from "./block-matching.js";
 import { runPipeline } from "./pipeline.js";
 import { debug, isDebugEnabled } from "../debug.js";
+import type { DiffOptions } from "../config.js";
 
 // Re-export pipeline for advanced usage
 export { runPipeline, type PipelineStage, type PipelineConfig } from "./pipeline.js";
@@ -19,6 +20,8 @@ export type {
   RemovedPair,
   ModifiedPair,
   SplitPair,
+  JoinPair,
+  MovedPair,
 } from "./block-matching.js";
 export {
   isEqualPair,
@@ -26,13 +29,27 @@ export {
   isRemovedPair,
   isModifiedPair,
   isSplitPair,
+  isJoinPair,
+  isMovedPair,
   createEqualPair,
   createAddedPair,
   createRemovedPair,
   createModifiedPair,
   createSplitPair,
+  createJoinPair,
+  createMovedPair,
 } from "./block-matching.js";
 export type { InlinePart } from "./inline-diff.js";
+export { diffTables } from "./table-diff.js";
+export type { TableDiff, TableColumn, TableRowDiff, TableCellDiff, TableChangeStatus } from "./table-diff.js";
+export { diffLists } from "./list-diff.js";
+export type { ListDiff, ListItemDiff, ListItemStatus } from "./list-diff.js";
+export { diffCode } from "./code-diff.js";
+export type { CodeDiff, CodeLineDiff, CodeLineStatus } from "./code-diff.js";
+export type { ContainerDiff } from "./container-diff.js";
+export { diffHtml } from "./html-diff.js";
+export type { HtmlDiff, HtmlNodeDiff, HtmlNodeStatus, HtmlAttributeChange } from "./html-diff.js";
+export type { ContainerInfo, ContainerKind } from "../text/containers.js";
 export { walkLeafParts, flattenParts } from "./inline-diff.js";
 
 // Re-export rewrite rules for extension
@@ -103,17 +120,20 @@ function validateInlineDiff(parts: import("./inline-diff.js").InlinePart[], pair
  * LCS-based block diff.
  * Matches blocks by content similarity, then aligns with spacers.
  *
- * Pipeline stages:
+ * Pipeline steps (see runPipeline in pipeline.ts):
+ * 0. Section Moves - Diff sections that moved as a whole on their own
  * 1. Block Matching - LCS-based matching of similar blocks
- * 2. Re-pair Low Similarity - Fix mismatched blocks
- * 3. Pair Unmatched - Pair consecutive removed/added blocks
- * 4. Move Detection - Detect moved text and paragraph splits
+ * 2. Initial Pairing - Create pairs from matches; unmatched blocks are added or removed
+ * 3. Stages 1-10 - Pair unmatched blocks, detect splits, joins and moves, then diff
+ *    tables, lists, code, containers, HTML and references structurally
+ * 4. Validation - Check invariants (debug mode only)
  */
 export function diffBlocks(
   leftBlocks: RootContent[],
   rightBlocks: RootContent[],
+  options?: DiffOptions,
 ): DiffPair[] {
-  const pairs = runPipeline(leftBlocks, rightBlocks);
+  const pairs = runPipeline(leftBlocks, rightBlocks, { options });
 
   // Validate invariants in debug mode (additional validation with throw)
   if (isDebugEnabled()) {
@@ -0,0 +1,259 @@
+/**
+ * Footnotes and link reference definitions across the two documents.
+ * Definitions are linked by content rather than label, so a footnote that was
+ * renumbered because another one was inserted before it is still the same
+ * footnote: its label change is marked minor wherever it shows, in the
+ * definition and in every reference to it. In the HTML view each footnote
+ * definition is shown right after the first block that references it.
+ */
+import { diffArrays } from "diff";
+import type { Definition, FootnoteDefinition, RootContent } from "mdast";
+import { blockToText } from "../text/parse.js";
+import { FOOTNOTE_REF, footnoteReferences } from "../text/footnotes.js";
+import { similarity } from "../text/similarity.js";
+import type { DiffPair } from "./block-matching.js";
+import type { InlinePart } from "./inline-diff.js";
+import type { ListDiff } from "./list-diff.js";
+import type { TableDiff } from "./table-diff.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions, type Side } from "../config.js";
+
+type ReferenceDefinition = FootnoteDefinition | Definition;
+
+/** Right-side label of each linked left definition, by left identifier */
+export interface ReferenceLinks {
+  footnotes: Map<string, string>;
+  definitions: Map<string, string>;
+}
+
+/** A link reference definition's label at the start of its text: `[label]:` */
+const DEFINITION_LABEL = /^\[([^\]^][^\]]*)\]:/;
+/** Text split so each footnote reference or definition label is a piece of its own */
+const LABEL_PIECES = /(\[\^[^\]\s]+\]|^\[[^\]^][^\]]*\]:)/;
+
+function definitionContent(node: ReferenceDefinition): string {
+  if (node.type === "definition") return `${node.url} ${node.title ?? ""}`.trim();
+  return node.children.map(blockToText).join("\n\n");
+}
+
+function label(node: ReferenceDefinition): string {
+  return node.label ?? node.identifier;
+}
+
+/** Identifiers are case-insensitive and collapse whitespace, like mdast's */
+function normalizeLabel(value: string): string {
+  return value.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Link definitions of one kind: first those with the same content, then the
+ * remaining ones by the most similar content above the block threshold.
+ */
+function linkByContent(
+  left: ReferenceDefinition[],
+  right: ReferenceDefinition[],
+  options: DiffOptions,
+): Map<string, string> {
+  const links = new Map<string, string>();
+  const unmatched = new Set(right);
+  const rest: ReferenceDefinition[] = [];
+  for (const node of left) {
+    const content = definitionContent(node);
+    const same = [...unmatched].find((other) => definitionContent(other) === content);
+    if (same) {
+      links.set(node.identifier, label(same));
+      unmatched.delete(same);
+    } else {
+      rest.push(node);
+    }
+  }
+  for (const node of rest) {
+    let best: ReferenceDefinition | undefined;
+    let bestScore = options.block.SIMILARITY_THRESHOLD;
+    for (const other of unmatched) {
+      const score = similarity(definitionContent(node), definitionContent(other));
+      if (score >= bestScore) [best, bestScore] = [other, score];
+    }
+    if (best) {
+      links.set(node.identifier, label(best));
+      unmatched.delete(best);
+    }
+  }
+  return links;
+}
+
+function isDefinition(node: RootContent | undefined): node is ReferenceDefinition {
+  return node?.type === "footnoteDefinition" || node?.type === "definition";
+}
+
+/** Link the footnote and link reference definitions of the left blocks to the right blocks' */
+export function linkReferences(
+  left: RootContent[],
+  right: RootContent[],
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+): ReferenceLinks {
+  const defs = (nodes: RootContent[], type: ReferenceDefinition["type"]) => {
+    return nodes.filter(isDefinition).filter((node) => node.type === type);
+  };
+  return {
+    footnotes: linkByContent(defs(left, "footnoteDefinition"), defs(right, "footnoteDefinition"), options),
+    definitions: linkByContent(defs(left, "definition"), defs(right, "definition"), options),
+  };
+}
+
+/** Left text with every linked label replaced by its right-side label */
+function relabel(text: string, links: ReferenceLinks): string {
+  return text
+    .replace(FOOTNOTE_REF, (match, ref: string) => {
+      const linked = links.footnotes.get(normalizeLabel(ref));
+      return linked !== undefined ? `[^${linked}]` : match;
+    })
+    .replace(DEFINITION_LABEL, (match, ref: string) => {
+      const linked = links.definitions.get(normalizeLabel(ref));
+      return linked !== undefined ? `[${linked}]:` : match;
+    });
+}
+
+/**
+ * Minor removed/added pair for a label change, with the labels as whole
+ * children so each side still shows a complete reference
+ */
+function renumberedPair(removed: string, added: string): InlinePart[] {
+  const removedChildren: InlinePart[] = [];
+  const addedChildren: InlinePart[] = [];
+  for (const change of diffArrays(removed.split(LABEL_PIECES), added.split(LABEL_PIECES))) {
+    for (const value of change.value.filter(Boolean)) {
+      if (change.removed) {
+        removedChildren.push({ value, type: "removed", minor: true });
+      } else if (change.added) {
+        addedChildren.push({ value, type: "added", minor: true });
+      } else {
+        removedChildren.push({ value, type: "equal" });
+        addedChildren.push({ value, type: "equal" });
+      }
+    }
+  }
+  return [
+    { value: removed, type: "removed", children: removedChildren, minor: true, renumbered: true },
+    { value: added, type: "added", children: addedChildren, minor: true, renumbered: true },
+  ];
+}
+
+/** Mark removed/added pairs that differ only in linked labels as minor */
+function markParts(parts: InlinePart[], links: ReferenceLinks): InlinePart[] {
+  const result: InlinePart[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    const [part, next] = [parts[i], parts[i + 1]];
+    if (part.type === "removed" && next?.type === "added" && part.value !== next.value &&
+      relabel(part.value, links) === next.value) {
+      result.push(...renumberedPair(part.value, next.value));
+      i++;
+    } else {
+      result.push(part);
+    }
+  }
+  return result;
+}
+
+function markList(diff: ListDiff, links: ReferenceLinks): ListDiff {
+  return {
+    ...diff,
+    items: diff.items.map((item) => ({
+      ...item,
+      inlineDiff: item.inlineDiff && markParts(item.inlineDiff, links),
+      children: item.children && markList(item.children, links),
+    })),
+  };
+}
+
+function markTable(diff: TableDiff, links: ReferenceLinks): TableDiff {
+  return {
+    ...diff,
+    rows: diff.rows.map((row) => ({
+      ...row,
+      cells: row.cells.map((cell) => ({ ...cell, inlineDiff: cell.inlineDiff && markParts(cell.inlineDiff, links) })),
+    })),
+  };
+}
+
+function markPairs(pairs: DiffPair[], links: ReferenceLinks): DiffPair[] {
+  return pairs.map((pair): DiffPair => {
+    if (pair.status === "moved" && pair.inlineDiff) return { ...pair, inlineDiff: markParts(pair.inlineDiff, links) };
+    if (pair.status !== "modified") return pair;
+    const { listDiff, tableDiff, containerDiff } = pair;
+    return {
+      ...pair,
+      inlineDiff: markParts(pair.inlineDiff, links),
+      ...(listDiff && { listDiff: markList(listDiff, links) }),
+      ...(tableDiff && { tableDiff: markTable(tableDiff, links) }),
+      ...(containerDiff && { containerDiff: { ...containerDiff, pairs: markPairs(containerDiff.pairs, links) } }),
+    };
+  });
+}
+
+/**
+ * Pipeline stage: link the definitions on both sides by content and mark
+ * label changes between linked definitions (renumbered footnotes, renamed
+ * link references) as minor, in the definitions and in the references.
+ */
+export function markRenumberedReferences(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): DiffPair[] {
+  // A moved block is listed at both its places; count it once
+  const blocks = pairs.filter((pair) => pair.status !== "moved" || pair.place === "to");
+  const left = blocks.flatMap((pair) => ("left" in pair ? [pair.left] : []));
+  const right = blocks.flatMap((pair) => ("right" in pair ? [pair.right] : []));
+  const links = linkReferences(left, right, options);
+  if (links.footnotes.size === 0 && links.definitions.size === 0) return pairs;
+  return markPairs(pairs, links);
+}
+
+// ─── Placement ───────────────────────────────────────────────────────────────
+
+function pairNodes(pair: DiffPair): Array<[side: Side, node: RootContent]> {
+  switch (pair.status) {
+    case "equal":
+    case "modified":
+      return [["left", pair.left], ["right", pair.right]];
+    case "removed":
+      return [["left", pair.left]];
+    case "added":
+      return [["right", pair.right]];
+    case "split":
+      return [["left", pair.original], ...pair.parts.map((part): [Side, RootContent] => ["right", part])];
+    case "join":
+      return [...pair.originals.map((original): [Side, RootContent] => ["left", original]), ["right", pair.joined]];
+    case "moved":
+      return pair.place === "from" ? [["left", pair.left]] : [["right", pair.right]];
+  }
+}
+
+/** Side-qualified identifiers of the footnotes a pair defines */
+function definedFootnotes(pair: DiffPair): string[] {
+  return pairNodes(pair)
+    .filter(([, node]) => node.type === "footnoteDefinition")
+    .map(([side, node]) => `${side}:${(node as FootnoteDefinition).identifier}`);
+}
+
+/**
+ * Move each footnote definition to right after the first block that references
+ * it, so the note is read next to its text. Definitions nothing references
+ * keep their place at the end.
+ */
+export function placeFootnoteDefinitions(pairs: DiffPair[]): DiffPair[] {
+  const definitions = pairs.filter((pair) => definedFootnotes(pair).length > 0);
+  if (definitions.length === 0) return pairs;
+  const placed = new Set<DiffPair>();
+  const result: DiffPair[] = [];
+  for (const pair of pairs) {
+    if (definitions.includes(pair)) continue;
+    result.push(pair);
+    const refs = new Set(pairNodes(pair).flatMap(([side, node]) => {
+      return [...footnoteReferences(node)].map((id) => `${side}:${id}`);
+    }));
+    for (const definition of definitions) {
+      if (!placed.has(definition) && definedFootnotes(definition).some((id) => refs.has(id))) {
+        placed.add(definition);
+        result.push(definition);
+      }
+    }
+  }
+  return [...result, ...definitions.filter((definition) => !placed.has(definition))];
+}
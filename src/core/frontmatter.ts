@@ -0,0 +1,131 @@
+/**
+ * Key-by-key frontmatter diff.
+ * Walks both data trees together: maps are compared key by key, lists item
+ * by item (LCS-aligned), and every leaf that differs becomes one change.
+ */
+import { diffArrays } from "diff";
+import { splitFrontmatter, type Frontmatter } from "../text/frontmatter.js";
+
+export type FrontmatterChangeStatus = "equal" | "added" | "removed" | "changed";
+
+export interface FrontmatterChange {
+  /** Key path, e.g. "title", "author.name", "tags[2]" */
+  path: string;
+  status: FrontmatterChangeStatus;
+  /** Old value; missing for added keys */
+  left?: unknown;
+  /** New value; missing for removed keys */
+  right?: unknown;
+}
+
+export interface FrontmatterDiff {
+  /** Parsed header on each side; null when that side has none */
+  left: Frontmatter | null;
+  right: Frontmatter | null;
+  /** Every key in document order, unchanged ones included */
+  changes: FrontmatterChange[];
+}
+
+type DataMap = Record<string, unknown>;
+
+function isMap(value: unknown): value is DataMap {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  if (isMap(a) && isMap(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((k) => k in b && valuesEqual(a[k], b[k]));
+  }
+  return a === b;
+}
+
+function keyPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function diffMaps(path: string, left: DataMap, right: DataMap, out: FrontmatterChange[]) {
+  // Old key order, with keys only the new side has at the end
+  const keys = [...Object.keys(left), ...Object.keys(right).filter((k) => !(k in left))];
+  for (const key of keys) {
+    const child = keyPath(path, key);
+    if (!(key in right)) out.push({ path: child, status: "removed", left: left[key] });
+    else if (!(key in left)) out.push({ path: child, status: "added", right: right[key] });
+    else diffValues(child, left[key], right[key], out);
+  }
+}
+
+/** Removed items directly followed by added ones are paired up as changes */
+function diffLists(path: string, left: unknown[], right: unknown[], out: FrontmatterChange[]) {
+  const chunks = diffArrays(left, right, { comparator: valuesEqual });
+  let l = 0;
+  let r = 0;
+  for (let c = 0; c < chunks.length; c++) {
+    const chunk = chunks[c];
+    const count = chunk.value.length;
+    if (chunk.removed) {
+      const next = chunks[c + 1];
+      const paired = next?.added ? Math.min(count, next.value.length) : 0;
+      for (let k = 0; k < paired; k++) diffValues(`${path}[${r + k}]`, left[l + k], right[r + k], out);
+      for (let k = paired; k < count; k++) out.push({ path: `${path}[${l + k}]`, status: "removed", left: left[l + k] });
+      if (next?.added) {
+        for (let k = paired; k < next.value.length; k++) {
+          out.push({ path: `${path}[${r + k}]`, status: "added", right: right[r + k] });
+        }
+        r += next.value.length;
+        c++;
+      }
+      l += count;
+    } else if (chunk.added) {
+      for (let k = 0; k < count; k++) out.push({ path: `${path}[${r + k}]`, status: "added", right: right[r + k] });
+      r += count;
+    } else {
+      for (let k = 0; k < count; k++) {
+        out.push({ path: `${path}[${r + k}]`, status: "equal", left: left[l + k], right: right[r + k] });
+      }
+      l += count;
+      r += count;
+    }
+  }
+}
+
+function diffValues(path: string, left: unknown, right: unknown, out: FrontmatterChange[]) {
+  if (valuesEqual(left, right)) {
+    out.push({ path, status: "equal", left, right });
+  } else if (isMap(left) && isMap(right)) {
+    diffMaps(path, left, right, out);
+  } else if (Array.isArray(left) && Array.isArray(right)) {
+    diffLists(path, left, right, out);
+  } else {
+    out.push({ path, status: "changed", left, right });
+  }
+}
+
+/** Diff two frontmatter headers; null when neither document has one */
+export function diffFrontmatter(left: Frontmatter | null, right: Frontmatter | null): FrontmatterDiff | null {
+  if (!left && !right) return null;
+  const changes: FrontmatterChange[] = [];
+  diffMaps("", left?.data ?? {}, right?.data ?? {}, changes);
+  return { left, right, changes };
+}
+
+/** Diff the frontmatter headers of two Markdown sources */
+export function diffDocumentFrontmatter(left: string, right: string): FrontmatterDiff | null {
+  return diffFrontmatter(splitFrontmatter(left).frontmatter, splitFrontmatter(right).frontmatter);
+}
+
+/** Display form of a frontmatter value: strings as-is, everything else as compact JSON */
+export function formatFrontmatterValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value) ?? String(value);
+}
+
+/** Whether anything in the header changed, including its format */
+export function hasFrontmatterChanges(diff: FrontmatterDiff): boolean {
+  return diff.left?.format !== diff.right?.format || diff.changes.some((ch) => ch.status !== "equal");
+}
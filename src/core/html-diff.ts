@@ -0,0 +1,131 @@
+/**
+ * Structural diff for raw HTML blocks.
+ * Both fragments are parsed into sanitized trees and compared node by node:
+ * elements are matched by tag name and compared attribute by attribute,
+ * text inside them gets a word diff. A block where only attributes changed
+ * (a new `src` or `width`) is flagged as such rather than diffed as text.
+ */
+import { diffArrays } from "diff";
+import type { ElementContent, RootContent } from "hast";
+import { toHtml } from "hast-util-to-html";
+import { elementAttributes, parseHtml } from "../text/html-dom.js";
+import type { DiffPair, ModifiedPair } from "./block-matching.js";
+import { computeInlineDiff, type InlinePart } from "./inline-diff.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
+
+export type HtmlNode = RootContent | ElementContent;
+
+export type HtmlNodeStatus = "equal" | "modified" | "added" | "removed";
+
+/** An attribute added (no left value), removed (no right value) or changed */
+export interface HtmlAttributeChange {
+  name: string;
+  left?: string;
+  right?: string;
+}
+
+export interface HtmlNodeDiff {
+  status: HtmlNodeStatus;
+  left?: HtmlNode;
+  right?: HtmlNode;
+  /** Attribute changes of a modified element */
+  attributes?: HtmlAttributeChange[];
+  /** Diffs of a modified element's children */
+  children?: HtmlNodeDiff[];
+  /** Word diff of modified text */
+  inlineDiff?: InlinePart[];
+}
+
+export interface HtmlDiff {
+  nodes: HtmlNodeDiff[];
+  /** Only attributes changed: the elements and text are the same on both sides */
+  attributesOnly: boolean;
+}
+
+/** Nodes are matched up by tag name; text with text */
+function nodeKey(node: HtmlNode): string {
+  return node.type === "element" ? node.tagName : `#${node.type}`;
+}
+
+/** Attribute changes between two elements' attributes */
+export function diffAttributes(left: Map<string, string>, right: Map<string, string>): HtmlAttributeChange[] {
+  const changes: HtmlAttributeChange[] = [];
+  for (const [name, value] of left) {
+    if (!right.has(name)) changes.push({ name, left: value });
+    else if (right.get(name) !== value) changes.push({ name, left: value, right: right.get(name) });
+  }
+  for (const [name, value] of right) {
+    if (!left.has(name)) changes.push({ name, right: value });
+  }
+  return changes;
+}
+
+function diffNode(left: HtmlNode, right: HtmlNode, options: DiffOptions): HtmlNodeDiff {
+  if (toHtml(left) === toHtml(right)) return { status: "equal", left, right };
+  if (left.type === "element" && right.type === "element") {
+    return {
+      status: "modified",
+      left,
+      right,
+      attributes: diffAttributes(elementAttributes(left), elementAttributes(right)),
+      children: diffNodes(left.children, right.children, options),
+    };
+  }
+  if (left.type === "text" && right.type === "text") {
+    return { status: "modified", left, right, inlineDiff: computeInlineDiff(left.value, right.value, options) };
+  }
+  return { status: "modified", left, right };
+}
+
+function diffNodes(left: HtmlNode[], right: HtmlNode[], options: DiffOptions): HtmlNodeDiff[] {
+  const chunks = diffArrays(left, right, { comparator: (a, b) => nodeKey(a) === nodeKey(b) });
+  const nodes: HtmlNodeDiff[] = [];
+  let l = 0;
+  let r = 0;
+  for (const chunk of chunks) {
+    for (let k = 0; k < chunk.value.length; k++) {
+      if (chunk.removed) nodes.push({ status: "removed", left: left[l++] });
+      else if (chunk.added) nodes.push({ status: "added", right: right[r++] });
+      else nodes.push(diffNode(left[l++], right[r++], options));
+    }
+  }
+  return nodes;
+}
+
+/** Only attributes changed anywhere in these nodes */
+function attributesOnly(nodes: HtmlNodeDiff[]): boolean {
+  return nodes.every((node) => {
+    if (node.status === "equal") return true;
+    if (node.status !== "modified" || !node.children) return false;
+    return attributesOnly(node.children);
+  });
+}
+
+/** Diff two HTML fragments */
+export function diffHtml(left: string, right: string, options: DiffOptions = DEFAULT_DIFF_OPTIONS): HtmlDiff {
+  const nodes = diffNodes(parseHtml(left).children, parseHtml(right).children, options);
+  return { nodes, attributesOnly: attributesOnly(nodes) };
+}
+
+/** Every attribute change in a diff, with the tag name of its element */
+export function attributeChanges(nodes: HtmlNodeDiff[]): Array<{ tag: string; change: HtmlAttributeChange }> {
+  return nodes.flatMap((node) => {
+    const tag = node.left?.type === "element" ? node.left.tagName : "";
+    const own = (node.attributes ?? []).map((change) => ({ tag, change }));
+    return [...own, ...attributeChanges(node.children ?? [])];
+  });
+}
+
+/** HTML comments keep their own display and are diffed as text */
+function isComment(value: string): boolean {
+  return value.trim().startsWith("<!--");
+}
+
+/** Pipeline stage: attach a structural diff to every modified raw HTML block pair */
+export function attachHtmlDiffs(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): DiffPair[] {
+  return pairs.map((pair): DiffPair => {
+    if (pair.status !== "modified" || pair.left.type !== "html" || pair.right.type !== "html") return pair;
+    if (isComment(pair.left.value) || isComment(pair.right.value)) return pair;
+    return { ...pair, htmlDiff: diffHtml(pair.left.value, pair.right.value, options) } satisfies ModifiedPair;
+  });
+}
@@ -4,8 +4,8 @@
 import { diffChars } from "diff";
 import { type WordToken, tokenize, joinTokens, isPurePunctuation } from "../text/tokens.js";
 import { longestCommonRunNormalized, findAnchors } from "./lcs.js";
-import { WORD_CONFIG } from "../config.js";
-import { protectMarkdown } from "../text/html.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
+import { INLINE_TAG, MATH_START, parseLinkTarget, protectMarkdown, stripFormatting } from "../text/html.js";
 import { debug } from "../debug.js";
 import { absorbStopWordsDeclarative } from "./rewrite-rules.js";
 import { optimizeBoundaries } from "./boundary-optimize.js";
@@ -26,6 +26,18 @@ export interface InlinePart {
    * Can also be computed at render time via isMinorChange().
    */
   minor?: boolean;
+  /**
+   * True if only inline formatting changed (bold, italic, code, strikethrough
+   * added, removed or swapped) and the text is the same on both sides.
+   * Set on both parts of the removed/added pair; they have no children.
+   */
+  formatting?: boolean;
+  /**
+   * True if only footnote or link reference labels changed, between
+   * definitions linked by content (a renumbered footnote). Set on both parts
+   * of the removed/added pair, along with `minor`.
+   */
+  renumbered?: boolean;
   /**
    * Indicates this part should be absorbed at a given merge level.
    * - "stopword": Absorbed in conservative mode (stop words between changes)
@@ -73,19 +85,22 @@ export function flattenParts(parts: InlinePart[]): InlinePart[] {
   return result;
 }
 
-const MIN_RUN = WORD_CONFIG.MIN_ANCHOR_RUN;
-
 /**
  * Multi-level inline diff:
  * 1. Contiguous word diff (3+ word runs only)
- * 2. For adjacent removed/added pairs, character-level diff for minor changes
+ * 2. For adjacent removed/added pairs, character-level diff for minor changes;
+ *    formatting-only pairs are flagged instead
  * 3. Absorb stop words isolated between changes
  */
-export function computeInlineDiff(a: string, b: string): InlinePart[] {
+export function computeInlineDiff(
+  a: string,
+  b: string,
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+): InlinePart[] {
   // Protect markdown formatting so **bold** stays atomic during diffing
   const protectedA = protectMarkdown(a);
   const protectedB = protectMarkdown(b);
-  const raw = diffWordsContiguous(protectedA, protectedB);
+  const raw = diffWordsContiguous(protectedA, protectedB, options.word.MIN_ANCHOR_RUN);
 
   // Pair up adjacent removed/added — drill into char-level for minor changes
   let result: InlinePart[] = [];
@@ -99,7 +114,17 @@ export function computeInlineDiff(a: string, b: string): InlinePart[] {
       const removed = raw[i].value;
       const added = raw[i + 1].value;
 
-      if (isWhitespaceOnly(removed, added)) {
+      if ((parseLinkTarget(removed) && parseLinkTarget(added)) || MATH_START.test(removed + added) ||
+        INLINE_TAG.test(removed + added)) {
+        // A changed URL, formula or HTML tag is shown as a whole, not character by character
+        result.push(raw[i], raw[i + 1]);
+      } else if (isFormattingOnly(removed, added)) {
+        // Same text with other markers: flagged as a formatting change, not diffed by character
+        result.push(
+          { value: removed, type: "removed", formatting: true },
+          { value: added, type: "added", formatting: true },
+        );
+      } else if (isWhitespaceOnly(removed, added)) {
         result.push(...buildCharDiffPair(removed, added));
       } else if (isMinorChange(removed, added)) {
         result.push(...buildMinorPair(removed, added));
@@ -115,21 +140,21 @@ export function computeInlineDiff(a: string, b: string): InlinePart[] {
 
   // Absorb stop words into adjacent changes, then optimize boundaries, then mark punctuation as minor
   result = absorbStopWordsDeclarative(result);
-  result = optimizeBoundaries(result);
+  result = optimizeBoundaries(result, options);
   return markPunctMinor(result);
 }
 
 /**
  * Two-phase word diff:
- * Phase 1: Find big anchors (exact match, MIN_RUN+ words)
+ * Phase 1: Find big anchors (exact match, minRun+ words)
  * Phase 2: For gaps between anchors, find smaller matches (normalized, 1+ word)
  *
  * Works on token arrays throughout — no string round-tripping.
  */
-function diffWordsContiguous(left: string, right: string): InlinePart[] {
+function diffWordsContiguous(left: string, right: string, minRun: number): InlinePart[] {
   const a = tokenize(left);
   const b = tokenize(right);
-  const anchors = findAnchors(a, b, 0, a.length, 0, b.length, MIN_RUN);
+  const anchors = findAnchors(a, b, 0, a.length, 0, b.length, minRun);
 
   debug("diffWordsContiguous:");
   debug("  left:", JSON.stringify(left.substring(0, 60)));
@@ -235,6 +260,12 @@ function buildMinorPair(removed: string, added: string): InlinePart[] {
   ];
 }
 
+/** Detect if the only difference is inline formatting: same text, different markers */
+function isFormattingOnly(a: string, b: string): boolean {
+  const text = stripFormatting(a);
+  return text.trim() !== "" && text === stripFormatting(b);
+}
+
 /** Detect if the only difference is whitespace (space added/removed between tokens) */
 function isWhitespaceOnly(a: string, b: string): boolean {
   return a.replace(/\s+/g, "") === b.replace(/\s+/g, "");
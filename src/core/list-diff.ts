@@ -0,0 +1,219 @@
+/**
+ * Item-level list diff.
+ * Items are matched by their own text (nested lists excluded) with the block
+ * LCS, reordered items are found with the move detection, and nested lists
+ * are diffed recursively, so one inserted bullet no longer marks the whole
+ * list as changed.
+ */
+import { diffArrays } from "diff";
+import type { List, ListItem } from "mdast";
+import { blockInnerText } from "../text/parse.js";
+import { findBlockMatches, type BlockMatch, type DiffPair, type ModifiedPair } from "./block-matching.js";
+import { computeInlineDiff, type InlinePart } from "./inline-diff.js";
+import { findMovedBlocks } from "./move-detection.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
+
+/**
+ * - moved: the item was reordered; it appears twice, once at its old position
+ *   (left only, with movedTo) and once at its new one (right only, with movedFrom)
+ * - toggled: only the task-list checkbox changed
+ */
+export type ListItemStatus = "equal" | "modified" | "added" | "removed" | "moved" | "toggled";
+
+export interface ListItemDiff {
+  status: ListItemStatus;
+  /** Item index in each list; set on the side the entry is shown on */
+  leftIdx?: number;
+  rightIdx?: number;
+  /** Old position of a moved item (its right-side entry) */
+  movedFrom?: number;
+  /** New position of a moved item (its left-side entry) */
+  movedTo?: number;
+  /** Item text without nested lists */
+  left?: string;
+  right?: string;
+  /** Displayed number in ordered lists */
+  leftNumber?: number;
+  rightNumber?: number;
+  /** The number changed because items around it came or went; a minor change */
+  renumbered?: boolean;
+  /** Task-list checkbox state; null when the item has no checkbox */
+  leftChecked?: boolean | null;
+  rightChecked?: boolean | null;
+  /** Word-level diff of changed item text */
+  inlineDiff?: InlinePart[];
+  /** Diff of the item's nested list, when either side has one */
+  children?: ListDiff;
+}
+
+export interface ListDiff {
+  leftOrdered: boolean;
+  rightOrdered: boolean;
+  items: ListItemDiff[];
+}
+
+/** Text of the item itself; nested lists are diffed separately */
+function itemText(item: ListItem): string {
+  return item.children.filter((child) => child.type !== "list").map(blockInnerText).join("\n");
+}
+
+function nestedList(item: ListItem): List | undefined {
+  return item.children.find((child): child is List => child.type === "list");
+}
+
+function itemNumber(list: List, idx: number): number | undefined {
+  return list.ordered ? (list.start ?? 1) + idx : undefined;
+}
+
+function hasChanges(diff: ListDiff): boolean {
+  return diff.items.some((item) => item.status !== "equal");
+}
+
+const EMPTY_LIST: List = { type: "list", ordered: false, children: [] };
+
+/** Diff an item present on both sides (matched, or the new position of a moved item) */
+function diffItem(left: List, right: List, leftIdx: number, rightIdx: number, options: DiffOptions): ListItemDiff {
+  const leftItem = left.children[leftIdx];
+  const rightItem = right.children[rightIdx];
+  const leftText = itemText(leftItem);
+  const rightText = itemText(rightItem);
+  const leftChecked = leftItem.checked ?? null;
+  const rightChecked = rightItem.checked ?? null;
+  const leftNumber = itemNumber(left, leftIdx);
+  const rightNumber = itemNumber(right, rightIdx);
+
+  const leftNested = nestedList(leftItem);
+  const rightNested = nestedList(rightItem);
+  const children = leftNested || rightNested
+    ? diffLists(leftNested ?? EMPTY_LIST, rightNested ?? EMPTY_LIST, options)
+    : undefined;
+
+  let status: ListItemStatus;
+  if (leftText !== rightText || (children && hasChanges(children))) status = "modified";
+  else if (leftChecked !== rightChecked) status = "toggled";
+  else status = "equal";
+
+  return {
+    status,
+    leftIdx,
+    rightIdx,
+    left: leftText,
+    right: rightText,
+    leftNumber,
+    rightNumber,
+    ...(leftNumber !== undefined && rightNumber !== undefined && leftNumber !== rightNumber && { renumbered: true }),
+    leftChecked,
+    rightChecked,
+    ...(leftText !== rightText && { inlineDiff: computeInlineDiff(leftText, rightText, options) }),
+    ...(children && { children }),
+  };
+}
+
+/** An item on one side only; its nested list counts as added or removed with it */
+function oneSidedItem(list: List, idx: number, side: "left" | "right", options: DiffOptions): ListItemDiff {
+  const item = list.children[idx];
+  const nested = nestedList(item);
+  const children = nested
+    ? side === "left" ? diffLists(nested, EMPTY_LIST, options) : diffLists(EMPTY_LIST, nested, options)
+    : undefined;
+  const fields = side === "left"
+    ? { leftIdx: idx, left: itemText(item), leftNumber: itemNumber(list, idx), leftChecked: item.checked ?? null }
+    : { rightIdx: idx, right: itemText(item), rightNumber: itemNumber(list, idx), rightChecked: item.checked ?? null };
+  return { status: side === "left" ? "removed" : "added", ...fields, ...(children && { children }) };
+}
+
+/**
+ * Identical items anchor the alignment; the similarity LCS only pairs items
+ * between anchors. Run over the whole list, it would shift every match past
+ * an inserted item when items read alike ("Step 3", "Step 4", ...).
+ */
+function matchItems(leftTexts: string[], rightTexts: string[], options: DiffOptions): BlockMatch[] {
+  const matches: BlockMatch[] = [];
+  let l = 0;
+  let r = 0;
+  const gap = (leftEnd: number, rightEnd: number) => {
+    for (const match of findBlockMatches(leftTexts.slice(l, leftEnd), rightTexts.slice(r, rightEnd), options)) {
+      matches.push({ ...match, leftIdx: l + match.leftIdx, rightIdx: r + match.rightIdx });
+    }
+    l = leftEnd;
+    r = rightEnd;
+  };
+  let leftEnd = 0;
+  let rightEnd = 0;
+  for (const chunk of diffArrays(leftTexts, rightTexts)) {
+    const count = chunk.value.length;
+    if (chunk.removed) leftEnd += count;
+    else if (chunk.added) rightEnd += count;
+    else {
+      gap(leftEnd, rightEnd);
+      for (let k = 0; k < count; k++) matches.push({ leftIdx: l++, rightIdx: r++, exact: true });
+      leftEnd = l;
+      rightEnd = r;
+    }
+  }
+  gap(leftEnd, rightEnd);
+  return matches;
+}
+
+export function diffLists(left: List, right: List, options: DiffOptions = DEFAULT_DIFF_OPTIONS): ListDiff {
+  const leftTexts = left.children.map(itemText);
+  const rightTexts = right.children.map(itemText);
+  const matches = matchItems(leftTexts, rightTexts, options);
+
+  // Items left unmatched on both sides may have been reordered
+  const matchedLeft = new Set(matches.map((m) => m.leftIdx));
+  const matchedRight = new Set(matches.map((m) => m.rightIdx));
+  const unmatchedLeft = leftTexts.map((_, i) => i).filter((i) => !matchedLeft.has(i));
+  const unmatchedRight = rightTexts.map((_, i) => i).filter((i) => !matchedRight.has(i));
+  const movedTo = new Map<number, number>();
+  const movedFrom = new Map<number, number>();
+  const removedTexts = unmatchedLeft.map((i) => leftTexts[i]);
+  const addedTexts = unmatchedRight.map((i) => rightTexts[i]);
+  for (const { removedIdx, addedIdx } of findMovedBlocks(removedTexts, addedTexts, options)) {
+    movedTo.set(unmatchedLeft[removedIdx], unmatchedRight[addedIdx]);
+    movedFrom.set(unmatchedRight[addedIdx], unmatchedLeft[removedIdx]);
+  }
+
+  const items: ListItemDiff[] = [];
+  const leftOnly = (idx: number) => {
+    const item = oneSidedItem(left, idx, "left", options);
+    const to = movedTo.get(idx);
+    if (to !== undefined) {
+      // The nested list is diffed at the new position
+      delete item.children;
+      Object.assign(item, { status: "moved", movedTo: to });
+    }
+    items.push(item);
+  };
+  const rightOnly = (idx: number) => {
+    const from = movedFrom.get(idx);
+    if (from === undefined) {
+      items.push(oneSidedItem(right, idx, "right", options));
+      return;
+    }
+    // The new position carries the item's diff against where it came from
+    const moved = diffItem(left, right, from, idx, options);
+    delete moved.leftIdx;
+    items.push({ ...moved, status: "moved", movedFrom: from });
+  };
+
+  // Merged order, removed before added like the block pipeline
+  let l = 0;
+  let r = 0;
+  for (const match of [...matches, { leftIdx: left.children.length, rightIdx: right.children.length }]) {
+    for (; l < match.leftIdx; l++) leftOnly(l);
+    for (; r < match.rightIdx; r++) rightOnly(r);
+    if (l < left.children.length && r < right.children.length) items.push(diffItem(left, right, l++, r++, options));
+  }
+
+  return { leftOrdered: left.ordered ?? false, rightOrdered: right.ordered ?? false, items };
+}
+
+/** Pipeline stage: attach an item-level diff to every modified list pair */
+export function attachListDiffs(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): DiffPair[] {
+  return pairs.map((pair): DiffPair => {
+    if (pair.status !== "modified" || pair.left.type !== "list" || pair.right.type !== "list") return pair;
+    const listDiff = diffLists(pair.left, pair.right, options);
+    return { ...pair, listDiff } satisfies ModifiedPair;
+  });
+}
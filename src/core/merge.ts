@@ -0,0 +1,123 @@
+/**
+ * Three-way block diff for merge conflicts.
+ * Aligns ours and theirs against the common base with the same LCS block
+ * matching as the two-way diff, then classifies each aligned row by which
+ * side changed it.
+ */
+import type { RootContent } from "mdast";
+import { blockToText } from "../text/parse.js";
+import { findBlockMatches, createModifiedPair, type BlockMatch } from "./block-matching.js";
+import type { InlinePart } from "./inline-diff.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
+
+/**
+ * Which side changed a row relative to the base:
+ * - equal: neither side
+ * - ours / theirs: only that side (the change merges cleanly)
+ * - both: both sides made the same change
+ * - conflict: both sides changed it differently
+ */
+export type MergeStatus = "equal" | "ours" | "theirs" | "both" | "conflict";
+
+/** One side of a merge row compared to the base */
+export interface MergeSide {
+  /** The block on this side; missing when the side deleted the base block */
+  node?: RootContent;
+  /** Whether the side differs from the base (added, deleted or modified) */
+  changed: boolean;
+  /** Base → side inline diff, when both have the block and it was modified */
+  inlineDiff?: InlinePart[];
+}
+
+export interface MergeRow {
+  status: MergeStatus;
+  /** Base block; missing for blocks inserted by ours and/or theirs */
+  base?: RootContent;
+  ours: MergeSide;
+  theirs: MergeSide;
+}
+
+/** Base index → match on one side */
+function matchesByBase(matches: BlockMatch[]): Map<number, BlockMatch> {
+  return new Map(matches.map((m) => [m.leftIdx, m]));
+}
+
+function sideOf(
+  base: RootContent | undefined,
+  node: RootContent | undefined,
+  exact: boolean,
+  options: DiffOptions,
+): MergeSide {
+  if (!node) return { changed: base !== undefined };
+  if (!base) return { node, changed: true };
+  if (exact) return { node, changed: false };
+  return { node, changed: true, inlineDiff: createModifiedPair(base, node, options).inlineDiff };
+}
+
+function classify(ours: MergeSide, theirs: MergeSide): MergeStatus {
+  if (!ours.changed && !theirs.changed) return "equal";
+  if (!theirs.changed) return "ours";
+  if (!ours.changed) return "theirs";
+  const oursText = ours.node ? blockToText(ours.node) : undefined;
+  const theirsText = theirs.node ? blockToText(theirs.node) : undefined;
+  return oursText === theirsText ? "both" : "conflict";
+}
+
+/**
+ * Rows for blocks inserted at the same place by ours and/or theirs.
+ * Insertions on both sides pair up by position; identical runs are "both".
+ */
+function insertionRows(ours: RootContent[], theirs: RootContent[], options: DiffOptions): MergeRow[] {
+  const rows: MergeRow[] = [];
+  for (let k = 0; k < Math.max(ours.length, theirs.length); k++) {
+    const oursSide = sideOf(undefined, ours[k], false, options);
+    const theirsSide = sideOf(undefined, theirs[k], false, options);
+    rows.push({ status: classify(oursSide, theirsSide), ours: oursSide, theirs: theirsSide });
+  }
+  return rows;
+}
+
+/**
+ * Three-way diff of block lists.
+ * Rows follow base order, with inserted blocks placed before the next base
+ * block that their side kept.
+ */
+export function diffThreeWay(
+  baseBlocks: RootContent[],
+  oursBlocks: RootContent[],
+  theirsBlocks: RootContent[],
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+): MergeRow[] {
+  const baseTexts = baseBlocks.map(blockToText);
+  const oursMatches = matchesByBase(findBlockMatches(baseTexts, oursBlocks.map(blockToText), options));
+  const theirsMatches = matchesByBase(findBlockMatches(baseTexts, theirsBlocks.map(blockToText), options));
+
+  const rows: MergeRow[] = [];
+  let o = 0;
+  let t = 0;
+
+  for (let i = 0; i <= baseBlocks.length; i++) {
+    const atEnd = i === baseBlocks.length;
+    const oursMatch = oursMatches.get(i);
+    const theirsMatch = theirsMatches.get(i);
+
+    // Blocks each side inserted before this base block (or before the end)
+    const oursEnd = atEnd ? oursBlocks.length : oursMatch?.rightIdx ?? o;
+    const theirsEnd = atEnd ? theirsBlocks.length : theirsMatch?.rightIdx ?? t;
+    rows.push(...insertionRows(oursBlocks.slice(o, oursEnd), theirsBlocks.slice(t, theirsEnd), options));
+    o = oursEnd;
+    t = theirsEnd;
+    if (atEnd) break;
+
+    const base = baseBlocks[i];
+    const oursNode = oursMatch && oursBlocks[oursMatch.rightIdx];
+    const theirsNode = theirsMatch && theirsBlocks[theirsMatch.rightIdx];
+    const ours = sideOf(base, oursNode, oursMatch?.exact ?? false, options);
+    const theirs = sideOf(base, theirsNode, theirsMatch?.exact ?? false, options);
+    if (oursMatch) o++;
+    if (theirsMatch) t++;
+    rows.push({ status: classify(ours, theirs), base, ours, theirs });
+  }
+
+  return rows;
+}
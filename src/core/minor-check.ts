@@ -13,6 +13,9 @@ export function isMinorPart(part: InlinePart): boolean {
   // Already marked as minor from recursive diff
   if (part.minor) return true;
 
+  // Formatting toggles leave the text as it was
+  if (part.formatting) return true;
+
   // Pure punctuation is always minor
   if ((part.type === "removed" || part.type === "added") && isPurePunctuation(part.value)) {
     return true;
@@ -2,13 +2,14 @@
  * Detection of text that was "moved" between blocks.
  * Identifies text removed from one block that appears in another.
  */
-import { blockInnerText, getWrapTag } from "../text/parse.js";
-import { sharedWordRunScore } from "../text/similarity.js";
+import type { RootContent } from "mdast";
+import { blockInnerText, blockToText, getWrapTag } from "../text/parse.js";
+import { sharedWordRunScore, similarity } from "../text/similarity.js";
 import { countTotalWords, countSharedWords } from "../text/text-metrics.js";
 import { computeInlineDiff, type InlinePart } from "./inline-diff.js";
 import { isMinorPart } from "./minor-check.js";
-import { type DiffPair, type ModifiedPair, type DiffMetrics } from "./block-matching.js";
-import { WORD_CONFIG } from "../config.js";
+import { type DiffPair, type ModifiedPair, type DiffMetrics, createMovedPair } from "./block-matching.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions, type WordConfig } from "../config.js";
 import { createDebugLogger } from "../debug.js";
 
 const debug = createDebugLogger("move-detection");
@@ -19,7 +20,8 @@ const debug = createDebugLogger("move-detection");
  *
  * Note: Paragraph splits are handled by the split-detection stage before this.
  */
-export function detectMovedText(pairs: DiffPair[]): DiffPair[] {
+export function detectMovedText(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): DiffPair[] {
+  const minSegmentLength = options.word.MIN_SEGMENT_LENGTH_FOR_MOVED;
   // Collect all removed and added text segments from modified blocks
   const removedSegments: { pairIdx: number; text: string }[] = [];
   const addedSegments: { pairIdx: number; text: string }[] = [];
@@ -28,10 +30,10 @@ export function detectMovedText(pairs: DiffPair[]): DiffPair[] {
     const p = pairs[i];
     if (p.status === "modified") {
       for (const part of p.inlineDiff) {
-        if (part.type === "removed" && !isMinorPart(part) && part.value.length > WORD_CONFIG.MIN_SEGMENT_LENGTH_FOR_MOVED) {
+        if (part.type === "removed" && !isMinorPart(part) && part.value.length > minSegmentLength) {
           removedSegments.push({ pairIdx: i, text: part.value });
         }
-        if (part.type === "added" && !isMinorPart(part) && part.value.length > WORD_CONFIG.MIN_SEGMENT_LENGTH_FOR_MOVED) {
+        if (part.type === "added" && !isMinorPart(part) && part.value.length > minSegmentLength) {
           addedSegments.push({ pairIdx: i, text: part.value });
         }
       }
@@ -42,7 +44,7 @@ export function detectMovedText(pairs: DiffPair[]): DiffPair[] {
   }
 
   // Find matches between removed and added segments
-  const moveMatches = findMoveMatches(removedSegments, addedSegments);
+  const moveMatches = findMoveMatches(removedSegments, addedSegments, options.word);
 
   if (moveMatches.length === 0) {
     return pairs;
@@ -51,7 +53,118 @@ export function detectMovedText(pairs: DiffPair[]): DiffPair[] {
   debug("Found", moveMatches.length, "move matches");
 
   // For each match, convert removed text to equal in both blocks
-  return applyMoveMatches(pairs, moveMatches);
+  return applyMoveMatches(pairs, moveMatches, options);
+}
+
+/** Blocks whose text may be edited on the way and still count as the same block */
+const EDITABLE_MOVED_TYPES = new Set(["paragraph", "heading"]);
+
+/** Definitions are shown after the block that cites them, wherever they are in the source */
+const UNPLACED_TYPES = new Set(["footnoteDefinition", "definition"]);
+
+interface PlacedBlock {
+  pairIdx: number;
+  node: RootContent;
+  text: string;
+}
+
+/** Too short to tell a move from a coincidence (a lone `---` or "TODO"), or placed by the renderer */
+function isMovable(block: PlacedBlock, options: DiffOptions): boolean {
+  if (UNPLACED_TYPES.has(block.node.type)) return false;
+  return block.text.trim().split(/\s+/).filter(Boolean).length >= options.word.MIN_ANCHOR_RUN;
+}
+
+/** Identical blocks score above any edited pair; null when the two aren't the same block */
+function movedBlockScore(removed: PlacedBlock, added: PlacedBlock, options: DiffOptions): number | null {
+  if (removed.node.type !== added.node.type) return null;
+  if (removed.text === added.text) return 2;
+  if (!EDITABLE_MOVED_TYPES.has(removed.node.type)) return null;
+  const score = similarity(removed.text, added.text);
+  return score >= options.block.SIMILARITY_THRESHOLD ? score : null;
+}
+
+/** A block with only removed and added blocks between its old and new place didn't move */
+function crossesUnchanged(pairs: DiffPair[], a: number, b: number): boolean {
+  const between = pairs.slice(Math.min(a, b) + 1, Math.max(a, b));
+  return between.some((pair) => pair.status !== "removed" && pair.status !== "added");
+}
+
+/**
+ * Detect whole blocks that moved: a removed block and an added block past
+ * unchanged content with the same text or, for paragraphs and headings, text
+ * similar enough to match (SIMILARITY_THRESHOLD). Each becomes a moved pair
+ * twice, "from" at its old place and "to" at its new place, best match first.
+ *
+ * Runs before detectMovedText, so a block that moved whole isn't read as text
+ * moved into a neighbouring block.
+ */
+export function detectMovedBlocks(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): DiffPair[] {
+  const removed: PlacedBlock[] = [];
+  const added: PlacedBlock[] = [];
+  pairs.forEach((pair, pairIdx) => {
+    if (pair.status === "removed") removed.push({ pairIdx, node: pair.left, text: blockToText(pair.left) });
+    if (pair.status === "added" && !pair.moved && !pair.inlineDiff) {
+      added.push({ pairIdx, node: pair.right, text: blockToText(pair.right) });
+    }
+  });
+
+  const candidates: Array<{ removed: PlacedBlock; added: PlacedBlock; score: number }> = [];
+  for (const r of removed) {
+    if (!isMovable(r, options)) continue;
+    for (const a of added) {
+      const score = movedBlockScore(r, a, options);
+      if (score === null || !crossesUnchanged(pairs, r.pairIdx, a.pairIdx)) continue;
+      candidates.push({ removed: r, added: a, score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const result = [...pairs];
+  const used = new Set<PlacedBlock>();
+  for (const { removed: r, added: a } of candidates) {
+    if (used.has(r) || used.has(a)) continue;
+    used.add(r).add(a);
+    const inlineDiff =
+      r.text === a.text ? undefined : computeInlineDiff(blockInnerText(r.node), blockInnerText(a.node), options);
+    result[r.pairIdx] = createMovedPair(r.node, a.node, "from", inlineDiff);
+    result[a.pairIdx] = createMovedPair(r.node, a.node, "to", inlineDiff);
+  }
+  debug("detectMovedBlocks:", used.size / 2, "moved blocks");
+  return result;
+}
+
+/**
+ * Pair removed blocks with added blocks elsewhere that carry the same text:
+ * identical, or sharing a run of at least MIN_SHARED_FOR_MOVED words as in
+ * detectMovedText. Each block pairs at most once, best score first.
+ * Used to detect reordered list items.
+ */
+export function findMovedBlocks(
+  removedTexts: string[],
+  addedTexts: string[],
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+): { removedIdx: number; addedIdx: number }[] {
+  const candidates: MoveMatch[] = [];
+  removedTexts.forEach((removed, removedIdx) => {
+    addedTexts.forEach((added, addedIdx) => {
+      if (!removed.trim()) return;
+      const sharedWords = removed.trim() === added.trim() ? Infinity : sharedWordRunScore(removed, added);
+      if (sharedWords >= options.word.MIN_SHARED_FOR_MOVED) candidates.push({ removedIdx, addedIdx, sharedWords });
+    });
+  });
+  candidates.sort((a, b) => b.sharedWords - a.sharedWords);
+
+  const usedRemoved = new Set<number>();
+  const usedAdded = new Set<number>();
+  const result: { removedIdx: number; addedIdx: number }[] = [];
+  for (const { removedIdx, addedIdx } of candidates) {
+    if (usedRemoved.has(removedIdx) || usedAdded.has(addedIdx)) continue;
+    usedRemoved.add(removedIdx);
+    usedAdded.add(addedIdx);
+    result.push({ removedIdx, addedIdx });
+  }
+  debug("findMovedBlocks:", result.length, "moves");
+  return result;
 }
 
 interface MoveMatch {
@@ -63,6 +176,7 @@ interface MoveMatch {
 function findMoveMatches(
   removedSegments: { pairIdx: number; text: string }[],
   addedSegments: { pairIdx: number; text: string }[],
+  word: Readonly<WordConfig>,
 ): MoveMatch[] {
   const moveMatches: MoveMatch[] = [];
 
@@ -70,7 +184,7 @@ function findMoveMatches(
     for (const added of addedSegments) {
       if (removed.pairIdx !== added.pairIdx) {
         const score = sharedWordRunScore(removed.text, added.text);
-        if (score >= WORD_CONFIG.MIN_SHARED_FOR_MOVED) {
+        if (score >= word.MIN_SHARED_FOR_MOVED) {
           moveMatches.push({ removedIdx: removed.pairIdx, addedIdx: added.pairIdx, sharedWords: score });
         }
       }
@@ -80,7 +194,7 @@ function findMoveMatches(
   return moveMatches;
 }
 
-function applyMoveMatches(pairs: DiffPair[], moveMatches: MoveMatch[]): DiffPair[] {
+function applyMoveMatches(pairs: DiffPair[], moveMatches: MoveMatch[], options: DiffOptions): DiffPair[] {
   const result: DiffPair[] = [];
   const processedMoves = new Set<string>();
 
@@ -92,12 +206,12 @@ function applyMoveMatches(pairs: DiffPair[], moveMatches: MoveMatch[]): DiffPair
     const moveAsAdded = moveMatches.find(m => m.addedIdx === i);
 
     if (moveAsRemoved && current.status === "modified") {
-      result.push(handleRemovedMove(current, pairs, moveAsRemoved));
+      result.push(handleRemovedMove(current, pairs, moveAsRemoved, options));
       processedMoves.add(`${moveAsRemoved.removedIdx}-${moveAsRemoved.addedIdx}`);
     } else if (moveAsAdded) {
       const key = `${moveAsAdded.removedIdx}-${moveAsAdded.addedIdx}`;
       if (processedMoves.has(key)) {
-        result.push(handleAddedMove(current, pairs, moveAsAdded));
+        result.push(handleAddedMove(current, pairs, moveAsAdded, options));
       } else {
         result.push(current);
       }
@@ -156,7 +270,12 @@ function extractRemovedText(pair: DiffPair): string {
   return "";
 }
 
-function handleRemovedMove(current: ModifiedPair, pairs: DiffPair[], moveAsRemoved: MoveMatch): ModifiedPair {
+function handleRemovedMove(
+  current: ModifiedPair,
+  pairs: DiffPair[],
+  moveAsRemoved: MoveMatch,
+  options: DiffOptions,
+): ModifiedPair {
   // This block has text that was "moved out" - find the matching added text
   const addedText = extractAddedText(pairs[moveAsRemoved.addedIdx]);
 
@@ -164,12 +283,12 @@ function handleRemovedMove(current: ModifiedPair, pairs: DiffPair[], moveAsRemov
   // Use blockInnerText to match createModifiedPair behavior (no heading prefixes).
   const leftText = blockInnerText(current.left);
   const rightText = blockInnerText(current.right) + "\n\n" + addedText;
-  const newInlineDiff = computeInlineDiff(leftText, rightText);
+  const newInlineDiff = computeInlineDiff(leftText, rightText, options);
 
   return rebuildModifiedPair(current, newInlineDiff);
 }
 
-function handleAddedMove(current: DiffPair, pairs: DiffPair[], moveAsAdded: MoveMatch): DiffPair {
+function handleAddedMove(current: DiffPair, pairs: DiffPair[], moveAsAdded: MoveMatch, options: DiffOptions): DiffPair {
   // This added block's content is already shown in the modified block
   if (current.status === "added") {
     // Mark as moved - render layer will skip this entirely
@@ -187,7 +306,7 @@ function handleAddedMove(current: DiffPair, pairs: DiffPair[], moveAsAdded: Move
     if (!removedText) return current;
 
     const filteredDiff = current.inlineDiff.map(part => {
-      if (part.type === "added" && sharedWordRunScore(part.value, removedText) >= WORD_CONFIG.MIN_SHARED_FOR_MOVED) {
+      if (part.type === "added" && sharedWordRunScore(part.value, removedText) >= options.word.MIN_SHARED_FOR_MOVED) {
         return { ...part, type: "equal" as const };
       }
       return part;
@@ -1,13 +1,22 @@
 /**
  * Diff pipeline - explicit orchestration of diff transformation stages.
  *
- * The diff algorithm proceeds through these stages:
+ * The diff algorithm proceeds through these steps:
+ * 0. Section Moves: Sections that moved as a whole are cut out and diffed on their own
  * 1. Block Matching: LCS-based matching of similar blocks
  * 2. Initial Pairing: Create DiffPair array from matches
- * 3. Pair Unmatched: Try to pair consecutive removed/added blocks
- * 4. Paragraph Split Detection: Detect when one paragraph was split into two
- * 5. Move Detection: Detect text moved between blocks
- * 6. Validation: Check invariants (debug mode only)
+ * 3. Stages (DEFAULT_STAGES), in order:
+ *    Stage 1. Pair Unmatched: Try to pair consecutive removed/added blocks
+ *    Stage 2. Paragraph Split Detection: Detect when one paragraph was split into several, or several joined into one
+ *    Stage 3. Block Move Detection: Detect whole blocks that moved, unchanged or lightly edited
+ *    Stage 4. Move Detection: Detect text moved between blocks
+ *    Stage 5. Table Diff: Structural row/column/cell diff for modified tables
+ *    Stage 6. List Diff: Item-level diff for modified lists
+ *    Stage 7. Code Diff: Line-level diff for modified code blocks
+ *    Stage 8. Container Diff: Recursive diff of the blocks inside modified containers
+ *    Stage 9. HTML Diff: Element and attribute diff for modified raw HTML blocks
+ *    Stage 10. References: Renumbered footnotes and renamed link references marked minor
+ * 4. Validation: Check invariants (debug mode only)
  */
 import type { RootContent } from "mdast";
 import { blockToText } from "../text/parse.js";
@@ -21,22 +30,32 @@ import {
   createRemovedPair,
   createModifiedPair,
 } from "./block-matching.js";
-import { detectMovedText } from "./move-detection.js";
+import { detectMovedBlocks, detectMovedText } from "./move-detection.js";
 import { detectParagraphSplits } from "./split-detection.js";
+import { attachTableDiffs } from "./table-diff.js";
+import { attachListDiffs } from "./list-diff.js";
+import { attachCodeDiffs } from "./code-diff.js";
+import { attachContainerDiffs } from "./container-diff.js";
+import { attachHtmlDiffs } from "./html-diff.js";
+import { markRenumberedReferences } from "./footnotes.js";
+import { diffMovedSections, findSectionMoves } from "./sections.js";
 import { createDebugLogger, isDebugEnabled } from "../debug.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
 
 const debug = createDebugLogger("pipeline");
 
 /**
  * Pipeline stage function type.
- * Each stage transforms DiffPair[] to DiffPair[].
+ * Each stage transforms DiffPair[] to DiffPair[] using the options of the current run.
  */
-export type PipelineStage = (pairs: DiffPair[]) => DiffPair[];
+export type PipelineStage = (pairs: DiffPair[], options: DiffOptions) => DiffPair[];
 
 /**
  * Pipeline configuration.
  */
 export interface PipelineConfig {
+  /** Thresholds and matching level for this run (default: DEFAULT_DIFF_OPTIONS) */
+  options?: DiffOptions;
   /** Enable debug validation of invariants */
   validateInvariants?: boolean;
   /** Custom stages to run after default stages */
@@ -50,6 +69,7 @@ function createInitialPairs(
   leftBlocks: RootContent[],
   rightBlocks: RootContent[],
   matches: BlockMatch[],
+  options: DiffOptions,
 ): DiffPair[] {
   const result: DiffPair[] = [];
 
@@ -72,7 +92,7 @@ function createInitialPairs(
     if (match.exact) {
       result.push(createEqualPair(leftBlocks[li], rightBlocks[ri]));
     } else {
-      result.push(createModifiedPair(leftBlocks[li], rightBlocks[ri]));
+      result.push(createModifiedPair(leftBlocks[li], rightBlocks[ri], options));
     }
     li++;
     ri++;
@@ -96,19 +116,54 @@ function createInitialPairs(
  */
 export const DEFAULT_STAGES: readonly PipelineStage[] = [
   // Stage 1: Pair unmatched removed/added blocks
-  (pairs) => {
+  (pairs, options) => {
     debug("Stage: pairUpUnmatchedBlocks");
-    return pairUpUnmatchedBlocks(pairs);
+    return pairUpUnmatchedBlocks(pairs, options);
   },
-  // Stage 2: Detect paragraph splits (before move detection)
+  // Stage 2: Detect paragraph splits and joins (before move detection)
   (pairs) => {
     debug("Stage: detectParagraphSplits");
     return detectParagraphSplits(pairs);
   },
-  // Stage 3: Detect moved text between blocks
-  (pairs) => {
+  // Stage 3: Detect whole blocks that moved (before moved text)
+  (pairs, options) => {
+    debug("Stage: detectMovedBlocks");
+    return detectMovedBlocks(pairs, options);
+  },
+  // Stage 4: Detect moved text between blocks
+  (pairs, options) => {
     debug("Stage: detectMovedText");
-    return detectMovedText(pairs);
+    return detectMovedText(pairs, options);
+  },
+  // Stage 5: Diff modified tables row by row and cell by cell
+  (pairs, options) => {
+    debug("Stage: attachTableDiffs");
+    return attachTableDiffs(pairs, options);
+  },
+  // Stage 6: Diff modified lists item by item
+  (pairs, options) => {
+    debug("Stage: attachListDiffs");
+    return attachListDiffs(pairs, options);
+  },
+  // Stage 7: Diff modified code blocks line by line
+  (pairs, options) => {
+    debug("Stage: attachCodeDiffs");
+    return attachCodeDiffs(pairs, options);
+  },
+  // Stage 8: Diff the blocks inside modified containers with this same pipeline
+  (pairs, options) => {
+    debug("Stage: attachContainerDiffs");
+    return attachContainerDiffs(pairs, (left, right, opts) => runPipeline(left, right, { options: opts }), options);
+  },
+  // Stage 9: Diff modified raw HTML blocks element by element
+  (pairs, options) => {
+    debug("Stage: attachHtmlDiffs");
+    return attachHtmlDiffs(pairs, options);
+  },
+  // Stage 10: Link footnotes and link definitions by content; label-only changes are minor
+  (pairs, options) => {
+    debug("Stage: markRenumberedReferences");
+    return markRenumberedReferences(pairs, options);
   },
 ];
 
@@ -125,22 +180,31 @@ export function runPipeline(
   rightBlocks: RootContent[],
   config?: PipelineConfig,
 ): DiffPair[] {
+  const options = config?.options ?? DEFAULT_DIFF_OPTIONS;
+
+  // Step 0: Sections moved as a whole are diffed on their own, placed where they now are
+  const moves = findSectionMoves(leftBlocks, rightBlocks, options);
+  if (moves.length > 0) {
+    debug("Section moves:", moves.map((move) => move.right.title));
+    return diffMovedSections(leftBlocks, rightBlocks, moves, (left, right) => runPipeline(left, right, config));
+  }
+
   const leftTexts = leftBlocks.map(blockToText);
   const rightTexts = rightBlocks.map(blockToText);
 
   debug("Pipeline start:", leftBlocks.length, "left blocks,", rightBlocks.length, "right blocks");
 
   // Step 1: Find block matches using LCS
-  const matches = findBlockMatches(leftTexts, rightTexts);
+  const matches = findBlockMatches(leftTexts, rightTexts, options);
 
   // Step 2: Create initial pairs from matches
-  let pairs = createInitialPairs(leftBlocks, rightBlocks, matches);
+  let pairs = createInitialPairs(leftBlocks, rightBlocks, matches, options);
   debug("Initial pairs:", pairs.length);
 
-  // Step 3: Run pipeline stages
+  // Step 3: Run stages 1-10 (DEFAULT_STAGES), then any additional ones
   const stages = [...DEFAULT_STAGES, ...(config?.additionalStages ?? [])];
   for (const stage of stages) {
-    pairs = stage(pairs);
+    pairs = stage(pairs, options);
   }
 
   debug("Pipeline complete:", pairs.length, "pairs");
@@ -159,7 +223,7 @@ export function runPipeline(
  * This function logs debug info to confirm the pipeline ran correctly.
  */
 function validatePipelineOutput(pairs: DiffPair[]): void {
-  const counts = { equal: 0, added: 0, removed: 0, modified: 0, split: 0 };
+  const counts = { equal: 0, added: 0, removed: 0, modified: 0, split: 0, join: 0, moved: 0 };
   for (const pair of pairs) {
     counts[pair.status]++;
   }
@@ -0,0 +1,217 @@
+/**
+ * Section-level diffing. Sections are matched across the two documents by
+ * heading and content; a matched section that changed places among its
+ * siblings moved as a whole, so it is diffed on its own and shown where it
+ * now is, instead of as a run of removed blocks plus a run of added ones.
+ * The outline summarizes the diff per section for the HTML view.
+ */
+import type { Heading, RootContent } from "mdast";
+import { blockInnerText, blockToText } from "../text/parse.js";
+import { buildSections, type Section } from "../text/sections.js";
+import { similarity } from "../text/similarity.js";
+import type { DiffPair } from "./block-matching.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions, type Side } from "../config.js";
+
+/** A section that moved among its siblings, with its place in each document */
+export interface SectionMove {
+  left: Section;
+  right: Section;
+}
+
+export type SectionStatus = "equal" | "changed" | "added" | "removed" | "moved";
+
+/** One heading of the outline, with the change to its section */
+export interface SectionOutline {
+  title: string;
+  depth: number;
+  /** "changed" when anything in the section or its subsections changed; a moved section is "moved" */
+  status: SectionStatus;
+  /** Document the heading is shown from: the right one, or the left one for a removed section */
+  side: Side;
+  /** Source line of the heading in that document */
+  line?: number;
+  children: SectionOutline[];
+}
+
+// ─── Matching ────────────────────────────────────────────────────────────────
+
+function sectionText(texts: string[], section: Section): string {
+  return texts.slice(section.start, section.end).join("\n\n");
+}
+
+/**
+ * Pair sibling sections of the same level, each at most once, best first:
+ * a section with the same title scores above any that only has similar content.
+ * Returned in left document order.
+ */
+function matchSiblings(
+  left: Section[],
+  right: Section[],
+  texts: { left: string[]; right: string[] },
+  options: DiffOptions,
+): SectionMove[] {
+  const candidates: Array<SectionMove & { score: number }> = [];
+  for (const l of left) {
+    for (const r of right) {
+      if (l.heading.depth !== r.heading.depth) continue;
+      const content = similarity(sectionText(texts.left, l), sectionText(texts.right, r));
+      const sameTitle = l.title.toLowerCase() === r.title.toLowerCase();
+      if (sameTitle || content >= options.block.SIMILARITY_THRESHOLD) {
+        candidates.push({ left: l, right: r, score: content + (sameTitle ? 1 : 0) });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const used = new Set<Section>();
+  const matches: SectionMove[] = [];
+  for (const { left: l, right: r } of candidates) {
+    if (used.has(l) || used.has(r)) continue;
+    used.add(l).add(r);
+    matches.push({ left: l, right: r });
+  }
+  return matches.sort((a, b) => a.left.start - b.left.start);
+}
+
+/** Matches in the longest run that keeps its order on both sides; the others moved */
+function inOrder(matches: SectionMove[]): Set<SectionMove> {
+  const length = matches.map(() => 1);
+  const previous = matches.map(() => -1);
+  let last = -1;
+  for (let i = 0; i < matches.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (matches[j].right.start < matches[i].right.start && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (last === -1 || length[i] > length[last]) last = i;
+  }
+  const kept = new Set<SectionMove>();
+  for (let i = last; i !== -1; i = previous[i]) kept.add(matches[i]);
+  return kept;
+}
+
+function collectMoves(
+  left: Section[],
+  right: Section[],
+  texts: { left: string[]; right: string[] },
+  options: DiffOptions,
+  moves: SectionMove[],
+): void {
+  const matches = matchSiblings(left, right, texts, options);
+  const kept = inOrder(matches);
+  for (const match of matches) {
+    if (kept.has(match)) collectMoves(match.left.children, match.right.children, texts, options, moves);
+    else moves.push(match);
+  }
+}
+
+/**
+ * Sections that moved as a whole: matched sections (same parent section
+ * on both sides) outside the longest run of siblings that kept their order.
+ * Subsections of a moved section move with it.
+ */
+export function findSectionMoves(
+  leftBlocks: RootContent[],
+  rightBlocks: RootContent[],
+  options: DiffOptions = DEFAULT_DIFF_OPTIONS,
+): SectionMove[] {
+  const moves: SectionMove[] = [];
+  const texts = { left: leftBlocks.map(blockToText), right: rightBlocks.map(blockToText) };
+  collectMoves(buildSections(leftBlocks), buildSections(rightBlocks), texts, options, moves);
+  return moves;
+}
+
+// ─── Diffing ─────────────────────────────────────────────────────────────────
+
+function rightNodes(pair: DiffPair): RootContent[] {
+  switch (pair.status) {
+    case "equal":
+    case "modified":
+    case "added":
+      return [pair.right];
+    case "split":
+      return pair.parts;
+    case "join":
+      return [pair.joined];
+    case "moved":
+      return pair.place === "to" ? [pair.right] : [];
+    case "removed":
+      return [];
+  }
+}
+
+function flagMoved(pair: DiffPair, heading: Heading): DiffPair {
+  if ((pair.status === "equal" || pair.status === "modified") && pair.right === heading) {
+    return { ...pair, sectionMoved: true };
+  }
+  return pair;
+}
+
+/**
+ * Diff with the moved sections cut out of both documents: the rest is
+ * diffed as usual, each moved section on its own, and its pairs are placed
+ * after the pair of the block that now precedes it. The pair of a moved
+ * section's heading is flagged sectionMoved.
+ */
+export function diffMovedSections(
+  leftBlocks: RootContent[],
+  rightBlocks: RootContent[],
+  moves: SectionMove[],
+  diff: (left: RootContent[], right: RootContent[]) => DiffPair[],
+): DiffPair[] {
+  const moved = (side: Side, i: number) => moves.some((move) => move[side].start <= i && i < move[side].end);
+  let pairs = diff(leftBlocks.filter((_, i) => !moved("left", i)), rightBlocks.filter((_, i) => !moved("right", i)));
+  for (const move of [...moves].sort((a, b) => a.right.start - b.right.start)) {
+    const sectionPairs = diff(
+      leftBlocks.slice(move.left.start, move.left.end),
+      rightBlocks.slice(move.right.start, move.right.end),
+    ).map((pair) => flagMoved(pair, move.right.heading));
+    const before = rightBlocks[move.right.start - 1];
+    const at = before ? pairs.findIndex((pair) => rightNodes(pair).includes(before)) + 1 : 0;
+    pairs = [...pairs.slice(0, at), ...sectionPairs, ...pairs.slice(at)];
+  }
+  return pairs;
+}
+
+// ─── Outline ─────────────────────────────────────────────────────────────────
+
+function headingEntry(pair: DiffPair): SectionOutline | null {
+  // A moved heading is listed where it now is
+  if (pair.status === "split" || pair.status === "join" || (pair.status === "moved" && pair.place === "from")) {
+    return null;
+  }
+  const [side, node] = pair.status === "removed" ? ["left" as const, pair.left] : ["right" as const, pair.right];
+  if (node.type !== "heading") return null;
+  let status: SectionStatus = "changed";
+  if (pair.status === "added" || pair.status === "removed" || pair.status === "moved") status = pair.status;
+  else if (pair.sectionMoved) status = "moved";
+  else if (pair.status === "equal") status = "equal";
+  const title = blockInnerText(node).trim();
+  return { title, depth: node.depth, status, side, line: node.position?.start.line, children: [] };
+}
+
+/** An unchanged section with a changed subsection has changed too */
+function settle(entry: SectionOutline): SectionOutline {
+  const children = entry.children.map(settle);
+  const changed = entry.status === "equal" && children.some((child) => child.status !== "equal");
+  return { ...entry, status: changed ? "changed" : entry.status, children };
+}
+
+/** Heading tree of the diff, in the order the pairs are shown, with each section's change */
+export function outlineSections(pairs: DiffPair[]): SectionOutline[] {
+  const roots: SectionOutline[] = [];
+  const open: SectionOutline[] = [];
+  for (const pair of pairs) {
+    const entry = headingEntry(pair);
+    if (entry) {
+      while (open.length > 0 && open[open.length - 1].depth >= entry.depth) open.pop();
+      (open.length > 0 ? open[open.length - 1].children : roots).push(entry);
+      open.push(entry);
+    } else if (pair.status !== "equal" && open.length > 0 && open[open.length - 1].status === "equal") {
+      open[open.length - 1].status = "changed";
+    }
+  }
+  return roots.map(settle);
+}
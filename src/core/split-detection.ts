@@ -1,131 +1,121 @@
 /**
- * Paragraph split detection.
- * Detects when a single paragraph is split into two (no text changes, just a break inserted).
+ * Paragraph split and join detection.
+ * Detects when a paragraph is split into two or more (no text changes, just
+ * breaks inserted), and the inverse: two or more paragraphs joined into one.
  * Runs early in the pipeline, before move detection.
  */
+import type { RootContent } from "mdast";
 import { blockToText } from "../text/parse.js";
 import { similarity } from "../text/similarity.js";
 import {
   type DiffPair,
   type ModifiedPair,
-  type AddedPair,
   createSplitPair,
+  createJoinPair,
 } from "./block-matching.js";
 import { createDebugLogger } from "../debug.js";
 
 const debug = createDebugLogger("split-detection");
 
-/** Similarity threshold for paragraph split detection */
+/** Similarity threshold for paragraph split and join detection */
 const SPLIT_SIMILARITY_THRESHOLD = 0.95;
 
-/** Split pattern: which pair comes first in the sequence */
-type SplitPattern = {
-  modifiedPair: ModifiedPair;
-  addedPair: AddedPair;
-  order: "added-first" | "modified-first";
-};
+/** A split's parts are added blocks around the modified one; a join's are removed blocks */
+type BreakKind = "split" | "join";
 
-/**
- * Try to match a split pattern at the current position.
- * Returns the pattern details if found, null otherwise.
- */
-function matchSplitPattern(pair0: DiffPair, pair1: DiffPair | undefined): SplitPattern | null {
-  if (!pair1) return null;
+/** Consecutive pairs that together make one split or join */
+interface BreakGroup {
+  start: number;
+  /** Index after the last pair of the group */
+  end: number;
+  pair: DiffPair;
+}
 
-  if (pair0.status === "added" && pair1.status === "modified") {
-    return { modifiedPair: pair1, addedPair: pair0, order: "added-first" };
-  }
-  if (pair0.status === "modified" && pair1.status === "added") {
-    return { modifiedPair: pair0, addedPair: pair1, order: "modified-first" };
-  }
-  return null;
+/** The block a pair adds (split) or removes (join), if that is all it does */
+function partBlock(pair: DiffPair, kind: BreakKind): RootContent | null {
+  if (kind === "split") return pair.status === "added" ? pair.right : null;
+  return pair.status === "removed" ? pair.left : null;
 }
 
 /**
- * Detect paragraph splits in the diff pairs.
- *
- * Patterns detected:
- * - Pattern 1: added + modified where added.text + modified.right ≈ modified.left
- * - Pattern 2: modified + added where modified.right + added.text ≈ modified.left
- *
- * When detected, replaces the two pairs with a single SplitPair.
+ * Find the character index in the whole text after each part but the last.
+ * A part that isn't found as-is is assumed to end its own length further on.
  */
-export function detectParagraphSplits(pairs: DiffPair[]): DiffPair[] {
-  const result: DiffPair[] = [];
-  let i = 0;
-
-  while (i < pairs.length) {
-    const pattern = matchSplitPattern(pairs[i], pairs[i + 1]);
-
-    if (pattern) {
-      const splitResult = tryDetectSplit(pattern.modifiedPair, pattern.addedPair, pattern.order);
-      if (splitResult) {
-        debug(`Detected split (${pattern.order})`);
-        result.push(splitResult);
-        i += 2;
-        continue;
-      }
-    }
-
-    // No split detected, keep the pair as-is
-    result.push(pairs[i]);
-    i++;
+function findBreakPoints(wholeText: string, partTexts: string[]): number[] {
+  const points: number[] = [];
+  let cursor = 0;
+  for (const part of partTexts.slice(0, -1)) {
+    const normalized = part.trim();
+    const idx = wholeText.indexOf(normalized, cursor);
+    cursor = idx >= 0 ? idx + normalized.length : cursor + part.length;
+    points.push(cursor);
   }
-
-  return result;
+  return points;
 }
 
 /**
- * Try to detect a paragraph split from a modified+added pair.
- * Returns a SplitPair if the combined text of the right sides matches the left.
+ * Try to detect a split or join around the modified pair at `at`.
+ * The group grows one adjacent part at a time, on whichever side brings the
+ * combined parts closest to the whole paragraph, and never reaches below
+ * `floor` (pairs already taken). It is kept when the combined parts match
+ * the whole paragraph.
  */
-function tryDetectSplit(
-  modifiedPair: ModifiedPair,
-  addedPair: AddedPair,
-  pattern: "added-first" | "modified-first",
-): DiffPair | null {
-  const originalText = blockToText(modifiedPair.left);
-  const addedText = blockToText(addedPair.right);
-  const modifiedRightText = blockToText(modifiedPair.right);
-
-  // Combine texts based on pattern order
-  const part1Text = pattern === "added-first" ? addedText : modifiedRightText;
-  const part2Text = pattern === "added-first" ? modifiedRightText : addedText;
-  const combinedNew = part1Text + " " + part2Text;
-
-  const sim = similarity(combinedNew, originalText);
-
-  debug(`tryDetectSplit (${pattern}):`);
-  debug("  originalText:", originalText.substring(0, 50) + "...");
-  debug("  part1Text:", part1Text.substring(0, 50) + "...");
-  debug("  part2Text:", part2Text.substring(0, 50) + "...");
-  debug("  similarity:", sim);
-
-  if (sim > SPLIT_SIMILARITY_THRESHOLD) {
-    // Find the split point in the original text
-    const splitPoint = findSplitPoint(originalText, part1Text);
-
-    // Determine which block is first/second based on pattern
-    const firstPart = pattern === "added-first" ? addedPair.right : modifiedPair.right;
-    const secondPart = pattern === "added-first" ? modifiedPair.right : addedPair.right;
-
-    return createSplitPair(modifiedPair.left, firstPart, secondPart, splitPoint);
+function tryDetectBreaks(pairs: DiffPair[], at: number, floor: number, kind: BreakKind): BreakGroup | null {
+  const modifiedPair = pairs[at] as ModifiedPair;
+  const whole = kind === "split" ? modifiedPair.left : modifiedPair.right;
+  const own = kind === "split" ? modifiedPair.right : modifiedPair.left;
+  const wholeText = blockToText(whole);
+  const partsOf = (start: number, end: number) =>
+    pairs.slice(start, end).map((pair) => (pair === modifiedPair ? own : partBlock(pair, kind)!));
+  const score = (start: number, end: number) =>
+    similarity(partsOf(start, end).map(blockToText).join(" "), wholeText);
+
+  let [start, end, best] = [at, at + 1, score(at, at + 1)];
+  for (;;) {
+    const grown: Array<[number, number]> = [];
+    if (start > floor && partBlock(pairs[start - 1], kind)) grown.push([start - 1, end]);
+    if (end < pairs.length && partBlock(pairs[end], kind)) grown.push([start, end + 1]);
+    const next = grown.map(([s, e]) => [s, e, score(s, e)]).sort((a, b) => b[2] - a[2])[0];
+    if (!next || next[2] <= best) break;
+    [start, end, best] = next;
   }
 
-  return null;
+  debug(`tryDetectBreaks (${kind}):`, end - start, "paragraphs, similarity:", best);
+  if (end - start < 2 || best <= SPLIT_SIMILARITY_THRESHOLD) return null;
+
+  const parts = partsOf(start, end);
+  const points = findBreakPoints(wholeText, parts.map(blockToText));
+  const pair = kind === "split" ? createSplitPair(whole, parts, points) : createJoinPair(parts, whole, points);
+  return { start, end, pair };
 }
 
 /**
- * Find the character index where the split occurs in the original text.
+ * Detect paragraph splits and joins in the diff pairs.
+ *
+ * Patterns detected:
+ * - Split: a modified pair with added pairs right before and/or after it,
+ *   whose right sides together ≈ modified.left
+ * - Join: a modified pair with removed pairs right before and/or after it,
+ *   whose left sides together ≈ modified.right
+ *
+ * When detected, replaces the group with a single SplitPair or JoinPair.
  */
-function findSplitPoint(originalText: string, firstPartText: string): number {
-  const part1Normalized = firstPartText.trim();
-  const splitIdx = originalText.indexOf(part1Normalized);
-
-  if (splitIdx >= 0) {
-    return splitIdx + part1Normalized.length;
+export function detectParagraphSplits(pairs: DiffPair[]): DiffPair[] {
+  const result: DiffPair[] = [];
+  // Pairs before `next` are already in the result
+  let next = 0;
+
+  for (let i = 0; i < pairs.length; i++) {
+    if (pairs[i].status !== "modified") continue;
+    const group = tryDetectBreaks(pairs, i, next, "split") ?? tryDetectBreaks(pairs, i, next, "join");
+    if (!group) continue;
+
+    debug(`Detected ${group.pair.status} of ${group.end - group.start} paragraphs`);
+    result.push(...pairs.slice(next, group.start), group.pair);
+    next = group.end;
+    i = group.end - 1;
   }
 
-  // Fallback: assume split is at the end of firstPart
-  return firstPartText.length;
+  result.push(...pairs.slice(next));
+  return result;
 }
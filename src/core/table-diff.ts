@@ -0,0 +1,169 @@
+/**
+ * Structural table diff.
+ * Columns are matched by header text and body rows by the block LCS over
+ * their cell text; cells in matched rows and columns get word-level inline
+ * diffs, so one edited cell no longer marks the whole table as changed.
+ */
+import type { AlignType, Table, TableRow } from "mdast";
+import { tableCellText } from "../text/parse.js";
+import { findBlockMatches, type BlockMatch, type DiffPair, type ModifiedPair } from "./block-matching.js";
+import { computeInlineDiff, type InlinePart } from "./inline-diff.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
+
+export type TableChangeStatus = "equal" | "modified" | "added" | "removed";
+
+export interface TableColumn {
+  /** equal: same header; modified: header text changed; added/removed: one side only */
+  status: TableChangeStatus;
+  leftIdx?: number;
+  rightIdx?: number;
+  align: AlignType;
+}
+
+export interface TableCellDiff {
+  status: TableChangeStatus;
+  left?: string;
+  right?: string;
+  /** Word-level diff of a modified cell */
+  inlineDiff?: InlinePart[];
+}
+
+export interface TableRowDiff {
+  /** Rows are modified when a cell of a column present on both sides changed */
+  status: TableChangeStatus;
+  leftIdx?: number;
+  rightIdx?: number;
+  /** One cell per entry of TableDiff.columns */
+  cells: TableCellDiff[];
+}
+
+export interface TableDiff {
+  columns: TableColumn[];
+  /** Header row first, then body rows in merged order */
+  rows: TableRowDiff[];
+}
+
+/** Index pairs in merged order; unmatched items on either side have one index */
+interface Alignment {
+  leftIdx?: number;
+  rightIdx?: number;
+}
+
+/**
+ * Merge LCS matches into one sequence, removed before added like the block pipeline.
+ * Short cell texts often fall below the similarity threshold, so a gap with as
+ * many items on both sides is paired positionally (an edited row, a renamed
+ * column) when each pair shares a cell value.
+ */
+function align(
+  matches: BlockMatch[],
+  leftCount: number,
+  rightCount: number,
+  related: (leftIdx: number, rightIdx: number) => boolean,
+): Alignment[] {
+  const result: Alignment[] = [];
+  let l = 0;
+  let r = 0;
+  const gap = (leftEnd: number, rightEnd: number) => {
+    const size = leftEnd - l;
+    if (size === rightEnd - r && Array.from({ length: size }, (_, k) => related(l + k, r + k)).every(Boolean)) {
+      for (; l < leftEnd; l++, r++) result.push({ leftIdx: l, rightIdx: r });
+      return;
+    }
+    for (; l < leftEnd; l++) result.push({ leftIdx: l });
+    for (; r < rightEnd; r++) result.push({ rightIdx: r });
+  };
+  for (const match of matches) {
+    gap(match.leftIdx, match.rightIdx);
+    result.push({ leftIdx: l++, rightIdx: r++ });
+  }
+  gap(leftCount, rightCount);
+  return result;
+}
+
+function rowCells(row: TableRow | undefined): string[] {
+  return row?.children.map(tableCellText) ?? [];
+}
+
+function diffCell(left: string, right: string, options: DiffOptions): TableCellDiff {
+  if (left === right) return { status: "equal", left, right };
+  return { status: "modified", left, right, inlineDiff: computeInlineDiff(left, right, options) };
+}
+
+function diffRow(
+  columns: TableColumn[],
+  left: string[] | undefined,
+  right: string[] | undefined,
+  position: Alignment,
+  options: DiffOptions,
+): TableRowDiff {
+  const cells = columns.map((col): TableCellDiff => {
+    const l = left && col.leftIdx !== undefined ? left[col.leftIdx] ?? "" : undefined;
+    const r = right && col.rightIdx !== undefined ? right[col.rightIdx] ?? "" : undefined;
+    if (l === undefined && r === undefined) return { status: "equal" };
+    if (r === undefined) return { status: "removed", left: l };
+    if (l === undefined) return { status: "added", right: r };
+    return diffCell(l, r, options);
+  });
+
+  let status: TableChangeStatus;
+  if (!left) status = "added";
+  else if (!right) status = "removed";
+  else status = cells.some((cell) => cell.status === "modified") ? "modified" : "equal";
+  return { status, ...position, cells };
+}
+
+export function diffTables(left: Table, right: Table, options: DiffOptions = DEFAULT_DIFF_OPTIONS): TableDiff {
+  const leftRows = left.children.map(rowCells);
+  const rightRows = right.children.map(rowCells);
+  const leftHeader = leftRows[0] ?? [];
+  const rightHeader = rightRows[0] ?? [];
+
+  // Columns share a value when some body row has the same non-empty cell in both
+  const columnsRelated = (l: number, r: number) =>
+    leftRows.slice(1).some((cells, i) => cells[l] && cells[l] === rightRows[i + 1]?.[r]);
+  const headerMatches = findBlockMatches(leftHeader, rightHeader, options);
+  const columns = align(headerMatches, leftHeader.length, rightHeader.length, columnsRelated)
+    .map(({ leftIdx, rightIdx }): TableColumn => {
+      const align = (rightIdx !== undefined ? right.align?.[rightIdx] : left.align?.[leftIdx!]) ?? null;
+      if (rightIdx === undefined) return { status: "removed", leftIdx, align };
+      if (leftIdx === undefined) return { status: "added", rightIdx, align };
+      const status = leftHeader[leftIdx] === rightHeader[rightIdx] ? "equal" : "modified";
+      return { status, leftIdx, rightIdx, align };
+    });
+
+  const leftBody = leftRows.slice(1);
+  const rightBody = rightRows.slice(1);
+  const bodyMatches = findBlockMatches(
+    leftBody.map((cells) => cells.join(" | ")),
+    rightBody.map((cells) => cells.join(" | ")),
+    options,
+  );
+
+  const rowsRelated = (l: number, r: number) => columns.some((col) =>
+    col.leftIdx !== undefined && col.rightIdx !== undefined &&
+    leftBody[l][col.leftIdx] && leftBody[l][col.leftIdx] === rightBody[r][col.rightIdx]);
+
+  const rows = [diffRow(columns, leftHeader, rightHeader, { leftIdx: 0, rightIdx: 0 }, options)];
+  for (const position of align(bodyMatches, leftBody.length, rightBody.length, rowsRelated)) {
+    const l = position.leftIdx !== undefined ? leftBody[position.leftIdx] : undefined;
+    const r = position.rightIdx !== undefined ? rightBody[position.rightIdx] : undefined;
+    // Row indexes count the header, like the table's children
+    const rowPosition = {
+      leftIdx: position.leftIdx !== undefined ? position.leftIdx + 1 : undefined,
+      rightIdx: position.rightIdx !== undefined ? position.rightIdx + 1 : undefined,
+    };
+    rows.push(diffRow(columns, l, r, rowPosition, options));
+  }
+
+  return { columns, rows };
+}
+
+/** Pipeline stage: attach a structural diff to every modified table pair */
+export function attachTableDiffs(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): DiffPair[] {
+  return pairs.map((pair): DiffPair => {
+    if (pair.status !== "modified" || pair.left.type !== "table" || pair.right.type !== "table") return pair;
+    const tableDiff = diffTables(pair.left, pair.right, options);
+    return { ...pair, tableDiff } satisfies ModifiedPair;
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * Library entry point.
+ * Exposes the diff engine as a typed API so it can be embedded without the CLI.
+ *
+ * @example
+ * import { diffMarkdown } from "markdown-diff-viewer";
+ * const { pairs, frontmatter, stats, rows, html } = diffMarkdown(before, after, { matchLevel: "loose" });
+ */
+import { parseMarkdown, extractBlocks } from "./text/parse.js";
+import { diffBlocks, type DiffPair } from "./core/diff.js";
+import { diffDocumentFrontmatter, type FrontmatterDiff } from "./core/frontmatter.js";
+import { outlineSections, type SectionOutline } from "./core/sections.js";
+import { renderDiffPairs, type RenderedRow } from "./render/render.js";
+import { generateHtml, type UISettings } from "./ui/template.js";
+import { computeStats, type DiffStats } from "./cli/stats.js";
+import { createDiffOptions, type DiffOptionsInput } from "./config.js";
+import type { ThemeName } from "./ui/themes.js";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * Options for diffMarkdown().
+ * Inherits matchLevel and the block/word/render/boundary threshold overrides
+ * from DiffOptionsInput; every call is self-contained.
+ */
+export interface DiffMarkdownOptions extends DiffOptionsInput {
+  /** Title shown above the left pane of the HTML page (default: "before") */
+  leftTitle?: string;
+  /** Title shown above the right pane of the HTML page (default: "after") */
+  rightTitle?: string;
+  /** Initial theme of the HTML page (default: "dark") */
+  theme?: ThemeName;
+  /** UI settings embedded in the HTML page */
+  uiSettings?: UISettings;
+}
+
+export interface DiffMarkdownResult {
+  /** Block-level diff pairs, including inline diffs for modified blocks */
+  pairs: DiffPair[];
+  /** Key-by-key diff of the YAML/TOML headers; null when neither document has one */
+  frontmatter: FrontmatterDiff | null;
+  /** Heading tree with each section's change */
+  outline: SectionOutline[];
+  /** Block and word counts for the diff, plus frontmatter key counts */
+  stats: DiffStats;
+  /** Aligned left/right HTML rows, ready to place in two columns */
+  rows: RenderedRow[];
+  /** Standalone HTML page with the side-by-side viewer */
+  html: string;
+}
+
+// ─── Main API ───────────────────────────────────────────────────────────────
+
+/**
+ * Diff two Markdown documents.
+ * Runs the full pipeline (parse → block diff → render) and returns every
+ * intermediate product, so callers can pick the level they need.
+ */
+export function diffMarkdown(
+  left: string,
+  right: string,
+  options: DiffMarkdownOptions = {},
+): DiffMarkdownResult {
+  const diffOptions = createDiffOptions(options);
+  const pairs = diffBlocks(extractBlocks(parseMarkdown(left)), extractBlocks(parseMarkdown(right)), diffOptions);
+  const frontmatter = diffDocumentFrontmatter(left, right);
+  const outline = outlineSections(pairs);
+  const rows = renderDiffPairs(pairs, diffOptions);
+  const html = generateHtml(rows, options.leftTitle ?? "before", options.rightTitle ?? "after", {
+    theme: options.theme,
+    uiSettings: options.uiSettings,
+    frontmatter,
+    outline,
+  });
+  return { pairs, frontmatter, outline, stats: computeStats(pairs, frontmatter), rows, html };
+}
+
+// ─── Re-exports ─────────────────────────────────────────────────────────────
+
+export { parseMarkdown, extractBlocks, blockToText } from "./text/parse.js";
+export {
+  diffBlocks,
+  computeInlineDiff,
+  walkLeafParts,
+  flattenParts,
+  isEqualPair,
+  isAddedPair,
+  isRemovedPair,
+  isModifiedPair,
+  isSplitPair,
+  isJoinPair,
+  isMovedPair,
+  diffTables,
+  diffLists,
+  diffCode,
+  diffHtml,
+} from "./core/diff.js";
+export type {
+  DiffStatus,
+  DiffPair,
+  DiffMetrics,
+  EqualPair,
+  AddedPair,
+  RemovedPair,
+  ModifiedPair,
+  SplitPair,
+  JoinPair,
+  MovedPair,
+  InlinePart,
+  TableDiff,
+  TableColumn,
+  TableRowDiff,
+  TableCellDiff,
+  TableChangeStatus,
+  ListDiff,
+  ListItemDiff,
+  ListItemStatus,
+  CodeDiff,
+  CodeLineDiff,
+  CodeLineStatus,
+  ContainerDiff,
+  ContainerInfo,
+  ContainerKind,
+  HtmlDiff,
+  HtmlNodeDiff,
+  HtmlNodeStatus,
+  HtmlAttributeChange,
+} from "./core/diff.js";
+export {
+  diffFrontmatter,
+  diffDocumentFrontmatter,
+  type FrontmatterDiff,
+  type FrontmatterChange,
+  type FrontmatterChangeStatus,
+} from "./core/frontmatter.js";
+export { splitFrontmatter, type Frontmatter, type FrontmatterFormat } from "./text/frontmatter.js";
+export {
+  findSectionMoves,
+  outlineSections,
+  type SectionMove,
+  type SectionOutline,
+  type SectionStatus,
+} from "./core/sections.js";
+export { buildSections, type Section } from "./text/sections.js";
+export { diffThreeWay, type MergeRow, type MergeSide, type MergeStatus } from "./core/merge.js";
+export {
+  renderDiffPairs,
+  renderMergeRows,
+  type RenderedRow,
+  type MergeRenderedRow,
+  type MergeCell,
+} from "./render/render.js";
+export {
+  generateHtml,
+  generateMultiFileHtml,
+  generateMergeHtml,
+  type FileDiff,
+  type HtmlOptions,
+  type MergeTitles,
+  type PageOptions,
+  type UISettings,
+} from "./ui/template.js";
+export { computeStats, aggregateStats, type DiffStats } from "./cli/stats.js";
+export {
+  MATCHING_LEVELS,
+  DEFAULT_DIFF_OPTIONS,
+  createDiffOptions,
+  listMatchingLevels,
+  resolveMatchingProfile,
+  type MatchingLevel,
+  type BuiltinMatchingLevel,
+  type MatchingProfile,
+  type CustomMatchingProfile,
+  type DiffOptions,
+  type DiffOptionsInput,
+  type BlockConfig,
+  type WordConfig,
+  type RenderConfig,
+  type BoundaryConfig,
+} from "./config.js";
+export type { ThemeName } from "./ui/themes.js";
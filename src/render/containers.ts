@@ -0,0 +1,41 @@
+/**
+ * Markup of container blocks (blockquotes, callouts, directives and details):
+ * the frame around the blocks inside and the title at its top.
+ */
+import type { ContainerInfo } from "../text/containers.js";
+import { escapeHtml, inlineMarkdown } from "../text/html.js";
+
+/** Title shown at the top of a container: the callout type, directive label or details summary */
+export function containerTitle(info: ContainerInfo): string | null {
+  if (info.kind === "callout" && info.type) return info.type.charAt(0) + info.type.slice(1).toLowerCase();
+  return info.title;
+}
+
+function containerTitleHtml(info: ContainerInfo, innerHtml: string): string {
+  if (info.kind === "details") return `<summary>${innerHtml}</summary>`;
+  return `<p class="${info.kind}-title">${innerHtml}</p>`;
+}
+
+/** Container markup around rendered content, with the title when the container has one */
+export function containerHtml(info: ContainerInfo, innerHtml: string): string {
+  const title = containerTitle(info);
+  const titleHtml = title !== null ? containerTitleHtml(info, inlineMarkdown(escapeHtml(title))) : "";
+  switch (info.kind) {
+    case "blockquote":
+      return `<blockquote>${innerHtml}</blockquote>`;
+    case "callout":
+      return `<blockquote class="callout callout-${info.type!.toLowerCase()}">${titleHtml}${innerHtml}</blockquote>`;
+    case "directive":
+      return `<div class="directive directive-${escapeHtml(info.type ?? "")}">${titleHtml}${innerHtml}</div>`;
+    case "details":
+      return `<details open>${titleHtml}${innerHtml}</details>`;
+  }
+}
+
+/** Class of the frame drawn around each row inside a container, so the rows read as one block */
+export function containerPartClass(info: ContainerInfo): string {
+  let variant = "";
+  if (info.kind === "callout") variant = ` callout-${info.type!.toLowerCase()}`;
+  if (info.kind === "directive") variant = ` directive-${escapeHtml(info.type ?? "")}`;
+  return `container-part container-${info.kind}${variant}`;
+}
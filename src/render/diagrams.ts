@@ -0,0 +1,66 @@
+/**
+ * Diagram code blocks: ```mermaid, ```dot / ```graphviz and ```plantuml / ```puml.
+ * Mermaid is drawn in the browser by mermaid.js, loaded by the page when it
+ * has a Mermaid diagram. Graphviz and PlantUML are rendered to SVG at diff
+ * time only when asked to (DiffOptions.renderDiagrams) and `dot` or `plantuml`
+ * is on the PATH; otherwise the block stays code. The documents being diffed
+ * may not be trusted, so PlantUML runs in its sandbox, without file or URL
+ * access for `!include`.
+ */
+import { spawnSync } from "node:child_process";
+import { escapeHtml } from "../text/html.js";
+
+/** Executable, arguments and extra environment that read a diagram on stdin and write SVG */
+type Renderer = [string, string[], Record<string, string>];
+
+const GRAPHVIZ: Renderer = ["dot", ["-Tsvg"], {}];
+const PLANTUML: Renderer = ["plantuml", ["-tsvg", "-pipe"], { PLANTUML_SECURITY_PROFILE: "SANDBOX" }];
+
+const RENDERERS = new Map<string, Renderer>([
+  ["dot", GRAPHVIZ],
+  ["graphviz", GRAPHVIZ],
+  ["plantuml", PLANTUML],
+  ["puml", PLANTUML],
+]);
+
+/** Time allowed for one diagram */
+const RENDER_TIMEOUT_MS = 10_000;
+
+/** Rendered diagrams by language and source; rows are rendered once per matching level */
+const cache = new Map<string, string | null>();
+
+function renderSvg(source: string, [command, args, env]: Renderer): string | null {
+  const result = spawnSync(command, args, {
+    input: source,
+    env: { ...process.env, ...env },
+    encoding: "utf-8",
+    timeout: RENDER_TIMEOUT_MS,
+    stdio: ["pipe", "pipe", "ignore"],
+  });
+  if (result.error || result.status !== 0 || !result.stdout.includes("<svg")) return null;
+  // As an image, the SVG's ids and styles can't clash with the page or another diagram
+  const uri = `data:image/svg+xml;base64,${Buffer.from(result.stdout).toString("base64")}`;
+  return `<img class="diagram-image" src="${uri}" alt="">`;
+}
+
+/**
+ * Rendered diagram HTML for a code block, or null when it isn't a diagram or
+ * can't be rendered. Graphviz and PlantUML need `useTools`: they run local executables.
+ */
+export function renderDiagram(source: string, lang: string | null | undefined, useTools: boolean): string | null {
+  const key = lang?.toLowerCase() ?? "";
+  if (key === "mermaid") return `<pre class="mermaid">${escapeHtml(source)}</pre>`;
+  const renderer = useTools ? RENDERERS.get(key) : undefined;
+  if (!renderer) return null;
+  const cacheKey = `${key}\n${source}`;
+  if (!cache.has(cacheKey)) cache.set(cacheKey, renderSvg(source, renderer));
+  return cache.get(cacheKey)!;
+}
+
+/** A rendered diagram with its source (or source diff) behind a toggle */
+export function diagramHtml(rendered: string, sourceHtml: string): string {
+  return '<div class="diagram">' +
+    '<button class="diagram-toggle" type="button" title="Switch between the diagram and its source">' +
+    '<span class="label-source">Source</span><span class="label-diagram">Diagram</span></button>' +
+    `<div class="diagram-rendered">${rendered}</div><div class="diagram-source">${sourceHtml}</div></div>`;
+}
@@ -0,0 +1,30 @@
+/**
+ * Footnote and link reference definitions as blocks of the diff view.
+ * remark drops definitions from its output, so they are drawn here: a
+ * footnote as a note with its label, a link definition as its source text.
+ */
+import type { RootContent } from "mdast";
+import { blockToText } from "../text/parse.js";
+import { escapeHtml } from "../text/html.js";
+
+/** Markup around a definition's rendered content; null for every other block */
+export function wrapDefinition(node: RootContent, innerHtml: string): string | null {
+  switch (node.type) {
+    case "footnoteDefinition":
+      return `<div class="footnote-definition">${innerHtml}</div>`;
+    case "definition":
+      return `<p class="link-definition">${innerHtml}</p>`;
+    default:
+      return null;
+  }
+}
+
+/** A whole definition block; null for every other block */
+export function renderDefinition(node: RootContent, renderBlock: (node: RootContent) => string): string | null {
+  if (node.type === "footnoteDefinition") {
+    const label = `<sup class="footnote-label">${escapeHtml(node.label ?? node.identifier)}</sup>`;
+    return wrapDefinition(node, label + node.children.map(renderBlock).join(""));
+  }
+  if (node.type === "definition") return wrapDefinition(node, escapeHtml(blockToText(node)));
+  return null;
+}
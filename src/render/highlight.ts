@@ -0,0 +1,65 @@
+/**
+ * Syntax highlighting for code blocks.
+ * Uses highlight.js for the language named on the fence; unknown or missing
+ * languages are only escaped. Output is split into lines with every open
+ * token span closed and reopened at line ends, so lines can be laid out and
+ * marked one by one.
+ */
+import hljs from "highlight.js/lib/common";
+import { escapeHtml } from "../text/html.js";
+
+/** Highlighted HTML of a whole code block */
+export function highlightCode(code: string, lang: string | null | undefined): string {
+  if (!lang || !hljs.getLanguage(lang)) return escapeHtml(code);
+  return hljs.highlight(code, { language: lang, ignoreIllegals: true }).value;
+}
+
+/** Tokens of highlighted HTML: opening/closing spans, entities, single characters */
+const TOKEN = /<span[^>]*>|<\/span>|&[#\w]+;|[^]/g;
+
+/** Highlighted HTML per source line, highlighted as one block so multi-line tokens keep their class */
+export function highlightLines(code: string, lang: string | null | undefined): string[] {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let line = "";
+  for (const token of highlightCode(code, lang).match(TOKEN) ?? []) {
+    if (token === "\n") {
+      lines.push(line + "</span>".repeat(open.length));
+      line = open.join("");
+    } else {
+      if (token.startsWith("</")) open.pop();
+      else if (token.startsWith("<")) open.push(token);
+      line += token;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/**
+ * Wrap the characters of highlighted line HTML that fall in the given
+ * [start, end) ranges of the line's text in spans of the given class.
+ * Marks close before and reopen after token spans, so nesting stays valid.
+ */
+export function markRanges(html: string, ranges: Array<[number, number]>, className: string): string {
+  if (ranges.length === 0) return html;
+  const inRange = (offset: number) => ranges.some(([start, end]) => offset >= start && offset < end);
+  let result = "";
+  let offset = 0;
+  let marking = false;
+  for (const token of html.match(TOKEN) ?? []) {
+    const isTag = token.startsWith("<");
+    const mark = !isTag && inRange(offset);
+    if (marking && (isTag || !mark)) {
+      result += "</span>";
+      marking = false;
+    }
+    if (mark && !marking) {
+      result += `<span class="${className}">`;
+      marking = true;
+    }
+    result += token;
+    if (!isTag) offset++;
+  }
+  return marking ? result + "</span>" : result;
+}
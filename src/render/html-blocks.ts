@@ -0,0 +1,108 @@
+/**
+ * One side of a raw HTML block diff, drawn as the sanitized HTML itself:
+ * removed and added elements are outlined, changed text is marked with
+ * <del>/<ins>, and elements whose attributes changed are flagged with a
+ * note listing the old and new values. Inline tags whose attributes changed
+ * are flagged the same way inside diffed text.
+ */
+import type { Element, ElementContent, Properties } from "hast";
+import { toHtml } from "hast-util-to-html";
+import {
+  attributeChanges,
+  diffAttributes,
+  type HtmlAttributeChange,
+  type HtmlDiff,
+  type HtmlNodeDiff,
+} from "../core/html-diff.js";
+import type { InlinePart } from "../core/inline-diff.js";
+import { escapeHtml, restoreMarkdown } from "../text/html.js";
+import { parseTag } from "../text/html-dom.js";
+import type { Side } from "../config.js";
+
+function withClass(element: Element, className: string, extra: Properties = {}): Element {
+  const classes = Array.isArray(element.properties.className) ? element.properties.className : [];
+  return { ...element, properties: { ...element.properties, ...extra, className: [...classes, className] } };
+}
+
+function text(value: string): ElementContent {
+  return { type: "text", value };
+}
+
+function mark(node: ElementContent, tagName: "del" | "ins"): ElementContent {
+  if (node.type === "element") return withClass(node, tagName === "del" ? "html-removed" : "html-added");
+  // Whitespace between elements stays as it is, so table and list markup stays valid
+  if (node.type !== "text" || !node.value.trim()) return node;
+  return { type: "element", tagName, properties: {}, children: [node] };
+}
+
+/** This side's text of a word diff, changes wrapped in <del> or <ins> */
+function inlineText(parts: InlinePart[], side: Side): ElementContent[] {
+  const own = side === "left" ? "removed" : "added";
+  return parts
+    .filter((part) => part.type === "equal" || part.type === own)
+    .map((part) => {
+      const value = text(restoreMarkdown(part.value));
+      return part.type === "equal" ? value : mark(value, side === "left" ? "del" : "ins");
+    });
+}
+
+function describeChange({ name, left, right }: HtmlAttributeChange): string {
+  if (left === undefined) return `${name} added: "${right}"`;
+  if (right === undefined) return `${name} removed: "${left}"`;
+  return `${name}: "${left}" → "${right}"`;
+}
+
+function sideNodes(nodes: HtmlNodeDiff[], side: Side): ElementContent[] {
+  const result: ElementContent[] = [];
+  for (const node of nodes) {
+    const own = (side === "left" ? node.left : node.right) as ElementContent | undefined;
+    if (!own) continue;
+    if (node.status === "removed" || node.status === "added") {
+      result.push(mark(own, node.status === "removed" ? "del" : "ins"));
+    } else if (node.status === "equal") {
+      result.push(own);
+    } else if (node.inlineDiff && own.type === "text") {
+      // The word diff starts at the first word
+      result.push(text(own.value.match(/^\s*/)![0]), ...inlineText(node.inlineDiff, side));
+    } else if (own.type === "element" && node.children) {
+      const element = { ...own, children: sideNodes(node.children, side) };
+      const title = node.attributes?.map(describeChange).join("; ");
+      result.push(title ? withClass(element, "html-attr-changed", { title }) : element);
+    } else {
+      result.push(mark(own, side === "left" ? "del" : "ins"));
+    }
+  }
+  return result;
+}
+
+/** Note under the block listing each attribute change, shown on both sides so rows stay aligned */
+function attributeNotes(diff: HtmlDiff): string {
+  const changes = attributeChanges(diff.nodes);
+  if (changes.length === 0) return "";
+  const items = changes.map(({ tag, change }) => {
+    return `<li><code>&lt;${escapeHtml(tag)}&gt;</code> ${escapeHtml(describeChange(change))}</li>`;
+  });
+  const label = diff.attributesOnly ? "attributes changed" : "attributes";
+  return `<div class="html-attr-notes"><span class="attr-badge">${label}</span><ul>${items.join("")}</ul></div>`;
+}
+
+/** Render one side of an HTML block diff */
+export function renderHtmlDiff(diff: HtmlDiff, side: Side): string {
+  return toHtml({ type: "root", children: sideNodes(diff.nodes, side) }) + attributeNotes(diff);
+}
+
+/**
+ * Render an inline tag whose attributes changed (`<img src>` pointing to a
+ * new file): each side shows its own tag, not marked as removed or added,
+ * flagged with a badge; hovering lists the changes. Null for any other pair.
+ */
+export function renderTagChange(removed: InlinePart, added: InlinePart, side: Side): string | null {
+  const from = parseTag(restoreMarkdown(removed.value));
+  const to = parseTag(restoreMarkdown(added.value));
+  if (!from || !to || from.closing || to.closing || from.name !== to.name) return null;
+  const title = diffAttributes(from.attributes, to.attributes).map(describeChange).join("; ");
+  const value = (side === "left" ? removed : added).value;
+  const tag = value.trimEnd();
+  return `<span class="diff-part attr-changed" title="${escapeHtml(title)}">${escapeHtml(tag)}</span>` +
+    `<span class="attr-badge">attributes changed</span>${value.slice(tag.length)}`;
+}
@@ -0,0 +1,44 @@
+/**
+ * Thumbnails for changed images.
+ * Local image paths are resolved against the project root and inlined as
+ * data URIs, so the before/after previews also show in a standalone HTML
+ * file. Remote URLs, paths outside the project and large files get none.
+ */
+import { readFileSync, statSync } from "node:fs";
+import { extname, isAbsolute, relative, resolve } from "node:path";
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".svg": "image/svg+xml",
+};
+
+/** Images larger than this are not inlined */
+const MAX_THUMBNAIL_BYTES = 1024 * 1024;
+
+/** Data URI of a local image, or null when the path doesn't resolve to an image file in the project */
+export function localImageUri(url: string, projectRoot: string | undefined): string | null {
+  // Schemes (https:, data:) and protocol-relative URLs aren't local files
+  if (!projectRoot || /^[a-z][\w+.-]*:|^\/\//i.test(url)) return null;
+  const pathname = url.split(/[?#]/)[0];
+  const type = IMAGE_TYPES[extname(pathname).toLowerCase()];
+  if (!type) return null;
+  let path: string;
+  try {
+    path = resolve(projectRoot, decodeURI(pathname).replace(/^\/+/, ""));
+  } catch {
+    return null;
+  }
+  const inside = relative(projectRoot, path);
+  if (inside.startsWith("..") || isAbsolute(inside)) return null;
+  try {
+    if (statSync(path).size > MAX_THUMBNAIL_BYTES) return null;
+    return `data:${type};base64,${readFileSync(path).toString("base64")}`;
+  } catch {
+    return null;
+  }
+}
@@ -3,30 +3,32 @@
  * Determines how diff pairs should be displayed (side-by-side vs stacked).
  */
 import type { DiffPair } from "../core/diff.js";
-import { RENDER_CONFIG } from "../config.js";
-
-/** Thresholds for side-by-side display of long paragraphs */
-const LONG_PARAGRAPH_WORDS = RENDER_CONFIG.LONG_PARAGRAPH_WORDS;
-const MIN_SHARED_WORDS = RENDER_CONFIG.MIN_SHARED_WORDS_FOR_SIDE_BY_SIDE;
-const MIN_SHARED_RATIO = RENDER_CONFIG.MIN_SHARED_RATIO_FOR_SIDE_BY_SIDE;
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions } from "../config.js";
 
 /**
  * Check if a pair should be displayed side-by-side.
  * Returns true if the pair has enough shared content to align visually.
  * Uses pre-computed metrics from ModifiedPair to avoid redundant calculation.
  */
-export function isSideBySide(pair: DiffPair): boolean {
+export function isSideBySide(pair: DiffPair, options: DiffOptions = DEFAULT_DIFF_OPTIONS): boolean {
   if (pair.status === "equal") return true;
-  // Split pairs are always side-by-side (content is identical, just reorganized)
-  if (pair.status === "split") return true;
+  // Split and join pairs are always side-by-side (content is identical, just reorganized)
+  if (pair.status === "split" || pair.status === "join") return true;
+  // Moved blocks pair their anchor with the block, or the old text with its edited version
+  if (pair.status === "moved") return true;
   if (pair.status === "modified") {
+    // Table, list, code, container and HTML diffs align rows, columns, items, lines and inner blocks themselves
+    if (pair.tableDiff || pair.listDiff || pair.codeDiff || pair.containerDiff || pair.htmlDiff) return true;
+    // Formulas are shown rendered next to each other
+    if (pair.left.type === "math" && pair.right.type === "math") return true;
     const { sharedWords, totalWords } = pair.metrics;
     if (sharedWords === 0) return false;
 
     // For long paragraphs, require minimum shared words and minimum ratio
-    if (totalWords >= LONG_PARAGRAPH_WORDS) {
-      if (sharedWords < MIN_SHARED_WORDS) return false;
-      if (sharedWords / totalWords < MIN_SHARED_RATIO) return false;
+    const render = options.render;
+    if (totalWords >= render.LONG_PARAGRAPH_WORDS) {
+      if (sharedWords < render.MIN_SHARED_WORDS_FOR_SIDE_BY_SIDE) return false;
+      if (sharedWords / totalWords < render.MIN_SHARED_RATIO_FOR_SIDE_BY_SIDE) return false;
     }
     return true;
   }
@@ -50,19 +52,19 @@ export interface LayoutGroup {
  * Group consecutive pairs by their layout mode.
  * Side-by-side pairs are grouped individually, stacked pairs are grouped together.
  */
-export function groupPairsForLayout(pairs: DiffPair[]): LayoutGroup[] {
+export function groupPairsForLayout(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): LayoutGroup[] {
   const groups: LayoutGroup[] = [];
   let i = 0;
 
   while (i < pairs.length) {
-    if (isSideBySide(pairs[i])) {
+    if (isSideBySide(pairs[i], options)) {
       // Side-by-side pairs are grouped individually
       groups.push({ mode: "side-by-side", pairs: [pairs[i]] });
       i++;
     } else {
       // Collect consecutive stacked pairs into one group
       const stackedPairs: DiffPair[] = [];
-      while (i < pairs.length && !isSideBySide(pairs[i])) {
+      while (i < pairs.length && !isSideBySide(pairs[i], options)) {
         stackedPairs.push(pairs[i]);
         i++;
       }
@@ -0,0 +1,626 @@
+/**
+ * Markdown "redline" output (--format markdown, --format critic).
+ * Emits one merged Markdown document in the new document's block order:
+ * removed text struck through, added text highlighted, unchanged blocks as-is.
+ */
+import { unified } from "unified";
+import remarkGfm from "remark-gfm";
+import remarkStringify from "remark-stringify";
+import { diffLines } from "diff";
+import { directiveToMarkdown } from "mdast-util-directive";
+import type { Root, RootContent, Nodes, PhrasingContent, Code } from "mdast";
+import type {
+  DiffPair, InlinePart, ModifiedPair, MovedPair, TableDiff, TableCellDiff, ListDiff, ListItemDiff, CodeDiff,
+  ContainerDiff,
+} from "../core/diff.js";
+import { blockInnerText } from "../text/parse.js";
+import { directiveAttributes, type Details } from "../text/containers.js";
+import { parseLinkTarget, restoreMarkdown, type LinkTarget } from "../text/html.js";
+import { frontmatterBlock } from "../text/frontmatter.js";
+import { formatFrontmatterValue, hasFrontmatterChanges, type FrontmatterDiff } from "../core/frontmatter.js";
+
+/**
+ * How changes are marked:
+ * - html: <del>removed</del> / <ins>added</ins> (GitHub, most renderers)
+ * - markdown: ~~removed~~ / **added** (renderers without inline HTML)
+ */
+export type RedlineStyle = "html" | "markdown";
+
+export const REDLINE_STYLES: RedlineStyle[] = ["html", "markdown"];
+
+export interface MarkdownRenderOptions {
+  /** Redline style, or CriticMarkup ({--removed--} {++added++} {~~old~>new~~}) */
+  style?: RedlineStyle | "critic";
+  /**
+   * Header diff. Redline styles keep the new header verbatim at the top
+   * (markers inside it would stop it parsing) and list the changed keys after
+   * it; CriticMarkup marks the changed header lines in place.
+   */
+  frontmatter?: FrontmatterDiff | null;
+}
+
+type MarkerStyle = NonNullable<MarkdownRenderOptions["style"]>;
+
+type ChangeType = "removed" | "added";
+
+type MathBlock = Extract<RootContent, { type: "math" }>;
+type InlineMath = Extract<PhrasingContent, { type: "inlineMath" }>;
+
+/** `<details>` around its Markdown content, with blank lines so the content still parses as Markdown */
+function detailsToMarkdown(node: Details): string {
+  const open = node.summary !== null ? `<details>\n<summary>${node.summary}</summary>` : "<details>";
+  return [open, ...node.children.map(stringifyBlock), "</details>"].join("\n\n");
+}
+
+// Only the container handler: the directive unsafe patterns would escape every colon in running text.
+// Math the same way: remark-math's unsafe patterns would escape every dollar sign.
+const stringifier = unified().use(remarkGfm).use(remarkStringify, {
+  handlers: {
+    containerDirective: directiveToMarkdown().handlers!.containerDirective,
+    details: detailsToMarkdown,
+    inlineMath: (node: InlineMath) => `$${node.value}$`,
+    math: (node: MathBlock) => `$$\n${node.value}\n$$`,
+  },
+});
+
+function stringifyBlock(node: RootContent): string {
+  const root: Root = { type: "root", children: [node] };
+  return stringifier.stringify(root).trimEnd();
+}
+
+// ─── Markers ─────────────────────────────────────────────────────────────────
+
+const MARKERS: Record<MarkerStyle, Record<ChangeType, [string, string]>> = {
+  html: { removed: ["<del>", "</del>"], added: ["<ins>", "</ins>"] },
+  markdown: { removed: ["~~", "~~"], added: ["**", "**"] },
+  critic: { removed: ["{--", "--}"], added: ["{++", "++}"] },
+};
+
+/** List item markers at the start of a line stay outside the change markers */
+const LINE_MARKER = /^(\s*(?:[-*+]|\d+[.)])\s+)/;
+
+/** Split text into leading whitespace, core and trailing whitespace */
+function splitSpace(text: string): [string, string, string] {
+  const core = text.trim();
+  const lead = text.slice(0, text.indexOf(core));
+  return [lead, core, text.slice(lead.length + core.length)];
+}
+
+/**
+ * Wrap changed text, keeping whitespace, line breaks and list markers
+ * outside the markers so the result still parses as the same structure.
+ */
+function wrapChange(value: string, type: ChangeType, style: MarkerStyle, atLineStart = false): string {
+  const [open, close] = MARKERS[style][type];
+  return value.split("\n").map((line, i) => {
+    const marker = i > 0 || atLineStart ? line.match(LINE_MARKER)?.[1] ?? "" : "";
+    const [lead, core, trail] = splitSpace(line.slice(marker.length));
+    if (!core) return line;
+    return `${marker}${lead}${open}${core}${close}${trail}`;
+  }).join("\n");
+}
+
+/**
+ * CriticMarkup substitution for a removed run directly followed by an added
+ * one. Line breaks around both (a callout type on its own line) stay outside
+ * the markers when they are the same on both sides.
+ */
+function substitution(removed: string, added: string): string | null {
+  const [oldLead, oldCore, oldTrail] = splitSpace(removed);
+  const [lead, newCore, trail] = splitSpace(added);
+  if (!oldCore || !newCore || oldCore.includes("\n") || newCore.includes("\n")) return null;
+  if ((removed + added).includes("\n") && (oldLead !== lead || oldTrail !== trail)) return null;
+  return `${lead}{~~${oldCore}~>${newCore}~~}${trail}`;
+}
+
+/**
+ * A changed link or image target. Markers inside the parentheses would break
+ * the link, so the new target is kept with the old one as its title, shown on
+ * hover; CriticMarkup substitutes the URL itself so accepting still works.
+ */
+function retarget(from: LinkTarget, to: LinkTarget, style: MarkerStyle): string {
+  if (style === "critic") return `({~~${from.url}~>${to.url}~~})${to.rest}`;
+  return `(${to.url} "was: ${from.url.replace(/"/g, "%22")}")${to.rest}`;
+}
+
+/**
+ * Consecutive parts of the same type, joined. Formatting-only changes keep
+ * the new formatting, unmarked, and renumbered footnotes the new label;
+ * CriticMarkup still substitutes them.
+ */
+function redlineRuns(parts: InlinePart[], style: MarkerStyle): Array<{ type: InlinePart["type"]; value: string }> {
+  const runs: Array<{ type: InlinePart["type"]; value: string }> = [];
+  for (const part of parts) {
+    const unmarked = (part.formatting || part.renumbered) && style !== "critic";
+    if (unmarked && part.type === "removed") continue;
+    const type = unmarked ? "equal" : part.type;
+    const last = runs[runs.length - 1];
+    if (last && last.type === type) last.value += part.value;
+    else runs.push({ type, value: part.value });
+  }
+  return runs;
+}
+
+/**
+ * Serialize inline parts with removed/added runs marked.
+ * Word diffs drop the line break before an item added or removed at the end
+ * of a list; in lists it is put back so the item stays on its own line.
+ */
+function redlineParts(parts: InlinePart[], style: MarkerStyle, list = false): string {
+  const runs = redlineRuns(parts, style);
+  let text = "";
+  for (let i = 0; i < runs.length; i++) {
+    const { type } = runs[i];
+    const value = restoreMarkdown(runs[i].value);
+    if (list && text && !text.endsWith("\n") && LINE_MARKER.test(value)) text += "\n";
+    if (type === "equal") {
+      text += value;
+      continue;
+    }
+    const next = runs[i + 1];
+    const from = type === "removed" && next?.type === "added" ? parseLinkTarget(runs[i].value) : null;
+    const to = from ? parseLinkTarget(next.value) : null;
+    if (from && to) {
+      text += retarget(from, to, style) + next.value.match(/\s*$/)![0];
+      i++;
+      continue;
+    }
+    const replaced = style === "critic" && type === "removed" && next?.type === "added"
+      ? substitution(value, restoreMarkdown(next.value))
+      : null;
+    if (replaced !== null) {
+      text += replaced;
+      i++;
+    } else {
+      text += wrapChange(value, type, style, list && /(^|\n)$/.test(text));
+    }
+  }
+  return text;
+}
+
+// ─── Whole Blocks ────────────────────────────────────────────────────────────
+
+/** Wrap phrasing content in change markers, as mdast nodes */
+function wrapPhrasing(children: PhrasingContent[], type: ChangeType, style: MarkerStyle): PhrasingContent[] {
+  if (children.length === 0) return children;
+  if (style === "markdown") {
+    return [type === "removed" ? { type: "delete", children } : { type: "strong", children }];
+  }
+  const [open, close] = MARKERS[style][type];
+  return [{ type: "html", value: open }, ...children, { type: "html", value: close }];
+}
+
+/** Parents whose children are phrasing content (the text a reader sees) */
+const PHRASING_PARENTS = new Set(["paragraph", "heading", "tableCell"]);
+
+/** Copy of a block with all of its text marked as removed or added */
+function markBlock(node: Nodes, type: ChangeType, style: MarkerStyle): Nodes {
+  if (PHRASING_PARENTS.has(node.type) && "children" in node) {
+    return { ...node, children: wrapPhrasing(node.children as PhrasingContent[], type, style) } as Nodes;
+  }
+  if ("children" in node) {
+    return { ...node, children: (node.children as Nodes[]).map((child) => markBlock(child, type, style)) } as Nodes;
+  }
+  return node;
+}
+
+/** Code and display math can't carry inline markers; show changes as a ```diff block instead */
+function codeAsDiff(left: Code | MathBlock | undefined, right: Code | MathBlock | undefined): string {
+  const lines: string[] = [];
+  for (const change of diffLines(left?.value ?? "", right?.value ?? "")) {
+    const prefix = change.added ? "+" : change.removed ? "-" : " ";
+    for (const line of change.value.replace(/\n$/, "").split("\n")) {
+      lines.push(prefix + line);
+    }
+  }
+  return "```diff\n" + lines.join("\n") + "\n```";
+}
+
+/** Same ```diff block from a line diff, with each edited line as a removed/added pair */
+function codeDiffBlock(diff: CodeDiff): string {
+  const lines: string[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    lines.push(...removed.map((line) => "-" + line), ...added.map((line) => "+" + line));
+    removed = [];
+    added = [];
+  };
+  for (const line of diff.lines) {
+    if (line.status === "equal") {
+      flush();
+      lines.push(" " + line.right);
+    } else {
+      if (line.left !== undefined) removed.push(line.left);
+      if (line.right !== undefined) added.push(line.right);
+    }
+  }
+  flush();
+  return "```diff\n" + lines.join("\n") + "\n```";
+}
+
+/**
+ * CriticMarkup keeps the removed or added block verbatim, so accepting or
+ * rejecting the change restores it exactly; blocks spanning several lines
+ * get the markers on lines of their own.
+ */
+function criticBlock(node: RootContent, type: ChangeType): string {
+  const [open, close] = MARKERS.critic[type];
+  const text = stringifyBlock(node);
+  return text.includes("\n") ? `${open}\n${text}\n${close}` : `${open}${text}${close}`;
+}
+
+function wholeBlock(node: RootContent, type: ChangeType, style: MarkerStyle): string {
+  if (style === "critic") {
+    return node.type === "paragraph" ? stringifyBlock(markBlock(node, type, style) as RootContent) : criticBlock(node, type);
+  }
+  if (node.type === "code" || node.type === "math") {
+    return type === "removed" ? codeAsDiff(node, undefined) : codeAsDiff(undefined, node);
+  }
+  return stringifyBlock(markBlock(node, type, style) as RootContent);
+}
+
+// ─── Tables ──────────────────────────────────────────────────────────────────
+
+const ALIGN_DELIMITERS = { left: ":---", center: ":---:", right: "---:" } as const;
+
+function redlineCell(cell: TableCellDiff, style: MarkerStyle): string {
+  if (cell.status === "modified" && cell.inlineDiff) return redlineParts(cell.inlineDiff, style);
+  if (cell.status === "removed" && cell.left) return wrapChange(cell.left, "removed", style);
+  if (cell.status === "added" && cell.right) return wrapChange(cell.right, "added", style);
+  return cell.right ?? cell.left ?? "";
+}
+
+/** Merged table on the row/column grid of both sides, with each cell marked */
+function tableRedline(diff: TableDiff, style: MarkerStyle): string {
+  const lines = diff.rows.map((row) => {
+    const cells = row.cells.map((cell): TableCellDiff => {
+      // Every cell of an added or removed row is a change, even in columns on both sides
+      if (row.status === "removed") return { status: "removed", left: cell.left };
+      if (row.status === "added") return { status: "added", right: cell.right };
+      return cell;
+    });
+    return `| ${cells.map((cell) => redlineCell(cell, style)).join(" | ")} |`;
+  });
+  const delimiters = diff.columns.map((col) => (col.align ? ALIGN_DELIMITERS[col.align] : "---"));
+  lines.splice(1, 0, `| ${delimiters.join(" | ")} |`);
+  return lines.join("\n");
+}
+
+// ─── Lists ───────────────────────────────────────────────────────────────────
+
+function redlineItemText(item: ListItemDiff, style: MarkerStyle): string {
+  // The old position of a moved item is shown as removed, the new one as added
+  if (item.status === "removed" || item.movedTo !== undefined) return wrapChange(item.left ?? "", "removed", style);
+  if (item.status === "added" || (item.movedFrom !== undefined && !item.inlineDiff)) {
+    return wrapChange(item.right ?? "", "added", style);
+  }
+  if (item.inlineDiff) return redlineParts(item.inlineDiff, style);
+  return item.right ?? "";
+}
+
+/**
+ * Merged list with each item marked, nested lists indented under their item.
+ * Checkboxes show the new state: markers before them would stop them parsing.
+ */
+function listRedline(diff: ListDiff, style: MarkerStyle, indent = ""): string {
+  const ordered = diff.rightOrdered;
+  return diff.items.map((item) => {
+    const number = item.rightNumber ?? item.leftNumber ?? 1;
+    const marker = ordered ? `${number}. ` : "- ";
+    const checked = item.rightIdx !== undefined ? item.rightChecked : item.leftChecked;
+    const checkbox = checked === true ? "[x] " : checked === false ? "[ ] " : "";
+    const pad = indent + " ".repeat(marker.length);
+    const text = redlineItemText(item, style).split("\n").join("\n" + pad);
+    const nested = item.children?.items.length ? "\n" + listRedline(item.children, style, pad) : "";
+    return `${indent}${marker}${checkbox}${text}${nested}`;
+  }).join("\n");
+}
+
+/** A line of a CriticMarkup list, with its nested lines; `change` when the whole item was removed or added */
+interface CriticListLine {
+  text: string;
+  change?: ChangeType;
+}
+
+function criticListLines(diff: ListDiff, indent = ""): CriticListLine[] {
+  const box = (checked: boolean | null | undefined) => (checked === true ? "[x] " : checked === false ? "[ ] " : "");
+  return diff.items.flatMap((item) => {
+    const left = `${diff.leftOrdered ? `${item.leftNumber ?? 1}.` : "-"} ${box(item.leftChecked)}`;
+    const right = `${diff.rightOrdered ? `${item.rightNumber ?? 1}.` : "-"} ${box(item.rightChecked)}`;
+    const pad = (marker: string) => indent + " ".repeat(marker.replace(/\[.\] $/, "").length);
+    const nested = item.children ? criticListLines(item.children, pad(right)) : [];
+    // The old position of a moved item is removed, the new one added
+    if (item.status === "removed" || item.movedTo !== undefined) {
+      const text = (item.left ?? "").split("\n").join("\n" + pad(left));
+      return [{ text: indent + left + text, change: "removed" as const }, ...nested];
+    }
+    if (item.status === "added" || item.movedFrom !== undefined) {
+      const text = (item.right ?? "").split("\n").join("\n" + pad(right));
+      return [{ text: indent + right + text, change: "added" as const }, ...nested];
+    }
+    const marker = left === right ? right : `{~~${left.trimEnd()}~>${right.trimEnd()}~~} `;
+    const text = item.inlineDiff ? redlineParts(item.inlineDiff, "critic") : item.right ?? "";
+    return [{ text: indent + marker + text.split("\n").join("\n" + pad(right)) }, ...nested];
+  });
+}
+
+/**
+ * CriticMarkup list: whole removed and added items go inside the markers with
+ * their bullet and a line break, so rejecting or accepting the change leaves
+ * no empty item behind. The break is the one after the lines, or before them
+ * at the end of the list.
+ */
+function criticList(diff: ListDiff): string {
+  const lines = criticListLines(diff);
+  let text = "";
+  for (let i = 0; i < lines.length;) {
+    if (!lines[i].change) {
+      text += (i > 0 && !lines[i - 1].change ? "\n" : "") + lines[i].text;
+      i++;
+      continue;
+    }
+    let end = i;
+    while (end < lines.length && lines[end].change) end++;
+    const run = lines.slice(i, end);
+    const wrap = (type: ChangeType, body: string) => `${MARKERS.critic[type][0]}${body}${MARKERS.critic[type][1]}`;
+    if (end < lines.length) {
+      // Each removed or added stretch takes the line break after it
+      if (i > 0) text += "\n";
+      for (let j = 0; j < run.length;) {
+        let k = j;
+        while (k < run.length && run[k].change === run[j].change) k++;
+        text += wrap(run[j].change!, run.slice(j, k).map((line) => line.text + "\n").join(""));
+        j = k;
+      }
+    } else if (i > 0) {
+      // At the end of the list the break before each line goes inside
+      for (let j = 0; j < run.length;) {
+        let k = j;
+        while (k < run.length && run[k].change === run[j].change) k++;
+        text += wrap(run[j].change!, run.slice(j, k).map((line) => "\n" + line.text).join(""));
+        j = k;
+      }
+    } else {
+      // Every item changed: the old list, then the new one
+      for (const type of ["removed", "added"] as const) {
+        const side = run.filter((line) => line.change === type).map((line) => line.text);
+        if (side.length) text += wrap(type, side.join("\n"));
+      }
+    }
+    i = end;
+  }
+  return text;
+}
+
+// ─── Containers ──────────────────────────────────────────────────────────────
+
+function quoteLines(text: string): string {
+  return text.split("\n").map((line) => `> ${line}`.trimEnd()).join("\n");
+}
+
+/** Longest run of colons opening a line, so an outer directive fence can be made longer */
+function innerFenceLength(text: string): number {
+  return Math.max(2, ...text.split("\n").map((line) => line.match(/^:*/)![0].length));
+}
+
+/**
+ * Container with its inner blocks marked one by one, in the new container's
+ * markup. The old callout type or directive name isn't valid markup inside
+ * the new one, so a change of type is shown as a removed first line.
+ */
+function containerRedline(diff: ContainerDiff, right: RootContent, style: MarkerStyle): string {
+  const { left: before, right: after } = diff;
+  const title = diff.titleDiff ? redlineParts(diff.titleDiff, style) : after.title;
+  const retyped = diff.retyped && before.type !== null && before.type !== after.type
+    ? [wrapChange(before.kind === "callout" ? `[!${before.type}]` : `:::${before.type}`, "removed", style)]
+    : [];
+  const inner = [...retyped, ...diff.pairs.map((pair) => renderPair(pair, style))].join("\n\n");
+  switch (after.kind) {
+    case "blockquote":
+      return quoteLines(inner);
+    case "callout":
+      return quoteLines(`[!${after.type}]\n${inner}`);
+    case "directive": {
+      const fence = ":".repeat(innerFenceLength(inner) + 1);
+      const attributes = right.type === "containerDirective" ? directiveAttributes(right) : "";
+      const label = title !== null ? `[${title}]` : "";
+      return `${fence}${after.type}${label}${attributes}\n${inner}\n${fence}`;
+    }
+    case "details": {
+      const open = title !== null ? `<details>\n<summary>${title}</summary>` : "<details>";
+      return `${open}\n\n${inner}\n\n</details>`;
+    }
+  }
+}
+
+// ─── Modified Blocks ─────────────────────────────────────────────────────────
+
+/** Block types whose inner text (what inline diffs cover) round-trips as Markdown */
+function inlineFrame(node: RootContent): ((text: string) => string) | null {
+  switch (node.type) {
+    case "paragraph":
+    case "list":
+      return (text) => text;
+    case "heading":
+      return (text) => "#".repeat(node.depth) + " " + text;
+    case "blockquote":
+      return quoteLines;
+    case "definition":
+      return (text) => text;
+    case "footnoteDefinition":
+      // Paragraphs after the first are indented to stay in the footnote
+      return (text) => text.split("\n").map((line, i) => (i > 0 && line ? `    ${line}` : line)).join("\n");
+    default:
+      return null;
+  }
+}
+
+function modifiedBlock(pair: ModifiedPair, style: MarkerStyle): string {
+  const { left, right, inlineDiff: parts } = pair;
+  if (left.type === "code" && right.type === "code" && style !== "critic") {
+    return pair.codeDiff ? codeDiffBlock(pair.codeDiff) : codeAsDiff(left, right);
+  }
+  if (left.type === "math" && right.type === "math" && style !== "critic") {
+    return codeAsDiff(left, right);
+  }
+  // CriticMarkup keeps changed tables verbatim so rejecting restores the old one
+  if (pair.tableDiff && style !== "critic") {
+    return tableRedline(pair.tableDiff, style);
+  }
+  if (pair.listDiff) {
+    return style === "critic" ? criticList(pair.listDiff) : listRedline(pair.listDiff, style);
+  }
+  if (pair.containerDiff && style !== "critic") {
+    return containerRedline(pair.containerDiff, right, style);
+  }
+  const frame = left.type === right.type ? inlineFrame(right) : null;
+  if (frame) {
+    return frame(redlineParts(parts, style, right.type === "list"));
+  }
+  // Structure we can't annotate inline (HTML, ...): old block, then new block
+  return wholeBlock(left, "removed", style) + "\n\n" + wholeBlock(right, "added", style);
+}
+
+/**
+ * A moved block is removed at its old place and added at the new one.
+ * CriticMarkup keeps both verbatim, so rejecting the changes puts it back;
+ * the redline styles mark the words edited on the way inside the added block.
+ */
+function movedBlock(pair: MovedPair, style: MarkerStyle): string {
+  if (pair.place === "from") return wholeBlock(pair.left, "removed", style);
+  const frame = pair.inlineDiff && style !== "critic" ? inlineFrame(pair.right) : null;
+  if (!frame || !pair.inlineDiff) return wholeBlock(pair.right, "added", style);
+  const parts = pair.inlineDiff.map((part) => (part.type === "equal" ? { ...part, type: "added" as const } : part));
+  return frame(redlineParts(parts, style, false));
+}
+
+/**
+ * Marker for a paragraph break that was inserted (split) or removed (join).
+ * In CriticMarkup the break itself is the change, so it round-trips.
+ */
+function breakMarker(gap: string, type: "added" | "removed", style: MarkerStyle): string {
+  if (type === "added") {
+    if (style === "critic") return gap ? `{~~${gap}~>\n\n~~}` : "{++\n\n++}";
+    return ` ${wrapChange("¶", "added", style)}\n\n`;
+  }
+  if (style === "critic") return gap ? `{~~\n\n~>${gap}~~}` : "{--\n\n--}";
+  return ` ${wrapChange("¶", "removed", style)}${gap || " "}`;
+}
+
+/** A split or joined paragraph's text, unmarked, with a marker at each break */
+function markBreaks(text: string, points: number[], type: "added" | "removed", style: MarkerStyle): string {
+  let result = "";
+  let start = 0;
+  for (const point of points) {
+    const before = text.substring(start, point).trimEnd();
+    const afterStart = text.length - text.substring(point).trimStart().length;
+    result += before + breakMarker(text.substring(start + before.length, afterStart), type, style);
+    start = afterStart;
+  }
+  return result + text.substring(start);
+}
+
+/** Markdown for one pair */
+function renderPair(pair: DiffPair, style: MarkerStyle): string {
+  switch (pair.status) {
+    case "equal":
+      return stringifyBlock(pair.right);
+    case "removed":
+      return wholeBlock(pair.left, "removed", style);
+    case "added": {
+      // Moved text: only the parts that weren't moved are marked as added
+      const frame = pair.inlineDiff ? inlineFrame(pair.right) : null;
+      return frame && pair.inlineDiff
+        ? frame(redlineParts(pair.inlineDiff, style, pair.right.type === "list"))
+        : wholeBlock(pair.right, "added", style);
+    }
+    case "modified":
+      return modifiedBlock(pair, style);
+    case "split":
+      return markBreaks(blockInnerText(pair.original), pair.splitPoints, "added", style);
+    case "join":
+      return markBreaks(blockInnerText(pair.joined), pair.joinPoints, "removed", style);
+    case "moved":
+      return movedBlock(pair, style);
+  }
+}
+
+// ─── Frontmatter ─────────────────────────────────────────────────────────────
+
+/** Changed keys as a list, each with its old and new value marked */
+function frontmatterChanges(diff: FrontmatterDiff, style: MarkerStyle): string {
+  return diff.changes.flatMap(({ path, status, left, right }) => {
+    const key = `\`${path}\``;
+    if (status === "removed") return [`- ${wrapChange(`${key}: ${formatFrontmatterValue(left)}`, "removed", style)}`];
+    if (status === "added") return [`- ${wrapChange(`${key}: ${formatFrontmatterValue(right)}`, "added", style)}`];
+    if (status === "changed") {
+      const from = wrapChange(formatFrontmatterValue(left), "removed", style);
+      return [`- ${key}: ${from} ${wrapChange(formatFrontmatterValue(right), "added", style)}`];
+    }
+    return [];
+  }).join("\n");
+}
+
+/**
+ * Header lines marked in CriticMarkup. Removed lines followed by added ones
+ * are substituted line by line, with the line break after the markers; the
+ * rest take their line break inside, so no empty line is left behind.
+ */
+function criticLines(left: string, right: string): string {
+  const chunks = diffLines(left, right);
+  const lines = (value: string) => value.slice(0, -1).split("\n");
+  let text = "";
+  for (let i = 0; i < chunks.length; i++) {
+    const { value, added, removed } = chunks[i];
+    if (!added && !removed) {
+      text += value;
+      continue;
+    }
+    const removedLines = removed ? lines(value) : [];
+    const addedLines = added ? lines(value) : removed && chunks[i + 1]?.added ? lines(chunks[++i].value) : [];
+    const paired = Math.min(removedLines.length, addedLines.length);
+    for (let k = 0; k < paired; k++) text += `{~~${removedLines[k]}~>${addedLines[k]}~~}\n`;
+    if (removedLines.length > paired) text += `{--${removedLines.slice(paired).join("\n")}\n--}`;
+    if (addedLines.length > paired) text += `{++${addedLines.slice(paired).join("\n")}\n++}`;
+  }
+  return text;
+}
+
+/** The header and what follows it before the body: a list of changed keys, or nothing when unchanged */
+function frontmatterRedline(diff: FrontmatterDiff, style: MarkerStyle): string {
+  const { left, right } = diff;
+  if (!hasFrontmatterChanges(diff)) return right ? frontmatterBlock(right) + "\n\n" : "";
+  if (style !== "critic") {
+    const changes = frontmatterChanges(diff, style);
+    return [...(right ? [frontmatterBlock(right)] : []), ...(changes ? [changes] : [])].join("\n\n") + "\n\n";
+  }
+  // CriticMarkup: rejecting every change gives back the old header, accepting them the new one
+  if (!left) return `{++${frontmatterBlock(right!)}\n\n++}`;
+  if (!right) return `{--${frontmatterBlock(left)}\n\n--}`;
+  if (left.format !== right.format) return `{~~${frontmatterBlock(left)}~>${frontmatterBlock(right)}~~}\n\n`;
+  const fence = right.format === "yaml" ? "---" : "+++";
+  return `${fence}\n${criticLines(left.raw + "\n", right.raw + "\n")}${fence}\n\n`;
+}
+
+// ─── Document ────────────────────────────────────────────────────────────────
+
+/**
+ * Markdown for a top-level pair. The heading of a section that moved as a
+ * whole gets a note; in CriticMarkup it is a comment, which accepting or
+ * rejecting the changes drops, on the heading's line so no blank line is left.
+ */
+function renderTopPair(pair: DiffPair, style: MarkerStyle): string[] {
+  const block = renderPair(pair, style);
+  if ((pair.status !== "equal" && pair.status !== "modified") || !pair.sectionMoved) return [block];
+  if (style === "critic") return [`{>>moved section<<}${block}`];
+  return [wrapChange("Moved section", "added", style), block];
+}
+
+/** Render diff pairs as a single Markdown document with changes marked inline */
+export function renderMarkdown(pairs: DiffPair[], options: MarkdownRenderOptions = {}): string {
+  const style = options.style ?? "html";
+  const blocks = pairs.flatMap((pair) => renderTopPair(pair, style));
+  const header = options.frontmatter ? frontmatterRedline(options.frontmatter, style) : "";
+  return header + blocks.join("\n\n") + "\n";
+}
@@ -0,0 +1,34 @@
+/**
+ * Blocks and sections that moved as a whole, in the side-by-side view. A
+ * moved block's old place holds an anchor to the new one; the new place shows
+ * the block, with its edits if any, and an anchor back. Both anchors carry the
+ * same key, so the page can jump between them and draw a connector.
+ */
+import type { MovedPair } from "../core/diff.js";
+import type { Side } from "../config.js";
+import type { RenderedRow } from "./render.js";
+
+/** Same for both places of a move: the block's line in each document */
+function moveKey(pair: MovedPair): string {
+  return `${pair.left.position?.start.line ?? ""}:${pair.right.position?.start.line ?? ""}`;
+}
+
+/** Button at one place of a moved block that jumps to the other */
+export function moveAnchor(pair: MovedPair): string {
+  const label = pair.place === "from"
+    ? `moved to line ${pair.right.position?.start.line ?? "?"}`
+    : `moved from line ${pair.left.position?.start.line ?? "?"}`;
+  return `<button type="button" class="move-anchor move-${pair.place}" data-move="${moveKey(pair)}">${label}</button>`;
+}
+
+/** The block at its new place; the right side leads with the anchor back to the old place */
+export function movedBlockHtml(pair: MovedPair, side: Side, blockHtml: string): string {
+  const anchor = side === "right" ? moveAnchor(pair) : "";
+  return `<div class="moved-block">${anchor}${blockHtml}</div>`;
+}
+
+/** Heading row of a section that moved as a whole, flagged on both sides */
+export function movedSectionRow(row: RenderedRow): RenderedRow {
+  const badge = '<span class="section-moved-badge">moved section</span>';
+  return { ...row, leftHtml: badge + row.leftHtml, rightHtml: badge + row.rightHtml };
+}
@@ -0,0 +1,53 @@
+/**
+ * Paragraph splits and joins in the side-by-side view. The text is the same
+ * on both sides, so it is shown unmarked; only the paragraph breaks are
+ * marked, as an added ¶ where a paragraph was split and a removed ¶ where
+ * paragraphs were joined.
+ */
+import type { RootContent } from "mdast";
+import type { JoinPair, SplitPair } from "../core/diff.js";
+import { blockToText } from "../text/parse.js";
+import { escapeHtml } from "../text/html.js";
+import type { RenderedRow } from "./render.js";
+
+const ADDED_BREAK = "<span class=\"diff-part diff-added paragraph-split\"><ins> ¶<br></ins></span>";
+const REMOVED_BREAK = "<span class=\"diff-part diff-removed paragraph-join\"><del> ¶<br></del></span>";
+
+/** The text as unchanged parts, cut at each break, with the break marker between them */
+function markBreaks(text: string, points: number[], marker: string): string {
+  const bounds = [0, ...points, text.length];
+  const pieces = bounds.slice(1).map((end, i) => text.substring(bounds[i], end).trimStart());
+  return `<p>${pieces.map((piece) => `<span class="diff-part">${escapeHtml(piece)}</span>`).join(marker)}</p>`;
+}
+
+/**
+ * Render a split pair as a single side-by-side row.
+ * Left: original paragraph (all equal text)
+ * Right: same text with ¶ markers inserted at the split points (only ¶ is "added")
+ */
+export function renderSplitPair(pair: SplitPair, renderBlock: (node: RootContent) => string): RenderedRow {
+  const rightInnerHtml = markBreaks(blockToText(pair.original), pair.splitPoints, ADDED_BREAK);
+  return {
+    leftHtml: `<div class="modified-block gap-aligned">${renderBlock(pair.original)}</div>`,
+    rightHtml: `<div class="modified-block gap-aligned">${rightInnerHtml}</div>`,
+    status: "split",
+    leftLine: pair.original.position?.start?.line,
+    rightLine: pair.parts[0].position?.start?.line,
+  };
+}
+
+/**
+ * Render a join pair as a single side-by-side row, the mirror of a split.
+ * Left: the joined text with a removed ¶ where each original paragraph ended
+ * Right: the joined paragraph (all equal text)
+ */
+export function renderJoinPair(pair: JoinPair, renderBlock: (node: RootContent) => string): RenderedRow {
+  const leftInnerHtml = markBreaks(blockToText(pair.joined), pair.joinPoints, REMOVED_BREAK);
+  return {
+    leftHtml: `<div class="modified-block gap-aligned">${leftInnerHtml}</div>`,
+    rightHtml: `<div class="modified-block gap-aligned">${renderBlock(pair.joined)}</div>`,
+    status: "join",
+    leftLine: pair.originals[0].position?.start?.line,
+    rightLine: pair.joined.position?.start?.line,
+  };
+}
@@ -1,14 +1,33 @@
 import { unified } from "unified";
 import remarkParse from "remark-parse";
 import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
 import remarkRehype from "remark-rehype";
 import rehypeStringify from "rehype-stringify";
-import type { RootContent, Heading } from "mdast";
-import type { DiffPair, DiffStatus, InlinePart, ModifiedPair, EqualPair, SplitPair } from "../core/diff.js";
+import type { RootContent, Heading, List } from "mdast";
+import type { DiffPair, DiffStatus, InlinePart, ModifiedPair, MovedPair, AddedPair, RemovedPair } from "../core/diff.js";
+import type { MergeRow, MergeSide, MergeStatus } from "../core/merge.js";
+import type { TableDiff, TableCellDiff, TableColumn, TableRowDiff } from "../core/table-diff.js";
+import type { ListDiff, ListItemDiff } from "../core/list-diff.js";
+import type { CodeDiff, CodeLineDiff } from "../core/code-diff.js";
+import type { ContainerDiff } from "../core/container-diff.js";
 import { blockToText } from "../text/parse.js";
-import { escapeHtml, inlineMarkdown } from "../text/html.js";
-import type { Side } from "../config.js";
+import { containerChildren, containerInfo } from "../text/containers.js";
+import { escapeHtml, inlineMarkdown, parseLinkTarget, restoreMarkdown, type LinkTarget } from "../text/html.js";
+import { renderTex, restoreDollarAmounts } from "../text/math.js";
+import { sanitizeRawHtml } from "../text/html-dom.js";
+import { markFootnoteRefs } from "../text/footnotes.js";
+import { placeFootnoteDefinitions } from "../core/footnotes.js";
+import { DEFAULT_DIFF_OPTIONS, type DiffOptions, type Side } from "../config.js";
 import { groupPairsForLayout } from "./layout.js";
+import { highlightCode, highlightLines, markRanges } from "./highlight.js";
+import { localImageUri } from "./images.js";
+import { diagramHtml, renderDiagram } from "./diagrams.js";
+import { renderHtmlDiff, renderTagChange } from "./html-blocks.js";
+import { renderDefinition, wrapDefinition } from "./footnotes.js";
+import { containerHtml, containerPartClass, containerTitle } from "./containers.js";
+import { moveAnchor, movedBlockHtml, movedSectionRow } from "./moves.js";
+import { renderJoinPair, renderSplitPair } from "./paragraphs.js";
 import { isMinorChange } from "./render-hints.js";
 
 // ─── Markdown Processing ─────────────────────────────────────────────────────
@@ -16,11 +35,22 @@ import { isMinorChange } from "./render-hints.js";
 const mdToHtml = unified()
   .use(remarkParse)
   .use(remarkGfm)
-  .use(remarkRehype, { allowDangerousHtml: true })
+  .use(remarkMath)
+  .use(() => restoreDollarAmounts)
+  .use(() => sanitizeRawHtml)
+  .use(() => markFootnoteRefs)
+  .use(remarkRehype, {
+    allowDangerousHtml: true,
+    // Formulas are rendered here rather than left as TeX in code elements
+    handlers: {
+      inlineMath: (_state, node: { value: string }) => ({ type: "raw", value: renderTex(node.value, false) }),
+      math: (_state, node: { value: string }) => ({ type: "raw", value: renderTex(node.value, true) }),
+    },
+  })
   .use(rehypeStringify, { allowDangerousHtml: true });
 
 /** Render a single markdown block to HTML */
-function renderBlock(node: RootContent): string {
+function renderBlock(node: RootContent, options: DiffOptions): string {
   const text = blockToText(node);
 
   // Handle HTML comments specially - make them visible with muted styling
@@ -28,6 +58,20 @@ function renderBlock(node: RootContent): string {
     return `<div class="html-comment">${escapeHtml(text)}</div>`;
   }
 
+  if (node.type === "code") {
+    const source = `<pre><code${codeClass(node.lang)}>${highlightCode(node.value, node.lang)}</code></pre>`;
+    const diagram = renderDiagram(node.value, node.lang, options.renderDiagrams);
+    return diagram ? diagramHtml(diagram, source) : source;
+  }
+
+  const info = containerInfo(node);
+  if (info) {
+    return containerHtml(info, containerChildren(node).map((child) => renderBlock(child, options)).join(""));
+  }
+
+  const definition = renderDefinition(node, (child) => renderBlock(child, options));
+  if (definition !== null) return definition;
+
   const result = mdToHtml.processSync(text);
   return String(result);
 }
@@ -159,6 +203,48 @@ function renderStandaloneChange(
     `</span>`;
 }
 
+/** One side of a changed target: the URL in parentheses, with a thumbnail for a local image */
+function targetHtml(target: LinkTarget, projectRoot: string | undefined): string {
+  const uri = target.kind === "image" ? localImageUri(target.url, projectRoot) : null;
+  const thumbnail = uri ? `<img class="image-thumb" src="${uri}" alt="">` : "";
+  return `<span class="link-target">(${escapeHtml(target.url)})</span>${thumbnail}`;
+}
+
+/**
+ * Render a changed link or image target. The link text is diffed on its own,
+ * so a URL-only change leaves the text equal and is flagged with a badge;
+ * hovering shows the old and new target. Layers overlay like renderChangePair.
+ */
+function renderTargetChange(
+  removed: InlinePart,
+  added: InlinePart,
+  side: Side,
+  projectRoot: string | undefined,
+): string {
+  const from = parseLinkTarget(removed.value)!;
+  const to = parseLinkTarget(added.value)!;
+  const label = to.kind === "image" ? "image changed" : "link changed";
+  const title = `${label}: ${from.url} → ${to.url}`;
+  const removedVis = side === "left" ? "visible" : "hidden";
+  const addedVis = side === "right" ? "visible" : "hidden";
+  const trailing = (side === "left" ? removed : added).value.match(/\s*$/)![0];
+  return `<span class="change-pair link-changed" title="${escapeHtml(title)}">` +
+    `<span class="change-layer ${removedVis}">${targetHtml(from, projectRoot)}</span>` +
+    `<span class="change-layer ${addedVis}">${targetHtml(to, projectRoot)}</span>` +
+    `</span><span class="link-badge">${label}</span>${escapeHtml((side === "left" ? from : to).rest)}${trailing}`;
+}
+
+/**
+ * Render a formatting-only change: each side shows its own text, formatted
+ * but not marked as removed or added, flagged with a badge.
+ */
+function renderFormattingChange(removed: InlinePart, added: InlinePart, side: Side): string {
+  const part = side === "left" ? removed : added;
+  const text = escapeHtml(part.value.trimEnd());
+  return `<span class="diff-part formatting-changed" title="formatting changed">${text}</span>` +
+    `<span class="formatting-badge">formatting changed</span>${part.value.slice(part.value.trimEnd().length)}`;
+}
+
 /**
  * Render an absorbable equal part with side information for CSS styling.
  * In merge mode, CSS styles these as removed (left) or added (right).
@@ -173,8 +259,11 @@ function renderAbsorbableEqual(part: InlinePart, side: Side): string {
  * Render inline diff with overlay-based alignment.
  * Removed+added pairs are wrapped in a grid container where both occupy
  * the same cell, so the container sizes to max(removed_height, added_height).
+ * Changed link targets become link-changed annotations, with image thumbnails
+ * resolved against projectRoot; formatting-only changes and inline tags whose
+ * attributes changed are flagged, not marked.
  */
-function renderInlineDiffWithGaps(parts: InlinePart[], side: Side): string {
+function renderInlineDiffWithGaps(parts: InlinePart[], side: Side, projectRoot?: string): string {
   let html = "";
   let i = 0;
 
@@ -191,8 +280,15 @@ function renderInlineDiffWithGaps(parts: InlinePart[], side: Side): string {
       // alignment line breaks between changes with no equal text.
       html += `<span class="change-group">`;
       while (i < parts.length && parts[i].type !== "equal") {
-        if (parts[i].type === "removed" && parts[i + 1]?.type === "added") {
-          html += renderChangePair(parts[i], parts[i + 1], side);
+        if (parts[i].type === "removed" && parts[i + 1]?.type === "added" &&
+          parseLinkTarget(parts[i].value) && parseLinkTarget(parts[i + 1].value)) {
+          html += renderTargetChange(parts[i], parts[i + 1], side, projectRoot);
+          i += 2;
+        } else if (parts[i].type === "removed" && parts[i].formatting && parts[i + 1]?.formatting) {
+          html += renderFormattingChange(parts[i], parts[i + 1], side);
+          i += 2;
+        } else if (parts[i].type === "removed" && parts[i + 1]?.type === "added") {
+          html += renderTagChange(parts[i], parts[i + 1], side) ?? renderChangePair(parts[i], parts[i + 1], side);
           i += 2;
         } else if (parts[i].type === "removed") {
           html += renderStandaloneChange(parts[i], side, "removed");
@@ -217,6 +313,10 @@ function renderInlineDiff(parts: InlinePart[], side: Side): string {
   for (const part of parts) {
     if (part.type === "equal") {
       html += `<span class="diff-equal">${escapeHtml(part.value)}</span>`;
+    } else if (part.formatting) {
+      if ((part.type === "removed") === (side === "left")) {
+        html += `<span class="diff-equal formatting-changed" title="formatting changed">${escapeHtml(part.value)}</span>`;
+      }
     } else if ((part.type === "removed" && side === "left") || (part.type === "added" && side === "right")) {
       html += renderPartContent(part);
     }
@@ -240,10 +340,12 @@ function wrapInTag(node: RootContent, innerHtml: string): string {
       return `<blockquote><p>${innerHtml}</p></blockquote>`;
     case "code":
       return `<pre><code>${innerHtml}</code></pre>`;
-    case "list":
-      return `<ul><li>${innerHtml}</li></ul>`;
+    case "list": {
+      const tag = (node as List).ordered ? "ol" : "ul";
+      return `<${tag}><li>${innerHtml}</li></${tag}>`;
+    }
     default:
-      return `<div>${innerHtml}</div>`;
+      return wrapDefinition(node, innerHtml) ?? `<div>${innerHtml}</div>`;
   }
 }
 
@@ -252,10 +354,189 @@ function wrapWithTag(tag: string, innerHtml: string): string {
   if (tag.startsWith("h")) return `<${tag}>${innerHtml}</${tag}>`;
   if (tag === "blockquote") return `<blockquote><p>${innerHtml}</p></blockquote>`;
   if (tag === "pre") return `<pre><code>${innerHtml}</code></pre>`;
-  if (tag === "ul") return `<ul><li>${innerHtml}</li></ul>`;
+  if (tag === "ul" || tag === "ol") return `<${tag}><li>${innerHtml}</li></${tag}>`;
   return `<${tag}>${innerHtml}</${tag}>`;
 }
 
+// ─── Tables ──────────────────────────────────────────────────────────────────
+
+/** Cell Markdown (pipes escaped for the table syntax) as inline HTML */
+function cellHtml(text: string): string {
+  return inlineMarkdown(escapeHtml(text.replace(/\\\|/g, "|")));
+}
+
+/**
+ * One side's cell. Cells that only exist on the other side (added or removed
+ * row or column) render as empty spacers, so both tables keep the same grid.
+ */
+function renderTableCell(cell: TableCellDiff, column: TableColumn, side: Side, tag: "th" | "td"): string {
+  const style = column.align ? ` style="text-align:${column.align}"` : "";
+  const text = side === "left" ? cell.left : cell.right;
+  if (text === undefined) return `<${tag} class="cell-spacer"${style}></${tag}>`;
+  if (cell.status === "modified" && cell.inlineDiff) {
+    const inner = inlineMarkdown(renderInlineDiffWithGaps(cell.inlineDiff, side));
+    return `<${tag} class="cell-modified"${style}>${inner}</${tag}>`;
+  }
+  const cls = cell.status === "equal" ? "" : ` class="cell-${cell.status}"`;
+  return `<${tag}${cls}${style}>${cellHtml(text)}</${tag}>`;
+}
+
+function renderTableRow(row: TableRowDiff, columns: TableColumn[], side: Side, tag: "th" | "td"): string {
+  const present = side === "left" ? row.leftIdx !== undefined : row.rightIdx !== undefined;
+  const cls = !present ? "row-spacer" : row.status !== "equal" ? `row-${row.status}` : "";
+  const cells = row.cells.map((cell, i) => renderTableCell(cell, columns[i], side, tag)).join("");
+  return `<tr${cls ? ` class="${cls}"` : ""}>${cells}</tr>`;
+}
+
+/** Render one side of a table diff as a real table on the shared row/column grid */
+function renderTableDiff(diff: TableDiff, side: Side): string {
+  const [header, ...body] = diff.rows;
+  const thead = header ? `<thead>${renderTableRow(header, diff.columns, side, "th")}</thead>` : "";
+  const tbody = body.map((row) => renderTableRow(row, diff.columns, side, "td")).join("");
+  return `<table class="table-diff">${thead}<tbody>${tbody}</tbody></table>`;
+}
+
+// ─── Lists ───────────────────────────────────────────────────────────────────
+
+function checkboxHtml(item: ListItemDiff, side: Side): string {
+  const checked = side === "left" ? item.leftChecked : item.rightChecked;
+  if (checked === null || checked === undefined) return "";
+  const toggled = item.leftChecked !== item.rightChecked ? ' class="checkbox-toggled"' : "";
+  return `<input type="checkbox"${toggled} disabled${checked ? " checked" : ""}> `;
+}
+
+function itemTextHtml(item: ListItemDiff, side: Side): string {
+  if (item.inlineDiff) {
+    // A moved item has no counterpart row on the other side to align gaps with
+    const html = item.status === "moved"
+      ? renderInlineDiff(item.inlineDiff, side)
+      : renderInlineDiffWithGaps(item.inlineDiff, side);
+    return inlineMarkdown(html);
+  }
+  return inlineMarkdown(escapeHtml((side === "left" ? item.left : item.right) ?? ""));
+}
+
+/**
+ * One side's item. Items that only exist on the other side render as hidden
+ * copies of it, so both lists keep the same height item by item.
+ */
+function renderListItem(item: ListItemDiff, side: Side): string {
+  const present = side === "left" ? item.leftIdx !== undefined : item.rightIdx !== undefined;
+  if (!present) {
+    const other: Side = side === "left" ? "right" : "left";
+    return `<li class="item-spacer" aria-hidden="true">${renderListItemContent(item, other)}</li>`;
+  }
+  const classes = [
+    item.status !== "equal" ? `item-${item.status}` : "",
+    item.renumbered ? "renumbered" : "",
+  ].filter(Boolean).join(" ");
+  const number = side === "left" ? item.leftNumber : item.rightNumber;
+  let title = "";
+  if (item.movedTo !== undefined) title = ` title="Moved to item ${item.movedTo + 1}"`;
+  if (item.movedFrom !== undefined) title = ` title="Moved from item ${item.movedFrom + 1}"`;
+  const attrs = `${classes ? ` class="${classes}"` : ""}${number !== undefined ? ` value="${number}"` : ""}${title}`;
+  return `<li${attrs}>${renderListItemContent(item, side)}</li>`;
+}
+
+function renderListItemContent(item: ListItemDiff, side: Side): string {
+  const nested = item.children ? renderListDiff(item.children, side) : "";
+  return checkboxHtml(item, side) + itemTextHtml(item, side) + nested;
+}
+
+/** Render one side of a list diff as a real list, item for item with the other side */
+function renderListDiff(diff: ListDiff, side: Side): string {
+  const tag = (side === "left" ? diff.leftOrdered : diff.rightOrdered) ? "ol" : "ul";
+  return `<${tag} class="list-diff">${diff.items.map((item) => renderListItem(item, side)).join("")}</${tag}>`;
+}
+
+// ─── Code ────────────────────────────────────────────────────────────────────
+
+function codeClass(lang: string | null | undefined): string {
+  return lang ? ` class="hljs language-${escapeHtml(lang)}"` : ' class="hljs"';
+}
+
+/** [start, end) ranges of one side's line text changed by a char-level diff */
+function changedRanges(line: CodeLineDiff, side: Side, ignoreWhitespace: boolean): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let offset = 0;
+  const otherSide = side === "left" ? "added" : "removed";
+  for (const part of line.inlineDiff ?? []) {
+    if (part.type === otherSide) continue;
+    const end = offset + part.value.length;
+    if (part.type !== "equal" && !(ignoreWhitespace && !part.value.trim())) ranges.push([offset, end]);
+    offset = end;
+  }
+  return ranges;
+}
+
+/**
+ * One side of a code diff, highlighted by the fence language. Lines that only
+ * exist on the other side are blank spacer lines, so both sides stay aligned.
+ */
+function renderCodeDiff(diff: CodeDiff, side: Side): string {
+  const source = diff.lines
+    .filter((line) => (side === "left" ? line.leftLine : line.rightLine) !== undefined)
+    .map((line) => (side === "left" ? line.left : line.right) ?? "");
+  const highlighted = highlightLines(source.join("\n"), diff.lang);
+  let next = 0;
+  const lines = diff.lines.map((line) => {
+    const lineNo = side === "left" ? line.leftLine : line.rightLine;
+    if (lineNo === undefined) return '<span class="code-line line-spacer"> </span>';
+    let html = highlighted[next++] ?? "";
+    if (line.status === "modified" && line.inlineDiff) {
+      html = markRanges(html, changedRanges(line, side, diff.ignoreWhitespace), `char-${side === "left" ? "removed" : "added"}`);
+    }
+    const cls = line.status === "equal" ? "" : ` line-${line.status}`;
+    return `<span class="code-line${cls}" data-code-line="${lineNo}">${html || " "}</span>`;
+  });
+  return `<pre class="code-diff"><code${codeClass(diff.lang)}>${lines.join("")}</code></pre>`;
+}
+
+// ─── Containers ──────────────────────────────────────────────────────────────
+
+/** One side of a container's title row; a retyped container's title is marked as changed */
+function containerTitleSide(diff: ContainerDiff, side: Side): string {
+  const info = side === "left" ? diff.left : diff.right;
+  const title = containerTitle(info);
+  const inner = diff.titleDiff
+    ? inlineMarkdown(renderInlineDiffWithGaps(diff.titleDiff, side))
+    : title !== null ? inlineMarkdown(escapeHtml(title)) : null;
+  if (inner === null) return SPACER;
+  const retyped = diff.retyped ? ' class="container-retyped"' : "";
+  const html = info.kind === "details"
+    ? `<div class="details-title"><span${retyped}>${inner}</span></div>`
+    : `<p class="${info.kind}-title"><span${retyped}>${inner}</span></p>`;
+  return `<div class="${containerPartClass(info)}">${html}</div>`;
+}
+
+/**
+ * Rows of a modified container: a title row when either side has a title,
+ * then the rows of the blocks inside, each framed like the container so
+ * inner paragraphs align one by one across both sides.
+ */
+function containerRows(pair: ModifiedPair, diff: ContainerDiff, options: DiffOptions): RenderedRow[] {
+  const rows: RenderedRow[] = [];
+  const hasTitle = containerTitle(diff.left) !== null || containerTitle(diff.right) !== null;
+  if (hasTitle || diff.retyped) {
+    const changed = diff.retyped || Boolean(diff.titleDiff);
+    rows.push({
+      leftHtml: containerTitleSide(diff, "left"),
+      rightHtml: containerTitleSide(diff, "right"),
+      status: changed ? "modified" : "equal",
+      leftLine: pair.left.position?.start?.line,
+      rightLine: pair.right.position?.start?.line,
+    });
+  }
+  for (const row of renderDiffPairs(diff.pairs, options)) {
+    rows.push({
+      ...row,
+      leftHtml: `<div class="${containerPartClass(diff.left)}">${row.leftHtml}</div>`,
+      rightHtml: `<div class="${containerPartClass(diff.right)}">${row.rightHtml}</div>`,
+    });
+  }
+  return rows;
+}
+
 // ─── Row Builders ────────────────────────────────────────────────────────────
 
 export interface RenderedRow {
@@ -268,20 +549,53 @@ export interface RenderedRow {
 
 const SPACER = '<div class="spacer"></div>';
 
-function equalRow(left: RootContent, right: RootContent): RenderedRow {
+function equalRow(left: RootContent, right: RootContent, options: DiffOptions): RenderedRow {
   return {
-    leftHtml: renderBlock(left),
-    rightHtml: renderBlock(right),
+    leftHtml: renderBlock(left, options),
+    rightHtml: renderBlock(right, options),
     status: "equal",
     leftLine: left.position?.start?.line,
     rightLine: right.position?.start?.line,
   };
 }
 
-function modifiedRow(pair: ModifiedPair): RenderedRow {
+/** Row for a pair whose diff lays out both sides itself: tables, lists, code, raw HTML and display math */
+function structuredRow(pair: ModifiedPair, blockClass: string, renderSide: (side: Side) => string): RenderedRow {
+  return {
+    leftHtml: `<div class="modified-block ${blockClass}">${renderSide("left")}</div>`,
+    rightHtml: `<div class="modified-block ${blockClass}">${renderSide("right")}</div>`,
+    status: "modified",
+    leftLine: pair.left.position?.start?.line,
+    rightLine: pair.right.position?.start?.line,
+  };
+}
+
+/** One side of a changed code block; a diagram is drawn, with the line diff behind a toggle */
+function codeSide(pair: ModifiedPair, codeDiff: CodeDiff, side: Side, options: DiffOptions): string {
+  const node = side === "left" ? pair.left : pair.right;
+  const diagram = node.type === "code" ? renderDiagram(node.value, node.lang, options.renderDiagrams) : null;
+  const source = renderCodeDiff(codeDiff, side);
+  return diagram ? diagramHtml(diagram, source) : source;
+}
+
+/** One side of a changed display formula: its rendering, with the TeX source diffed word by word below it */
+function mathSide(pair: ModifiedPair, tex: string, side: Side): string {
+  const source = restoreMarkdown(renderInlineDiffWithGaps(pair.inlineDiff, side));
+  return `${renderTex(tex, true)}<pre class="math-source"><code>${source}</code></pre>`;
+}
+
+function modifiedRow(pair: ModifiedPair, options: DiffOptions): RenderedRow {
+  const { tableDiff, listDiff, codeDiff, htmlDiff, left, right } = pair;
+  if (tableDiff) return structuredRow(pair, "table-block", (side) => renderTableDiff(tableDiff, side));
+  if (listDiff) return structuredRow(pair, "list-block", (side) => renderListDiff(listDiff, side));
+  if (codeDiff) return structuredRow(pair, "code-block", (side) => codeSide(pair, codeDiff, side, options));
+  if (htmlDiff) return structuredRow(pair, "html-block", (side) => renderHtmlDiff(htmlDiff, side));
+  if (left.type === "math" && right.type === "math") {
+    return structuredRow(pair, "math-block", (side) => mathSide(pair, side === "left" ? left.value : right.value, side));
+  }
   // Use gap-based alignment: removed parts become spacers on right, added parts become spacers on left
-  const leftInner = inlineMarkdown(renderInlineDiffWithGaps(pair.inlineDiff, "left"));
-  const rightInner = inlineMarkdown(renderInlineDiffWithGaps(pair.inlineDiff, "right"));
+  const leftInner = inlineMarkdown(renderInlineDiffWithGaps(pair.inlineDiff, "left", options.projectRoot));
+  const rightInner = inlineMarkdown(renderInlineDiffWithGaps(pair.inlineDiff, "right", options.projectRoot));
   // Wrap in semantic tag (h1-h6, p, blockquote, etc.) so headings keep their styling
   const leftContent = pair.wrapTag ? wrapWithTag(pair.wrapTag, leftInner) : wrapInTag(pair.left, leftInner);
   const rightContent = pair.wrapTag ? wrapWithTag(pair.wrapTag, rightInner) : wrapInTag(pair.right, rightInner);
@@ -295,18 +609,18 @@ function modifiedRow(pair: ModifiedPair): RenderedRow {
 }
 
 /** Render block content, optionally wrapping with line number for copy-with-context */
-function renderBlockContent(node: RootContent, innerHtml?: string, line?: number): string {
-  const content = innerHtml ? wrapInTag(node, innerHtml) : renderBlock(node);
+function renderBlockContent(node: RootContent, options: DiffOptions, innerHtml?: string, line?: number): string {
+  const content = innerHtml ? wrapInTag(node, innerHtml) : renderBlock(node, options);
   return line !== undefined ? `<span data-line="${line}">${content}</span>` : content;
 }
 
-function removedRow(node: RootContent, innerHtml?: string): RenderedRow {
-  const content = `<div class="removed-block">${renderBlockContent(node, innerHtml)}</div>`;
+function removedRow(node: RootContent, options: DiffOptions, innerHtml?: string): RenderedRow {
+  const content = `<div class="removed-block">${renderBlockContent(node, options, innerHtml)}</div>`;
   return { leftHtml: content, rightHtml: SPACER, status: "removed", leftLine: node.position?.start?.line };
 }
 
-function addedRow(node: RootContent, innerHtml?: string): RenderedRow {
-  const content = `<div class="added-block">${renderBlockContent(node, innerHtml)}</div>`;
+function addedRow(node: RootContent, options: DiffOptions, innerHtml?: string): RenderedRow {
+  const content = `<div class="added-block">${renderBlockContent(node, options, innerHtml)}</div>`;
   return { leftHtml: SPACER, rightHtml: content, status: "added", rightLine: node.position?.start?.line };
 }
 
@@ -322,63 +636,59 @@ function mergedAddedRow(contents: string[]): RenderedRow {
   return { leftHtml: SPACER, rightHtml: content, status: "added" };
 }
 
-/**
- * Render a split pair as a single side-by-side row.
- * Left: original paragraph (all equal text)
- * Right: same text with ¶ marker inserted at split point (only ¶ is "added")
- */
-function renderSplitPair(pair: SplitPair): RenderedRow {
-  const originalText = blockToText(pair.original);
-
-  // Left side: render the original paragraph as-is (all equal)
-  const leftHtml = renderBlock(pair.original);
-
-  // Right side: construct text with ¶ at the split point
-  // Text before split + ¶ (added) + text after split
-  const textBeforeSplit = originalText.substring(0, pair.splitPoint);
-  const textAfterSplit = originalText.substring(pair.splitPoint).trimStart();
-
-  // Build right side HTML: equal text + added pilcrow + equal text
-  const rightInnerHtml =
-    `<span class="diff-part">${escapeHtml(textBeforeSplit)}</span>` +
-    "<span class=\"diff-part diff-added paragraph-split\"><ins> ¶<br></ins></span>" +
-    `<span class="diff-part">${escapeHtml(textAfterSplit)}</span>`;
-
-  const rightHtml = `<div class="modified-block gap-aligned"><p>${rightInnerHtml}</p></div>`;
-
+/** A moved block: an anchor at its old place, the block with its edits at the new one */
+function movedRow(pair: MovedPair, options: DiffOptions): RenderedRow {
+  if (pair.place === "from") {
+    return { leftHtml: moveAnchor(pair), rightHtml: SPACER, status: "moved", leftLine: pair.left.position?.start?.line };
+  }
+  const { inlineDiff } = pair;
+  const side = (s: Side) =>
+    renderBlockContent(pair[s], options, inlineDiff && inlineMarkdown(renderInlineDiff(inlineDiff, s)));
   return {
-    leftHtml: `<div class="modified-block gap-aligned">${leftHtml}</div>`,
-    rightHtml,
-    status: "split",
-    leftLine: pair.original.position?.start?.line,
-    rightLine: pair.firstPart.position?.start?.line,
+    leftHtml: inlineDiff ? movedBlockHtml(pair, "left", side("left")) : SPACER,
+    rightHtml: movedBlockHtml(pair, "right", side("right")),
+    status: "moved",
+    rightLine: pair.right.position?.start?.line,
   };
 }
 
 // ─── Main Rendering Logic ────────────────────────────────────────────────────
 
-/** Process a side-by-side pair (equal, modified, or split) */
-function processSideBySide(pair: EqualPair | ModifiedPair | SplitPair): RenderedRow {
-  if (pair.status === "equal") {
-    return equalRow(pair.left, pair.right);
-  }
+/** Process a side-by-side pair (equal, modified, split, join or moved); a modified container spans several rows */
+function processSideBySide(pair: Exclude<DiffPair, AddedPair | RemovedPair>, options: DiffOptions): RenderedRow[] {
+  const renderNode = (node: RootContent) => renderBlock(node, options);
   if (pair.status === "split") {
-    return renderSplitPair(pair);
+    return [renderSplitPair(pair, renderNode)];
   }
-  return modifiedRow(pair);
+  if (pair.status === "join") {
+    return [renderJoinPair(pair, renderNode)];
+  }
+  if (pair.status === "moved") {
+    return [movedRow(pair, options)];
+  }
+  let rows: RenderedRow[];
+  if (pair.status === "equal") {
+    rows = [equalRow(pair.left, pair.right, options)];
+  } else if (pair.containerDiff) {
+    rows = containerRows(pair, pair.containerDiff, options);
+  } else {
+    rows = [modifiedRow(pair, options)];
+  }
+  if (pair.sectionMoved) rows[0] = movedSectionRow(rows[0]);
+  return rows;
 }
 
 /** Render all diff pairs into aligned HTML rows */
-export function renderDiffPairs(pairs: DiffPair[]): RenderedRow[] {
+export function renderDiffPairs(pairs: DiffPair[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): RenderedRow[] {
   const result: RenderedRow[] = [];
-  const groups = groupPairsForLayout(pairs);
+  const groups = groupPairsForLayout(placeFootnoteDefinitions(pairs), options);
 
   for (const group of groups) {
     if (group.mode === "side-by-side") {
-      // Side-by-side groups have exactly one pair (equal, modified, or split)
+      // Side-by-side groups have exactly one pair (equal, modified, split, join or moved)
       const pair = group.pairs[0];
-      if (pair.status === "equal" || pair.status === "modified" || pair.status === "split") {
-        result.push(processSideBySide(pair));
+      if (pair.status !== "added" && pair.status !== "removed") {
+        result.push(...processSideBySide(pair, options));
       }
     } else {
       // Stacked groups: merge consecutive same-type blocks
@@ -386,20 +696,20 @@ export function renderDiffPairs(pairs: DiffPair[]): RenderedRow[] {
       const addedContents: string[] = [];
 
       for (const pair of group.pairs) {
-        if (pair.status === "equal" || pair.status === "split") continue;
+        if (pair.status === "equal" || pair.status === "split" || pair.status === "join") continue;
 
         if (pair.status === "removed") {
           const line = pair.left.position?.start?.line;
-          removedContents.push(renderBlockContent(pair.left, undefined, line));
+          removedContents.push(renderBlockContent(pair.left, options, undefined, line));
         } else if (pair.status === "added") {
           // Skip moved content - already rendered at source location
           if (pair.moved) continue;
           const line = pair.right.position?.start?.line;
           if (pair.inlineDiff) {
             const innerHtml = inlineMarkdown(renderInlineDiff(pair.inlineDiff, "right"));
-            addedContents.push(renderBlockContent(pair.right, innerHtml, line));
+            addedContents.push(renderBlockContent(pair.right, options, innerHtml, line));
           } else {
-            addedContents.push(renderBlockContent(pair.right, undefined, line));
+            addedContents.push(renderBlockContent(pair.right, options, undefined, line));
           }
         } else if (pair.status === "modified") {
           // Fully-changed modified: add to both removed and added
@@ -407,8 +717,8 @@ export function renderDiffPairs(pairs: DiffPair[]): RenderedRow[] {
           const rightLine = pair.right.position?.start?.line;
           const leftInner = inlineMarkdown(renderInlineDiff(pair.inlineDiff, "left"));
           const rightInner = inlineMarkdown(renderInlineDiff(pair.inlineDiff, "right"));
-          removedContents.push(renderBlockContent(pair.left, leftInner, leftLine));
-          addedContents.push(renderBlockContent(pair.right, rightInner, rightLine));
+          removedContents.push(renderBlockContent(pair.left, options, leftInner, leftLine));
+          addedContents.push(renderBlockContent(pair.right, options, rightInner, rightLine));
         }
       }
 
@@ -424,3 +734,47 @@ export function renderDiffPairs(pairs: DiffPair[]): RenderedRow[] {
 
   return result;
 }
+
+// ─── Three-Way Rows ──────────────────────────────────────────────────────────
+
+/** One pane of a three-way row; kind is the change relative to the base */
+export interface MergeCell {
+  html: string;
+  kind: DiffStatus;
+  line?: number;
+}
+
+export interface MergeRenderedRow {
+  status: MergeStatus;
+  base: MergeCell;
+  ours: MergeCell;
+  theirs: MergeCell;
+}
+
+function mergeSideCell(side: MergeSide, options: DiffOptions, base?: RootContent): MergeCell {
+  const line = side.node?.position?.start?.line;
+  if (!side.node) {
+    return { html: SPACER, kind: side.changed ? "removed" : "equal" };
+  }
+  if (!side.changed) {
+    return { html: renderBlock(side.node, options), kind: "equal", line };
+  }
+  if (!base || !side.inlineDiff) {
+    return { html: `<div class="added-block">${renderBlock(side.node, options)}</div>`, kind: "added", line };
+  }
+  // Only the side's own text is shown; the base pane holds what it replaced
+  const inner = inlineMarkdown(renderInlineDiff(side.inlineDiff, "right"));
+  return { html: `<div class="modified-block">${wrapInTag(side.node, inner)}</div>`, kind: "modified", line };
+}
+
+/** Render three-way merge rows into aligned base/ours/theirs HTML */
+export function renderMergeRows(rows: MergeRow[], options: DiffOptions = DEFAULT_DIFF_OPTIONS): MergeRenderedRow[] {
+  return rows.map((row) => ({
+    status: row.status,
+    base: row.base
+      ? { html: renderBlock(row.base, options), kind: "equal", line: row.base.position?.start?.line }
+      : { html: SPACER, kind: "equal" },
+    ours: mergeSideCell(row.ours, options, row.base),
+    theirs: mergeSideCell(row.theirs, options, row.base),
+  }));
+}
@@ -0,0 +1,303 @@
+/**
+ * Plain-text diff output (--format text).
+ * Prints changed blocks in full with word-level [-removed-]{+added+} markers,
+ * grouped into hunks with unchanged context blocks, like `git diff --word-diff`.
+ */
+import type { RootContent } from "mdast";
+import type { CodeDiff, ContainerDiff, DiffPair, InlinePart, ListDiff, ListItemDiff } from "../core/diff.js";
+import { formatFrontmatterValue, type FrontmatterDiff } from "../core/frontmatter.js";
+import { blockToText } from "../text/parse.js";
+import { directiveAttributes } from "../text/containers.js";
+import { restoreMarkdown } from "../text/html.js";
+
+export interface TextRenderOptions {
+  /** Unchanged blocks shown before and after each change (like git diff -U). Default: 1 */
+  context?: number;
+  /** Header diff, printed as a "@@ frontmatter @@" hunk of changed keys */
+  frontmatter?: FrontmatterDiff | null;
+}
+
+/** Line prefix per block kind: context, removed, added, modified in place, moved away, moved here */
+type BlockKind = " " | "-" | "+" | "~" | "<" | ">";
+
+interface TextBlock {
+  kind: BlockKind;
+  text: string;
+  left?: RootContent;
+  right?: RootContent;
+  /** Last left-side block, when a block spans several (paragraph join) */
+  leftEnd?: RootContent;
+  /** Last right-side block, when a block spans several (paragraph split) */
+  rightEnd?: RootContent;
+}
+
+// ─── Inline Markers ──────────────────────────────────────────────────────────
+
+/**
+ * Join inline parts, marking word-level changes.
+ * Children are char-level detail and not needed here; consecutive parts of the
+ * same type share one marker.
+ */
+export function formatInlineParts(parts: InlinePart[]): string {
+  const runs: Array<{ type: InlinePart["type"]; value: string }> = [];
+  for (const part of parts) {
+    const last = runs[runs.length - 1];
+    if (last && last.type === part.type) last.value += part.value;
+    else runs.push({ type: part.type, value: part.value });
+  }
+
+  let text = "";
+  for (const { type, value: raw } of runs) {
+    const value = restoreMarkdown(raw);
+    if (type === "equal") text += value;
+    else if (type === "removed") text += `[-${value}-]`;
+    else text += `{+${value}+}`;
+  }
+  return text;
+}
+
+/** Code changes line by line: whole lines or, for lines edited in place, the changed characters */
+function formatCodeDiff(diff: CodeDiff): string {
+  return diff.lines.map((line) => {
+    if (line.status === "equal") return line.right;
+    if (line.status === "removed") return `[-${line.left}-]`;
+    if (line.status === "added") return `{+${line.right}+}`;
+    return line.inlineDiff ? formatInlineParts(line.inlineDiff) : `[-${line.left}-]{+${line.right}+}`;
+  }).join("\n");
+}
+
+/** Markdown around a block's inner text, which is what inline diffs cover */
+function blockFrame(node: RootContent): [string, string] {
+  if (node.type === "heading") return ["#".repeat(node.depth) + " ", ""];
+  if (node.type === "code") return ["```" + (node.lang || "") + "\n", "\n```"];
+  if (node.type === "math") return ["$$\n", "\n$$"];
+  return ["", ""];
+}
+
+/** Blockquote inner text leaves out the `> ` markers; put them back on every line */
+function quoteFrame(node: RootContent, text: string): string {
+  if (node.type !== "blockquote") return text;
+  return text.split("\n").map((line) => `> ${line}`.trimEnd()).join("\n");
+}
+
+/** Old and new value in change markers, or the value when it is the same */
+function formatChange(left: string, right: string): string {
+  return left === right ? right : `[-${left}-]{+${right}+}`;
+}
+
+/** Container markup around its inner blocks, each formatted on its own; whole removed or added blocks are marked */
+function formatContainerDiff(diff: ContainerDiff, right: RootContent): string {
+  const { left: before, right: after } = diff;
+  const inner = diff.pairs.map((pair) => {
+    const { text } = toTextBlock(pair);
+    if (pair.status === "removed") return `[-${text}-]`;
+    if (pair.status === "added" && !pair.inlineDiff) return `{+${text}+}`;
+    return text;
+  }).join("\n\n");
+  const title = diff.titleDiff ? formatInlineParts(diff.titleDiff) : after.title;
+  const marker = (info: typeof before) => (info.kind === "callout" ? `[!${info.type}]` : "");
+  switch (after.kind) {
+    case "blockquote":
+    case "callout": {
+      const header = formatChange(marker(before), marker(after));
+      return quoteFrame(right, header ? header + "\n" + inner : inner);
+    }
+    case "directive": {
+      const fence = ":".repeat(Math.max(2, ...inner.split("\n").map((line) => line.match(/^:*/)![0].length)) + 1);
+      const name = formatChange(before.kind === "directive" ? before.type ?? "" : "", after.type ?? "");
+      const attributes = right.type === "containerDirective" ? directiveAttributes(right) : "";
+      return `${fence}${name}${title !== null ? `[${title}]` : ""}${attributes}\n${inner}\n${fence}`;
+    }
+    case "details": {
+      const summary = title !== null ? `\n<summary>${title}</summary>` : "";
+      return `<details>${summary}\n\n${inner}\n\n</details>`;
+    }
+  }
+}
+
+function formatItemText(item: ListItemDiff): string {
+  // The old position of a moved item is shown as removed, the new one as added
+  if (item.status === "removed" || item.movedTo !== undefined) return `[-${item.left ?? ""}-]`;
+  if (item.status === "added" || (item.movedFrom !== undefined && !item.inlineDiff)) return `{+${item.right ?? ""}+}`;
+  return item.inlineDiff ? formatInlineParts(item.inlineDiff) : item.right ?? "";
+}
+
+/**
+ * List changes item by item, nested lists indented under their item. Items
+ * keep their new number: one renumbered because items around it came or went
+ * isn't a change.
+ */
+function formatListDiff(diff: ListDiff, indent = ""): string {
+  return diff.items.map((item) => {
+    const marker = diff.rightOrdered ? `${item.rightNumber ?? item.leftNumber ?? 1}. ` : "- ";
+    const box = (checked: boolean | null | undefined) => (checked === true ? "[x] " : checked === false ? "[ ] " : "");
+    const checkbox = item.status === "toggled"
+      ? formatChange(box(item.leftChecked), box(item.rightChecked))
+      : box(item.rightIdx !== undefined ? item.rightChecked : item.leftChecked);
+    const pad = indent + " ".repeat(marker.length);
+    const text = formatItemText(item).split("\n").join("\n" + pad);
+    const nested = item.children?.items.length ? "\n" + formatListDiff(item.children, pad) : "";
+    return `${indent}${marker}${checkbox}${text}${nested}`;
+  }).join("\n");
+}
+
+/** A paragraph's text cut at its break points, each piece after the first without leading space */
+function cutAt(text: string, points: number[]): string[] {
+  const bounds = [0, ...points, text.length];
+  return bounds.slice(1).map((end, i) => text.substring(bounds[i], end).trimStart());
+}
+
+function toTextBlock(pair: DiffPair): TextBlock {
+  switch (pair.status) {
+    case "equal":
+      return { kind: " ", text: blockToText(pair.right), left: pair.left, right: pair.right };
+    case "removed":
+      return { kind: "-", text: blockToText(pair.left), left: pair.left };
+    case "added": {
+      // Moved text carries inline markers for the parts that were not moved
+      const [open, close] = blockFrame(pair.right);
+      const text = pair.inlineDiff
+        ? quoteFrame(pair.right, open + formatInlineParts(pair.inlineDiff) + close)
+        : blockToText(pair.right);
+      return { kind: "+", text, right: pair.right };
+    }
+    case "modified": {
+      if (pair.containerDiff) {
+        return { kind: "~", text: formatContainerDiff(pair.containerDiff, pair.right), left: pair.left, right: pair.right };
+      }
+      if (pair.listDiff) {
+        return { kind: "~", text: formatListDiff(pair.listDiff), left: pair.left, right: pair.right };
+      }
+      const [open, close] = blockFrame(pair.right);
+      const inner = pair.codeDiff ? formatCodeDiff(pair.codeDiff) : formatInlineParts(pair.inlineDiff);
+      return { kind: "~", text: quoteFrame(pair.right, open + inner + close), left: pair.left, right: pair.right };
+    }
+    case "split":
+      return {
+        kind: "~",
+        text: cutAt(blockToText(pair.original), pair.splitPoints).join("{+¶+}\n"),
+        left: pair.original,
+        right: pair.parts[0],
+        rightEnd: pair.parts[pair.parts.length - 1],
+      };
+    case "join":
+      return {
+        kind: "~",
+        text: cutAt(blockToText(pair.joined), pair.joinPoints).join("[-¶-] "),
+        left: pair.originals[0],
+        leftEnd: pair.originals[pair.originals.length - 1],
+        right: pair.joined,
+      };
+    case "moved": {
+      // The block is printed once, where it now is; its old place points there
+      if (pair.place === "from") {
+        return { kind: "<", text: `[moved to line ${startLine(pair.right)}]`, left: pair.left };
+      }
+      const [open, close] = blockFrame(pair.right);
+      const text = pair.inlineDiff
+        ? quoteFrame(pair.right, open + formatInlineParts(pair.inlineDiff) + close)
+        : blockToText(pair.right);
+      return { kind: ">", text: `[moved from line ${startLine(pair.left)}]\n${text}`, right: pair.right };
+    }
+  }
+}
+
+/** The heading of a section that moved as a whole is a change where it now is, pointing to where it was */
+function toSectionBlock(pair: DiffPair): TextBlock {
+  const block = toTextBlock(pair);
+  if ((pair.status !== "equal" && pair.status !== "modified") || !pair.sectionMoved) return block;
+  return { kind: ">", text: `[section moved from line ${startLine(pair.left)}]\n${block.text}`, right: pair.right };
+}
+
+// ─── Hunks ───────────────────────────────────────────────────────────────────
+
+const startLine = (node?: RootContent) => node?.position?.start.line;
+const endLine = (node?: RootContent) => node?.position?.end.line;
+
+/** Group indexes of changed blocks, with context, into [start, end] ranges (inclusive) */
+function hunkRanges(blocks: TextBlock[], context: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  blocks.forEach((block, i) => {
+    if (block.kind === " ") return;
+    const start = Math.max(0, i - context);
+    const end = Math.min(blocks.length - 1, i + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) last[1] = Math.max(last[1], end);
+    else ranges.push([start, end]);
+  });
+  return ranges;
+}
+
+const known = (lines: Array<number | undefined>) => lines.filter((line): line is number => line !== undefined);
+const minLine = (lines: Array<number | undefined>) => (known(lines).length ? Math.min(...known(lines)) : undefined);
+const maxLine = (lines: Array<number | undefined>) => (known(lines).length ? Math.max(...known(lines)) : undefined);
+
+/** Format a side's line range as "start,count"; empty sides point after the previous block */
+function lineRange(first: number | undefined, last: number | undefined, before: number): string {
+  if (first === undefined || last === undefined) return `${before},0`;
+  return `${first},${last - first + 1}`;
+}
+
+function hunkHeader(blocks: TextBlock[], start: number, end: number): string {
+  const hunk = blocks.slice(start, end + 1);
+  const lefts = hunk.filter((b) => b.left);
+  const rights = hunk.filter((b) => b.right);
+
+  // Line just before the hunk on each side, for hunks that only add or only remove
+  const previous = blocks.slice(0, start).reverse();
+  const leftBefore = endLine(previous.find((b) => b.left)?.leftEnd ?? previous.find((b) => b.left)?.left) ?? 0;
+  const rightBefore = endLine(previous.find((b) => b.right)?.rightEnd ?? previous.find((b) => b.right)?.right) ?? 0;
+
+  // Blocks of a moved section keep their old lines, so the left side can be out of order
+  const leftStart = minLine(lefts.map((b) => startLine(b.left)));
+  const leftEnd = maxLine(lefts.map((b) => endLine(b.leftEnd ?? b.left)));
+  const lastRight = rights[rights.length - 1];
+  const rightEnd = endLine(lastRight?.rightEnd ?? lastRight?.right);
+  const leftRange = lineRange(leftStart, leftEnd, leftBefore);
+  const rightRange = lineRange(startLine(rights[0]?.right), rightEnd, rightBefore);
+  return `@@ -${leftRange} +${rightRange} @@`;
+}
+
+/** One line per changed key, in the same markers as block changes */
+function frontmatterLines(diff: FrontmatterDiff): string[] {
+  const lines: string[] = [];
+  for (const { path, status, left, right } of diff.changes) {
+    if (status === "removed") lines.push(`- ${path}: ${formatFrontmatterValue(left)}`);
+    if (status === "added") lines.push(`+ ${path}: ${formatFrontmatterValue(right)}`);
+    if (status === "changed") {
+      lines.push(`~ ${path}: [-${formatFrontmatterValue(left)}-]{+${formatFrontmatterValue(right)}+}`);
+    }
+  }
+  return lines.length > 0 ? ["@@ frontmatter @@", ...lines] : [];
+}
+
+function prefixLines(kind: BlockKind, text: string): string {
+  return text.split("\n").map((line) => `${kind} ${line}`.trimEnd()).join("\n");
+}
+
+/**
+ * Render diff pairs as plain text.
+ * Returns an empty string when nothing changed.
+ */
+export function renderText(
+  pairs: DiffPair[],
+  leftTitle: string,
+  rightTitle: string,
+  options: TextRenderOptions = {},
+): string {
+  const context = options.context ?? 1;
+  const blocks = pairs.map(toSectionBlock);
+  const ranges = hunkRanges(blocks, context);
+  const header = options.frontmatter ? frontmatterLines(options.frontmatter) : [];
+  if (ranges.length === 0 && header.length === 0) return "";
+
+  const lines = [`--- ${leftTitle}`, `+++ ${rightTitle}`, ...header];
+  for (const [start, end] of ranges) {
+    lines.push(hunkHeader(blocks, start, end));
+    for (let i = start; i <= end; i++) {
+      if (i > start) lines.push("");
+      lines.push(prefixLines(blocks[i].kind, blocks[i].text));
+    }
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,171 @@
+/**
+ * Container blocks: blocks whose content is itself a sequence of blocks.
+ * - blockquote: `> ...`
+ * - callout: a blockquote opening with a GitHub alert marker, `> [!NOTE]`
+ * - directive: a `:::name` container (generic directive syntax)
+ * - details: `<details>` HTML wrapped around Markdown content
+ */
+import type { Blockquote, Html, Nodes, Paragraph, Parent, Root, RootContent } from "mdast";
+import type { ContainerDirective } from "mdast-util-directive";
+import { directiveFromMarkdown } from "mdast-util-directive";
+import { directive } from "micromark-extension-directive";
+import type { Processor } from "unified";
+
+/** `<details>` block with Markdown content, folded from its opening and closing HTML */
+export interface Details extends Parent {
+  type: "details";
+  /** Text of the `<summary>` element; null without one */
+  summary: string | null;
+  children: RootContent[];
+}
+
+declare module "mdast" {
+  interface RootContentMap {
+    details: Details;
+  }
+}
+
+export type ContainerKind = "blockquote" | "callout" | "directive" | "details";
+
+export interface ContainerInfo {
+  kind: ContainerKind;
+  /** Callout type ("NOTE") or directive name ("warning") */
+  type: string | null;
+  /** Directive `[label]` or details summary */
+  title: string | null;
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Parser plugin for `:::name` container directives only. The full directive
+ * syntax also turns `:word` in running text into directives, which would
+ * mangle times ("10:30") and prose ("see:this").
+ */
+export function remarkContainerDirectives(this: Processor): void {
+  const data = this.data();
+  const flow = directive().flow?.[58];
+  // The container construct is the concrete one (its lines can't be interrupted); the other is the leaf form
+  const constructs = [flow ?? []].flat().filter((construct) => construct.concrete);
+  const syntax: ReturnType<typeof directive> = { flow: { 58: constructs } };
+  (data.micromarkExtensions ??= []).push(syntax);
+  (data.fromMarkdownExtensions ??= []).push(directiveFromMarkdown());
+}
+
+const DETAILS_OPEN = /^<details(?:\s[^>]*)?>\s*(?:<summary>([^]*?)<\/summary>)?\s*$/i;
+const DETAILS_CLOSE = /^<\/details>\s*$/i;
+
+function isHtml(node: RootContent, pattern: RegExp): node is Html {
+  return node.type === "html" && pattern.test(node.value);
+}
+
+/** Fold `<details>` ... `</details>` HTML blocks around Markdown content into details nodes */
+function foldDetails(children: RootContent[]): RootContent[] {
+  const result: RootContent[] = [];
+  for (let i = 0; i < children.length; i++) {
+    const node = children[i];
+    if (!isHtml(node, DETAILS_OPEN)) {
+      if (isBlockParent(node)) node.children = foldDetails(node.children as RootContent[]) as typeof node.children;
+      result.push(node);
+      continue;
+    }
+    // Find the matching close, counting nested details
+    let depth = 0;
+    let end = -1;
+    for (let j = i + 1; j < children.length && end < 0; j++) {
+      if (isHtml(children[j], DETAILS_OPEN)) depth++;
+      else if (isHtml(children[j], DETAILS_CLOSE)) {
+        if (depth === 0) end = j;
+        else depth--;
+      }
+    }
+    if (end < 0) {
+      result.push(node);
+      continue;
+    }
+    const summary = node.value.match(DETAILS_OPEN)?.[1]?.trim() ?? null;
+    const position = node.position && children[end].position
+      ? { start: node.position.start, end: children[end].position!.end }
+      : undefined;
+    result.push({ type: "details", summary, children: foldDetails(children.slice(i + 1, end)), position });
+    i = end;
+  }
+  return result;
+}
+
+function isBlockParent(node: RootContent): node is Extract<RootContent, Parent> {
+  return node.type === "blockquote" || node.type === "containerDirective" ||
+    node.type === "listItem" || node.type === "list" || node.type === "footnoteDefinition";
+}
+
+/** Tree transform: fold `<details>` containers everywhere blocks can appear */
+export function foldDetailsBlocks(tree: Root): Root {
+  tree.children = foldDetails(tree.children);
+  return tree;
+}
+
+// ─── Inspection ──────────────────────────────────────────────────────────────
+
+const CALLOUT_MARKER = /^\[!(\w+)\][ \t]*(?:\n|$)/;
+
+/** GitHub alert type of a blockquote ("NOTE", "WARNING", ...), or null for a plain quote */
+export function calloutType(node: Blockquote): string | null {
+  const first = node.children[0];
+  if (first?.type !== "paragraph" || first.children[0]?.type !== "text") return null;
+  return first.children[0].value.match(CALLOUT_MARKER)?.[1].toUpperCase() ?? null;
+}
+
+function isDirectiveLabel(node: RootContent): node is Paragraph {
+  return node.type === "paragraph" && Boolean((node.data as { directiveLabel?: boolean } | undefined)?.directiveLabel);
+}
+
+/** Kind and label of a container block; null for every other block */
+export function containerInfo(node: RootContent): ContainerInfo | null {
+  switch (node.type) {
+    case "blockquote": {
+      const type = calloutType(node);
+      return { kind: type ? "callout" : "blockquote", type, title: null };
+    }
+    case "containerDirective":
+      return { kind: "directive", type: node.name, title: directiveLabel(node) };
+    case "details":
+      return { kind: "details", type: null, title: node.summary };
+    default:
+      return null;
+  }
+}
+
+/** Text of a directive's `[label]`, if it has one */
+export function directiveLabel(node: ContainerDirective): string | null {
+  const label = node.children.find(isDirectiveLabel);
+  return label ? label.children.map((c) => ("value" in c ? c.value : "")).join("") : null;
+}
+
+/** A directive's `{attributes}` in Markdown syntax, empty without any */
+export function directiveAttributes(node: ContainerDirective): string {
+  const attributes = Object.entries(node.attributes ?? {}).map(([key, value]) => (value ? `${key}="${value}"` : key));
+  return attributes.length > 0 ? `{${attributes.join(" ")}}` : "";
+}
+
+/**
+ * The blocks inside a container, without its own markup: the callout marker
+ * and a directive's label are left out, so only the content is diffed.
+ */
+export function containerChildren(node: RootContent): RootContent[] {
+  switch (node.type) {
+    case "blockquote": {
+      if (!calloutType(node)) return node.children;
+      const [first, ...rest] = node.children as [Paragraph, ...RootContent[]];
+      const [marker, ...inline] = first.children;
+      const text = (marker as { value: string }).value.replace(CALLOUT_MARKER, "");
+      const body = text ? [{ ...marker, value: text } as Nodes, ...inline] : inline;
+      return body.length > 0 ? [{ ...first, children: body } as Paragraph, ...rest] : rest;
+    }
+    case "containerDirective":
+      return node.children.filter((child) => !isDirectiveLabel(child));
+    case "details":
+      return node.children;
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * CriticMarkup input (--critic).
+ * Splits a CriticMarkup-annotated document into the original text (all changes
+ * rejected) and the modified text (all changes accepted), which are then
+ * diffed like any two files.
+ *
+ * Supported markup:
+ *   {++added++}  {--removed--}  {~~old~>new~~}  {==highlight==}  {>>comment<<}
+ */
+
+export interface CriticDocument {
+  /** Text with every change rejected */
+  original: string;
+  /** Text with every change accepted */
+  modified: string;
+  /** Number of additions, deletions and substitutions found */
+  changes: number;
+}
+
+const CRITIC_MARKUP = /\{\+\+([\s\S]*?)\+\+\}|\{--([\s\S]*?)--\}|\{~~([\s\S]*?)~>([\s\S]*?)~~\}|\{==([\s\S]*?)==\}|\{>>[\s\S]*?<<\}/g;
+
+/** Markers on lines of their own wrap whole blocks; drop the line breaks next to them */
+function trimMarkerLines(text: string): string {
+  return /^\n[\s\S]*\S[\s\S]*\n$/.test(text) ? text.slice(1, -1) : text;
+}
+
+export function parseCriticMarkup(source: string): CriticDocument {
+  let original = "";
+  let modified = "";
+  let changes = 0;
+  let last = 0;
+
+  for (const match of source.matchAll(CRITIC_MARKUP)) {
+    const text = source.slice(last, match.index);
+    original += text;
+    modified += text;
+    last = match.index + match[0].length;
+
+    const [, added, removed, oldText, newText, highlighted] = match;
+    if (added !== undefined) {
+      modified += trimMarkerLines(added);
+      changes++;
+    } else if (removed !== undefined) {
+      original += trimMarkerLines(removed);
+      changes++;
+    } else if (oldText !== undefined) {
+      original += oldText;
+      modified += newText;
+      changes++;
+    } else if (highlighted !== undefined) {
+      original += highlighted;
+      modified += highlighted;
+    }
+    // Comments are dropped from both sides
+  }
+
+  const rest = source.slice(last);
+  return { original: original + rest, modified: modified + rest, changes };
+}
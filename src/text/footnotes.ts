@@ -0,0 +1,48 @@
+/**
+ * GFM footnote references (`[^label]`) in serialized text.
+ * A block is rendered on its own, without the definitions remark-gfm needs to
+ * recognize a reference, so references are drawn as superscript labels here.
+ */
+import type { Nodes, PhrasingContent, Root, Text } from "mdast";
+
+/** A footnote reference: `[^label]` */
+export const FOOTNOTE_REF = /\[\^([^\]\s]+)\]/g;
+
+/** Superscript label of a footnote reference; the label is already escaped */
+export function footnoteRefHtml(label: string): string {
+  return `<sup class="footnote-ref">${label}</sup>`;
+}
+
+function splitRefs(node: Text): PhrasingContent[] {
+  const parts: PhrasingContent[] = [];
+  let last = 0;
+  for (const match of node.value.matchAll(FOOTNOTE_REF)) {
+    if (match.index > last) parts.push({ type: "text", value: node.value.slice(last, match.index) });
+    parts.push({ type: "text", value: match[1], data: { hName: "sup", hProperties: { className: ["footnote-ref"] } } });
+    last = match.index + match[0].length;
+  }
+  if (last < node.value.length) parts.push({ type: "text", value: node.value.slice(last) });
+  return parts;
+}
+
+function visitText(node: Nodes): void {
+  if (!("children" in node)) return;
+  node.children = (node.children as Nodes[]).flatMap((child) => {
+    if (child.type === "text" && child.value.includes("[^")) return splitRefs(child);
+    visitText(child);
+    return [child];
+  }) as typeof node.children;
+}
+
+/** Tree transform: `[^label]` left as text (no definition in the block) becomes a superscript label */
+export function markFootnoteRefs(tree: Root): Root {
+  visitText(tree);
+  return tree;
+}
+
+/** Identifiers of the footnotes referenced anywhere in a node */
+export function footnoteReferences(node: Nodes, found = new Set<string>()): Set<string> {
+  if (node.type === "footnoteReference") found.add(node.identifier);
+  if ("children" in node) for (const child of node.children as Nodes[]) footnoteReferences(child, found);
+  return found;
+}
@@ -0,0 +1,62 @@
+/**
+ * Frontmatter extraction.
+ * A YAML (---) or TOML (+++) header at the very start of a document is parsed
+ * as data instead of Markdown; left in place it would come out as a thematic
+ * break followed by a paragraph or setext heading.
+ */
+import { parse as parseYaml } from "yaml";
+import { parse as parseToml } from "smol-toml";
+
+export type FrontmatterFormat = "yaml" | "toml";
+
+export interface Frontmatter {
+  format: FrontmatterFormat;
+  /** Header text between the fences */
+  raw: string;
+  data: Record<string, unknown>;
+}
+
+export interface SplitDocument {
+  frontmatter: Frontmatter | null;
+  /** Document with the header replaced by blank lines, so body line numbers are unchanged */
+  body: string;
+}
+
+const FENCES: Array<{ format: FrontmatterFormat; pattern: RegExp }> = [
+  { format: "yaml", pattern: /^---[ \t]*\r?\n([\s\S]*?)^(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/m },
+  { format: "toml", pattern: /^\+\+\+[ \t]*\r?\n([\s\S]*?)^\+\+\+[ \t]*(?:\r?\n|$)/m },
+];
+
+function parseData(format: FrontmatterFormat, raw: string): Record<string, unknown> | null {
+  try {
+    const data: unknown = format === "yaml" ? parseYaml(raw) : parseToml(raw);
+    if (data === null || data === undefined) return {};
+    return typeof data === "object" && !Array.isArray(data) ? (data as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a leading frontmatter header off a document.
+ * Headers that don't parse to a key/value map are left in the body.
+ */
+export function splitFrontmatter(source: string): SplitDocument {
+  const text = source.replace(/^\uFEFF/, "");
+  for (const { format, pattern } of FENCES) {
+    const match = text.match(pattern);
+    if (!match || match.index !== 0) continue;
+    const raw = match[1].replace(/\r?\n$/, "");
+    const data = parseData(format, raw);
+    if (!data) return { frontmatter: null, body: source };
+    const lines = match[0].split("\n").length - (match[0].endsWith("\n") ? 1 : 0);
+    return { frontmatter: { format, raw, data }, body: "\n".repeat(lines) + text.slice(match[0].length) };
+  }
+  return { frontmatter: null, body: source };
+}
+
+/** The header as it appears in a document, fences included */
+export function frontmatterBlock(frontmatter: Frontmatter): string {
+  const fence = frontmatter.format === "yaml" ? "---" : "+++";
+  return `${fence}\n${frontmatter.raw}\n${fence}`;
+}
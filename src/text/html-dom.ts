@@ -0,0 +1,85 @@
+/**
+ * Raw HTML in markdown: fragments parsed into a small DOM (hast) and
+ * sanitized with GitHub's allowlist, so `<details>`, `<table>`, `<img>` and
+ * `<br>` render as they would on GitHub while scripts, event handlers and
+ * `javascript:` URLs are dropped.
+ */
+import { fromHtml } from "hast-util-from-html";
+import { defaultSchema, sanitize } from "hast-util-sanitize";
+import { toHtml } from "hast-util-to-html";
+import type { Element, Root as HtmlRoot } from "hast";
+import type { Nodes, Root } from "mdast";
+
+/** One tag of inline HTML: `<img src="a.png">`, `<kbd>` or `</kbd>` */
+export interface HtmlTag {
+  name: string;
+  closing: boolean;
+  /** Attribute values by lowercase name, in source order; "" for a bare attribute */
+  attributes: Map<string, string>;
+}
+
+const ALLOWED_TAGS = new Set(defaultSchema.tagNames);
+
+/** Elements without content, drawn as they are inside diffed text */
+export const VOID_TAGS = new Set(["br", "img", "wbr"]);
+
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const TAG = /^<(\/)?([a-zA-Z][a-zA-Z0-9-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>$/;
+
+/** Parse a single tag, or null when the text is anything else */
+export function parseTag(text: string): HtmlTag | null {
+  const match = text.trim().match(TAG);
+  if (!match) return null;
+  const attributes = new Map<string, string>();
+  for (const [, name, double, single, bare] of match[3].matchAll(ATTRIBUTE)) {
+    attributes.set(name.toLowerCase(), double ?? single ?? bare ?? "");
+  }
+  return { name: match[2].toLowerCase(), closing: Boolean(match[1]), attributes };
+}
+
+/** Parse an HTML fragment into a sanitized tree */
+export function parseHtml(html: string): HtmlRoot {
+  return sanitize(fromHtml(html, { fragment: true })) as HtmlRoot;
+}
+
+/** An HTML fragment with everything outside the allowlist removed */
+export function sanitizeHtml(html: string): string {
+  return toHtml(parseHtml(html));
+}
+
+/** A single sanitized tag, or null when the element isn't allowed on its own */
+export function sanitizeTag(text: string): string | null {
+  const tag = parseTag(text);
+  if (!tag || !ALLOWED_TAGS.has(tag.name)) return null;
+  if (tag.closing) return `</${tag.name}>`;
+  const [element] = parseHtml(text).children;
+  if (element?.type !== "element") return null;
+  return toHtml({ ...element, children: [] }).replace(/<\/[^>]*>$/, "");
+}
+
+/** The attributes of an element as they are written out */
+export function elementAttributes(element: Element): Map<string, string> {
+  const open = toHtml({ ...element, children: [] }).replace(/<\/[^>]*>$/, "");
+  return parseTag(open)?.attributes ?? new Map();
+}
+
+const COMMENT = /^<!--(?:(?!-->)[\s\S])*-->$/;
+
+function sanitizeNodes(node: Nodes, inline: boolean): void {
+  if (node.type === "html") {
+    const value = inline ? (COMMENT.test(node.value) ? node.value : sanitizeTag(node.value)) : sanitizeHtml(node.value);
+    // An inline tag that isn't allowed is shown as text
+    if (value === null) Object.assign(node, { type: "text" });
+    else node.value = value;
+    return;
+  }
+  if (!("children" in node)) return;
+  const phrasing = node.type === "paragraph" || node.type === "heading" || node.type === "tableCell" || inline;
+  for (const child of node.children as Nodes[]) sanitizeNodes(child, phrasing);
+}
+
+/** Tree transform: sanitize raw HTML before rendering, blocks as whole fragments and inline tags one by one */
+export function sanitizeRawHtml(tree: Root): Root {
+  sanitizeNodes(tree, false);
+  return tree;
+}
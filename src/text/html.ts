@@ -1,6 +1,9 @@
 /**
  * HTML utilities for rendering diff output.
  */
+import { renderTex } from "./math.js";
+import { VOID_TAGS, parseTag, sanitizeTag } from "./html-dom.js";
+import { FOOTNOTE_REF, footnoteRefHtml } from "./footnotes.js";
 
 // Marker characters for protected markdown spans
 const BOLD_OPEN = "\x02";
@@ -8,6 +11,31 @@ const BOLD_CLOSE = "\x03";
 const ITALIC_OPEN = "\x04";
 const ITALIC_CLOSE = "\x05";
 const WORD_JOIN = "\x00"; // Joins words within protected spans
+const LINK_TARGET = "\x06"; // Opens a link destination: [text](url) → [text]\x06url\x07
+const IMAGE_TARGET = "\x0e"; // Opens an image source: ![alt](src) → ![alt]\x0esrc\x07
+const TARGET_CLOSE = "\x07";
+const MATH_OPEN = "\x10"; // Inline math: $tex$ → \x10tex\x11
+const MATH_CLOSE = "\x11";
+const MATH_STAR = "\x12"; // `*` inside math, so it isn't read as bold or italic
+
+/** `$tex$` with no space inside the dollars and no digit after them ("$5 or $10" is not math) */
+const INLINE_MATH = /\$([^\s$](?:[^$]*[^\s$])?)\$(?!\d)/g;
+const MATH_SPAN = new RegExp(`${MATH_OPEN}([^${MATH_CLOSE}]*)${MATH_CLOSE}`, "g");
+
+/** A code span (group 1, left alone) or an inline HTML tag */
+const TAG_OR_CODE = /(`[^`]*`)|<\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s[^<>]*)?\/?>/g;
+/** The same in escaped HTML: a code span (group 1) or an escaped tag (group 2) */
+const ESCAPED_TAG_OR_CODE = /(`[^`]*`)|&lt;(\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s(?:(?!&gt;)[^<>])*)?\/?)&gt;/g;
+/** A code span (group 1, left alone) or a footnote reference (group 2) */
+const FOOTNOTE_OR_CODE = new RegExp(`(\`[^\`]*\`)|${FOOTNOTE_REF.source}`, "g");
+
+/** A link destination or image source split off by protectMarkdown(), plus any punctuation after it */
+export interface LinkTarget {
+  kind: "link" | "image";
+  url: string;
+  /** Text following the closing parenthesis in the same word ("." in "[a](b).") */
+  rest: string;
+}
 
 /**
  * Escape HTML entities to prevent XSS and ensure proper rendering.
@@ -24,8 +52,15 @@ export function escapeHtml(s: string): string {
  * Protect markdown formatting before diffing.
  * Converts **bold** and *italic* to atomic tokens that won't be split by word tokenization.
  * Spaces within formatted spans are replaced with WORD_JOIN to keep them together.
+ * Inline math and inline HTML tags are protected the same way, so a formula
+ * or an `<img ...>` tag is diffed as one unit.
  */
 export function protectMarkdown(text: string): string {
+  text = protectTags(protectMath(text));
+  // Link and image targets: ](url) → ]\x06url\x07, tokenized apart from the text so URL
+  // changes show separately from changes to the link text (images first: [![alt](src)](url))
+  text = text.replace(/!\[([^\]]*)\]\(([^\s()]*)\)/g, `![$1]${IMAGE_TARGET}$2${TARGET_CLOSE}`);
+  text = text.replace(/\]\(([^\s()]*)\)/g, `]${LINK_TARGET}$1${TARGET_CLOSE}`);
   // Bold: **text** → \x02text\x03 (with spaces → \x00)
   text = text.replace(/\*\*([^*]+)\*\*/g, (_match, content) => {
     return BOLD_OPEN + content.replace(/ /g, WORD_JOIN) + BOLD_CLOSE;
@@ -37,13 +72,30 @@ export function protectMarkdown(text: string): string {
   return text;
 }
 
+/** Inline math: $tex$ → \x10tex\x11, with spaces → \x00 and `*` → \x12 */
+function protectMath(text: string): string {
+  return text.replace(INLINE_MATH, (_match, tex: string) => {
+    return MATH_OPEN + tex.replace(/ /g, WORD_JOIN).replace(/\*/g, MATH_STAR) + MATH_CLOSE;
+  });
+}
+
+/** Inline HTML tags outside code spans: spaces → \x00 */
+function protectTags(text: string): string {
+  return text.replace(TAG_OR_CODE, (match, code?: string) => code ?? match.replace(/ /g, WORD_JOIN));
+}
+
+function unescapeHtml(s: string): string {
+  return s.replace(/&quot;/g, "\"").replace(/&gt;/g, ">").replace(/&lt;/g, "<").replace(/&amp;/g, "&");
+}
+
 /**
  * Restore markdown from protected tokens and convert to HTML.
- * Also restores spaces that were converted to WORD_JOIN.
+ * Also restores spaces that were converted to WORD_JOIN. Inline math is left
+ * protected; inlineMarkdown() renders it.
  */
 export function restoreMarkdownToHtml(text: string): string {
-  // First restore word joins to spaces
-  text = text.replace(new RegExp(WORD_JOIN, "g"), " ");
+  // First restore word joins to spaces and link targets to their parentheses
+  text = restoreTargets(text.replace(new RegExp(WORD_JOIN, "g"), " "));
   // Convert protected bold to HTML
   text = text.replace(new RegExp(`${BOLD_OPEN}([^${BOLD_CLOSE}]*)${BOLD_CLOSE}`, "g"), "<strong>$1</strong>");
   // Convert protected italic to HTML
@@ -52,13 +104,58 @@ export function restoreMarkdownToHtml(text: string): string {
 }
 
 /**
- * Convert markdown bold/italic markers to HTML.
+ * Restore markdown syntax from protected tokens (for plain-text output).
+ * Inverse of protectMarkdown().
+ */
+export function restoreMarkdown(text: string): string {
+  return restoreTargets(text)
+    .replace(new RegExp(`[${MATH_OPEN}${MATH_CLOSE}]`, "g"), "$")
+    .replace(new RegExp(MATH_STAR, "g"), "*")
+    .replace(new RegExp(WORD_JOIN, "g"), " ")
+    .replace(new RegExp(`[${BOLD_OPEN}${BOLD_CLOSE}]`, "g"), "**")
+    .replace(new RegExp(`[${ITALIC_OPEN}${ITALIC_CLOSE}]`, "g"), "*");
+}
+
+function restoreTargets(text: string): string {
+  return text.replace(new RegExp(`[${LINK_TARGET}${IMAGE_TARGET}]`, "g"), "(").replace(new RegExp(TARGET_CLOSE, "g"), ")");
+}
+
+/** Bold or italic markers of a protected span */
+export const PROTECTED_SPAN = new RegExp(`[${BOLD_OPEN}${BOLD_CLOSE}${ITALIC_OPEN}${ITALIC_CLOSE}]`);
+
+/** Start of a protected inline math span */
+export const MATH_START = new RegExp(MATH_OPEN);
+
+/** An inline HTML tag; after protectMarkdown() the spaces inside it are word joins */
+export const INLINE_TAG = new RegExp(`<\\/?[a-zA-Z][a-zA-Z0-9-]*(?:[\\s${WORD_JOIN}][^<>]*)?\\/?>`);
+
+/** Start of a protected link or image target, where a word is split into text and target tokens */
+export const TARGET_START = new RegExp(`[${LINK_TARGET}${IMAGE_TARGET}]`);
+
+/** The link target a diff part consists of, or null when the part holds anything else */
+export function parseLinkTarget(value: string): LinkTarget | null {
+  const match = value.trim().match(new RegExp(`^([${LINK_TARGET}${IMAGE_TARGET}])([^${TARGET_CLOSE}]*)${TARGET_CLOSE}(\\S*)$`));
+  if (!match) return null;
+  return { kind: match[1] === IMAGE_TARGET ? "image" : "link", url: match[2], rest: match[3] };
+}
+
+/** Text of a diff part without bold, italic, inline code or strikethrough markers */
+export function stripFormatting(value: string): string {
+  return value
+    .replace(new RegExp(WORD_JOIN, "g"), " ")
+    .replace(new RegExp(PROTECTED_SPAN.source, "g"), "")
+    .replace(/~~|[*`]/g, "");
+}
+
+/**
+ * Convert markdown bold/italic markers to HTML and render inline math, inline
+ * HTML tags and footnote references.
  * Handles **bold** and *italic* syntax.
  * Also handles protected markers from protectMarkdown().
  */
 export function inlineMarkdown(html: string): string {
-  // First restore any protected markers
-  html = restoreMarkdownToHtml(html);
+  // First restore any protected markers; math stays protected until the end
+  html = restoreMarkdownToHtml(protectMath(html));
   // Bold: **text** → <strong>text</strong>
   html = html.replace(/\*\*([\s\S]+?)\*\*/g, "<strong>$1</strong>");
   // Then italic: *text* → <em>text</em>
@@ -66,5 +163,22 @@ export function inlineMarkdown(html: string): string {
     /(?<!\*)\*(?!\*)([\s\S]+?)(?<!\*)\*(?!\*)/g,
     "<em>$1</em>",
   );
-  return html;
+  html = html.replace(ESCAPED_TAG_OR_CODE, (match, code?: string, tag?: string) => {
+    return code ?? renderInlineTag(unescapeHtml(`<${tag}>`));
+  });
+  html = html.replace(FOOTNOTE_OR_CODE, (_match, code?: string, label?: string) => code ?? footnoteRefHtml(label!));
+  return html.replace(MATH_SPAN, (_match, tex: string) => {
+    return renderTex(unescapeHtml(tex.replace(new RegExp(MATH_STAR, "g"), "*")), false);
+  });
+}
+
+/**
+ * An inline HTML tag inside diffed text. Elements without content (`<br>`,
+ * `<img>`) are drawn, sanitized; any other tag is shown as muted tag text,
+ * since its closing tag may sit in another diff part.
+ */
+function renderInlineTag(tag: string): string {
+  const sanitized = sanitizeTag(tag);
+  if (sanitized && VOID_TAGS.has(parseTag(tag)!.name)) return sanitized;
+  return `<span class="html-tag">${escapeHtml(tag)}</span>`;
 }
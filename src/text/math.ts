@@ -0,0 +1,54 @@
+/**
+ * TeX math: `$...$` inline and `$$...$$` blocks (remark-math syntax).
+ * Formulas are rendered to MathML with KaTeX at diff time, so the output
+ * needs no fonts, stylesheets or scripts to show them.
+ */
+import katex from "katex";
+import type { Nodes, PhrasingContent, Root } from "mdast";
+
+/** Render TeX source; invalid TeX comes back as its source, flagged with an error class */
+export function renderTex(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, { displayMode, output: "mathml", throwOnError: false, strict: "ignore" });
+}
+
+/**
+ * Whether a `$...$` span reads as inline math rather than two dollar amounts.
+ * Like Pandoc, the opening `$` must be followed and the closing `$` preceded
+ * by a non-space, and the closing `$` must not be followed by a digit.
+ */
+function isInlineMath(value: string, next: PhrasingContent | undefined): boolean {
+  if (value.trim() !== value || value === "") return false;
+  return !(next?.type === "text" && /^\d/.test(next.value));
+}
+
+function restoreDollars(children: PhrasingContent[]): PhrasingContent[] {
+  const result: PhrasingContent[] = [];
+  children.forEach((child, i) => {
+    const node: PhrasingContent = child.type === "inlineMath" && !isInlineMath(child.value, children[i + 1])
+      ? { type: "text", value: `$${child.value}$`, position: child.position }
+      : child;
+    // Restored dollars join the text around them
+    const last = result[result.length - 1];
+    if (last?.type === "text" && node.type === "text") {
+      last.value += node.value;
+      if (last.position && node.position) last.position = { start: last.position.start, end: node.position.end };
+    } else {
+      result.push(node.type === "text" ? { ...node } : node);
+    }
+  });
+  return result;
+}
+
+function visitParents(node: Nodes): void {
+  if (!("children" in node)) return;
+  if (node.children.some((child) => child.type === "inlineMath")) {
+    node.children = restoreDollars(node.children as PhrasingContent[]) as typeof node.children;
+  }
+  for (const child of node.children as Nodes[]) visitParents(child);
+}
+
+/** Tree transform: turn `$` spans that are prices ("$5 or $10") back into text */
+export function restoreDollarAmounts(tree: Root): Root {
+  visitParents(tree);
+  return tree;
+}
@@ -1,12 +1,24 @@
 import { unified } from "unified";
 import remarkParse from "remark-parse";
 import remarkGfm from "remark-gfm";
-import type { Root, RootContent, Nodes } from "mdast";
+import remarkMath from "remark-math";
+import type { Root, RootContent, Nodes, Link, Table, TableCell } from "mdast";
+import type { ContainerDirective } from "mdast-util-directive";
+import { splitFrontmatter } from "./frontmatter.js";
+import {
+  containerChildren, directiveAttributes, directiveLabel, foldDetailsBlocks, remarkContainerDirectives, type Details,
+} from "./containers.js";
+import { restoreDollarAmounts } from "./math.js";
 
-const parser = unified().use(remarkParse).use(remarkGfm);
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath).use(remarkContainerDirectives);
 
+/**
+ * Parse the document body; a frontmatter header is left out (see diffDocumentFrontmatter).
+ * `<details>` blocks around Markdown content become details container nodes, and
+ * `$` spans that read as dollar amounts stay text rather than math.
+ */
 export function parseMarkdown(source: string): Root {
-  return parser.parse(source);
+  return restoreDollarAmounts(foldDetailsBlocks(parser.parse(splitFrontmatter(source).body)));
 }
 
 /** Extract top-level blocks from a markdown AST */
@@ -14,14 +26,17 @@ export function extractBlocks(tree: Root): RootContent[] {
   return tree.children;
 }
 
-/** Returns inner content of a block node (no heading prefix, no code fences) */
+/** Returns inner content of a block node (no heading prefix, no code fences, no quote markers) */
 export function blockInnerText(node: RootContent): string {
   if (node.type === "heading") {
     return (node as import("mdast").Heading).children.map(serializeNode).join("");
   }
-  if (node.type === "code") {
+  if (node.type === "code" || node.type === "math") {
     return node.value;
   }
+  if (node.type === "blockquote") {
+    return node.children.map(serializeNode).join("\n\n");
+  }
   return serializeNode(node);
 }
 
@@ -33,6 +48,9 @@ export function blockToText(node: RootContent): string {
   if (node.type === "code") {
     return "```" + (node.lang || "") + "\n" + blockInnerText(node) + "\n```";
   }
+  if (node.type === "blockquote" || node.type === "math") {
+    return serializeNode(node);
+  }
   return blockInnerText(node);
 }
 
@@ -48,13 +66,20 @@ export function getWrapTag(node: RootContent): string {
     case "code":
       return "pre";
     case "list":
-      return "ul";
+      return (node as import("mdast").List).ordered ? "ol" : "ul";
     default:
       return "div";
   }
 }
 
+/** Nodes with their own serializers; null for the ones handled in serializeNode */
+function serializeSpecial(node: Nodes): string | null {
+  return serializeContainer(node) ?? serializeMath(node) ?? serializeReference(node);
+}
+
 function serializeNode(node: Nodes): string {
+  const special = serializeSpecial(node);
+  if (special !== null) return special;
   switch (node.type) {
     case "text":
       return node.value;
@@ -69,7 +94,7 @@ function serializeNode(node: Nodes): string {
     case "image":
       return `![${node.alt || ""}](${node.url})`;
     case "link":
-      return `[${node.children.map(serializeNode).join("")}](${node.url})`;
+      return serializeAutolink(node) ?? `[${node.children.map(serializeNode).join("")}](${node.url})`;
     case "heading":
       return "#".repeat(node.depth) + " " + node.children.map(serializeNode).join("");
     case "strong":
@@ -81,15 +106,19 @@ function serializeNode(node: Nodes): string {
     case "break":
       return "\n";
     case "list": {
-      const ordered = (node as { ordered?: boolean }).ordered;
+      const start = node.start ?? 1;
       return node.children.map((item, i) => {
-        const marker = ordered ? `${i + 1}. ` : "- ";
+        const marker = node.ordered ? `${start + i}. ` : "- ";
         return marker + serializeNode(item as Nodes);
       }).join("\n");
     }
-    case "listItem":
+    case "listItem": {
       // List item children are typically paragraphs; extract their content
-      return (node.children as Nodes[]).map(serializeNode).join("\n");
+      const checkbox = node.checked === true ? "[x] " : node.checked === false ? "[ ] " : "";
+      return checkbox + (node.children as Nodes[]).map(serializeNode).join("\n");
+    }
+    case "table":
+      return serializeTable(node);
     default:
       if ("children" in node) {
         return (node.children as Nodes[]).map(serializeNode).join("");
@@ -100,3 +129,96 @@ function serializeNode(node: Nodes): string {
       return "";
   }
 }
+
+/**
+ * An autolink in its source form, `<https://a.com>` or a bare GFM URL, so it
+ * reads and diffs as the URL it is; null for every other link. Only the
+ * source length tells `<url>` from `[url](url)`.
+ */
+function serializeAutolink(node: Link): string | null {
+  const [child] = node.children;
+  const { start, end } = node.position ?? {};
+  if (node.children.length !== 1 || child.type !== "text" || start?.offset === undefined || end?.offset === undefined) {
+    return null;
+  }
+  const length = end.offset - start.offset;
+  if (length === child.value.length + 2) return `<${child.value}>`;
+  return length === child.value.length ? child.value : null;
+}
+
+/** Container blocks with their markup around the blocks inside; null for every other node */
+function serializeContainer(node: Nodes): string | null {
+  switch (node.type) {
+    case "blockquote":
+      return node.children.map(serializeNode).join("\n\n").split("\n").map((line) => `> ${line}`.trimEnd()).join("\n");
+    case "containerDirective":
+      return serializeDirective(node);
+    case "details":
+      return serializeDetails(node);
+    default:
+      return null;
+  }
+}
+
+/** Math with its dollar delimiters; null for every other node */
+function serializeMath(node: Nodes): string | null {
+  if (node.type === "inlineMath") return "$" + node.value + "$";
+  if (node.type === "math") return "$$\n" + node.value + "\n$$";
+  return null;
+}
+
+/**
+ * Footnotes and link reference definitions with their labels, so a reference
+ * can be linked to its definition; null for every other node
+ */
+function serializeReference(node: Nodes): string | null {
+  switch (node.type) {
+    case "footnoteReference":
+      return `[^${node.label ?? node.identifier}]`;
+    case "footnoteDefinition":
+      return `[^${node.label ?? node.identifier}]: ` + node.children.map(serializeNode).join("\n\n");
+    case "definition":
+      return `[${node.label ?? node.identifier}]: ${node.url}` + (node.title ? ` "${node.title}"` : "");
+    default:
+      return null;
+  }
+}
+
+/** Nesting depth of container directives, so outer fences get more colons than inner ones */
+function directiveDepth(node: Nodes): number {
+  if (!("children" in node)) return 0;
+  const inner = Math.max(0, ...(node.children as Nodes[]).map(directiveDepth));
+  return node.type === "containerDirective" ? inner + 1 : inner;
+}
+
+function serializeDirective(node: ContainerDirective): string {
+  const fence = ":".repeat(2 + directiveDepth(node));
+  const label = directiveLabel(node);
+  const body = containerChildren(node).map(serializeNode);
+  const open = fence + node.name + (label !== null ? `[${label}]` : "") + directiveAttributes(node);
+  return body.length > 0 ? `${open}\n${body.join("\n\n")}\n${fence}` : `${open}\n${fence}`;
+}
+
+function serializeDetails(node: Details): string {
+  const open = node.summary !== null ? `<details>\n<summary>${node.summary}</summary>` : "<details>";
+  return [open, ...node.children.map(serializeNode), "</details>"].join("\n\n");
+}
+
+/** Cell content as inline Markdown, with pipes escaped so it stays in its column */
+export function tableCellText(cell: TableCell): string {
+  return cell.children.map(serializeNode).join("").replace(/\|/g, "\\|");
+}
+
+const ALIGN_DELIMITERS = { left: ":---", center: ":---:", right: "---:" } as const;
+
+/** GFM pipe table: header row, delimiter row, body rows */
+function serializeTable(table: Table): string {
+  const rows = table.children.map((row) => `| ${row.children.map(tableCellText).join(" | ")} |`);
+  const columns = table.children[0]?.children.length ?? 0;
+  const delimiters = Array.from({ length: columns }, (_, i) => {
+    const align = table.align?.[i];
+    return align ? ALIGN_DELIMITERS[align] : "---";
+  });
+  rows.splice(1, 0, `| ${delimiters.join(" | ")} |`);
+  return rows.join("\n");
+}
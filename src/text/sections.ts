@@ -0,0 +1,34 @@
+/**
+ * Sections of a document: each heading with the blocks under it, up to the
+ * next heading of the same or a higher level, nested by heading depth.
+ * Blocks before the first heading belong to no section.
+ */
+import type { Heading, RootContent } from "mdast";
+import { blockInnerText } from "./parse.js";
+
+export interface Section {
+  heading: Heading;
+  /** Heading text, without the `#` markers */
+  title: string;
+  /** Index of the heading in the flat block list */
+  start: number;
+  /** Index after the section's last block, subsections included */
+  end: number;
+  /** Sections under this one's heading, one level deeper or more */
+  children: Section[];
+}
+
+/** Group the flat top-level blocks into a heading tree */
+export function buildSections(blocks: RootContent[]): Section[] {
+  const roots: Section[] = [];
+  const open: Section[] = [];
+  blocks.forEach((block, i) => {
+    if (block.type !== "heading") return;
+    while (open.length > 0 && open[open.length - 1].heading.depth >= block.depth) open.pop()!.end = i;
+    const title = blockInnerText(block).trim();
+    const section: Section = { heading: block, title, start: i, end: blocks.length, children: [] };
+    (open.length > 0 ? open[open.length - 1].children : roots).push(section);
+    open.push(section);
+  });
+  return roots;
+}
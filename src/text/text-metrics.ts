@@ -31,7 +31,8 @@ export function countTotalWords(parts: InlinePart[]): number {
 /**
  * Count words in equal (shared) parts of inline diff.
  * These are words that appear on both sides unchanged.
- * Also counts equal content nested inside children (e.g. minor pairs).
+ * Also counts equal content nested inside children (e.g. minor pairs),
+ * and the text of formatting-only changes, which reads the same on both sides.
  */
 export function countSharedWords(parts: InlinePart[]): number {
   let shared = 0;
@@ -41,6 +42,8 @@ export function countSharedWords(parts: InlinePart[]): number {
       if (!parentType || parentType === "removed") {
         shared += countWords(part.value);
       }
+    } else if (part.type === "removed" && part.formatting) {
+      shared += countWords(part.value);
     }
   });
   return shared;
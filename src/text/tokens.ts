@@ -3,6 +3,8 @@
  * Provides consistent tokenization across diff and render modules.
  */
 
+import { PROTECTED_SPAN, TARGET_START } from "./html.js";
+
 export interface WordToken {
   word: string; // normalized for comparison
   raw: string; // original text including trailing whitespace
@@ -10,14 +12,22 @@ export interface WordToken {
 
 /**
  * Tokenize text into words with preserved whitespace.
- * Each token contains the word and any trailing whitespace.
+ * Each token contains the word and any trailing whitespace. A protected link
+ * target (see protectMarkdown) is a token of its own, unless it sits inside
+ * protected bold or italic text, which stays atomic.
  */
 export function tokenize(text: string): WordToken[] {
   const tokens: WordToken[] = [];
   const re = /(\S+)(\s*)/g;
   let m;
   while ((m = re.exec(text)) !== null) {
-    tokens.push({ word: m[1], raw: m[0] });
+    const target = m[1].search(TARGET_START);
+    if (target > 0 && !PROTECTED_SPAN.test(m[1])) {
+      const word = m[1].slice(0, target);
+      tokens.push({ word, raw: word }, { word: m[1].slice(target), raw: m[0].slice(target) });
+    } else {
+      tokens.push({ word: m[1], raw: m[0] });
+    }
   }
   return tokens;
 }
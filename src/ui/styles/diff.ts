@@ -0,0 +1,237 @@
+/**
+ * Diff panes: rendered Markdown, changed blocks and inline change markers.
+ */
+
+/** Pane layout and the Markdown elements inside it */
+export const PANE_CSS = `
+  .diff-container {
+    display: flex;
+    flex: 1;
+    overflow: hidden;
+    position: relative;
+  }
+
+  .diff-pane {
+    flex: 1;
+    overflow-y: auto;
+    overflow-x: hidden;
+    padding: var(--size-3, 16px) var(--size-5, 24px);
+    line-height: var(--font-lineheight-4, 1.7);
+  }
+
+  .left-pane { border-right: 1px solid var(--md-border); }
+
+  .diff-pane h1 { font-size: var(--font-size-5, 1.8em); margin: 0.6em 0 0.3em; color: var(--md-h1); border-bottom: 1px solid var(--md-border); padding-bottom: 0.2em; }
+  .diff-pane h2 { font-size: var(--font-size-4, 1.5em); margin: 0.5em 0 0.3em; color: var(--md-h2); }
+  .diff-pane h3 { font-size: var(--font-size-3, 1.25em); margin: 0.4em 0 0.2em; color: var(--md-h3); }
+  .diff-pane h4 { font-size: var(--font-size-2, 1.1em); margin: 0.3em 0 0.2em; color: var(--md-h4); }
+  .diff-pane h5, .diff-pane h6 { font-size: var(--font-size-1, 1em); margin: 0.2em 0; color: var(--md-h5); }
+  .diff-pane p { margin: 0.5em 0; }
+  .diff-pane ul, .diff-pane ol { margin: 0.5em 0 0.5em 1.5em; }
+  .diff-pane li { margin: 0.2em 0; }
+  .diff-pane blockquote { border-left: 3px solid var(--md-blockquote-border); padding-left: 12px; color: var(--md-blockquote-text); margin: 0.5em 0; }
+  .diff-pane pre { background: var(--md-code-block-bg); padding: var(--size-2, 12px); border-radius: var(--radius-2, 6px); overflow-x: auto; margin: 0.5em 0; }
+  .diff-pane code { font-family: var(--font-mono, 'JetBrains Mono', 'Fira Code', monospace); font-size: 0.9em; }
+  .diff-pane :not(pre) > code { background: var(--md-code-bg); padding: 2px 5px; border-radius: var(--radius-1, 3px); }
+  .diff-pane a { color: var(--md-link); text-decoration: underline; }
+  .diff-pane strong { color: inherit; }
+  .diff-pane em { color: inherit; }
+  .diff-pane table { border-collapse: collapse; margin: 0.5em 0; width: 100%; }
+  .diff-pane th, .diff-pane td { border: 1px solid var(--md-border); padding: 6px 10px; text-align: left; }
+  .diff-pane th { background: var(--md-table-header-bg); }
+  .diff-pane hr { border: none; border-top: 1px solid var(--md-border); margin: 1em 0; }
+  .diff-pane img { max-width: 100%; }
+`;
+
+/** Syntax highlighting (highlight.js token classes) */
+export const SYNTAX_CSS = `
+  .hljs-keyword, .hljs-selector-tag, .hljs-literal, .hljs-doctag { color: var(--md-syntax-keyword); }
+  .hljs-string, .hljs-regexp, .hljs-addition, .hljs-attribute { color: var(--md-syntax-string); }
+  .hljs-number, .hljs-symbol, .hljs-bullet { color: var(--md-syntax-number); }
+  .hljs-comment, .hljs-quote { color: var(--md-syntax-comment); font-style: italic; }
+  .hljs-title, .hljs-section, .hljs-name, .hljs-selector-id, .hljs-selector-class { color: var(--md-syntax-title); }
+  .hljs-type, .hljs-built_in, .hljs-class, .hljs-attr, .hljs-variable, .hljs-template-variable { color: var(--md-syntax-type); }
+  .hljs-meta, .hljs-tag, .hljs-deletion, .hljs-link { color: var(--md-syntax-meta); }
+`;
+
+/** HTML comments and block-level change backgrounds */
+export const BLOCK_CSS = `
+  /* HTML comments - visible but muted */
+  .diff-pane .html-comment {
+    color: var(--md-comment-text, #6b7280);
+    font-family: var(--font-mono, 'JetBrains Mono', 'Fira Code', monospace);
+    font-size: 0.85em;
+    opacity: 0.6;
+    white-space: pre-wrap;
+    margin: 0.5em 0;
+  }
+
+  .diff-block {
+    padding: 2px 0;
+    border-radius: var(--radius-1, 4px);
+    margin: 1px 0;
+  }
+
+  .diff-block.equal { }
+
+  .right-pane .diff-block.added {
+    background: var(--md-added-bg);
+    border-left: 3px solid var(--md-added-border);
+    padding-left: 8px;
+  }
+
+  .left-pane .diff-block.removed {
+    background: var(--md-removed-bg);
+    border-left: 3px solid var(--md-removed-border);
+    padding-left: 8px;
+  }
+
+  .diff-block.modified {
+    background: var(--md-modified-bg);
+    border-left: 3px solid var(--md-modified-border);
+    padding-left: 8px;
+  }
+`;
+
+/** Spacers, deletions and insertions, character-level changes and overlay alignment */
+export const CHANGE_CSS = `
+  .spacer {
+    min-height: 2em;
+    background: var(--md-spacer-bg);
+    border-radius: var(--radius-1, 4px);
+    margin: 2px 0;
+  }
+
+  del {
+    background: var(--md-del-bg);
+    color: var(--md-del-text);
+    text-decoration: line-through 1px;
+    text-decoration-color: color-mix(in srgb, var(--md-del-text) 45%, transparent);
+    border-radius: 2px;
+    padding: 0 2px;
+  }
+
+  ins {
+    background: var(--md-ins-bg);
+    color: var(--md-ins-text);
+    text-decoration: none;
+    border-radius: 2px;
+    padding: 0 2px;
+  }
+
+  .char-removed {
+    background: none;
+    color: var(--md-char-removed-text);
+    border-bottom: 2px solid var(--md-char-removed-text);
+  }
+
+  .char-added {
+    background: none;
+    color: var(--md-char-added-text);
+    border-bottom: 2px solid var(--md-char-added-text);
+  }
+
+  .char-removed.minor {
+    background: none;
+    color: var(--md-char-removed-minor-text);
+    border-bottom: 1.5px solid var(--md-char-removed-minor-border);
+  }
+
+  .char-added.minor {
+    background: none;
+    color: var(--md-char-added-minor-text);
+    border-bottom: 1.5px solid var(--md-char-added-minor-border);
+  }
+
+  .added-block { }
+  .removed-block {
+    text-decoration: line-through 1px;
+    text-decoration-color: color-mix(in srgb, var(--md-del-text) 45%, transparent);
+    color: var(--md-del-text);
+  }
+  .removed-block * {
+    color: inherit;
+  }
+  .removed-block .diff-equal {
+    text-decoration: none;
+    color: var(--md-text);
+  }
+  .diff-pane del strong, .diff-pane del em, .diff-pane del a {
+    color: inherit;
+  }
+  .modified-block { }
+  .modified-block.gap-aligned {
+    line-height: 1.6;
+  }
+
+  /* Inline diff parts */
+  .diff-part {
+    display: inline;
+  }
+  .diff-part.diff-removed {
+    color: var(--md-del-text);
+  }
+  .diff-part.diff-added {
+    color: var(--md-ins-text);
+  }
+  /* Paragraph split marker - shows where a paragraph break was inserted */
+  .diff-part.paragraph-split {
+    display: block;
+    margin: 0.4em 0;
+    color: var(--md-ins-text);
+    font-style: italic;
+    opacity: 0.8;
+  }
+  .diff-part.paragraph-split ins {
+    text-decoration: none;
+  }
+  .diff-part.paragraph-join {
+    display: block;
+    margin: 0.4em 0;
+    color: var(--md-del-text);
+    font-style: italic;
+    opacity: 0.8;
+  }
+  .diff-part.paragraph-join del {
+    text-decoration: none;
+  }
+
+  /* Overlay-based alignment: removed+added pairs share the same grid cell,
+     so container sizes to max(removed_height, added_height) */
+  .change-group {
+    display: inline;
+  }
+  .change-pair {
+    display: inline-grid;
+    vertical-align: baseline;
+    /* Ensure grid properly contains both layers */
+    grid-template-columns: 1fr;
+    grid-template-rows: auto;
+  }
+  .change-pair > .change-layer {
+    grid-area: 1 / 1;
+    /* Preserve trailing whitespace that would otherwise collapse in grid */
+    white-space: pre-wrap;
+    /* Ensure proper wrapping within the grid cell */
+    min-width: 0;
+  }
+  .change-layer.hidden {
+    /* Use opacity instead of visibility for more reliable layout */
+    opacity: 0;
+    pointer-events: none;
+  }
+  .change-layer.diff-removed {
+    color: var(--md-del-text);
+  }
+  .change-layer.diff-added {
+    color: var(--md-ins-text);
+  }
+
+  /* When gap alignment is disabled - collapse hidden layers entirely */
+  [data-gap-align="off"] .change-layer.hidden {
+    display: none;
+  }
+  [data-gap-align="off"] .change-pair {
+    display: inline;
+  }
+`;
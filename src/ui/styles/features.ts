@@ -0,0 +1,250 @@
+/**
+ * Styles for the views of individual diff features, one constant per feature.
+ */
+
+/** Frontmatter: one row per key, old and new value side by side */
+export const FRONTMATTER_CSS = `
+  .frontmatter-diff {
+    flex: none;
+    max-height: 40vh;
+    overflow: auto;
+    border-bottom: 1px solid var(--md-border);
+    background: var(--md-bg-alt);
+    padding: 6px 16px;
+    font-size: 0.85em;
+  }
+
+  .frontmatter-diff summary { cursor: pointer; font-weight: 600; }
+  .frontmatter-meta { font-weight: normal; color: var(--md-text-muted); margin-left: 6px; }
+
+  .frontmatter-diff table {
+    width: 100%;
+    border-collapse: collapse;
+    margin-top: 6px;
+    table-layout: fixed;
+  }
+
+  .frontmatter-diff th, .frontmatter-diff td {
+    text-align: left;
+    vertical-align: top;
+    padding: 2px 8px;
+    font-family: var(--font-mono, 'JetBrains Mono', 'Fira Code', monospace);
+    font-weight: normal;
+    white-space: pre-wrap;
+    word-break: break-word;
+  }
+
+  .frontmatter-diff th { width: 25%; color: var(--md-text-muted); }
+  .frontmatter-row.equal td { color: var(--md-text-muted); }
+  .frontmatter-row.removed .frontmatter-left,
+  .frontmatter-row.changed .frontmatter-left { background: var(--md-removed-bg); }
+  .frontmatter-row.added .frontmatter-right,
+  .frontmatter-row.changed .frontmatter-right { background: var(--md-added-bg); }
+`;
+
+/** Outline: the heading tree with a badge per changed section */
+export const OUTLINE_CSS = `
+  .section-outline {
+    flex: none;
+    max-height: 30vh;
+    overflow: auto;
+    border-bottom: 1px solid var(--md-border);
+    background: var(--md-bg-alt);
+    padding: 6px 16px;
+    font-size: 0.85em;
+  }
+
+  .section-outline summary { cursor: pointer; font-weight: 600; }
+  .outline-meta { font-weight: normal; color: var(--md-text-muted); margin-left: 6px; }
+  .section-outline ul { list-style: none; margin: 0; padding-left: 1.25em; }
+  .section-outline nav > ul { padding-left: 0; margin-top: 4px; }
+
+  .outline-item {
+    background: none;
+    border: none;
+    padding: 1px 4px;
+    color: inherit;
+    font: inherit;
+    text-align: left;
+    cursor: pointer;
+    border-radius: var(--radius-1, 3px);
+  }
+
+  .outline-item:hover { background: var(--md-border); }
+  .outline-item.equal .outline-title { color: var(--md-text-muted); }
+  .outline-item.removed .outline-title { text-decoration: line-through; }
+  .outline-badge {
+    font-size: 0.8em; padding: 0 5px; margin-left: 6px; border-radius: var(--radius-1, 3px);
+    background: var(--md-modified-bg); white-space: nowrap;
+  }
+  .outline-badge.added { background: var(--md-added-bg); }
+  .outline-badge.removed { background: var(--md-removed-bg); }
+  .outline-badge.moved, .section-moved-badge { outline: 1px dashed var(--md-modified-border); }
+  .section-moved-badge {
+    float: right; font-size: 0.7em; padding: 0 5px; border-radius: var(--radius-1, 3px);
+    background: var(--md-modified-bg); white-space: nowrap;
+  }
+  .diff-block.outline-target { box-shadow: inset 3px 0 0 var(--md-modified-border); }
+`;
+
+/** Moved blocks: an anchor at the old place, the block at the new one, joined by a connector */
+export const MOVES_CSS = `
+  .moved-block {
+    background: var(--md-moved-bg);
+    border-left: 3px solid var(--md-moved-border);
+    padding-left: 8px;
+  }
+  .move-anchor {
+    font: inherit; font-size: 0.75em; color: var(--md-moved-border); cursor: pointer;
+    background: none; border: 1px dashed var(--md-moved-border); border-radius: var(--radius-1, 3px); padding: 0 6px;
+  }
+  .move-anchor:hover { background: var(--md-moved-bg); }
+  .moved-block > .move-anchor { float: right; }
+  .diff-block.move-target { box-shadow: inset 3px 0 0 var(--md-moved-border); }
+  .move-connectors {
+    position: absolute; inset: 0; width: 100%; height: 100%;
+    pointer-events: none; overflow: hidden;
+  }
+  .move-connectors path { fill: none; stroke: var(--md-moved-border); stroke-width: 1.5; stroke-dasharray: 4 3; }
+  [data-show-moves="off"] .move-connectors { display: none; }
+`;
+
+/** Table diffs: both sides share one grid; cells missing on a side are spacers */
+export const TABLE_CSS = `
+  .table-diff .cell-modified { background: var(--md-modified-bg); }
+  .left-pane .table-diff .cell-removed, .left-pane .table-diff .row-removed > * { background: var(--md-removed-bg); }
+  .right-pane .table-diff .cell-added, .right-pane .table-diff .row-added > * { background: var(--md-added-bg); }
+  .table-diff .cell-spacer { background: var(--md-spacer-bg); }
+  .table-diff .row-spacer > * { background: var(--md-spacer-bg); border-style: dashed; }
+`;
+
+/** List diffs: items missing on a side are hidden copies of the other side's item */
+export const LIST_CSS = `
+  .list-diff .item-spacer { visibility: hidden; list-style: none; }
+  .left-pane .list-diff .item-removed, .left-pane .list-diff .item-moved { background: var(--md-removed-bg); }
+  .right-pane .list-diff .item-added, .right-pane .list-diff .item-moved { background: var(--md-added-bg); }
+  .list-diff .item-moved { outline: 1px dashed var(--md-border); }
+  .list-diff .checkbox-toggled { outline: 2px solid var(--md-modified-bg); outline-offset: 1px; }
+  .list-diff .renumbered::marker { color: var(--md-char-added-minor-text); }
+`;
+
+/** Code diffs: one block-level span per line; lines missing on a side are blank spacers */
+export const CODE_CSS = `
+  .code-diff .code-line { display: block; white-space: pre; }
+  .left-pane .code-diff .line-removed, .left-pane .code-diff .line-modified { background: var(--md-removed-bg); }
+  .right-pane .code-diff .line-added, .right-pane .code-diff .line-modified { background: var(--md-added-bg); }
+  .code-diff .line-spacer { background: var(--md-spacer-bg); }
+  .code-diff .char-removed { background: var(--md-char-removed-bg); color: inherit; border-bottom: none; }
+  .code-diff .char-added { background: var(--md-char-added-bg); color: inherit; border-bottom: none; }
+`;
+
+/** Changed link and image targets: the URL overlays like other changes, a badge flags it, hover shows old → new */
+export const LINK_CSS = `
+  .link-changed { cursor: help; }
+  .link-changed .link-target { color: var(--md-link); font-size: 0.9em; }
+  .left-pane .link-changed .visible .link-target { background: var(--md-char-removed-bg); }
+  .right-pane .link-changed .visible .link-target { background: var(--md-char-added-bg); }
+  .link-badge {
+    font-size: 0.7em; padding: 0 5px; margin-left: 3px; border-radius: var(--radius-1, 3px);
+    background: var(--md-modified-bg); vertical-align: middle; white-space: nowrap;
+  }
+  .image-thumb { display: block; max-width: 160px; max-height: 120px; margin: 4px 0; border: 1px solid var(--md-border); }
+`;
+
+/** Formatting-only changes: the text isn't marked, a dotted underline and badge flag it */
+export const FORMATTING_CSS = `
+  .formatting-changed { cursor: help; text-decoration: underline dotted var(--md-char-added-minor-text); }
+  .formatting-badge {
+    font-size: 0.7em; padding: 0 5px; margin-left: 3px; border-radius: var(--radius-1, 3px);
+    background: var(--md-modified-bg); vertical-align: middle; white-space: nowrap;
+  }
+`;
+
+/** Raw HTML: added and removed elements are outlined, attribute changes flagged and listed below the block */
+export const HTML_CSS = `
+  .html-block .html-added { outline: 2px solid var(--md-added-border); background: var(--md-added-bg); }
+  .html-block .html-removed { outline: 2px solid var(--md-removed-border); background: var(--md-removed-bg); }
+  .html-attr-changed, .attr-changed { cursor: help; outline: 1px dashed var(--md-modified-border); }
+  .attr-badge {
+    font-size: 0.7em; padding: 0 5px; margin-left: 3px; border-radius: var(--radius-1, 3px);
+    background: var(--md-modified-bg); vertical-align: middle; white-space: nowrap;
+  }
+  .html-attr-notes { font-size: 0.8em; color: var(--md-text-muted); margin: 0.5em 0; }
+  .html-attr-notes .attr-badge { margin-left: 0; }
+  .html-attr-notes ul { margin: 0.25em 0; padding-left: 1.5em; }
+  .html-tag { color: var(--md-text-muted); font-family: var(--font-mono, monospace); font-size: 0.85em; }
+`;
+
+/** Footnotes: definitions are shown as notes right after the block that references them */
+export const FOOTNOTE_CSS = `
+  .footnote-ref { font-size: 0.75em; color: var(--md-link); }
+  .footnote-definition {
+    font-size: 0.85em; color: var(--md-text-muted); border-left: 2px solid var(--md-border);
+    padding-left: 0.75em; margin: 0.25em 0 0.75em;
+  }
+  .footnote-definition > p { margin: 0.25em 0; }
+  .footnote-label { float: left; margin-right: 0.4em; color: var(--md-link); }
+  .link-definition { font-size: 0.85em; color: var(--md-text-muted); font-family: var(--font-mono, monospace); }
+`;
+
+/** Diagrams: drawn by default; the toggle flips a row to its source (diff) on every side */
+export const DIAGRAM_CSS = `
+  .diagram { position: relative; }
+  .diagram-toggle {
+    position: absolute; top: 4px; right: 4px; z-index: 1; font-size: 0.75em; padding: 1px 6px; cursor: pointer;
+    border: 1px solid var(--md-border); border-radius: var(--radius-1, 3px); background: var(--md-bg); color: var(--md-text);
+  }
+  .diagram .diagram-source, .diagram .label-diagram { display: none; }
+  .show-source .diagram .diagram-source, .show-source .diagram .label-diagram { display: block; }
+  .show-source .diagram .diagram-rendered, .show-source .diagram .label-source { display: none; }
+  .diagram-rendered { padding: 8px 0; overflow-x: auto; }
+  .diagram-rendered pre.mermaid { background: none; border: none; }
+  .diagram-image { display: block; max-width: 100%; }
+`;
+
+/** Math: formulas are MathML; a changed display formula has its TeX source diff below it */
+export const MATH_CSS = `
+  .diff-pane math[display="block"] { margin: 0.5em 0; }
+  .math-block .math-source { margin: 0.25em 0 0; font-size: 0.85em; white-space: pre-wrap; }
+`;
+
+/** Containers: callouts, directives and details; a changed container is framed row by row */
+export const CONTAINER_CSS = `
+  .diff-pane .callout, .diff-pane .directive, .diff-pane details, .diff-pane .container-part {
+    border-left: 3px solid var(--callout-color, var(--md-blockquote-border)); padding-left: 12px; margin: 0.5em 0;
+  }
+  .diff-pane .container-part { margin: 0; }
+  .diff-pane .container-part > blockquote, .diff-pane .container-part > .modified-block > blockquote { border: none; padding: 0; }
+  .diff-pane .container-blockquote { color: var(--md-blockquote-text); }
+  .callout-title, .directive-title, .diff-pane summary, .details-title { font-weight: 600; color: var(--callout-color, inherit); }
+  .callout-note { --callout-color: #4493f8; }
+  .callout-tip { --callout-color: #3fb950; }
+  .callout-important { --callout-color: #ab7df8; }
+  .callout-warning { --callout-color: #d29922; }
+  .callout-caution { --callout-color: #f85149; }
+  .left-pane .container-retyped { background: var(--md-removed-bg); }
+  .right-pane .container-retyped { background: var(--md-added-bg); }
+`;
+
+/** Three-way merge view: every pane shows its own changes against the base */
+export const MERGE_CSS = `
+  .base-pane, .base-header { border-right: 1px solid var(--md-border); }
+
+  .merge-pane .diff-block.added {
+    background: var(--md-added-bg);
+    border-left: 3px solid var(--md-added-border);
+    padding-left: 8px;
+  }
+
+  .merge-pane .diff-block.removed {
+    background: var(--md-removed-bg);
+    border-left: 3px solid var(--md-removed-border);
+    padding-left: 8px;
+  }
+
+  .merge-pane .diff-block.conflict {
+    background: var(--md-conflict-bg);
+    border-left: 3px solid var(--md-conflict-border);
+    padding-left: 8px;
+  }
+`;
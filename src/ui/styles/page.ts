@@ -0,0 +1,339 @@
+/**
+ * Page chrome: layout, file sidebar, header, stats bar, scrollbars and minimap.
+ */
+
+/** Reset, page layout, file sidebar and header */
+export const PAGE_CSS = `
+  * { margin: 0; padding: 0; box-sizing: border-box; }
+
+  body {
+    font-family: var(--font-sans, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif);
+    background: var(--md-bg);
+    color: var(--md-text);
+    display: flex;
+    flex-direction: row;
+    height: 100vh;
+    transition: background 0.3s ease, color 0.3s ease;
+  }
+
+  body.multi-file {
+    --sidebar-width: 200px;
+  }
+
+  .main-content {
+    flex: 1;
+    display: flex;
+    flex-direction: column;
+    min-width: 0;
+    height: 100vh;
+  }
+
+  /* File sidebar */
+  .file-sidebar {
+    width: var(--sidebar-width, 200px);
+    min-width: 120px;
+    max-width: 400px;
+    background: var(--md-bg-alt);
+    border-right: 1px solid var(--md-border);
+    display: flex;
+    flex-direction: column;
+    flex-shrink: 0;
+    position: relative;
+    height: 100vh;
+  }
+
+  .sidebar-header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 10px 12px;
+    border-bottom: 1px solid var(--md-border);
+    font-size: 12px;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.5px;
+    color: var(--md-text-muted);
+  }
+
+  .sidebar-header .file-count {
+    background: var(--md-border);
+    padding: 2px 6px;
+    border-radius: 10px;
+    font-size: 11px;
+  }
+
+  .file-list {
+    list-style: none;
+    margin: 0;
+    padding: 4px 0;
+    overflow-y: auto;
+    flex: 1;
+  }
+
+  .dir-header {
+    padding: 8px 12px 4px;
+    font-size: 11px;
+    font-weight: 600;
+    color: var(--md-text-muted);
+    text-transform: none;
+    letter-spacing: 0;
+  }
+
+  .dir-header:not(:first-child) {
+    margin-top: 8px;
+    border-top: 1px solid var(--md-border);
+    padding-top: 12px;
+  }
+
+  .dir-name {
+    opacity: 0.8;
+  }
+
+  .file-item.indented {
+    padding-left: 20px;
+  }
+
+  .file-item {
+    padding: 6px 12px;
+    cursor: pointer;
+    font-size: 12px;
+    border-left: 3px solid transparent;
+    transition: background 0.1s ease, border-color 0.1s ease;
+    outline: none;
+    display: flex;
+    flex-direction: row;
+    align-items: center;
+    gap: 8px;
+  }
+
+  .file-item:hover {
+    background: var(--md-bg);
+  }
+
+  .file-item:focus {
+    background: var(--md-bg);
+  }
+
+  .file-item.active {
+    background: var(--md-bg);
+    border-left-color: var(--md-link);
+  }
+
+  .file-item.active .file-name {
+    color: var(--md-link);
+  }
+
+  .file-name {
+    flex: 1;
+    min-width: 0;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .file-stats {
+    flex-shrink: 0;
+    display: flex;
+    gap: 6px;
+    font-size: 11px;
+    font-family: var(--font-mono, 'JetBrains Mono', 'Fira Code', monospace);
+  }
+
+  .file-stats .stat-added {
+    color: var(--md-added-border);
+  }
+
+  .file-stats .stat-removed {
+    color: var(--md-removed-border);
+  }
+
+  /* Sidebar resize handle */
+  .sidebar-resize {
+    position: absolute;
+    top: 0;
+    right: -3px;
+    width: 6px;
+    height: 100%;
+    cursor: col-resize;
+    z-index: 10;
+  }
+
+  .sidebar-resize:hover,
+  .sidebar-resize.dragging {
+    background: var(--md-link);
+    opacity: 0.5;
+  }
+
+  /* File path display (replaces dropdown) */
+  .file-path-display {
+    padding: 8px 20px;
+    background: var(--md-bg-alt);
+    border-bottom: 1px solid var(--md-border);
+    font-family: var(--font-mono, 'JetBrains Mono', 'Fira Code', monospace);
+    font-size: 13px;
+    color: var(--md-text);
+    flex-shrink: 0;
+  }
+
+  .current-file-path {
+    display: block;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  header {
+    display: flex;
+    border-bottom: 2px solid var(--md-border);
+    background: var(--md-bg-alt);
+    flex-shrink: 0;
+  }
+
+  .header-cell {
+    flex: 1;
+    padding: 6px 20px;
+    font-weight: 600;
+    font-size: 12px;
+    letter-spacing: 0.5px;
+    text-transform: uppercase;
+    color: var(--md-text-muted);
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .left-header {
+    border-right: 1px solid var(--md-border);
+    display: flex;
+    align-items: center;
+    gap: 12px;
+  }
+
+  .project-root {
+    font-weight: 400;
+    font-size: 11px;
+    text-transform: none;
+    color: var(--md-text-muted);
+    opacity: 0.7;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+    direction: rtl;
+    text-align: left;
+    min-width: 0;
+    flex: 1;
+  }
+
+  .header-title-group {
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    min-width: 0;
+    overflow: hidden;
+  }
+
+  .header-command {
+    font-weight: 400;
+    font-size: 11px;
+    font-family: var(--font-mono, 'SF Mono', 'Fira Code', 'Fira Mono', monospace);
+    text-transform: none;
+    letter-spacing: 0;
+    color: var(--md-text-muted);
+    opacity: 0.5;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+
+  .right-header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+  }
+
+  .header-controls {
+    display: flex;
+    align-items: center;
+    gap: 12px;
+  }
+
+  .file-diff {
+    flex: 1;
+    overflow: hidden;
+    display: flex;
+    flex-direction: column;
+  }
+
+  .file-diff .diff-container { flex: 1; }
+`;
+
+/** Stats bar, pane scrollbars and minimap */
+export const STATUS_CSS = `
+  .stats-bar {
+    display: flex;
+    gap: var(--size-3, 16px);
+    padding: 6px 20px;
+    background: var(--md-bg-alt);
+    border-top: 1px solid var(--md-border);
+    font-size: 12px;
+    color: var(--md-stat-text);
+    flex-shrink: 0;
+  }
+
+  .stat-item { display: flex; align-items: center; gap: 4px; }
+  .stat-dot { width: 8px; height: 8px; border-radius: var(--radius-round, 50%); }
+  .stat-dot.equal { background: var(--md-stat-equal-dot); }
+  .stat-dot.added { background: var(--md-added-border); }
+  .stat-dot.removed { background: var(--md-removed-border); }
+  .stat-dot.modified { background: var(--md-modified-border); }
+  .stat-dot.conflict { background: var(--md-conflict-border); }
+  .stat-dot.moved { background: var(--md-moved-border); }
+
+  .diff-pane::-webkit-scrollbar { width: 8px; }
+  .diff-pane::-webkit-scrollbar-track { background: var(--md-scroll-track); }
+  .diff-pane::-webkit-scrollbar-thumb { background: var(--md-scroll-thumb); border-radius: var(--radius-1, 4px); }
+  .diff-pane::-webkit-scrollbar-thumb:hover { background: var(--md-scroll-thumb-hover); }
+
+  #minimap {
+    position: fixed;
+    right: 0;
+    width: 80px;
+    z-index: 1000;
+    background: var(--md-bg-alt);
+    border-left: 1px solid var(--md-border);
+    cursor: pointer;
+    /* top/height set by JS to align with diff panes */
+  }
+
+  #minimapCanvas {
+    width: 100%;
+    height: 100%;
+    display: block;
+  }
+
+  #minimapViewport {
+    position: absolute;
+    left: 2px;
+    right: 2px;
+    background: var(--md-minimap-viewport, rgba(128, 128, 128, 0.25));
+    border: 1px solid var(--md-minimap-viewport-border, rgba(128, 128, 128, 0.4));
+    border-radius: 2px;
+    pointer-events: none;
+    transition: top 0.05s ease-out, height 0.05s ease-out;
+  }
+
+  [data-theme="dark"] {
+    --md-minimap-viewport: rgba(255, 255, 255, 0.15);
+    --md-minimap-viewport-border: rgba(255, 255, 255, 0.3);
+  }
+
+  [data-theme="solar"] {
+    --md-minimap-viewport: rgba(0, 0, 0, 0.1);
+    --md-minimap-viewport-border: rgba(0, 0, 0, 0.2);
+  }
+
+  /* Adjust main-content to make room for minimap */
+  .main-content {
+    padding-right: 80px;
+  }
+`;
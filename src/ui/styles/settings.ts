@@ -0,0 +1,243 @@
+/**
+ * Header buttons, the settings panel and the display modes it switches.
+ */
+
+/** Theme and settings toggles, settings panel, compact/minor/minimap modes */
+export const SETTINGS_CSS = `
+  .theme-toggle {
+    background: none;
+    border: 1px solid var(--md-border);
+    border-radius: var(--radius-round, 50%);
+    width: 28px;
+    height: 28px;
+    cursor: pointer;
+    font-size: 14px;
+    line-height: 1;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    transition: border-color 0.2s ease;
+    flex-shrink: 0;
+  }
+
+  .theme-toggle:hover { border-color: var(--md-text-muted); }
+
+  [data-theme="dark"] .theme-toggle::after { content: "\\1F319"; }
+  [data-theme="solar"] .theme-toggle::after { content: "\\2600"; }
+
+  .settings-toggle {
+    background: none;
+    border: 1px solid var(--md-border);
+    border-radius: var(--radius-round, 50%);
+    width: 28px;
+    height: 28px;
+    cursor: pointer;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    transition: border-color 0.2s ease;
+    flex-shrink: 0;
+    color: var(--md-text-muted);
+  }
+  .settings-toggle:hover {
+    border-color: var(--md-text-muted);
+    color: var(--md-text);
+  }
+  .settings-toggle svg { pointer-events: none; }
+
+  /* Settings Panel */
+  .settings-overlay {
+    position: fixed;
+    inset: 0;
+    background: rgba(0, 0, 0, 0.4);
+    z-index: 1999;
+    opacity: 0;
+    visibility: hidden;
+    transition: opacity 0.2s ease, visibility 0.2s ease;
+  }
+  .settings-overlay.open {
+    opacity: 1;
+    visibility: visible;
+  }
+
+  .settings-panel {
+    position: fixed;
+    top: 0;
+    right: -320px;
+    width: 320px;
+    height: 100vh;
+    background: var(--md-bg);
+    border-left: 1px solid var(--md-border);
+    z-index: 2000;
+    display: flex;
+    flex-direction: column;
+    transition: right 0.25s ease;
+    box-shadow: -4px 0 20px rgba(0, 0, 0, 0.2);
+  }
+  .settings-panel.open { right: 0; }
+
+  .settings-header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 16px 20px;
+    border-bottom: 1px solid var(--md-border);
+    flex-shrink: 0;
+  }
+  .settings-header h3 {
+    margin: 0;
+    font-size: 16px;
+    font-weight: 600;
+    color: var(--md-text);
+  }
+  .settings-close {
+    background: none;
+    border: none;
+    font-size: 24px;
+    line-height: 1;
+    cursor: pointer;
+    color: var(--md-text-muted);
+    padding: 0 4px;
+  }
+  .settings-close:hover { color: var(--md-text); }
+
+  .settings-content {
+    flex: 1;
+    overflow-y: auto;
+    padding: 16px 20px;
+  }
+
+  .settings-section {
+    margin-bottom: 24px;
+  }
+  .settings-section h4 {
+    font-size: 11px;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.5px;
+    color: var(--md-text-muted);
+    margin: 0 0 12px 0;
+    padding-bottom: 6px;
+    border-bottom: 1px solid var(--md-border);
+  }
+
+  .setting-row {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 8px 0;
+    gap: 12px;
+  }
+  .setting-row label {
+    font-size: 13px;
+    color: var(--md-text);
+    flex-shrink: 0;
+  }
+  .setting-row select {
+    background: var(--md-bg-alt);
+    border: 1px solid var(--md-border);
+    border-radius: 4px;
+    padding: 4px 8px;
+    font-size: 13px;
+    color: var(--md-text);
+    cursor: pointer;
+  }
+  .setting-row input[type="checkbox"] {
+    width: 18px;
+    height: 18px;
+    cursor: pointer;
+    accent-color: var(--md-link);
+  }
+  .setting-row input[type="range"] {
+    flex: 1;
+    accent-color: var(--md-link);
+  }
+
+  .range-with-value {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    flex: 1;
+    max-width: 140px;
+  }
+  .range-with-value span {
+    font-size: 12px;
+    color: var(--md-text-muted);
+    min-width: 32px;
+    text-align: right;
+  }
+
+  .shortcuts-list {
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+  }
+  .shortcut-item {
+    font-size: 12px;
+    color: var(--md-text-muted);
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  }
+  .shortcut-item kbd {
+    background: var(--md-bg-alt);
+    border: 1px solid var(--md-border);
+    border-radius: 3px;
+    padding: 2px 6px;
+    font-family: var(--font-mono, monospace);
+    font-size: 11px;
+    color: var(--md-text);
+  }
+
+  /* Compact mode */
+  [data-compact="on"] .diff-pane {
+    padding: var(--size-2, 8px) var(--size-3, 16px);
+    line-height: 1.5;
+  }
+  [data-compact="on"] .diff-block { margin: 0; }
+
+  /* Hide minor changes styling when disabled */
+  [data-show-minor="off"] del,
+  [data-show-minor="off"] ins {
+    background: none;
+    color: inherit;
+    text-decoration: none;
+    padding: 0;
+  }
+  [data-show-minor="off"] .char-removed,
+  [data-show-minor="off"] .char-added,
+  [data-show-minor="off"] .char-removed.minor,
+  [data-show-minor="off"] .char-added.minor {
+    background: none;
+    color: inherit;
+    border: none;
+  }
+
+  /* Merge minor changes - style absorbable equals as removed/added based on side */
+  /* Conservative: style stop-word absorbables */
+  [data-merge-minor="conservative"] .absorbable-stopword.left,
+  [data-merge-minor="aggressive"] .absorbable-stopword.left {
+    background-color: var(--removed-bg);
+    color: var(--md-del-text);
+    text-decoration: line-through;
+  }
+  [data-merge-minor="conservative"] .absorbable-stopword.right,
+  [data-merge-minor="aggressive"] .absorbable-stopword.right {
+    background-color: var(--added-bg);
+    color: var(--md-ins-text);
+  }
+  /* Aggressive: also style single-word absorbables */
+  [data-merge-minor="aggressive"] .absorbable-single.left {
+    background-color: var(--removed-bg);
+    color: var(--md-del-text);
+    text-decoration: line-through;
+  }
+  [data-merge-minor="aggressive"] .absorbable-single.right {
+    background-color: var(--added-bg);
+    color: var(--md-ins-text);
+  }
+
+  /* Hide minimap */
+  [data-show-minimap="off"] #minimap { display: none; }
+  [data-show-minimap="off"] .main-content { padding-right: 0; }
+`;
@@ -1,6 +1,29 @@
-import type { RenderedRow } from "../render/render.js";
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import type { RenderedRow, MergeRenderedRow } from "../render/render.js";
 import { themes, themeVars, type ThemeName } from "./themes.js";
-import type { MatchingLevel } from "../config.js";
+import { MATCHING_LEVELS, type MatchingLevel } from "../config.js";
+import { formatFrontmatterValue, hasFrontmatterChanges, type FrontmatterDiff } from "../core/frontmatter.js";
+import type { SectionOutline } from "../core/sections.js";
+import { PAGE_CSS, STATUS_CSS } from "./styles/page.js";
+import { SETTINGS_CSS } from "./styles/settings.js";
+import { PANE_CSS, SYNTAX_CSS, BLOCK_CSS, CHANGE_CSS } from "./styles/diff.js";
+import {
+  FRONTMATTER_CSS,
+  OUTLINE_CSS,
+  MOVES_CSS,
+  TABLE_CSS,
+  LIST_CSS,
+  CODE_CSS,
+  LINK_CSS,
+  FORMATTING_CSS,
+  HTML_CSS,
+  FOOTNOTE_CSS,
+  DIAGRAM_CSS,
+  MATH_CSS,
+  CONTAINER_CSS,
+  MERGE_CSS,
+} from "./styles/features.js";
 
 /** UI Settings that can be pre-configured via CLI */
 export interface UISettings {
@@ -10,6 +33,8 @@ export interface UISettings {
   matchLevel?: MatchingLevel;
   gapAlign?: boolean;
   showMinor?: boolean;
+  /** Draw lines between the old and new place of each moved block */
+  showMoves?: boolean;
   mergeMinor?: "off" | "conservative" | "aggressive";
   compact?: boolean;
 }
@@ -22,7 +47,18 @@ export interface FileDiff {
   /** Lines removed (from git) */
   removed?: number;
   /** Pre-computed rows at different matching levels (for UI switching) */
-  rowsByLevel?: Record<MatchingLevel, RenderedRow[]>;
+  rowsByLevel?: Partial<Record<MatchingLevel, RenderedRow[]>>;
+  /** Key-by-key diff of the YAML/TOML header, shown above the body */
+  frontmatter?: FrontmatterDiff | null;
+  /** Heading tree with each section's change, shown above the body */
+  outline?: SectionOutline[];
+}
+
+/** Column titles for the three-way view */
+export interface MergeTitles {
+  base: string;
+  ours: string;
+  theirs: string;
 }
 
 // ── Components ─────────────────────────────────────────────────
@@ -157,10 +193,86 @@ function DiffPane({
   );
 }
 
-const MATCHING_LEVELS: Array<"strict" | "normal" | "loose"> = ["strict", "normal", "loose"];
+/** Matching levels offered in the UI: built-ins, then any custom profiles present in the files */
+function collectMatchLevels(files: FileDiff[]): MatchingLevel[] {
+  const levels: MatchingLevel[] = Object.keys(MATCHING_LEVELS);
+  for (const file of files) {
+    for (const level of Object.keys(file.rowsByLevel ?? {})) {
+      if (!levels.includes(level)) levels.push(level);
+    }
+  }
+  return levels;
+}
+
+/** Display label for a matching level ("loose" → "Loose", "legal-docs" → "Legal-docs") */
+function levelLabel(level: MatchingLevel): string {
+  return level.charAt(0).toUpperCase() + level.slice(1);
+}
+
+function FrontmatterSection({ diff }: { diff: FrontmatterDiff }) {
+  const changed = diff.changes.filter((ch) => ch.status !== "equal").length;
+  const formats = [diff.left?.format, diff.right?.format].map((f) => f?.toUpperCase() ?? "none");
+  const format = formats[0] === formats[1] ? formats[0] : formats.join(" → ");
+
+  return (
+    <details class="frontmatter-diff" open={hasFrontmatterChanges(diff)}>
+      <summary>
+        Frontmatter <span class="frontmatter-meta" safe>{`${format} · ${changed ? `${changed} changed` : "unchanged"}`}</span>
+      </summary>
+      <table>
+        {diff.changes.map((ch) => (
+          <tr class={`frontmatter-row ${ch.status}`}>
+            <th scope="row" safe>{ch.path}</th>
+            <td class="frontmatter-left" safe>{ch.status === "added" ? "" : formatFrontmatterValue(ch.left)}</td>
+            <td class="frontmatter-right" safe>{ch.status === "removed" ? "" : formatFrontmatterValue(ch.right)}</td>
+          </tr>
+        ))}
+      </table>
+    </details>
+  );
+}
+
+function OutlineItems({ entries }: { entries: SectionOutline[] }) {
+  return (
+    <ul>
+      {entries.map((entry) => (
+        <li>
+          <button
+            type="button"
+            class={`outline-item ${entry.status}`}
+            data-side={entry.side}
+            data-line={entry.line ? String(entry.line) : undefined}
+          >
+            <span class="outline-title" safe>{entry.title || "(untitled)"}</span>
+            {entry.status !== "equal" && <span class={`outline-badge ${entry.status}`}>{entry.status}</span>}
+          </button>
+          {entry.children.length > 0 && <OutlineItems entries={entry.children} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Section outline: each heading with a badge for its change; clicking one scrolls to it */
+function OutlinePanel({ outline }: { outline: SectionOutline[] }) {
+  const flat = (entries: SectionOutline[]): SectionOutline[] => entries.flatMap((e) => [e, ...flat(e.children)]);
+  const changed = flat(outline).filter((entry) => entry.status !== "equal").length;
+
+  return (
+    <details class="section-outline" open={changed > 0}>
+      <summary>
+        Outline <span class="outline-meta" safe>{changed ? `${changed} sections changed` : "unchanged"}</span>
+      </summary>
+      <nav>
+        <OutlineItems entries={outline} />
+      </nav>
+    </details>
+  );
+}
 
 function FileDiffView({ file, idx }: { file: FileDiff; idx: number }) {
-  const hasMultipleLevels = file.rowsByLevel && Object.keys(file.rowsByLevel).length > 1;
+  const levels = Object.keys(file.rowsByLevel ?? {});
+  const hasMultipleLevels = levels.length > 1;
 
   return (
     <div
@@ -168,10 +280,12 @@ function FileDiffView({ file, idx }: { file: FileDiff; idx: number }) {
       data-file-idx={String(idx)}
       style={idx > 0 ? "display:none" : undefined}
     >
+      {file.frontmatter && <FrontmatterSection diff={file.frontmatter} />}
+      {file.outline && file.outline.length > 0 && <OutlinePanel outline={file.outline} />}
       {hasMultipleLevels ? (
         // Render all matching level variants
         <>
-          {MATCHING_LEVELS.map((level) => {
+          {levels.map((level) => {
             const levelRows = file.rowsByLevel![level];
             if (!levelRows) return null;
             return (
@@ -197,6 +311,30 @@ function FileDiffView({ file, idx }: { file: FileDiff; idx: number }) {
   );
 }
 
+function HeaderControls() {
+  return (
+    <div class="header-controls">
+      <button
+        class="settings-toggle"
+        id="settingsToggle"
+        title="Settings"
+        aria-label="Open settings"
+      >
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+          <circle cx="12" cy="12" r="3"/>
+          <path d="M12 1v4M12 19v4M4.22 4.22l2.83 2.83M16.95 16.95l2.83 2.83M1 12h4M19 12h4M4.22 19.78l2.83-2.83M16.95 7.05l2.83-2.83"/>
+        </svg>
+      </button>
+      <button
+        class="theme-toggle"
+        id="themeToggle"
+        title="Switch theme"
+        aria-label="Switch theme"
+      />
+    </div>
+  );
+}
+
 function Header({
   leftTitle,
   rightTitle,
@@ -227,31 +365,72 @@ function Header({
             </span>
           )}
         </span>
-        <div class="header-controls">
-          <button
-            class="settings-toggle"
-            id="settingsToggle"
-            title="Settings"
-            aria-label="Open settings"
-          >
-            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-              <circle cx="12" cy="12" r="3"/>
-              <path d="M12 1v4M12 19v4M4.22 4.22l2.83 2.83M16.95 16.95l2.83 2.83M1 12h4M19 12h4M4.22 19.78l2.83-2.83M16.95 7.05l2.83-2.83"/>
-            </svg>
-          </button>
-          <button
-            class="theme-toggle"
-            id="themeToggle"
-            title="Switch theme"
-            aria-label="Switch theme"
-          />
-        </div>
+        <HeaderControls />
       </div>
     </header>
   );
 }
 
-function SettingsPanel() {
+/** Pane classes: ours and theirs reuse the left/right pane behaviour (stats, minimap, copy) */
+const MERGE_PANES = {
+  ours: { pane: "left-pane", lineAttr: "data-line-left" },
+  base: { pane: "base-pane", lineAttr: "data-line-base" },
+  theirs: { pane: "right-pane", lineAttr: "data-line-right" },
+} as const;
+
+function MergePane({ rows, side }: { rows: MergeRenderedRow[]; side: keyof typeof MERGE_PANES }) {
+  const { pane, lineAttr } = MERGE_PANES[side];
+  return (
+    <div class={`diff-pane merge-pane ${pane}`}>
+      {rows.map((r) => {
+        const cell = r[side];
+        const attrs = { [lineAttr]: cell.line ? String(cell.line) : undefined };
+        return (
+          <div class={`diff-block ${cell.kind}${r.status === "conflict" ? " conflict" : ""}`} {...attrs}>
+            {cell.html as "safe"}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function MergeHeader({
+  titles,
+  projectRoot,
+  command,
+}: {
+  titles: MergeTitles;
+  projectRoot?: string;
+  command?: string;
+}) {
+  return (
+    <header>
+      <div class="header-cell left-header">
+        {titles.ours}
+        {projectRoot && (
+          <span class="project-root" title={projectRoot} data-path={projectRoot}>
+            {projectRoot}
+          </span>
+        )}
+      </div>
+      <div class="header-cell base-header">{titles.base}</div>
+      <div class="header-cell right-header">
+        <span class="header-title-group">
+          {titles.theirs}
+          {command && (
+            <span class="header-command" title={`md-diff ${command}`}>
+              {"md-diff " + command}
+            </span>
+          )}
+        </span>
+        <HeaderControls />
+      </div>
+    </header>
+  );
+}
+
+function SettingsPanel({ matchLevels }: { matchLevels: MatchingLevel[] }) {
   return (
     <div class="settings-panel" id="settingsPanel">
       <div class="settings-header">
@@ -286,9 +465,9 @@ function SettingsPanel() {
           <div class="setting-row">
             <label for="matchLevelSelect">Matching Sensitivity</label>
             <select id="matchLevelSelect">
-              <option value="strict">Strict</option>
-              <option value="normal" selected>Normal</option>
-              <option value="loose">Loose</option>
+              {matchLevels.map((level) => (
+                <option value={level} selected={level === "normal"} safe>{levelLabel(level)}</option>
+              ))}
             </select>
           </div>
           <div class="setting-row">
@@ -299,6 +478,10 @@ function SettingsPanel() {
             <label for="showMinorCheck">Highlight Inline Changes</label>
             <input type="checkbox" id="showMinorCheck" checked />
           </div>
+          <div class="setting-row">
+            <label for="showMovesCheck">Connect Moved Blocks</label>
+            <input type="checkbox" id="showMovesCheck" checked />
+          </div>
           <div class="setting-row">
             <label for="mergeMinorSelect">Merge Minor Changes</label>
             <select id="mergeMinorSelect">
@@ -328,24 +511,36 @@ function SettingsPanel() {
 
 // ── Public API ──────────────────────────────────────────────────
 
+/** Page options shared by the HTML generators */
+export interface PageOptions {
+  theme?: ThemeName;
+  /** Initial settings of the UI panel */
+  uiSettings?: UISettings;
+  /** Repository root, shown under the left title */
+  projectRoot?: string;
+  /** md-diff arguments that produced the page, shown under the right title */
+  command?: string;
+}
+
+/** Options for a single-file page */
+export interface HtmlOptions extends PageOptions {
+  /** Pre-computed rows at different matching levels (for UI switching) */
+  rowsByLevel?: Partial<Record<MatchingLevel, RenderedRow[]>>;
+  frontmatter?: FrontmatterDiff | null;
+  outline?: SectionOutline[];
+}
+
 export function generateHtml(
   rows: RenderedRow[],
   leftTitle: string,
   rightTitle: string,
-  theme: ThemeName = "dark",
-  rowsByLevel?: Record<MatchingLevel, RenderedRow[]>,
-  uiSettings?: UISettings,
-  projectRoot?: string,
-  command?: string,
+  { rowsByLevel, frontmatter, outline, ...pageOptions }: HtmlOptions = {},
 ): string {
   return generateMultiFileHtml(
-    [{ path: "single", rows, rowsByLevel }],
+    [{ path: "single", rows, rowsByLevel, frontmatter, outline }],
     leftTitle,
     rightTitle,
-    theme,
-    uiSettings,
-    projectRoot,
-    command,
+    pageOptions,
   );
 }
 
@@ -353,46 +548,105 @@ export function generateMultiFileHtml(
   files: FileDiff[],
   leftTitle: string,
   rightTitle: string,
-  theme: ThemeName = "dark",
-  uiSettings?: UISettings,
-  projectRoot?: string,
-  command?: string,
+  { theme = "dark", uiSettings, projectRoot, command }: PageOptions = {},
 ): string {
+  const isMulti = files.length > 1;
+
+  return renderPage({
+    title: leftTitle + " ↔ " + rightTitle,
+    theme,
+    uiSettings,
+    bodyClass: isMulti ? "multi-file" : "",
+    matchLevels: collectMatchLevels(files),
+    sidebar: isMulti ? <FileSidebar files={files} /> : undefined,
+    content: (
+      <>
+        <Header leftTitle={leftTitle} rightTitle={rightTitle} projectRoot={projectRoot} command={command} />
+        {isMulti && <FilePathDisplay files={files} />}
+        {files.map((f, i) => (
+          <FileDiffView file={f} idx={i} />
+        ))}
+      </>
+    ),
+  });
+}
+
+/** Three-way view: ours, base and theirs side by side */
+export function generateMergeHtml(
+  rows: MergeRenderedRow[],
+  titles: MergeTitles,
+  { theme = "dark", uiSettings, projectRoot, command }: PageOptions = {},
+): string {
+  return renderPage({
+    title: titles.ours + " ↔ " + titles.base + " ↔ " + titles.theirs,
+    theme,
+    uiSettings,
+    bodyClass: "merge",
+    matchLevels: Object.keys(MATCHING_LEVELS),
+    content: (
+      <>
+        <MergeHeader titles={titles} projectRoot={projectRoot} command={command} />
+        <div class="file-diff" data-file-idx="0">
+          <div class="diff-container">
+            <MergePane rows={rows} side="ours" />
+            <MergePane rows={rows} side="base" />
+            <MergePane rows={rows} side="theirs" />
+          </div>
+        </div>
+      </>
+    ),
+  });
+}
+
+function renderPage({
+  title,
+  theme,
+  uiSettings,
+  bodyClass,
+  matchLevels,
+  sidebar,
+  content,
+}: {
+  title: string;
+  theme: ThemeName;
+  uiSettings?: UISettings;
+  bodyClass: string;
+  matchLevels: MatchingLevel[];
+  sidebar?: JSX.Element;
+  content: JSX.Element;
+}): string {
   const darkVars = themeVars(themes.dark);
   const solarVars = themeVars(themes.solar);
-  const isMulti = files.length > 1;
 
   // Embed initial settings as a data attribute for JS to pick up
   const initialSettings = uiSettings ? JSON.stringify(uiSettings) : undefined;
+  const hasMermaid = String(content).includes('<pre class="mermaid">');
 
   const page = (
     <html lang="en" data-theme={theme} data-initial-settings={initialSettings}>
       <head>
         <meta charset="UTF-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-        <title safe>{"Markdown Diff: " + leftTitle + " ↔ " + rightTitle}</title>
+        <title safe>{"Markdown Diff: " + title}</title>
         <link
           rel="stylesheet"
           href="https://unpkg.com/open-props/open-props.min.css"
         />
         <style>{cssText(darkVars, solarVars) as "safe"}</style>
       </head>
-      <body class={isMulti ? "multi-file" : ""}>
-        {isMulti && <FileSidebar files={files} />}
+      <body class={bodyClass}>
+        {sidebar}
         <div class="main-content">
-          <Header leftTitle={leftTitle} rightTitle={rightTitle} projectRoot={projectRoot} command={command} />
-          {isMulti && <FilePathDisplay files={files} />}
-          {files.map((f, i) => (
-            <FileDiffView file={f} idx={i} />
-          ))}
+          {content}
           <div class="stats-bar" id="statsBar" />
         </div>
         <div id="minimap">
           <canvas id="minimapCanvas"></canvas>
           <div id="minimapViewport"></div>
         </div>
-        <SettingsPanel />
+        <SettingsPanel matchLevels={matchLevels} />
         <div class="settings-overlay" id="settingsOverlay"></div>
+        {hasMermaid && <script>{getMermaidScript() as "safe"}</script>}
         <script>{SCRIPT as "safe"}</script>
       </body>
     </html>
@@ -404,782 +658,52 @@ export function generateMultiFileHtml(
 // ── CSS ─────────────────────────────────────────────────────────
 
 function cssText(darkVars: string, solarVars: string): string {
-  return `
+  const themeCss = `
   [data-theme="dark"] { ${darkVars} }
   [data-theme="solar"] { ${solarVars} }
-
-  * { margin: 0; padding: 0; box-sizing: border-box; }
-
-  body {
-    font-family: var(--font-sans, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif);
-    background: var(--md-bg);
-    color: var(--md-text);
-    display: flex;
-    flex-direction: row;
-    height: 100vh;
-    transition: background 0.3s ease, color 0.3s ease;
-  }
-
-  body.multi-file {
-    --sidebar-width: 200px;
-  }
-
-  .main-content {
-    flex: 1;
-    display: flex;
-    flex-direction: column;
-    min-width: 0;
-    height: 100vh;
-  }
-
-  /* File sidebar */
-  .file-sidebar {
-    width: var(--sidebar-width, 200px);
-    min-width: 120px;
-    max-width: 400px;
-    background: var(--md-bg-alt);
-    border-right: 1px solid var(--md-border);
-    display: flex;
-    flex-direction: column;
-    flex-shrink: 0;
-    position: relative;
-    height: 100vh;
-  }
-
-  .sidebar-header {
-    display: flex;
-    align-items: center;
-    justify-content: space-between;
-    padding: 10px 12px;
-    border-bottom: 1px solid var(--md-border);
-    font-size: 12px;
-    font-weight: 600;
-    text-transform: uppercase;
-    letter-spacing: 0.5px;
-    color: var(--md-text-muted);
-  }
-
-  .sidebar-header .file-count {
-    background: var(--md-border);
-    padding: 2px 6px;
-    border-radius: 10px;
-    font-size: 11px;
-  }
-
-  .file-list {
-    list-style: none;
-    margin: 0;
-    padding: 4px 0;
-    overflow-y: auto;
-    flex: 1;
-  }
-
-  .dir-header {
-    padding: 8px 12px 4px;
-    font-size: 11px;
-    font-weight: 600;
-    color: var(--md-text-muted);
-    text-transform: none;
-    letter-spacing: 0;
-  }
-
-  .dir-header:not(:first-child) {
-    margin-top: 8px;
-    border-top: 1px solid var(--md-border);
-    padding-top: 12px;
-  }
-
-  .dir-name {
-    opacity: 0.8;
-  }
-
-  .file-item.indented {
-    padding-left: 20px;
-  }
-
-  .file-item {
-    padding: 6px 12px;
-    cursor: pointer;
-    font-size: 12px;
-    border-left: 3px solid transparent;
-    transition: background 0.1s ease, border-color 0.1s ease;
-    outline: none;
-    display: flex;
-    flex-direction: row;
-    align-items: center;
-    gap: 8px;
-  }
-
-  .file-item:hover {
-    background: var(--md-bg);
-  }
-
-  .file-item:focus {
-    background: var(--md-bg);
-  }
-
-  .file-item.active {
-    background: var(--md-bg);
-    border-left-color: var(--md-link);
-  }
-
-  .file-item.active .file-name {
-    color: var(--md-link);
-  }
-
-  .file-name {
-    flex: 1;
-    min-width: 0;
-    overflow: hidden;
-    text-overflow: ellipsis;
-    white-space: nowrap;
-  }
-
-  .file-stats {
-    flex-shrink: 0;
-    display: flex;
-    gap: 6px;
-    font-size: 11px;
-    font-family: var(--font-mono, 'JetBrains Mono', 'Fira Code', monospace);
-  }
-
-  .file-stats .stat-added {
-    color: var(--md-added-border);
-  }
-
-  .file-stats .stat-removed {
-    color: var(--md-removed-border);
-  }
-
-  /* Sidebar resize handle */
-  .sidebar-resize {
-    position: absolute;
-    top: 0;
-    right: -3px;
-    width: 6px;
-    height: 100%;
-    cursor: col-resize;
-    z-index: 10;
-  }
-
-  .sidebar-resize:hover,
-  .sidebar-resize.dragging {
-    background: var(--md-link);
-    opacity: 0.5;
-  }
-
-  /* File path display (replaces dropdown) */
-  .file-path-display {
-    padding: 8px 20px;
-    background: var(--md-bg-alt);
-    border-bottom: 1px solid var(--md-border);
-    font-family: var(--font-mono, 'JetBrains Mono', 'Fira Code', monospace);
-    font-size: 13px;
-    color: var(--md-text);
-    flex-shrink: 0;
-  }
-
-  .current-file-path {
-    display: block;
-    overflow: hidden;
-    text-overflow: ellipsis;
-    white-space: nowrap;
-  }
-
-  header {
-    display: flex;
-    border-bottom: 2px solid var(--md-border);
-    background: var(--md-bg-alt);
-    flex-shrink: 0;
-  }
-
-  .header-cell {
-    flex: 1;
-    padding: 6px 20px;
-    font-weight: 600;
-    font-size: 12px;
-    letter-spacing: 0.5px;
-    text-transform: uppercase;
-    color: var(--md-text-muted);
-    overflow: hidden;
-    text-overflow: ellipsis;
-    white-space: nowrap;
-  }
-
-  .left-header {
-    border-right: 1px solid var(--md-border);
-    display: flex;
-    align-items: center;
-    gap: 12px;
-  }
-
-  .project-root {
-    font-weight: 400;
-    font-size: 11px;
-    text-transform: none;
-    color: var(--md-text-muted);
-    opacity: 0.7;
-    overflow: hidden;
-    text-overflow: ellipsis;
-    white-space: nowrap;
-    direction: rtl;
-    text-align: left;
-    min-width: 0;
-    flex: 1;
-  }
-
-  .header-title-group {
-    display: flex;
-    align-items: center;
-    gap: 12px;
-    min-width: 0;
-    overflow: hidden;
-  }
-
-  .header-command {
-    font-weight: 400;
-    font-size: 11px;
-    font-family: var(--font-mono, 'SF Mono', 'Fira Code', 'Fira Mono', monospace);
-    text-transform: none;
-    letter-spacing: 0;
-    color: var(--md-text-muted);
-    opacity: 0.5;
-    overflow: hidden;
-    text-overflow: ellipsis;
-    white-space: nowrap;
-  }
-
-  .right-header {
-    display: flex;
-    align-items: center;
-    justify-content: space-between;
-  }
-
-  .header-controls {
-    display: flex;
-    align-items: center;
-    gap: 12px;
-  }
-
-  .file-diff {
-    flex: 1;
-    overflow: hidden;
-    display: flex;
-    flex-direction: column;
-  }
-
-  .file-diff .diff-container { flex: 1; }
-
-  .theme-toggle {
-    background: none;
-    border: 1px solid var(--md-border);
-    border-radius: var(--radius-round, 50%);
-    width: 28px;
-    height: 28px;
-    cursor: pointer;
-    font-size: 14px;
-    line-height: 1;
-    display: flex;
-    align-items: center;
-    justify-content: center;
-    transition: border-color 0.2s ease;
-    flex-shrink: 0;
-  }
-
-  .theme-toggle:hover { border-color: var(--md-text-muted); }
-
-  [data-theme="dark"] .theme-toggle::after { content: "\\1F319"; }
-  [data-theme="solar"] .theme-toggle::after { content: "\\2600"; }
-
-  .settings-toggle {
-    background: none;
-    border: 1px solid var(--md-border);
-    border-radius: var(--radius-round, 50%);
-    width: 28px;
-    height: 28px;
-    cursor: pointer;
-    display: flex;
-    align-items: center;
-    justify-content: center;
-    transition: border-color 0.2s ease;
-    flex-shrink: 0;
-    color: var(--md-text-muted);
-  }
-  .settings-toggle:hover {
-    border-color: var(--md-text-muted);
-    color: var(--md-text);
-  }
-  .settings-toggle svg { pointer-events: none; }
-
-  /* Settings Panel */
-  .settings-overlay {
-    position: fixed;
-    inset: 0;
-    background: rgba(0, 0, 0, 0.4);
-    z-index: 1999;
-    opacity: 0;
-    visibility: hidden;
-    transition: opacity 0.2s ease, visibility 0.2s ease;
-  }
-  .settings-overlay.open {
-    opacity: 1;
-    visibility: visible;
-  }
-
-  .settings-panel {
-    position: fixed;
-    top: 0;
-    right: -320px;
-    width: 320px;
-    height: 100vh;
-    background: var(--md-bg);
-    border-left: 1px solid var(--md-border);
-    z-index: 2000;
-    display: flex;
-    flex-direction: column;
-    transition: right 0.25s ease;
-    box-shadow: -4px 0 20px rgba(0, 0, 0, 0.2);
-  }
-  .settings-panel.open { right: 0; }
-
-  .settings-header {
-    display: flex;
-    align-items: center;
-    justify-content: space-between;
-    padding: 16px 20px;
-    border-bottom: 1px solid var(--md-border);
-    flex-shrink: 0;
-  }
-  .settings-header h3 {
-    margin: 0;
-    font-size: 16px;
-    font-weight: 600;
-    color: var(--md-text);
-  }
-  .settings-close {
-    background: none;
-    border: none;
-    font-size: 24px;
-    line-height: 1;
-    cursor: pointer;
-    color: var(--md-text-muted);
-    padding: 0 4px;
-  }
-  .settings-close:hover { color: var(--md-text); }
-
-  .settings-content {
-    flex: 1;
-    overflow-y: auto;
-    padding: 16px 20px;
-  }
-
-  .settings-section {
-    margin-bottom: 24px;
-  }
-  .settings-section h4 {
-    font-size: 11px;
-    font-weight: 600;
-    text-transform: uppercase;
-    letter-spacing: 0.5px;
-    color: var(--md-text-muted);
-    margin: 0 0 12px 0;
-    padding-bottom: 6px;
-    border-bottom: 1px solid var(--md-border);
-  }
-
-  .setting-row {
-    display: flex;
-    align-items: center;
-    justify-content: space-between;
-    padding: 8px 0;
-    gap: 12px;
-  }
-  .setting-row label {
-    font-size: 13px;
-    color: var(--md-text);
-    flex-shrink: 0;
-  }
-  .setting-row select {
-    background: var(--md-bg-alt);
-    border: 1px solid var(--md-border);
-    border-radius: 4px;
-    padding: 4px 8px;
-    font-size: 13px;
-    color: var(--md-text);
-    cursor: pointer;
-  }
-  .setting-row input[type="checkbox"] {
-    width: 18px;
-    height: 18px;
-    cursor: pointer;
-    accent-color: var(--md-link);
-  }
-  .setting-row input[type="range"] {
-    flex: 1;
-    accent-color: var(--md-link);
-  }
-
-  .range-with-value {
-    display: flex;
-    align-items: center;
-    gap: 8px;
-    flex: 1;
-    max-width: 140px;
-  }
-  .range-with-value span {
-    font-size: 12px;
-    color: var(--md-text-muted);
-    min-width: 32px;
-    text-align: right;
-  }
-
-  .shortcuts-list {
-    display: flex;
-    flex-direction: column;
-    gap: 8px;
-  }
-  .shortcut-item {
-    font-size: 12px;
-    color: var(--md-text-muted);
-    display: flex;
-    align-items: center;
-    gap: 6px;
-  }
-  .shortcut-item kbd {
-    background: var(--md-bg-alt);
-    border: 1px solid var(--md-border);
-    border-radius: 3px;
-    padding: 2px 6px;
-    font-family: var(--font-mono, monospace);
-    font-size: 11px;
-    color: var(--md-text);
-  }
-
-  /* Compact mode */
-  [data-compact="on"] .diff-pane {
-    padding: var(--size-2, 8px) var(--size-3, 16px);
-    line-height: 1.5;
-  }
-  [data-compact="on"] .diff-block { margin: 0; }
-
-  /* Hide minor changes styling when disabled */
-  [data-show-minor="off"] del,
-  [data-show-minor="off"] ins {
-    background: none;
-    color: inherit;
-    text-decoration: none;
-    padding: 0;
-  }
-  [data-show-minor="off"] .char-removed,
-  [data-show-minor="off"] .char-added,
-  [data-show-minor="off"] .char-removed.minor,
-  [data-show-minor="off"] .char-added.minor {
-    background: none;
-    color: inherit;
-    border: none;
-  }
-
-  /* Merge minor changes - style absorbable equals as removed/added based on side */
-  /* Conservative: style stop-word absorbables */
-  [data-merge-minor="conservative"] .absorbable-stopword.left,
-  [data-merge-minor="aggressive"] .absorbable-stopword.left {
-    background-color: var(--removed-bg);
-    color: var(--md-del-text);
-    text-decoration: line-through;
-  }
-  [data-merge-minor="conservative"] .absorbable-stopword.right,
-  [data-merge-minor="aggressive"] .absorbable-stopword.right {
-    background-color: var(--added-bg);
-    color: var(--md-ins-text);
-  }
-  /* Aggressive: also style single-word absorbables */
-  [data-merge-minor="aggressive"] .absorbable-single.left {
-    background-color: var(--removed-bg);
-    color: var(--md-del-text);
-    text-decoration: line-through;
-  }
-  [data-merge-minor="aggressive"] .absorbable-single.right {
-    background-color: var(--added-bg);
-    color: var(--md-ins-text);
-  }
-
-  /* Hide minimap */
-  [data-show-minimap="off"] #minimap { display: none; }
-  [data-show-minimap="off"] .main-content { padding-right: 0; }
-
-  .diff-container {
-    display: flex;
-    flex: 1;
-    overflow: hidden;
-  }
-
-  .diff-pane {
-    flex: 1;
-    overflow-y: auto;
-    overflow-x: hidden;
-    padding: var(--size-3, 16px) var(--size-5, 24px);
-    line-height: var(--font-lineheight-4, 1.7);
-  }
-
-  .left-pane { border-right: 1px solid var(--md-border); }
-
-  .diff-pane h1 { font-size: var(--font-size-5, 1.8em); margin: 0.6em 0 0.3em; color: var(--md-h1); border-bottom: 1px solid var(--md-border); padding-bottom: 0.2em; }
-  .diff-pane h2 { font-size: var(--font-size-4, 1.5em); margin: 0.5em 0 0.3em; color: var(--md-h2); }
-  .diff-pane h3 { font-size: var(--font-size-3, 1.25em); margin: 0.4em 0 0.2em; color: var(--md-h3); }
-  .diff-pane h4 { font-size: var(--font-size-2, 1.1em); margin: 0.3em 0 0.2em; color: var(--md-h4); }
-  .diff-pane h5, .diff-pane h6 { font-size: var(--font-size-1, 1em); margin: 0.2em 0; color: var(--md-h5); }
-  .diff-pane p { margin: 0.5em 0; }
-  .diff-pane ul, .diff-pane ol { margin: 0.5em 0 0.5em 1.5em; }
-  .diff-pane li { margin: 0.2em 0; }
-  .diff-pane blockquote { border-left: 3px solid var(--md-blockquote-border); padding-left: 12px; color: var(--md-blockquote-text); margin: 0.5em 0; }
-  .diff-pane pre { background: var(--md-code-block-bg); padding: var(--size-2, 12px); border-radius: var(--radius-2, 6px); overflow-x: auto; margin: 0.5em 0; }
-  .diff-pane code { font-family: var(--font-mono, 'JetBrains Mono', 'Fira Code', monospace); font-size: 0.9em; }
-  .diff-pane :not(pre) > code { background: var(--md-code-bg); padding: 2px 5px; border-radius: var(--radius-1, 3px); }
-  .diff-pane a { color: var(--md-link); text-decoration: underline; }
-  .diff-pane strong { color: inherit; }
-  .diff-pane em { color: inherit; }
-  .diff-pane table { border-collapse: collapse; margin: 0.5em 0; width: 100%; }
-  .diff-pane th, .diff-pane td { border: 1px solid var(--md-border); padding: 6px 10px; text-align: left; }
-  .diff-pane th { background: var(--md-table-header-bg); }
-  .diff-pane hr { border: none; border-top: 1px solid var(--md-border); margin: 1em 0; }
-  .diff-pane img { max-width: 100%; }
-
-  /* HTML comments - visible but muted */
-  .diff-pane .html-comment {
-    color: var(--md-comment-text, #6b7280);
-    font-family: var(--font-mono, 'JetBrains Mono', 'Fira Code', monospace);
-    font-size: 0.85em;
-    opacity: 0.6;
-    white-space: pre-wrap;
-    margin: 0.5em 0;
-  }
-
-  .diff-block {
-    padding: 2px 0;
-    border-radius: var(--radius-1, 4px);
-    margin: 1px 0;
-  }
-
-  .diff-block.equal { }
-
-  .right-pane .diff-block.added {
-    background: var(--md-added-bg);
-    border-left: 3px solid var(--md-added-border);
-    padding-left: 8px;
-  }
-
-  .left-pane .diff-block.removed {
-    background: var(--md-removed-bg);
-    border-left: 3px solid var(--md-removed-border);
-    padding-left: 8px;
-  }
-
-  .diff-block.modified {
-    background: var(--md-modified-bg);
-    border-left: 3px solid var(--md-modified-border);
-    padding-left: 8px;
-  }
-
-  .spacer {
-    min-height: 2em;
-    background: var(--md-spacer-bg);
-    border-radius: var(--radius-1, 4px);
-    margin: 2px 0;
-  }
-
-  del {
-    background: var(--md-del-bg);
-    color: var(--md-del-text);
-    text-decoration: line-through 1px;
-    text-decoration-color: color-mix(in srgb, var(--md-del-text) 45%, transparent);
-    border-radius: 2px;
-    padding: 0 2px;
-  }
-
-  ins {
-    background: var(--md-ins-bg);
-    color: var(--md-ins-text);
-    text-decoration: none;
-    border-radius: 2px;
-    padding: 0 2px;
-  }
-
-  .char-removed {
-    background: none;
-    color: var(--md-char-removed-text);
-    border-bottom: 2px solid var(--md-char-removed-text);
-  }
-
-  .char-added {
-    background: none;
-    color: var(--md-char-added-text);
-    border-bottom: 2px solid var(--md-char-added-text);
-  }
-
-  .char-removed.minor {
-    background: none;
-    color: var(--md-char-removed-minor-text);
-    border-bottom: 1.5px solid var(--md-char-removed-minor-border);
-  }
-
-  .char-added.minor {
-    background: none;
-    color: var(--md-char-added-minor-text);
-    border-bottom: 1.5px solid var(--md-char-added-minor-border);
-  }
-
-  .added-block { }
-  .removed-block {
-    text-decoration: line-through 1px;
-    text-decoration-color: color-mix(in srgb, var(--md-del-text) 45%, transparent);
-    color: var(--md-del-text);
-  }
-  .removed-block * {
-    color: inherit;
-  }
-  .removed-block .diff-equal {
-    text-decoration: none;
-    color: var(--md-text);
-  }
-  .diff-pane del strong, .diff-pane del em, .diff-pane del a {
-    color: inherit;
-  }
-  .modified-block { }
-  .modified-block.gap-aligned {
-    line-height: 1.6;
-  }
-
-  /* Inline diff parts */
-  .diff-part {
-    display: inline;
-  }
-  .diff-part.diff-removed {
-    color: var(--md-del-text);
-  }
-  .diff-part.diff-added {
-    color: var(--md-ins-text);
-  }
-  /* Paragraph split marker - shows where a paragraph break was inserted */
-  .diff-part.paragraph-split {
-    display: block;
-    margin: 0.4em 0;
-    color: var(--md-ins-text);
-    font-style: italic;
-    opacity: 0.8;
-  }
-  .diff-part.paragraph-split ins {
-    text-decoration: none;
-  }
-
-  /* Overlay-based alignment: removed+added pairs share the same grid cell,
-     so container sizes to max(removed_height, added_height) */
-  .change-group {
-    display: inline;
-  }
-  .change-pair {
-    display: inline-grid;
-    vertical-align: baseline;
-    /* Ensure grid properly contains both layers */
-    grid-template-columns: 1fr;
-    grid-template-rows: auto;
-  }
-  .change-pair > .change-layer {
-    grid-area: 1 / 1;
-    /* Preserve trailing whitespace that would otherwise collapse in grid */
-    white-space: pre-wrap;
-    /* Ensure proper wrapping within the grid cell */
-    min-width: 0;
-  }
-  .change-layer.hidden {
-    /* Use opacity instead of visibility for more reliable layout */
-    opacity: 0;
-    pointer-events: none;
-  }
-  .change-layer.diff-removed {
-    color: var(--md-del-text);
-  }
-  .change-layer.diff-added {
-    color: var(--md-ins-text);
-  }
-
-  /* When gap alignment is disabled - collapse hidden layers entirely */
-  [data-gap-align="off"] .change-layer.hidden {
-    display: none;
-  }
-  [data-gap-align="off"] .change-pair {
-    display: inline;
-  }
-
-  .stats-bar {
-    display: flex;
-    gap: var(--size-3, 16px);
-    padding: 6px 20px;
-    background: var(--md-bg-alt);
-    border-top: 1px solid var(--md-border);
-    font-size: 12px;
-    color: var(--md-stat-text);
-    flex-shrink: 0;
-  }
-
-  .stat-item { display: flex; align-items: center; gap: 4px; }
-  .stat-dot { width: 8px; height: 8px; border-radius: var(--radius-round, 50%); }
-  .stat-dot.equal { background: var(--md-stat-equal-dot); }
-  .stat-dot.added { background: var(--md-added-border); }
-  .stat-dot.removed { background: var(--md-removed-border); }
-  .stat-dot.modified { background: var(--md-modified-border); }
-
-  .diff-pane::-webkit-scrollbar { width: 8px; }
-  .diff-pane::-webkit-scrollbar-track { background: var(--md-scroll-track); }
-  .diff-pane::-webkit-scrollbar-thumb { background: var(--md-scroll-thumb); border-radius: var(--radius-1, 4px); }
-  .diff-pane::-webkit-scrollbar-thumb:hover { background: var(--md-scroll-thumb-hover); }
-
-  #minimap {
-    position: fixed;
-    right: 0;
-    width: 80px;
-    z-index: 1000;
-    background: var(--md-bg-alt);
-    border-left: 1px solid var(--md-border);
-    cursor: pointer;
-    /* top/height set by JS to align with diff panes */
-  }
-
-  #minimapCanvas {
-    width: 100%;
-    height: 100%;
-    display: block;
-  }
-
-  #minimapViewport {
-    position: absolute;
-    left: 2px;
-    right: 2px;
-    background: var(--md-minimap-viewport, rgba(128, 128, 128, 0.25));
-    border: 1px solid var(--md-minimap-viewport-border, rgba(128, 128, 128, 0.4));
-    border-radius: 2px;
-    pointer-events: none;
-    transition: top 0.05s ease-out, height 0.05s ease-out;
-  }
-
-  [data-theme="dark"] {
-    --md-minimap-viewport: rgba(255, 255, 255, 0.15);
-    --md-minimap-viewport-border: rgba(255, 255, 255, 0.3);
-  }
-
-  [data-theme="solar"] {
-    --md-minimap-viewport: rgba(0, 0, 0, 0.1);
-    --md-minimap-viewport-border: rgba(0, 0, 0, 0.2);
-  }
-
-  /* Adjust main-content to make room for minimap */
-  .main-content {
-    padding-right: 80px;
-  }
 `;
+  // Order matters where rules of equal specificity overlap
+  return [
+    themeCss,
+    PAGE_CSS,
+    FRONTMATTER_CSS,
+    OUTLINE_CSS,
+    MOVES_CSS,
+    SETTINGS_CSS,
+    PANE_CSS,
+    TABLE_CSS,
+    LIST_CSS,
+    CODE_CSS,
+    LINK_CSS,
+    FORMATTING_CSS,
+    HTML_CSS,
+    FOOTNOTE_CSS,
+    DIAGRAM_CSS,
+    MATH_CSS,
+    CONTAINER_CSS,
+    SYNTAX_CSS,
+    BLOCK_CSS,
+    MERGE_CSS,
+    CHANGE_CSS,
+    STATUS_CSS,
+  ].join("");
 }
 
 // ── Client-side script ──────────────────────────────────────────
 
+/** Mermaid's self-contained browser build (sets window.mermaid), read once */
+let mermaidScript: string | undefined;
+
+/**
+ * Pages with a Mermaid diagram embed the installed Mermaid instead of
+ * fetching it, so they work offline and don't run code from a CDN.
+ */
+function getMermaidScript(): string {
+  mermaidScript ??= readFileSync(createRequire(import.meta.url).resolve("mermaid/dist/mermaid.min.js"), "utf-8")
+    .replace(/<\/script/gi, "<\\/script");
+  return mermaidScript;
+}
+
 const SCRIPT = `
 (function() {
   const html = document.documentElement;
@@ -1218,6 +742,7 @@ const SCRIPT = `
     minimap: 'md-diff-show-minimap',
     gapAlign: 'md-diff-gap-align',
     inlineHighlight: 'md-diff-show-minor',
+    showMoves: 'md-diff-show-moves',
     mergeMinor: 'md-diff-merge-minor',
     matchLevel: 'md-diff-match-level',
     compact: 'md-diff-compact',
@@ -1315,7 +840,11 @@ const SCRIPT = `
     });
   }
 
-  const initialMatchLevel = getInitial('matchLevel', STORAGE.matchLevel, 'normal');
+  let initialMatchLevel = getInitial('matchLevel', STORAGE.matchLevel, 'normal');
+  // A remembered custom profile may not exist in this page
+  if (!matchLevelSelect.querySelector('option[value="' + CSS.escape(initialMatchLevel) + '"]')) {
+    initialMatchLevel = 'normal';
+  }
   setMatchLevel(initialMatchLevel);
 
   matchLevelSelect.addEventListener('change', () => setMatchLevel(matchLevelSelect.value));
@@ -1360,6 +889,8 @@ const SCRIPT = `
   initBoolWithInitial('showMinimapCheck', 'showMinimap', STORAGE.minimap, 'data-show-minimap', true);
   initBoolWithInitial('showMinorCheck', 'showMinor', STORAGE.inlineHighlight, 'data-show-minor', true);
   initBoolWithInitial('compactModeCheck', 'compact', STORAGE.compact, 'data-compact', false);
+  initBoolWithInitial('showMovesCheck', 'showMoves', STORAGE.showMoves, 'data-show-moves', true)
+    .addEventListener('change', () => document.querySelectorAll('.diff-container').forEach(drawMoveConnectors));
 
   // Gap alignment needs special handling for realignment
   const gapAlignCheck = document.getElementById('gapAlignCheck');
@@ -1391,28 +922,34 @@ const SCRIPT = `
     }
   });
 
+  /** Panes aligned with the left pane: the right pane, plus the base pane in three-way views */
+  function alignedPanes(leftPane, rightPane) {
+    const base = leftPane.parentElement.querySelector('.base-pane');
+    return base ? [leftPane, base, rightPane] : [leftPane, rightPane];
+  }
+
   function alignBlocks(leftPane, rightPane) {
-    const lb = leftPane.querySelectorAll('.diff-block');
-    const rb = rightPane.querySelectorAll('.diff-block');
-    const n = Math.min(lb.length, rb.length);
+    const blocks = alignedPanes(leftPane, rightPane).map(p => p.querySelectorAll('.diff-block'));
+    const n = Math.min(...blocks.map(b => b.length));
 
     // Reset all heights first
     for (let i = 0; i < n; i++) {
-      lb[i].style.minHeight = '';
-      rb[i].style.minHeight = '';
+      blocks.forEach(b => { b[i].style.minHeight = ''; });
     }
 
     // Align blocks (gap alignment within blocks is handled by invisible placeholders)
     for (let i = 0; i < n; i++) {
-      const maxH = Math.max(lb[i].getBoundingClientRect().height, rb[i].getBoundingClientRect().height);
-      lb[i].style.minHeight = maxH + 'px';
-      rb[i].style.minHeight = maxH + 'px';
+      const maxH = Math.max(...blocks.map(b => b[i].getBoundingClientRect().height));
+      blocks.forEach(b => { b[i].style.minHeight = maxH + 'px'; });
     }
+    drawMoveConnectors(leftPane.parentElement);
   }
 
   function computeStats(leftPane) {
-    const s = { equal: 0, added: 0, removed: 0, modified: 0 };
+    // A moved block has a row at each place; its old place counts it once
+    const s = { equal: 0, added: 0, removed: 0, modified: 0, conflict: 0, moved: leftPane.querySelectorAll('.move-from').length };
     leftPane.querySelectorAll('.diff-block').forEach(b => {
+      if (b.classList.contains('conflict')) s.conflict++;
       if (b.classList.contains('equal')) s.equal++;
       else if (b.classList.contains('added')) s.added++;
       else if (b.classList.contains('removed')) s.removed++;
@@ -1427,22 +964,26 @@ const SCRIPT = `
       ['modified', 'Modified'],
       ['added', 'Added'],
       ['removed', 'Removed'],
-    ].map(([cls, label]) =>
+      ['moved', 'Moved'],
+      ['conflict', 'Conflicts'],
+    ].filter(([cls]) => (cls !== 'conflict' && cls !== 'moved') || stats[cls] > 0).map(([cls, label]) =>
       '<span class="stat-item"><span class="stat-dot ' + cls + '"></span>' + stats[cls] + ' ' + label + '</span>'
     ).join('');
   }
 
   function setupScrollSync(leftPane, rightPane) {
+    const panes = alignedPanes(leftPane, rightPane);
     let syncing = false;
-    function sync(src, tgt) {
+    function sync(src) {
       if (syncing) return;
       syncing = true;
       const r = src.scrollTop / (src.scrollHeight - src.clientHeight || 1);
-      tgt.scrollTop = r * (tgt.scrollHeight - tgt.clientHeight);
+      panes.forEach(tgt => {
+        if (tgt !== src) tgt.scrollTop = r * (tgt.scrollHeight - tgt.clientHeight);
+      });
       syncing = false;
     }
-    leftPane.addEventListener('scroll', () => sync(leftPane, rightPane));
-    rightPane.addEventListener('scroll', () => sync(rightPane, leftPane));
+    panes.forEach(pane => pane.addEventListener('scroll', () => sync(pane)));
   }
 
   const fileDiffs = document.querySelectorAll('.file-diff');
@@ -1466,7 +1007,8 @@ const SCRIPT = `
     for (const block of blocks) {
       if (block.classList.contains('added') ||
           block.classList.contains('removed') ||
-          block.classList.contains('modified')) {
+          block.classList.contains('modified') ||
+          block.classList.contains('moved')) {
         return block;
       }
     }
@@ -1489,6 +1031,120 @@ const SCRIPT = `
     if (lp && rp) setupScrollSync(lp, rp);
   });
 
+  // ── Outline ────────────────────────────────────────────────────
+  // A heading is found by its source line: on its row, or on its block inside a merged row
+  document.addEventListener('click', (e) => {
+    const item = e.target.closest && e.target.closest('.outline-item');
+    const line = item && item.getAttribute('data-line');
+    if (!line) return;
+    const side = item.getAttribute('data-side');
+    const containers = item.closest('.file-diff').querySelectorAll('.diff-container');
+    const container = Array.prototype.find.call(containers, c => c.style.display !== 'none');
+    const pane = container && container.querySelector('.' + side + '-pane');
+    const target = pane && pane.querySelector('[data-line-' + side + '="' + line + '"], [data-line="' + line + '"]');
+    if (!target) return;
+    const offset = target.getBoundingClientRect().top - pane.getBoundingClientRect().top;
+    pane.scrollTop = Math.max(0, pane.scrollTop + offset - 40);
+    const block = target.closest('.diff-block');
+    pane.querySelectorAll('.outline-target').forEach(b => b.classList.remove('outline-target'));
+    if (block) block.classList.add('outline-target');
+  });
+
+  // ── Moved Blocks ───────────────────────────────────────────────
+  // Each anchor jumps to the other place of its block; connectors join the two places across the panes
+  function moveCounterpart(anchor) {
+    const container = anchor.closest('.diff-container');
+    const other = anchor.classList.contains('move-from') ? 'move-to' : 'move-from';
+    return container && container.querySelector('.' + other + '[data-move="' + anchor.getAttribute('data-move') + '"]');
+  }
+
+  document.addEventListener('click', (e) => {
+    const anchor = e.target.closest && e.target.closest('.move-anchor');
+    const target = anchor && moveCounterpart(anchor);
+    if (!target) return;
+    const pane = target.closest('.diff-pane');
+    const offset = target.getBoundingClientRect().top - pane.getBoundingClientRect().top;
+    pane.scrollTop = Math.max(0, pane.scrollTop + offset - 40);
+    document.querySelectorAll('.move-target').forEach(b => b.classList.remove('move-target'));
+    target.closest('.diff-block').classList.add('move-target');
+  });
+
+  const SVG_NS = 'http://www.w3.org/2000/svg';
+
+  function drawMoveConnectors(container) {
+    let svg = container.querySelector(':scope > .move-connectors');
+    const anchors = container.querySelectorAll('.left-pane .move-from');
+    if (anchors.length === 0 || html.getAttribute('data-show-moves') !== 'on') {
+      if (svg) svg.replaceChildren();
+      return;
+    }
+    if (!svg) {
+      svg = document.createElementNS(SVG_NS, 'svg');
+      svg.setAttribute('class', 'move-connectors');
+      container.appendChild(svg);
+    }
+    const box = container.getBoundingClientRect();
+    const paths = [];
+    anchors.forEach(from => {
+      const to = moveCounterpart(from);
+      if (!to) return;
+      const a = from.getBoundingClientRect();
+      const b = to.getBoundingClientRect();
+      const x1 = a.right - box.left, y1 = a.top + a.height / 2 - box.top;
+      const x2 = b.left - box.left, y2 = b.top + b.height / 2 - box.top;
+      const mid = (x1 + x2) / 2;
+      const path = document.createElementNS(SVG_NS, 'path');
+      path.setAttribute('d', 'M' + x1 + ',' + y1 + ' C' + mid + ',' + y1 + ' ' + mid + ',' + y2 + ' ' + x2 + ',' + y2);
+      paths.push(path);
+    });
+    svg.replaceChildren(...paths);
+  }
+
+  // Scroll events don't bubble: listen in the capture phase for every pane
+  let pendingConnectors = null;
+  document.addEventListener('scroll', (e) => {
+    const container = e.target.closest && e.target.closest('.diff-container');
+    if (!container || pendingConnectors) return;
+    pendingConnectors = requestAnimationFrame(() => {
+      pendingConnectors = null;
+      drawMoveConnectors(container);
+    });
+  }, true);
+  window.addEventListener('resize', () => document.querySelectorAll('.diff-container').forEach(drawMoveConnectors));
+
+  // ── Diagrams ───────────────────────────────────────────────────
+  // The toggle flips a row between the drawn diagrams and the source diff on all of its sides
+  function realignContainer(container) {
+    const lp = container.querySelector('.left-pane');
+    const rp = container.querySelector('.right-pane');
+    if (lp && rp) alignBlocks(lp, rp);
+  }
+
+  document.addEventListener('click', (e) => {
+    const toggle = e.target.closest && e.target.closest('.diagram-toggle');
+    const block = toggle && toggle.closest('.diff-block');
+    if (!block) return;
+    const pane = block.closest('.diff-pane');
+    const index = Array.prototype.indexOf.call(pane.querySelectorAll('.diff-block'), block);
+    const showSource = !block.classList.contains('show-source');
+    pane.parentElement.querySelectorAll('.diff-pane').forEach(p => {
+      const row = p.querySelectorAll('.diff-block')[index];
+      if (row) row.classList.toggle('show-source', showSource);
+    });
+    realignContainer(pane.parentElement);
+  });
+
+  // Mermaid is drawn in the browser; the library is only embedded in pages with a Mermaid diagram
+  if (window.mermaid && document.querySelector('pre.mermaid')) {
+    const mermaid = window.mermaid;
+    mermaid.initialize({ startOnLoad: false, theme: html.getAttribute('data-theme') === 'dark' ? 'dark' : 'default' });
+    mermaid.run({ querySelector: 'pre.mermaid' }).then(() => {
+      document.querySelectorAll('.diff-container').forEach(realignContainer);
+    }).catch(() => {
+      // Invalid diagram: the source stays visible
+    });
+  }
+
   function activateFile(idx) {
     if (idx < 0 || idx >= fileDiffs.length) return;
 
@@ -1560,7 +1216,43 @@ const SCRIPT = `
     });
   });
 
-  activateFile(0);
+  // Live reload (--serve): the server sends "reload" when a source changes.
+  // The active file and scroll position survive the reload via sessionStorage.
+  const LIVE_STATE_KEY = 'md-diff-live-state';
+  const liveReloadUrl = document.documentElement.getAttribute('data-live-reload');
+
+  function findFileItem(attr, value) {
+    for (const item of fileItems) {
+      if (item.getAttribute(attr) === value) return item;
+    }
+    return null;
+  }
+
+  let initialFileIdx = 0;
+  const liveState = liveReloadUrl ? JSON.parse(sessionStorage.getItem(LIVE_STATE_KEY) || 'null') : null;
+  if (liveState) {
+    sessionStorage.removeItem(LIVE_STATE_KEY);
+    const item = liveState.path ? findFileItem('data-full-path', liveState.path) : null;
+    if (item || fileItems.length === 0) {
+      initialFileIdx = item ? parseInt(item.getAttribute('data-file-idx') || '0', 10) : 0;
+      saveScrollPosition(initialFileIdx, liveState.scrollTop);
+    }
+  }
+
+  activateFile(initialFileIdx);
+
+  if (liveReloadUrl) {
+    const events = new EventSource(liveReloadUrl);
+    events.addEventListener('reload', () => {
+      const pane = fileDiffs[currentFileIdx]?.querySelector('.left-pane');
+      const item = findFileItem('data-file-idx', String(currentFileIdx));
+      sessionStorage.setItem(LIVE_STATE_KEY, JSON.stringify({
+        path: item ? item.getAttribute('data-full-path') : null,
+        scrollTop: pane ? pane.scrollTop : 0,
+      }));
+      location.reload();
+    });
+  }
 
   // Keyboard navigation (arrow keys, no modifier needed)
   document.addEventListener('keydown', (e) => {
@@ -1654,8 +1346,8 @@ const SCRIPT = `
     const blockCache = new Map();
 
     const colors = {
-      dark: { added: '#22c55e', removed: '#ef4444', modified: '#eab308', equal: 'rgba(160, 160, 160, 0.2)', bg: '#2b2b2b' },
-      solar: { added: '#16a34a', removed: '#dc2626', modified: '#ca8a04', equal: 'rgba(120, 113, 108, 0.15)', bg: '#faf4e8' }
+      dark: { added: '#22c55e', removed: '#ef4444', modified: '#eab308', conflict: '#c47ae0', moved: '#6ea8d8', equal: 'rgba(160, 160, 160, 0.2)', bg: '#2b2b2b' },
+      solar: { added: '#16a34a', removed: '#dc2626', modified: '#ca8a04', conflict: '#8c4a8c', moved: '#3b6fa0', equal: 'rgba(120, 113, 108, 0.15)', bg: '#faf4e8' }
     };
     const getColors = () => colors[html.getAttribute('data-theme')] || colors.dark;
 
@@ -1679,9 +1371,11 @@ const SCRIPT = `
       for (let i = 0; i < blocks.length; i++) {
         const block = blocks[i];
         let status = 'equal';
-        if (block.classList.contains('added')) status = 'added';
+        if (block.classList.contains('conflict')) status = 'conflict';
+        else if (block.classList.contains('added')) status = 'added';
         else if (block.classList.contains('removed')) status = 'removed';
         else if (block.classList.contains('modified')) status = 'modified';
+        else if (block.classList.contains('moved')) status = 'moved';
         data.push({ top: block.offsetTop, height: block.offsetHeight, status });
       }
       return { scrollHeight: pane.scrollHeight, blocks: data };
@@ -1837,8 +1531,8 @@ const SCRIPT = `
       if (!block || !pane) return;
 
       // Determine side and get line number
-      const isLeft = pane.classList.contains('left-pane');
-      const lineAttr = isLeft ? 'data-line-left' : 'data-line-right';
+      const lineAttr = pane.classList.contains('left-pane') ? 'data-line-left'
+        : pane.classList.contains('base-pane') ? 'data-line-base' : 'data-line-right';
 
       // First try block-level line number, then look for inner data-line span
       let line = block.getAttribute(lineAttr);
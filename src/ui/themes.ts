@@ -34,6 +34,12 @@ export interface Theme {
   // Diff: modified
   modifiedBorder: string;
   modifiedBg: string;
+  // Three-way diff: changed differently on both sides
+  conflictBorder: string;
+  conflictBg: string;
+  // Diff: block moved elsewhere
+  movedBorder: string;
+  movedBg: string;
   // Inline diff: del/ins
   delBg: string;
   delText: string;
@@ -65,6 +71,14 @@ export interface Theme {
   scrollTrack: string;
   scrollThumb: string;
   scrollThumbHover: string;
+  // Syntax highlighting in code blocks
+  syntaxKeyword: string;
+  syntaxString: string;
+  syntaxNumber: string;
+  syntaxComment: string;
+  syntaxTitle: string;
+  syntaxType: string;
+  syntaxMeta: string;
 }
 
 // ── Dark theme ───────────────────────────────────────────────────
@@ -94,6 +108,10 @@ export const dark: Theme = {
   removedBg: "rgba(212, 115, 128, 0.1)",
   modifiedBorder: "#d4a057",
   modifiedBg: "rgba(212, 160, 87, 0.08)",
+  conflictBorder: "#c47ae0",
+  conflictBg: "rgba(196, 122, 224, 0.12)",
+  movedBorder: "#6ea8d8",
+  movedBg: "rgba(110, 168, 216, 0.1)",
   delBg: "rgba(212, 115, 128, 0.14)",
   delText: "#d47380",
   delMinorBg: "rgba(212, 115, 128, 0.1)",
@@ -120,6 +138,13 @@ export const dark: Theme = {
   scrollTrack: "#2b2b2b",
   scrollThumb: "#4a4a4a",
   scrollThumbHover: "#5a5a5a",
+  syntaxKeyword: "#c4a7e7",
+  syntaxString: "#a8c97e",
+  syntaxNumber: "#e0976e",
+  syntaxComment: "#7a7a7a",
+  syntaxTitle: "#7eb8da",
+  syntaxType: "#6bc5a0",
+  syntaxMeta: "#d4a057",
 };
 
 // ── Solar theme ──────────────────────────────────────────────────
@@ -149,6 +174,10 @@ export const solar: Theme = {
   removedBg: "rgba(181, 90, 90, 0.1)",
   modifiedBorder: "#b58a3b",
   modifiedBg: "rgba(181, 138, 59, 0.08)",
+  conflictBorder: "#8c4a8c",
+  conflictBg: "rgba(140, 74, 140, 0.1)",
+  movedBorder: "#3b6fa0",
+  movedBg: "rgba(59, 111, 160, 0.1)",
   delBg: "rgba(181, 90, 90, 0.09)",
   delText: "#9e4a4a",
   delMinorBg: "rgba(181, 90, 90, 0.07)",
@@ -175,6 +204,13 @@ export const solar: Theme = {
   scrollTrack: "#faf4e8",
   scrollThumb: "#c4b598",
   scrollThumbHover: "#b0a488",
+  syntaxKeyword: "#7a5a8c",
+  syntaxString: "#5a7a3b",
+  syntaxNumber: "#9e5a2a",
+  syntaxComment: "#9a8b77",
+  syntaxTitle: "#3b7a8c",
+  syntaxType: "#6b7a3b",
+  syntaxMeta: "#b58a3b",
 };
 
 export const themes = { dark, solar } as const;
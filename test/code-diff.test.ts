@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { diffCode } from "../src/core/code-diff.js";
+import { highlightLines, markRanges } from "../src/render/highlight.js";
+import { createDiffOptions } from "../src/config.js";
+import { diffMarkdown } from "../src/index.js";
+
+const before = "function add(a, b) {\n  return a + b;\n}";
+const after = "function add(a, b, c) {\n    return a + b;\n}\n// done";
+
+describe("diffCode", () => {
+  it("diffs line by line with char diffs for edited lines", () => {
+    const { lines } = diffCode(before, after);
+    expect(lines.map((line) => [line.status, line.leftLine, line.rightLine])).toEqual([
+      ["modified", 1, 1],
+      ["modified", 2, 2],
+      ["equal", 3, 3],
+      ["added", undefined, 4],
+    ]);
+    expect(lines[0].inlineDiff?.filter((p) => p.type !== "equal")).toEqual([{ type: "added", value: ", c" }]);
+    // Indentation is kept as-is, not collapsed like prose whitespace
+    expect(lines[1].right).toBe("    return a + b;");
+  });
+
+  it("shows unrelated lines as replaced without a char diff", () => {
+    const [line] = diffCode("let total = 0;", "print(done)").lines;
+    expect(line.status).toBe("modified");
+    expect(line.inlineDiff).toBeUndefined();
+  });
+
+  it("can ignore whitespace-only changes", () => {
+    const { lines } = diffCode(before, after, createDiffOptions({ ignoreWhitespace: true }));
+    expect(lines.map((line) => line.status)).toEqual(["modified", "equal", "equal", "added"]);
+  });
+});
+
+describe("code highlighting", () => {
+  it("splits highlighted code into lines with balanced spans", () => {
+    const lines = highlightLines("/* a\nb */ x", "js");
+    expect(lines).toEqual([
+      '<span class="hljs-comment">/* a</span>',
+      '<span class="hljs-comment">b */</span> x',
+    ]);
+    expect(highlightLines("<b>", "no-such-language")).toEqual(["&lt;b&gt;"]);
+  });
+
+  it("marks char ranges without breaking token spans", () => {
+    const html = '<span class="hljs-keyword">return</span> a;';
+    expect(markRanges(html, [[3, 8]], "char-added")).toBe(
+      '<span class="hljs-keyword">ret<span class="char-added">urn</span></span><span class="char-added"> a</span>;',
+    );
+  });
+});
+
+describe("code block rendering", () => {
+  const doc = (code: string) => "```js\n" + code + "\n```\n";
+
+  it("renders both sides line by line with spacers", () => {
+    const { rows } = diffMarkdown(doc(before), doc(after));
+    const [row] = rows;
+    expect(row.leftHtml).toContain('<pre class="code-diff"><code class="hljs language-js">');
+    expect(row.leftHtml).toContain('<span class="code-line line-spacer"> </span>');
+    expect(row.rightHtml).toContain('<span class="code-line line-added" data-code-line="4">');
+    expect(row.rightHtml).toContain('b<span class="char-added">, c</span>');
+  });
+
+  it("treats a reindented block as unchanged when ignoring whitespace", () => {
+    const reindented = doc(before.replace("  return", "\treturn"));
+    expect(diffMarkdown(doc(before), reindented).pairs[0].status).toBe("modified");
+    expect(diffMarkdown(doc(before), reindented, { ignoreWhitespace: true }).pairs[0].status).toBe("equal");
+  });
+});
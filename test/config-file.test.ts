@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { findConfigFile, loadProjectConfig, globToRegExp, createPathFilter } from "../src/cli/config-file.js";
+
+describe("findConfigFile", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "md-diff-config-"));
+    mkdirSync(join(root, "repo", "docs", "guide"), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("finds the nearest config walking up from the start directory", () => {
+    writeFileSync(join(root, "repo", ".mddiffrc"), "{}");
+    writeFileSync(join(root, "repo", "docs", "md-diff.config.json"), "{}");
+
+    expect(findConfigFile(join(root, "repo", "docs", "guide"), join(root, "repo")))
+      .toBe(join(root, "repo", "docs", "md-diff.config.json"));
+  });
+
+  it("prefers .mddiffrc over md-diff.config.json in the same directory", () => {
+    writeFileSync(join(root, "repo", ".mddiffrc"), "{}");
+    writeFileSync(join(root, "repo", "md-diff.config.json"), "{}");
+
+    expect(findConfigFile(join(root, "repo"), join(root, "repo"))).toBe(join(root, "repo", ".mddiffrc"));
+  });
+
+  it("does not look above the stop directory", () => {
+    writeFileSync(join(root, ".mddiffrc"), "{}");
+
+    expect(findConfigFile(join(root, "repo", "docs"), join(root, "repo"))).toBeNull();
+    expect(findConfigFile(join(root, "repo", "docs"), null)).toBe(join(root, ".mddiffrc"));
+  });
+});
+
+describe("loadProjectConfig", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "md-diff-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads the config and resolves out relative to the file", () => {
+    const path = join(dir, ".mddiffrc");
+    writeFileSync(path, JSON.stringify({ theme: "solar", match: "loose", out: "diff.html", ignore: ["CHANGELOG.md"] }));
+
+    expect(loadProjectConfig(path)).toEqual({
+      theme: "solar",
+      match: "loose",
+      out: join(dir, "diff.html"),
+      ignore: ["CHANGELOG.md"],
+    });
+  });
+
+  it("rejects invalid JSON and wrongly typed fields", () => {
+    const path = join(dir, ".mddiffrc");
+    writeFileSync(path, "{ theme: solar }");
+    expect(() => loadProjectConfig(path)).toThrow(/Failed to load config file/);
+
+    writeFileSync(path, JSON.stringify({ output: "pdf" }));
+    expect(() => loadProjectConfig(path)).toThrow(/"output" must be one of/);
+
+    writeFileSync(path, JSON.stringify({ ignore: "*.md" }));
+    expect(() => loadProjectConfig(path)).toThrow(/"ignore" must be an array/);
+  });
+});
+
+describe("path filtering", () => {
+  it("matches globs like .gitignore", () => {
+    expect(globToRegExp("CHANGELOG.md").test("docs/CHANGELOG.md")).toBe(true);
+    expect(globToRegExp("docs/*.md").test("docs/intro.md")).toBe(true);
+    expect(globToRegExp("docs/*.md").test("docs/guide/intro.md")).toBe(false);
+    expect(globToRegExp("docs/**/*.md").test("docs/intro.md")).toBe(true);
+    expect(globToRegExp("docs/**/*.md").test("docs/guide/intro.md")).toBe(true);
+    expect(globToRegExp("/README.md").test("sub/README.md")).toBe(false);
+  });
+
+  it("applies files as an allow-list and ignore as a deny-list", () => {
+    const filter = createPathFilter({ files: ["docs/**"], ignore: ["**/drafts/**"] })!;
+
+    expect(filter("docs/intro.md")).toBe(true);
+    expect(filter("docs/drafts/idea.md")).toBe(false);
+    expect(filter("README.md")).toBe(false);
+  });
+
+  it("returns null when nothing is restricted", () => {
+    expect(createPathFilter({})).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import type { RootContent } from "mdast";
+import { containerInfo } from "../src/text/containers.js";
+import { parseMarkdown, blockToText } from "../src/text/parse.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { renderText } from "../src/render/text.js";
+import { diffMarkdown, type ModifiedPair } from "../src/index.js";
+
+function block(source: string): RootContent {
+  return parseMarkdown(source).children[0];
+}
+
+const note = "> [!NOTE]\n> The first paragraph stays the same.\n>\n> The second one has a typo in it.\n";
+
+describe("container parsing", () => {
+  it("recognizes callouts, directives and details", () => {
+    expect(containerInfo(block(note))).toEqual({ kind: "callout", type: "NOTE", title: null });
+    expect(containerInfo(block("> just a quote\n"))).toEqual({ kind: "blockquote", type: null, title: null });
+    expect(containerInfo(block(":::warning[Careful]\nText\n:::\n")))
+      .toEqual({ kind: "directive", type: "warning", title: "Careful" });
+    expect(containerInfo(block("<details>\n<summary>More</summary>\n\nHidden.\n\n</details>\n")))
+      .toEqual({ kind: "details", type: null, title: "More" });
+  });
+
+  it("leaves colons in running text alone", () => {
+    expect(blockToText(block("Meet at 10:30, see:this.\n"))).toBe("Meet at 10:30, see:this.");
+  });
+
+  it("serializes nested directives with longer outer fences", () => {
+    const source = "::::outer\nText\n\n:::inner\nDeep\n:::\n::::\n";
+    expect(blockToText(block(source))).toBe(source.trimEnd());
+  });
+});
+
+describe("container diffing", () => {
+  it("matches the paragraphs inside a quote one by one", () => {
+    const { pairs } = diffMarkdown(note, note.replace("a typo", "no typo"));
+    const { containerDiff } = pairs[0] as ModifiedPair;
+    expect(containerDiff?.retyped).toBe(false);
+    expect(containerDiff?.pairs.map((pair) => pair.status)).toEqual(["equal", "modified"]);
+  });
+
+  it("reports a callout type change on its own", () => {
+    const { pairs, stats } = diffMarkdown(note, note.replace("[!NOTE]", "[!WARNING]"));
+    const { containerDiff } = pairs[0] as ModifiedPair;
+    expect(containerDiff?.retyped).toBe(true);
+    expect(containerDiff?.pairs.every((pair) => pair.status === "equal")).toBe(true);
+    expect(stats.containersRetyped).toBe(1);
+  });
+
+  it("diffs directives and details inside other containers", () => {
+    const before = "::::outer\nText stays.\n\n:::inner\nDeep text here.\n:::\n::::\n";
+    const { pairs } = diffMarkdown(before, before.replace("here", "there"));
+    const outer = (pairs[0] as ModifiedPair).containerDiff!;
+    expect(outer.pairs.map((pair) => pair.status)).toEqual(["equal", "modified"]);
+    const inner = (outer.pairs[1] as ModifiedPair).containerDiff!;
+    expect(inner.right).toEqual({ kind: "directive", type: "inner", title: null });
+    expect(inner.pairs.map((pair) => pair.status)).toEqual(["modified"]);
+  });
+});
+
+describe("container rendering", () => {
+  it("renders a row per inner block, framed like the container", () => {
+    const { rows } = diffMarkdown(note, note.replace("[!NOTE]", "[!WARNING]").replace("a typo", "no typo"));
+    expect(rows.map((row) => row.status)).toEqual(["modified", "equal", "modified"]);
+    expect(rows[0].leftHtml).toContain('<p class="callout-title"><span class="container-retyped">Note</span></p>');
+    expect(rows[0].rightHtml).toContain('<div class="container-part container-callout callout-warning">');
+    expect(rows[1].rightHtml).toContain("<p>The first paragraph stays the same.</p>");
+  });
+
+  it("renders unchanged callouts with their title", () => {
+    const { rows } = diffMarkdown(note, note);
+    expect(rows[0].leftHtml).toBe(
+      '<blockquote class="callout callout-note"><p class="callout-title">Note</p>' +
+      "<p>The first paragraph stays the same.</p><p>The second one has a typo in it.</p></blockquote>",
+    );
+  });
+
+  it("keeps the container markup in the markdown redline and text output", () => {
+    const { pairs } = diffMarkdown(note, note.replace("[!NOTE]", "[!WARNING]").replace("a typo", "no typo"));
+    expect(renderMarkdown(pairs)).toBe(
+      "> [!WARNING]\n> <del>[!NOTE]</del>\n>\n> The first paragraph stays the same.\n>\n" +
+      "> The second one has <del>a</del> <ins>no</ins> typo in it.\n",
+    );
+    expect(renderText(pairs, "a", "b")).toContain("~ > [-[!NOTE]-]{+[!WARNING]+}\n~ > The first paragraph");
+  });
+});
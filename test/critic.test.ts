@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { parseCriticMarkup } from "../src/text/critic.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { diffBlocks } from "../src/core/diff.js";
+import { parseMarkdown, extractBlocks } from "../src/text/parse.js";
+
+function critic(left: string, right: string): string {
+  const pairs = diffBlocks(extractBlocks(parseMarkdown(left)), extractBlocks(parseMarkdown(right)));
+  return renderMarkdown(pairs, { style: "critic" });
+}
+
+describe("parseCriticMarkup", () => {
+  it("splits additions, deletions and substitutions into both sides", () => {
+    const doc = parseCriticMarkup("The {~~quick~>slow~~} fox {--really --}jumps{++ high++}.\n");
+    expect(doc.original).toBe("The quick fox really jumps.\n");
+    expect(doc.modified).toBe("The slow fox jumps high.\n");
+    expect(doc.changes).toBe(3);
+  });
+
+  it("keeps highlights on both sides and drops comments", () => {
+    const doc = parseCriticMarkup("A {==key==}{>>check this<<} point.\n");
+    expect(doc.original).toBe("A key point.\n");
+    expect(doc.modified).toBe("A key point.\n");
+    expect(doc.changes).toBe(0);
+  });
+
+  it("drops the line breaks around markers that wrap whole blocks", () => {
+    const doc = parseCriticMarkup("Intro.\n\n{--\n```js\nold();\n```\n--}\n");
+    expect(doc.original).toBe("Intro.\n\n```js\nold();\n```\n");
+  });
+});
+
+describe("critic output", () => {
+  const left = "# Title\n\nThe quick brown fox jumps over the lazy dog.\n\nThis paragraph goes away.\n";
+
+  it("emits substitutions, deletions and additions", () => {
+    const right = "# Title\n\nThe quick brown fox leaps over the lazy dog.\n\nA completely new closing thought.\n";
+    const out = critic(left, right);
+    expect(out).toContain("The quick brown fox {~~jumps~>leaps~~} over the lazy dog.");
+    expect(out).toContain("{--This paragraph goes away.--}");
+    expect(out).toContain("{++A completely new closing thought.++}");
+  });
+
+  it("round-trips through the parser", () => {
+    const right = "# New Title\n\nThe quick brown fox leaps over the lazy dog.\n\n```js\nconst a = 2;\n```\n";
+    const doc = parseCriticMarkup(critic(left + "\n```js\nconst a = 1;\n```\n", right));
+    const blocks = (text: string) => extractBlocks(parseMarkdown(text)).map((b) => b.type);
+    expect(blocks(doc.original)).toEqual(["heading", "paragraph", "paragraph", "code"]);
+    expect(blocks(doc.modified)).toEqual(["heading", "paragraph", "code"]);
+    expect(doc.modified).toContain("The quick brown fox leaps over the lazy dog.");
+    expect(doc.modified).toContain("const a = 2;");
+    expect(doc.original).toContain("const a = 1;");
+  });
+
+  it("puts whole added and removed list items inside the markers", () => {
+    const before = "Steps:\n\n1. alpha\n2. beta\n   - detail\n3. gamma\n";
+    const after = "Steps:\n\n1. first\n2. alpha\n3. gamma\n4. delta\n";
+    const out = critic(before, after);
+    expect(out).toContain("{++1. first\n++}{~~1.~>2.~~} alpha\n{--2. beta\n   - detail\n--}");
+    expect(out).toContain("gamma{++\n4. delta++}");
+    expect(parseCriticMarkup(out)).toMatchObject({ original: before, modified: after });
+  });
+
+  it("substitutes a callout's type on its own line", () => {
+    const before = "> [!NOTE]\n> Keep backups of your data.\n>\n> Restore them often.\n";
+    const after = "> [!WARNING]\n> Keep backups of your files.\n>\n> Restore them often.\n";
+    const out = critic(before, after);
+    expect(out).toBe("> {~~[!NOTE]~>[!WARNING]~~}\n> Keep backups of your {~~data.~>files.~~}\n>\n> Restore them often.\n");
+    expect(parseCriticMarkup(out).original).toBe(before);
+    expect(parseCriticMarkup(out).modified).toBe(after);
+  });
+
+  it("marks paragraph splits as an inserted break", () => {
+    const original = "The committee met on Monday to discuss the budget. After a long debate the members agreed on a compromise.";
+    const out = critic(original, original.replace(". After", ".\n\nAfter"));
+    expect(out).toContain("budget.{~~ ~>\n\n~~}After");
+    expect(parseCriticMarkup(out).original.trim()).toBe(original);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { renderDiagram } from "../src/render/diagrams.js";
+import { diffMarkdown } from "../src/index.js";
+
+const flow = "```mermaid\ngraph TD\n  A[Client] --> B[Server]\n  B --> C[Database]\n```\n";
+
+describe("mermaid diagrams", () => {
+  it("draws both sides of a changed diagram, with the line diff behind a toggle", () => {
+    const { rows } = diffMarkdown(flow, flow.replace("Database", "Cache"));
+    expect(rows[0].status).toBe("modified");
+    expect(rows[0].leftHtml).toContain('<div class="diagram-rendered"><pre class="mermaid">graph TD\n  A[Client] --&gt; B[Server]');
+    expect(rows[0].rightHtml).toContain("B --&gt; C[Cache]</pre>");
+    expect(rows[0].rightHtml).toContain('<button class="diagram-toggle" type="button"');
+    expect(rows[0].rightHtml).toMatch(/<div class="diagram-source"><pre class="code-diff">.*line-modified/s);
+  });
+
+  it("embeds the installed Mermaid only in pages with a Mermaid diagram", () => {
+    const { html } = diffMarkdown(flow, flow.replace("Database", "Cache"));
+    expect(html).toContain('globalThis["mermaid"]');
+    expect(html).not.toContain("cdn.jsdelivr.net");
+    expect(diffMarkdown("Plain text.\n", "Plain prose.\n").html).not.toContain('globalThis["mermaid"]');
+  });
+
+  it("draws unchanged diagrams too", () => {
+    const { rows } = diffMarkdown(flow, flow);
+    expect(rows[0].leftHtml).toContain('<pre class="mermaid">');
+    expect(rows[0].leftHtml).toContain('<div class="diagram-source"><pre><code');
+  });
+});
+
+describe("graphviz and plantuml diagrams", () => {
+  let bin: string;
+  let path: string | undefined;
+
+  beforeAll(() => {
+    bin = mkdtempSync(join(tmpdir(), "md-diff-diagrams-"));
+    path = process.env.PATH;
+  });
+
+  afterAll(() => {
+    process.env.PATH = path;
+    rmSync(bin, { recursive: true, force: true });
+  });
+
+  it("renders with the local executable as an SVG image", () => {
+    const dot = join(bin, "dot");
+    writeFileSync(dot, "#!/bin/sh\ncat > /dev/null\necho '<svg xmlns=\"http://www.w3.org/2000/svg\"></svg>'\n");
+    chmodSync(dot, 0o755);
+    process.env.PATH = `${bin}:${path}`;
+    const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>\n').toString("base64");
+    expect(renderDiagram("digraph { a -> b }", "dot", true)).toBe(
+      `<img class="diagram-image" src="data:image/svg+xml;base64,${svg}" alt="">`,
+    );
+  });
+
+  it("runs local executables only when asked to", () => {
+    const dot = join(bin, "dot");
+    writeFileSync(dot, "#!/bin/sh\ncat > /dev/null\necho '<svg></svg>'\n");
+    chmodSync(dot, 0o755);
+    process.env.PATH = `${bin}:${path}`;
+    const graph = "```dot\ndigraph { a -> b }\n```\n";
+    expect(renderDiagram("digraph { a -> c }", "dot", false)).toBeNull();
+    expect(diffMarkdown(graph, graph).rows[0].leftHtml).not.toContain("diagram-image");
+    expect(diffMarkdown(graph, graph, { renderDiagrams: true }).rows[0].leftHtml).toContain("diagram-image");
+  });
+
+  it("runs PlantUML in its sandbox", () => {
+    const plantuml = join(bin, "plantuml");
+    writeFileSync(plantuml, "#!/bin/sh\ncat > /dev/null\necho \"<svg>$PLANTUML_SECURITY_PROFILE</svg>\"\n");
+    chmodSync(plantuml, 0o755);
+    process.env.PATH = `${bin}:${path}`;
+    const html = renderDiagram("@startuml\n!include /etc/passwd\n@enduml", "plantuml", true);
+    expect(Buffer.from(html!.match(/base64,([^"]+)/)![1], "base64").toString()).toBe("<svg>SANDBOX</svg>\n");
+    rmSync(plantuml);
+  });
+
+  it("stays code without the executable", () => {
+    process.env.PATH = bin;
+    expect(renderDiagram("@startuml\nA -> B\n@enduml", "plantuml", true)).toBeNull();
+    const { rows } = diffMarkdown(
+      "```plantuml\n@startuml\nA -> B\n@enduml\n```\n", "```plantuml\n@startuml\nA -> C\n@enduml\n```\n",
+      { renderDiagrams: true },
+    );
+    expect(rows[0].rightHtml).not.toContain("diagram");
+  });
+
+  it("leaves other code blocks alone", () => {
+    expect(renderDiagram("const a = 1;", "js", true)).toBeNull();
+    expect(renderDiagram("text", "toString", true)).toBeNull();
+  });
+});
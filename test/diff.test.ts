@@ -329,12 +329,12 @@ This is not post-scarcity in the utopian sense but it represents a changed condi
       expect(blockToText(splitPair.original)).toContain("post-scarcity");
 
       // First part should be the first sentence
-      expect(blockToText(splitPair.firstPart)).toContain("evidence");
-      expect(blockToText(splitPair.firstPart)).not.toContain("post-scarcity");
+      expect(blockToText(splitPair.parts[0])).toContain("evidence");
+      expect(blockToText(splitPair.parts[0])).not.toContain("post-scarcity");
 
       // Second part should be the second sentence
-      expect(blockToText(splitPair.secondPart)).toContain("post-scarcity");
-      expect(blockToText(splitPair.secondPart)).not.toContain("evidence");
+      expect(blockToText(splitPair.parts[1])).toContain("post-scarcity");
+      expect(blockToText(splitPair.parts[1])).not.toContain("evidence");
     }
   });
 
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, readdirSync, rmSync, statSync, chmodSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  parseExternalDiffArgs,
+  externalDiffEntry,
+  collectBatchEntry,
+  directoryEntries,
+  addGitAttributes,
+  globalAttributesFile,
+  gitConfigEntries,
+  GIT_ATTRIBUTES_LINE,
+} from "../src/cli/difftool.js";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "md-diff-difftool-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe("parseExternalDiffArgs", () => {
+  it("accepts git's seven and nine argument forms", () => {
+    const args = ["a.md", "/tmp/old", "abc", "100644", "/tmp/new", "def", "100644"];
+    expect(parseExternalDiffArgs(args)?.newFile).toBe("/tmp/new");
+    expect(parseExternalDiffArgs([...args, "b.md", "similarity index 90%"])?.newPath).toBe("b.md");
+    expect(parseExternalDiffArgs(["old.md", "new.md"])).toBeNull();
+  });
+
+  it("reads /dev/null as an empty side and labels renames", () => {
+    const file = join(root, "new.md");
+    writeFileSync(file, "# New\n");
+    const args = parseExternalDiffArgs(["a.md", "/dev/null", ".", ".", file, "def", "100644", "b.md", "rename"])!;
+    expect(externalDiffEntry(args)).toEqual({ path: "a.md → b.md", leftContent: "", rightContent: "# New\n" });
+  });
+});
+
+describe("collectBatchEntry", () => {
+  const entry = (path: string) => ({ path, leftContent: "old", rightContent: "new" });
+  const env = (counter: number, total: number) => ({
+    GIT_DIFF_PATH_COUNTER: String(counter),
+    GIT_DIFF_PATH_TOTAL: String(total),
+  });
+
+  it("returns every entry of the batch on the last invocation", () => {
+    const options = { dir: root, key: "repo" };
+    expect(collectBatchEntry(entry("a.md"), { ...options, env: env(1, 3) })).toBeNull();
+    expect(collectBatchEntry(null, { ...options, env: env(2, 3) })).toBeNull();
+    expect(collectBatchEntry(entry("c.md"), { ...options, env: env(3, 3) })?.map((e) => e.path))
+      .toEqual(["a.md", "c.md"]);
+  });
+
+  it("starts over when the first file comes again", () => {
+    const options = { dir: root, key: "repo" };
+    collectBatchEntry(entry("stale.md"), { ...options, env: env(1, 2) });
+    collectBatchEntry(entry("a.md"), { ...options, env: env(1, 2) });
+    expect(collectBatchEntry(null, { ...options, env: env(2, 2) })?.map((e) => e.path)).toEqual(["a.md"]);
+  });
+
+  it.skipIf(process.platform === "win32")("keeps pending entries in a directory only the user can read", () => {
+    const options = { dir: root, key: "repo" };
+    collectBatchEntry(entry("a.md"), { ...options, env: env(1, 2) });
+    const [name] = readdirSync(root);
+    expect(name).toMatch(new RegExp(`^md-diff-batch-${process.getuid!()}-`));
+    expect(statSync(join(root, name)).mode & 0o777).toBe(0o700);
+
+    // A directory others can write to may hold planted entries
+    chmodSync(join(root, name), 0o777);
+    expect(() => collectBatchEntry(null, { ...options, env: env(2, 2) })).toThrow(/not a private directory/);
+  });
+
+  it("treats an invocation without counters as its own batch", () => {
+    expect(collectBatchEntry(entry("a.md"), { dir: root, env: {} })).toEqual([entry("a.md")]);
+    expect(collectBatchEntry(null, { dir: root, env: {} })).toEqual([]);
+  });
+});
+
+describe("directoryEntries", () => {
+  it("lists changed, added and deleted markdown files in both trees", () => {
+    const left = join(root, "left");
+    const right = join(root, "right");
+    mkdirSync(join(left, "docs"), { recursive: true });
+    mkdirSync(join(right, "docs"), { recursive: true });
+    writeFileSync(join(left, "same.md"), "same");
+    writeFileSync(join(right, "same.md"), "same");
+    writeFileSync(join(left, "docs", "guide.md"), "old");
+    writeFileSync(join(right, "docs", "guide.md"), "new");
+    writeFileSync(join(left, "gone.md"), "gone");
+    writeFileSync(join(right, "notes.txt"), "ignored");
+
+    expect(directoryEntries(left, right)).toEqual([
+      { path: join("docs", "guide.md"), leftContent: "old", rightContent: "new" },
+      { path: "gone.md", leftContent: "gone", rightContent: "" },
+    ]);
+  });
+});
+
+describe("install-git", () => {
+  it("registers the difftool and the diff driver", () => {
+    expect(Object.fromEntries(gitConfigEntries())).toEqual({
+      "difftool.md-diff.cmd": "md-diff --difftool \"$LOCAL\" \"$REMOTE\" \"$MERGED\"",
+      "diff.md-diff.command": "md-diff --difftool --no-batch",
+    });
+  });
+
+  it("adds the attributes line once", () => {
+    const file = join(root, "git", "attributes");
+    expect(addGitAttributes(file)).toBe(true);
+    expect(addGitAttributes(file)).toBe(false);
+    expect(readFileSync(file, "utf-8")).toBe(`${GIT_ATTRIBUTES_LINE}\n`);
+
+    const existing = join(root, ".gitattributes");
+    writeFileSync(existing, "*.png binary");
+    addGitAttributes(existing);
+    expect(readFileSync(existing, "utf-8")).toBe(`*.png binary\n${GIT_ATTRIBUTES_LINE}\n`);
+  });
+
+  it("uses core.attributesFile or the XDG default", () => {
+    expect(globalAttributesFile("/etc/attrs")).toBe("/etc/attrs");
+    expect(globalAttributesFile(null, { XDG_CONFIG_HOME: "/cfg" })).toBe(join("/cfg", "git", "attributes"));
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { parseMarkdown, blockToText } from "../src/text/parse.js";
+import { linkReferences } from "../src/core/footnotes.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { diffMarkdown } from "../src/index.js";
+
+const before = [
+  "Cats sleep a lot during the day.[^1]",
+  "Dogs like long walks in the park.[^2]",
+  "[^1]: Smith, Cat Behaviour, 2001.",
+  "[^2]: Jones, Dog Days, 1999.",
+  "[docs]: https://example.com/docs",
+].join("\n\n") + "\n";
+
+const after = [
+  "Birds sing in the morning.[^1]",
+  "Cats sleep a lot during the day.[^2]",
+  "Dogs like long walks in the park.[^3]",
+  "[^1]: Brown, Birdsong, 2010.",
+  "[^2]: Smith, Cat Behaviour, 2001.",
+  "[^3]: Jones, Dog Days, 1999.",
+  "[guide]: https://example.com/docs",
+].join("\n\n") + "\n";
+
+describe("footnote parsing", () => {
+  it("keeps references and definitions with their labels", () => {
+    const blocks = parseMarkdown(before).children.map(blockToText);
+    expect(blocks[0]).toBe("Cats sleep a lot during the day.[^1]");
+    expect(blocks[2]).toBe("[^1]: Smith, Cat Behaviour, 2001.");
+    expect(blocks[4]).toBe("[docs]: https://example.com/docs");
+  });
+
+  it("links definitions by content rather than label", () => {
+    const links = linkReferences(parseMarkdown(before).children, parseMarkdown(after).children);
+    expect([...links.footnotes]).toEqual([["1", "2"], ["2", "3"]]);
+    expect([...links.definitions]).toEqual([["docs", "guide"]]);
+  });
+});
+
+describe("footnote diffing", () => {
+  it("marks renumbered references and definitions as minor", () => {
+    const { pairs, stats } = diffMarkdown(before, after);
+    const cats = pairs.find((pair) => pair.status === "modified" && pair.left.type === "paragraph");
+    expect(cats?.status === "modified" && cats.inlineDiff.filter((part) => part.type !== "equal")).toEqual([
+      expect.objectContaining({ value: "day.[^1]", minor: true, renumbered: true }),
+      expect.objectContaining({ value: "day.[^2]", minor: true, renumbered: true }),
+    ]);
+    expect(stats.wordsRemoved).toBe(0);
+  });
+
+  it("keeps the new labels unmarked in the redline", () => {
+    const { pairs } = diffMarkdown(before, after);
+    const redline = renderMarkdown(pairs);
+    expect(redline).toContain("Cats sleep a lot during the day.[^2]\n\n");
+    expect(redline).toContain("\n[^2]: Smith, Cat Behaviour, 2001.\n");
+    expect(redline).toContain("\n[guide]: https://example.com/docs\n");
+  });
+
+  it("shows each footnote as a note after the first block that cites it", () => {
+    const { rows } = diffMarkdown(before, after);
+    expect(rows[0].rightHtml).toContain('Birds sing in the morning.<sup class="footnote-ref">1</sup>');
+    expect(rows[0].rightHtml).toContain('<div class="footnote-definition"><sup class="footnote-label">1</sup><p>Brown');
+    expect(rows[1].rightHtml).toContain('day.<span class="char-added minor"><sup class="footnote-ref">2</sup></span>');
+    expect(rows[2].rightHtml).toContain("Smith, Cat Behaviour, 2001.");
+    expect(rows[3].leftHtml).toContain("Dogs like long walks");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { computeInlineDiff } from "../src/core/inline-diff.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { diffMarkdown } from "../src/index.js";
+
+const report = "Please make this phrase stand out in the final report for everyone.";
+
+function changes(before: string, after: string) {
+  return computeInlineDiff(before, after).filter((part) => part.type !== "equal");
+}
+
+describe("formatting change detection", () => {
+  it("flags bold, italic, code and strikethrough toggles", () => {
+    for (const after of [
+      report.replace("this phrase", "**this phrase**"),
+      report.replace("this phrase", "*this phrase*"),
+      report.replace("final", "`final`"),
+      report.replace("stand", "~~stand~~"),
+    ]) {
+      const parts = changes(report, after);
+      expect(parts.map((part) => [part.type, part.formatting])).toEqual([["removed", true], ["added", true]]);
+    }
+  });
+
+  it("flags swapped formatting and leaves text changes alone", () => {
+    const bold = report.replace("this phrase", "**this phrase**");
+    expect(changes(bold, bold.replace("**this phrase**", "*this phrase*")).every((part) => part.formatting)).toBe(true);
+    expect(changes(bold, bold.replace("**this phrase**", "**that phrase**")).some((part) => part.formatting)).toBe(false);
+  });
+});
+
+describe("formatting change rendering", () => {
+  const after = report.replace("this phrase", "**this phrase**").replace("final", "last");
+
+  it("shows each side's formatting unmarked, with a badge", () => {
+    const { rows } = diffMarkdown(report, after);
+    const flagged = (text: string) =>
+      `<span class="diff-part formatting-changed" title="formatting changed">${text}</span>` +
+      '<span class="formatting-badge">formatting changed</span>';
+    expect(rows[0].leftHtml).toContain(flagged("this phrase"));
+    expect(rows[0].rightHtml).toContain(flagged("<strong>this phrase</strong>"));
+    expect(rows[0].rightHtml).toContain("<ins>last </ins>");
+  });
+
+  it("keeps the new formatting in the redline", () => {
+    const { pairs } = diffMarkdown(report, after);
+    expect(renderMarkdown(pairs)).toBe(
+      "Please make **this phrase** stand out in the <del>final</del> <ins>last</ins> report for everyone.\n",
+    );
+    expect(renderMarkdown(pairs, { style: "critic" })).toContain("{~~this phrase~>**this phrase**~~}");
+  });
+
+  it("counts formatting changes apart from words", () => {
+    const { stats } = diffMarkdown(report, after);
+    expect(stats.formattingChanged).toBe(1);
+    expect(stats.wordsAdded).toBe(1);
+    expect(stats.wordsRemoved).toBe(1);
+  });
+});
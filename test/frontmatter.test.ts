@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { splitFrontmatter } from "../src/text/frontmatter.js";
+import { diffDocumentFrontmatter, hasFrontmatterChanges } from "../src/core/frontmatter.js";
+import { parseMarkdown, extractBlocks } from "../src/text/parse.js";
+import { diffBlocks } from "../src/core/diff.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { parseCriticMarkup } from "../src/text/critic.js";
+import { diffMarkdown } from "../src/index.js";
+
+const before = `---
+title: Hello
+tags: [a, b, c]
+author:
+  name: Ann
+  email: a@example.com
+draft: true
+---
+
+# Body
+
+Some text here.
+`;
+
+const after = `---
+title: Hello world
+tags: [a, c, d]
+author:
+  name: Ann
+  email: ann@example.com
+date: 2024-01-01
+---
+
+# Body
+
+Some text here.
+`;
+
+describe("splitFrontmatter", () => {
+  it("parses a YAML header and blanks it out of the body", () => {
+    const { frontmatter, body } = splitFrontmatter(before);
+    expect(frontmatter?.format).toBe("yaml");
+    expect(frontmatter?.data.title).toBe("Hello");
+    expect(body.split("\n").length).toBe(before.split("\n").length);
+    expect(body.trimStart().startsWith("# Body")).toBe(true);
+  });
+
+  it("parses a TOML header", () => {
+    const { frontmatter } = splitFrontmatter("+++\ntitle = \"Hi\"\n[params]\nweight = 2\n+++\n\nBody\n");
+    expect(frontmatter?.format).toBe("toml");
+    expect(frontmatter?.data).toEqual({ title: "Hi", params: { weight: 2 } });
+  });
+
+  it("leaves fences that aren't a key/value header in the body", () => {
+    const source = "---\nJust a sentence between rules.\n---\n";
+    expect(splitFrontmatter(source)).toEqual({ frontmatter: null, body: source });
+    expect(splitFrontmatter("Text\n\n---\ntitle: x\n---\n").frontmatter).toBeNull();
+  });
+
+  it("keeps body line numbers when parsing", () => {
+    const heading = parseMarkdown(before).children[0];
+    expect(heading.type).toBe("heading");
+    expect(heading.position?.start.line).toBe(10);
+  });
+});
+
+describe("diffDocumentFrontmatter", () => {
+  it("reports changed, added and removed keys down to nested values", () => {
+    const diff = diffDocumentFrontmatter(before, after)!;
+    const changed = diff.changes.filter((ch) => ch.status !== "equal").map((ch) => [ch.status, ch.path]);
+    expect(changed).toEqual([
+      ["changed", "title"],
+      ["removed", "tags[1]"],
+      ["added", "tags[2]"],
+      ["changed", "author.email"],
+      ["removed", "draft"],
+      ["added", "date"],
+    ]);
+    expect(diff.changes.find((ch) => ch.path === "author.name")?.status).toBe("equal");
+  });
+
+  it("is null without headers and flags a header that appeared", () => {
+    expect(diffDocumentFrontmatter("# A\n", "# B\n")).toBeNull();
+    const diff = diffDocumentFrontmatter("# A\n", "---\ntitle: A\n---\n# A\n")!;
+    expect(diff.changes).toEqual([{ path: "title", status: "added", right: "A" }]);
+    expect(hasFrontmatterChanges(diff)).toBe(true);
+  });
+
+  it("sees no change in an identical header", () => {
+    expect(hasFrontmatterChanges(diffDocumentFrontmatter(before, before)!)).toBe(false);
+  });
+});
+
+describe("diffMarkdown with frontmatter", () => {
+  it("diffs the header apart from the body", () => {
+    const result = diffMarkdown(before, after);
+    expect(result.pairs.every((p) => p.status === "equal")).toBe(true);
+    expect(result.stats).toMatchObject({ blocksModified: 0, keysAdded: 2, keysRemoved: 2, keysChanged: 2 });
+    expect(result.html).toContain('class="frontmatter-diff"');
+  });
+});
+
+describe("renderMarkdown with frontmatter", () => {
+  const redline = (left: string, right: string, style: "html" | "critic") => {
+    const pairs = diffBlocks(extractBlocks(parseMarkdown(left)), extractBlocks(parseMarkdown(right)));
+    return renderMarkdown(pairs, { style, frontmatter: diffDocumentFrontmatter(left, right) });
+  };
+
+  it("keeps the new header and lists the changed keys after it", () => {
+    const out = redline(before, after, "html");
+    expect(out).toContain("---\n\n- `title`: <del>Hello</del> <ins>Hello world</ins>\n");
+    expect(out).toContain("- <del>`draft`: true</del>\n- <ins>`date`: 2024-01-01</ins>\n\n# Body");
+    expect(out.startsWith("---\ntitle: Hello world\n")).toBe(true);
+  });
+
+  it("leaves an unchanged header as it is", () => {
+    expect(redline(before, before, "html")).toBe(before);
+  });
+
+  it("marks header lines in CriticMarkup so rejecting the changes restores the old header", () => {
+    const out = redline(before, after, "critic");
+    expect(out).toContain("---\n{~~title: Hello~>title: Hello world~~}\n{~~tags: [a, b, c]~>tags: [a, c, d]~~}\n");
+    const doc = parseCriticMarkup(out);
+    expect(doc.original).toBe(before);
+    expect(doc.modified).toBe(after);
+  });
+
+  it("adds or removes a whole header in CriticMarkup", () => {
+    const body = "# Body\n\nSome text here.\n";
+    expect(parseCriticMarkup(redline(body, after, "critic"))).toMatchObject({ original: body, modified: after });
+    expect(parseCriticMarkup(redline(before, body, "critic"))).toMatchObject({ original: before, modified: body });
+  });
+});
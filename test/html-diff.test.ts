@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { parseTag, sanitizeHtml } from "../src/text/html-dom.js";
+import { diffHtml } from "../src/core/html-diff.js";
+import { diffMarkdown } from "../src/index.js";
+
+const logo = '<p align="center">\n  <img src="logo.png" width="100" alt="Logo">\n</p>\n';
+
+describe("HTML parsing", () => {
+  it("reads a tag's name and attributes", () => {
+    const tag = parseTag('<img src="a.png" ALT=\'x\' width=20 hidden>');
+    expect(tag?.name).toBe("img");
+    expect([...tag!.attributes]).toEqual([["src", "a.png"], ["alt", "x"], ["width", "20"], ["hidden", ""]]);
+    expect(parseTag("</kbd>")).toMatchObject({ name: "kbd", closing: true });
+    expect(parseTag("a <b> c")).toBeNull();
+  });
+
+  it("sanitizes scripts, event handlers and javascript URLs", () => {
+    const html = '<img src="a.png" onerror="x()"><script>alert(1)</script><a href="javascript:alert(1)">go</a>';
+    expect(sanitizeHtml(html)).toBe('<img src="a.png"><a>go</a>');
+  });
+});
+
+describe("HTML block diffing", () => {
+  it("reports attribute-only changes per element", () => {
+    const diff = diffHtml(logo, logo.replace("logo.png", "logo-dark.png"));
+    expect(diff.attributesOnly).toBe(true);
+    const [paragraph] = diff.nodes.filter((node) => node.status !== "equal");
+    const img = paragraph.children!.find((node) => node.status === "modified");
+    expect(img?.attributes).toEqual([{ name: "src", left: "logo.png", right: "logo-dark.png" }]);
+  });
+
+  it("draws both sides with an attribute note instead of a text diff", () => {
+    const { rows } = diffMarkdown(logo, logo.replace('width="100"', 'width="120"'));
+    expect(rows[0].status).toBe("modified");
+    expect(rows[0].leftHtml).toContain('<img src="logo.png" width="100" alt="Logo"');
+    expect(rows[0].rightHtml).toContain('class="html-attr-changed"');
+    expect(rows[0].rightHtml).toContain('<span class="attr-badge">attributes changed</span>');
+    expect(rows[0].rightHtml).toContain("width: &quot;100&quot; → &quot;120&quot;");
+    expect(rows[0].rightHtml).not.toMatch(/<ins>|<del>/);
+  });
+
+  it("marks changed text and added elements inside HTML", () => {
+    const table = "<table>\n<tr><td>One</td><td>Two</td></tr>\n</table>\n";
+    const { rows } = diffMarkdown(table, table.replace("Two", "Three").replace("</tr>", "</tr>\n<tr><td>New</td></tr>"));
+    expect(rows[0].leftHtml).toContain("<td><del>Two</del></td>");
+    expect(rows[0].rightHtml).toContain("<td><ins>Three</ins></td>");
+    expect(rows[0].rightHtml).toContain('<tr class="html-added"><td>New</td></tr>');
+  });
+
+  it("renders unchanged HTML sanitized", () => {
+    const source = '<div align="center" onclick="x()">Hi</div>\n\nPress <kbd onclick="x()">Ctrl</kbd><br>\n';
+    const { rows } = diffMarkdown(source, source);
+    expect(rows[0].leftHtml).toBe('<div align="center">Hi</div>');
+    expect(rows[1].leftHtml).toContain("Press <kbd>Ctrl</kbd><br>");
+  });
+});
+
+describe("inline HTML diffing", () => {
+  const text = 'The logo <img src="a.png" alt="Logo"> sits in the text.<br>Next line.';
+
+  it("flags an inline tag whose attributes changed", () => {
+    const { rows } = diffMarkdown(text, text.replace("a.png", "b.png"));
+    expect(rows[0].leftHtml).toContain('title="src: &quot;a.png&quot; → &quot;b.png&quot;"><img src="a.png" alt="Logo"></span>');
+    expect(rows[0].rightHtml).toContain('<img src="b.png" alt="Logo"></span><span class="attr-badge">attributes changed</span>');
+    expect(rows[0].rightHtml).toContain("text.<br>Next");
+  });
+
+  it("shows other inline tags as text and leaves code spans alone", () => {
+    const source = "Press <kbd>Ctrl</kbd> to copy `<br>` here.";
+    const { rows } = diffMarkdown(source, source.replace("copy", "paste"));
+    expect(rows[0].rightHtml).toContain('<span class="html-tag">&lt;kbd&gt;</span>Ctrl<span class="html-tag">&lt;/kbd&gt;</span>');
+    expect(rows[0].rightHtml).toContain("`&lt;br&gt;`");
+  });
+});
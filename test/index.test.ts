@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { diffMarkdown, createDiffOptions, listMatchingLevels, resolveMatchingProfile } from "../src/index.js";
+
+describe("diffMarkdown library API", () => {
+  it("returns pairs, stats, rows and html", () => {
+    const result = diffMarkdown(
+      "# Title\n\nThe quick brown fox jumps over the lazy dog.",
+      "# Title\n\nThe quick brown fox leaps over the lazy dog.",
+    );
+
+    expect(result.pairs.map((p) => p.status)).toEqual(["equal", "modified"]);
+    expect(result.stats.blocksEqual).toBe(1);
+    expect(result.stats.blocksModified).toBe(1);
+    expect(result.rows).toHaveLength(2);
+    expect(result.html).toMatch(/^<!DOCTYPE html>/);
+    expect(result.html).toContain("leaps");
+  });
+
+  it("uses the given titles in the HTML page", () => {
+    const { html } = diffMarkdown("a", "b", { leftTitle: "v1.md", rightTitle: "v2.md" });
+    expect(html).toContain("v1.md");
+    expect(html).toContain("v2.md");
+  });
+
+  it("applies matching level and threshold overrides per call", () => {
+    const left = "The committee reviewed the annual budget proposal and approved most items.";
+    const right = "The committee reviewed several unrelated topics during a long afternoon session.";
+    const statuses = (options: Parameters<typeof diffMarkdown>[2]) =>
+      diffMarkdown(left, right, options).pairs.map((p) => p.status);
+
+    expect(statuses({ matchLevel: "strict" })).toEqual(["removed", "added"]);
+    expect(statuses({ matchLevel: "loose" })).toEqual(["modified"]);
+    expect(statuses({
+      matchLevel: "loose",
+      block: { SIMILARITY_THRESHOLD: 0.99 },
+      word: { MIN_SHARED_FOR_PAIRING: 10 },
+    })).toEqual(["removed", "added"]);
+    // A strict call in between must not affect a later default call
+    expect(statuses({})).toEqual(statuses({ matchLevel: "normal" }));
+  });
+});
+
+describe("custom matching profiles", () => {
+  const profiles = {
+    legal: { extends: "strict" as const, minSharedForMoved: 12, minSharedRatioForSideBySide: 0.3 },
+    normal: { sharedWords: 3 },
+  };
+
+  it("inherits from the base level and overrides the given fields", () => {
+    const options = createDiffOptions({ matchLevel: "legal", profiles });
+    expect(options.matchLevel).toBe("legal");
+    expect(options.block.SIMILARITY_THRESHOLD).toBe(0.7);
+    expect(options.word.MIN_SHARED_FOR_PAIRING).toBe(6);
+    expect(options.word.MIN_SHARED_FOR_MOVED).toBe(12);
+    expect(options.render.MIN_SHARED_RATIO_FOR_SIDE_BY_SIDE).toBe(0.3);
+  });
+
+  it("lets a profile retune a built-in level", () => {
+    expect(resolveMatchingProfile("normal", profiles)).toEqual({ similarity: 0.6, sharedWords: 3 });
+    expect(resolveMatchingProfile("normal")).toEqual({ similarity: 0.6, sharedWords: 5 });
+  });
+
+  it("lists built-ins first, then custom profile names", () => {
+    expect(listMatchingLevels(profiles)).toEqual(["strict", "normal", "loose", "legal"]);
+  });
+
+  it("rejects unknown level names", () => {
+    expect(() => createDiffOptions({ matchLevel: "legl", profiles })).toThrow(/Unknown matching level "legl"/);
+  });
+
+  it("selects the profile by name in diffMarkdown", () => {
+    const left = "The committee reviewed the annual budget proposal and approved most items.";
+    const right = "The committee reviewed several unrelated topics during a long afternoon session.";
+    const looseish = { loosest: { extends: "loose" as const } };
+    const { pairs } = diffMarkdown(left, right, { matchLevel: "loosest", profiles: looseish });
+    expect(pairs.map((p) => p.status)).toEqual(["modified"]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { computeInlineDiff } from "../src/core/inline-diff.js";
+import { parseLinkTarget, restoreMarkdown } from "../src/text/html.js";
+import { localImageUri } from "../src/render/images.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { diffMarkdown } from "../src/index.js";
+
+const guide = "Read the [install guide](docs/install.md) before you start the setup.";
+
+describe("link diffing", () => {
+  it("compares the URL apart from the link text", () => {
+    const parts = computeInlineDiff(guide, guide.replace("docs/install.md", "docs/setup.md"));
+    expect(parts.filter((p) => p.type !== "equal").map((p) => parseLinkTarget(p.value)?.url)).toEqual([
+      "docs/install.md",
+      "docs/setup.md",
+    ]);
+    expect(restoreMarkdown(parts.filter((p) => p.type !== "added").map((p) => p.value).join(""))).toBe(guide);
+  });
+
+  it("diffs the link text as words when the URL stays", () => {
+    const parts = computeInlineDiff(guide, guide.replace("install guide", "setup guide"));
+    expect(parts.filter((p) => p.type !== "equal").map((p) => p.value)).toEqual(["[install ", "[setup "]);
+  });
+
+  it("flags a URL-only change with the old and new target on hover", () => {
+    const { rows } = diffMarkdown(guide, guide.replace("docs/install.md", "docs/setup.md"));
+    expect(rows[0].rightHtml).toContain(
+      '<span class="change-pair link-changed" title="link changed: docs/install.md → docs/setup.md">',
+    );
+    expect(rows[0].rightHtml).toContain('<span class="link-badge">link changed</span>');
+    expect(rows[0].rightHtml).toContain("Read the [install guide]</span>");
+  });
+
+  it("keeps changed links working in the markdown redline", () => {
+    const { pairs } = diffMarkdown(guide, guide.replace("docs/install.md", "docs/setup.md"));
+    expect(renderMarkdown(pairs)).toContain('[install guide](docs/setup.md "was: docs/install.md") before');
+    expect(renderMarkdown(pairs, { style: "critic" })).toContain("[install guide]({~~docs/install.md~>docs/setup.md~~})");
+  });
+});
+
+describe("autolinks", () => {
+  const autolink = "See <https://a.com> or https://docs.a.com for the full details of the setup.";
+
+  it("diffs an autolink in its source form", () => {
+    const { pairs, rows } = diffMarkdown(autolink, autolink.replace("<https://a.com>", "<https://b.com>"));
+    const pair = pairs[0];
+    expect(pair.status === "modified" && pair.inlineDiff.filter((p) => p.type !== "equal").map((p) => p.value))
+      .toEqual(["<https://a.com> ", "<https://b.com> "]);
+    expect(rows[0].rightHtml).toContain("<ins>&lt;https://b.com&gt; </ins>");
+    expect(renderMarkdown(pairs, { style: "critic" })).toContain("See {~~<https://a.com>~><https://b.com>~~} or");
+  });
+
+  it("keeps a bare URL bare", () => {
+    const { pairs } = diffMarkdown(autolink, autolink.replace("docs.a.com", "docs.b.com"));
+    expect(renderMarkdown(pairs)).toBe(
+      "See <https://a.com> or <del>https://docs.a.com</del> <ins>https://docs.b.com</ins> for the full details of the setup.\n",
+    );
+  });
+});
+
+describe("image thumbnails", () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), "md-diff-images-"));
+    mkdirSync(join(root, "img"));
+    writeFileSync(join(root, "img", "old.png"), Buffer.from("old"));
+    writeFileSync(join(root, "img", "new.png"), Buffer.from("new"));
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("inlines local images only", () => {
+    expect(localImageUri("img/old.png", root)).toBe(`data:image/png;base64,${Buffer.from("old").toString("base64")}`);
+    expect(localImageUri("https://example.com/old.png", root)).toBeNull();
+    expect(localImageUri("../outside.png", root)).toBeNull();
+    expect(localImageUri("img/missing.png", root)).toBeNull();
+    expect(localImageUri("img/old.png", undefined)).toBeNull();
+  });
+
+  it("shows the old and new image on their sides", () => {
+    const before = "The logo ![Logo](img/old.png) sits in the header.";
+    const { rows } = diffMarkdown(before, before.replace("old.png", "new.png"), { projectRoot: root });
+    const thumbnail = (name: string) =>
+      `<img class="image-thumb" src="data:image/png;base64,${Buffer.from(name).toString("base64")}" alt="">`;
+    expect(rows[0].leftHtml).toContain(`<span class="change-layer visible"><span class="link-target">(img/old.png)</span>${thumbnail("old")}`);
+    expect(rows[0].rightHtml).toContain(`<span class="change-layer visible"><span class="link-target">(img/new.png)</span>${thumbnail("new")}`);
+    expect(rows[0].rightHtml).toContain('<span class="link-badge">image changed</span>');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import type { List } from "mdast";
+import { diffLists } from "../src/core/list-diff.js";
+import { parseMarkdown, blockToText, getWrapTag } from "../src/text/parse.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { renderText } from "../src/render/text.js";
+import { diffMarkdown } from "../src/index.js";
+
+function list(source: string): List {
+  return parseMarkdown(source).children[0] as List;
+}
+
+const fruits = Array.from({ length: 30 }, (_, i) => `- Fruit number ${i + 1}`).join("\n") + "\n";
+
+describe("list parsing", () => {
+  it("keeps ordered list numbering and task checkboxes", () => {
+    const ordered = list("3. a\n4. b\n");
+    expect(blockToText(ordered)).toBe("3. a\n4. b");
+    expect(getWrapTag(ordered)).toBe("ol");
+    expect(blockToText(list("- [x] done\n- [ ] todo\n"))).toBe("- [x] done\n- [ ] todo");
+  });
+});
+
+describe("diffLists", () => {
+  it("marks one inserted bullet in a long list as the only change", () => {
+    const after = fruits.replace("- Fruit number 12\n", "- Fruit number 12\n- A brand new fruit\n");
+    const diff = diffLists(list(fruits), list(after));
+    expect(diff.items.length).toBe(31);
+    expect(diff.items.filter((item) => item.status !== "equal")).toEqual([
+      expect.objectContaining({ status: "added", rightIdx: 12, right: "A brand new fruit" }),
+    ]);
+  });
+
+  it("detects reordered items as moves", () => {
+    const diff = diffLists(list("- alpha\n- beta\n- gamma\n"), list("- beta\n- gamma\n- alpha\n"));
+    expect(diff.items.map((item) => [item.status, item.leftIdx, item.rightIdx])).toEqual([
+      ["moved", 0, undefined],
+      ["equal", 1, 0],
+      ["equal", 2, 1],
+      ["moved", undefined, 2],
+    ]);
+    expect(diff.items[0].movedTo).toBe(2);
+    expect(diff.items[3].movedFrom).toBe(0);
+  });
+
+  it("treats renumbering as minor and checkbox toggles as their own change", () => {
+    const ordered = diffLists(list("1. one\n2. two\n"), list("1. zero\n2. one\n3. two\n"));
+    expect(ordered.items.map((item) => [item.status, item.renumbered])).toEqual([
+      ["added", undefined],
+      ["equal", true],
+      ["equal", true],
+    ]);
+
+    const tasks = diffLists(list("- [ ] write\n- [x] test\n"), list("- [x] write\n- [x] test\n"));
+    expect(tasks.items.map((item) => item.status)).toEqual(["toggled", "equal"]);
+  });
+
+  it("diffs nested lists under their item", () => {
+    const before = "- parent\n  - child a\n  - child b\n- other\n";
+    const diff = diffLists(list(before), list(before.replace("child b", "child c")));
+    expect(diff.items.map((item) => item.status)).toEqual(["modified", "equal"]);
+    expect(diff.items[0].inlineDiff).toBeUndefined();
+    expect(diff.items[0].children?.items.map((item) => item.status)).toEqual(["equal", "modified"]);
+  });
+});
+
+describe("list rendering", () => {
+  it("renders both sides as lists with spacers for one-sided items", () => {
+    const { rows } = diffMarkdown("1. one\n2. two\n", "1. one\n2. new\n3. two\n");
+    const [row] = rows;
+    expect(row.leftHtml).toContain('<ol class="list-diff">');
+    expect(row.leftHtml).toContain('<li class="item-spacer" aria-hidden="true">new</li>');
+    expect(row.rightHtml).toContain('<li class="item-added" value="2">new</li>');
+    expect(row.rightHtml).toContain('<li class="renumbered" value="3">two</li>');
+  });
+
+  it("marks changed items in the markdown redline", () => {
+    const { pairs } = diffMarkdown("- [ ] one\n- two\n  - nested\n", "- [x] one\n- two\n  - nested\n  - more\n");
+    expect(renderMarkdown(pairs)).toBe("- [x] one\n- two\n  - nested\n  - <ins>more</ins>\n");
+  });
+
+  it("keeps new numbers unmarked in the text output", () => {
+    const before = "1. alpha item\n2. beta item\n3. gamma item\n";
+    const { pairs } = diffMarkdown(before, "1. new first\n" + before.replace(/^(\d)/gm, (n) => String(Number(n) + 1)));
+    expect(renderText(pairs, "a", "b")).toContain(
+      "~ 1. {+new first+}\n~ 2. alpha item\n~ 3. beta item\n~ 4. gamma item\n",
+    );
+    const { pairs: toggled } = diffMarkdown("- [ ] one\n- two\n", "- [x] one\n- two\n- three\n");
+    expect(renderText(toggled, "a", "b")).toContain("~ - [-[ ] -]{+[x] +}one\n~ - two\n~ - {+three+}\n");
+  });
+});
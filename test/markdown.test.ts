@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { renderMarkdown, type RedlineStyle } from "../src/render/markdown.js";
+import { diffBlocks } from "../src/core/diff.js";
+import { parseMarkdown, extractBlocks } from "../src/text/parse.js";
+
+function redline(left: string, right: string, style?: RedlineStyle): string {
+  const pairs = diffBlocks(extractBlocks(parseMarkdown(left)), extractBlocks(parseMarkdown(right)));
+  return renderMarkdown(pairs, { style });
+}
+
+describe("renderMarkdown", () => {
+  const left = "# Title\n\nThe quick brown fox jumps over the lazy dog.\n";
+
+  it("marks word changes in modified blocks with <del> and <ins>", () => {
+    const out = redline(left, left.replace("jumps", "leaps"));
+    expect(out).toBe("# Title\n\nThe quick brown fox <del>jumps</del> <ins>leaps</ins> over the lazy dog.\n");
+  });
+
+  it("uses strikethrough and bold in markdown style", () => {
+    const out = redline(left, left.replace("jumps", "leaps"), "markdown");
+    expect(out).toContain("The quick brown fox ~~jumps~~ **leaps** over the lazy dog.");
+  });
+
+  it("marks whole added and removed blocks", () => {
+    const out = redline(
+      "Intro stays.\n\nThis paragraph goes away.\n",
+      "Intro stays.\n\nA completely new closing thought.\n",
+    );
+    expect(out).toContain("<del>This paragraph goes away.</del>");
+    expect(out).toContain("<ins>A completely new closing thought.</ins>");
+  });
+
+  it("keeps list markers outside the change markers", () => {
+    const out = redline("- one\n- two\n", "- one\n- two\n- three\n");
+    expect(out).toContain("- <ins>three</ins>");
+  });
+
+  it("shows code changes as a diff fence", () => {
+    const out = redline("```js\nconst a = 1;\n```\n", "```js\nconst a = 2;\n```\n");
+    expect(out).toContain("```diff\n-const a = 1;\n+const a = 2;\n```");
+  });
+
+  it("keeps inline formatting of unchanged text", () => {
+    const out = redline("Some **bold** words here.\n", "Some **bold** words there.\n");
+    expect(out).toContain("Some **bold** words");
+  });
+});
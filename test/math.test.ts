@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { parseMarkdown, blockToText } from "../src/text/parse.js";
+import { computeInlineDiff } from "../src/core/inline-diff.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { renderText } from "../src/render/text.js";
+import { diffMarkdown } from "../src/index.js";
+
+const euler = "Euler's identity $e^{i\\pi} + 1 = 0$ links five constants.";
+const integral = "$$\n\\int_0^1 x^2 \\, dx = \\frac{1}{3}\n$$\n";
+
+describe("math parsing", () => {
+  it("parses inline and display math", () => {
+    const tree = parseMarkdown(`${euler}\n\n${integral}`);
+    expect(tree.children.map((node) => node.type)).toEqual(["paragraph", "math"]);
+    expect(blockToText(tree.children[1])).toBe(integral.trimEnd());
+  });
+
+  it("keeps dollar amounts as text", () => {
+    const [paragraph] = parseMarkdown("It costs $5 or $10, and $ 6 with tax.").children;
+    expect(paragraph).toMatchObject({ children: [{ type: "text", value: "It costs $5 or $10, and $ 6 with tax." }] });
+  });
+});
+
+describe("math diffing", () => {
+  it("diffs an inline formula as one unit", () => {
+    const parts = computeInlineDiff(euler, euler.replace("+ 1 = 0", "= -1"));
+    expect(parts.filter((part) => part.type !== "equal").map((part) => part.value.trim().length > 8)).toEqual([true, true]);
+    expect(parts.every((part) => !part.children)).toBe(true);
+  });
+
+  it("renders both formulas as MathML", () => {
+    const { rows } = diffMarkdown(euler, euler.replace("+ 1 = 0", "= -1"));
+    expect(rows[0].leftHtml).toContain("<del><span class=\"katex\"><math");
+    expect(rows[0].leftHtml).toContain("<mn>0</mn>");
+    expect(rows[0].rightHtml).toContain("<ins><span class=\"katex\"><math");
+    expect(rows[0].rightHtml).not.toContain("$");
+  });
+
+  it("shows a changed display formula rendered, with its TeX diff below", () => {
+    const { rows, pairs } = diffMarkdown(integral, integral.replace("\\frac{1}{3}", "\\frac{2}{3}"));
+    expect(rows[0].rightHtml).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML" display="block">');
+    expect(rows[0].rightHtml).toContain('<pre class="math-source"><code>');
+    expect(rows[0].rightHtml).toContain("<ins>\\frac{2}{3}</ins>");
+    expect(renderMarkdown(pairs)).toContain("-\\int_0^1 x^2 \\, dx = \\frac{1}{3}\n+\\int_0^1 x^2 \\, dx = \\frac{2}{3}");
+    expect(renderText(pairs, "a", "b")).toContain("~ $$\n~ \\int_0^1 x^2 \\, dx = [-\\frac{1}{3}-]{+\\frac{2}{3}+}\n~ $$");
+  });
+
+  it("keeps unchanged math and dollar signs as written in the redline", () => {
+    const source = `${euler} It costs $5 or $10.\n`;
+    const { pairs, rows } = diffMarkdown(source, source);
+    expect(renderMarkdown(pairs)).toBe(source);
+    expect(rows[0].leftHtml).toContain("<annotation encoding=\"application/x-tex\">e^{i\\pi} + 1 = 0</annotation>");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { diffThreeWay, type MergeRow } from "../src/core/merge.js";
+import { renderMergeRows } from "../src/render/render.js";
+import { generateMergeHtml } from "../src/ui/template.js";
+import { parseMarkdown, extractBlocks, blockToText } from "../src/text/parse.js";
+
+const base = [
+  "# Guide",
+  "Intro paragraph that stays the same.",
+  "Setup requires node version sixteen or newer.",
+  "Run the tests with pnpm test before pushing.",
+  "Closing words.",
+].join("\n\n") + "\n";
+
+function merge(ours: string, theirs: string): MergeRow[] {
+  const blocks = (text: string) => extractBlocks(parseMarkdown(text));
+  return diffThreeWay(blocks(base), blocks(ours), blocks(theirs));
+}
+
+const statuses = (rows: MergeRow[]) => rows.map((r) => r.status);
+
+describe("diffThreeWay", () => {
+  it("keeps untouched blocks equal", () => {
+    expect(statuses(merge(base, base))).toEqual(["equal", "equal", "equal", "equal", "equal"]);
+  });
+
+  it("attributes one-sided changes to the side that made them", () => {
+    const rows = merge(base.replace("sixteen", "eighteen"), base.replace("before pushing", "before every push"));
+    expect(statuses(rows)).toEqual(["equal", "equal", "ours", "theirs", "equal"]);
+    expect(rows[2].ours.inlineDiff?.some((p) => p.type === "added" && p.value.includes("eighteen"))).toBe(true);
+    expect(rows[2].theirs.changed).toBe(false);
+  });
+
+  it("flags blocks changed differently on both sides as conflicts", () => {
+    const rows = merge(base.replace("sixteen", "eighteen"), base.replace("sixteen", "twenty"));
+    expect(rows[2].status).toBe("conflict");
+    expect(blockToText(rows[2].ours.node!)).toContain("eighteen");
+    expect(blockToText(rows[2].theirs.node!)).toContain("twenty");
+  });
+
+  it("treats identical changes on both sides as clean", () => {
+    const changed = base.replace("sixteen", "eighteen");
+    expect(merge(changed, changed)[2].status).toBe("both");
+  });
+
+  it("places inserted blocks in base order and conflicts on edit/delete", () => {
+    const ours = base.replace("Closing words.", "A new section from ours.\n\nClosing words.");
+    const theirs = base.replace("Setup requires node version sixteen or newer.\n\n", "");
+    const rows = merge(ours.replace("sixteen", "eighteen"), theirs);
+    expect(statuses(rows)).toEqual(["equal", "equal", "conflict", "equal", "ours", "equal"]);
+    expect(rows[2].theirs.node).toBeUndefined();
+    expect(rows[4].base).toBeUndefined();
+  });
+});
+
+describe("generateMergeHtml", () => {
+  it("renders ours, base and theirs panes with aligned blocks", () => {
+    const rows = renderMergeRows(merge(base.replace("sixteen", "eighteen"), base.replace("sixteen", "twenty")));
+    const html = generateMergeHtml(rows, { base: "base.md", ours: "ours.md", theirs: "theirs.md" });
+    for (const pane of ["left-pane", "base-pane", "right-pane"]) {
+      const start = html.indexOf(`merge-pane ${pane}`);
+      expect(start).toBeGreaterThan(-1);
+      const end = html.indexOf("merge-pane", start + 1);
+      const paneHtml = html.slice(start, end === -1 ? undefined : end);
+      expect(paneHtml.match(/class="diff-block /g)).toHaveLength(5);
+    }
+    expect(html).toContain("diff-block modified conflict");
+    expect(html).toContain("base.md");
+  });
+});
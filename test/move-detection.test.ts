@@ -140,8 +140,8 @@ Second sentence continues the discussion.`;
     if (split.status === "split") {
       expect(blockToText(split.original)).toContain("First sentence");
       expect(blockToText(split.original)).toContain("Second sentence");
-      expect(blockToText(split.firstPart)).toContain("First sentence");
-      expect(blockToText(split.secondPart)).toContain("Second sentence");
+      expect(blockToText(split.parts[0])).toContain("First sentence");
+      expect(blockToText(split.parts[1])).toContain("Second sentence");
     }
   });
 
@@ -270,8 +270,8 @@ Second paragraph with different content that is long enough to matter for move d
       if ("right" in p && p.right) rightBlocks.add(blockToText(p.right));
       if (p.status === "split") {
         leftBlocks.add(blockToText(p.original));
-        rightBlocks.add(blockToText(p.firstPart));
-        rightBlocks.add(blockToText(p.secondPart));
+        rightBlocks.add(blockToText(p.parts[0]));
+        rightBlocks.add(blockToText(p.parts[1]));
       }
     }
 
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { renderText } from "../src/render/text.js";
+import { diffMarkdown } from "../src/index.js";
+
+const before = `# Notes
+
+The quick brown fox jumps over the lazy dog near the river bank.
+
+Second paragraph stays right where it was all along.
+
+Third paragraph also stays in place for this test.
+`;
+
+const after = `# Notes
+
+Second paragraph stays right where it was all along.
+
+Third paragraph also stays in place for this test.
+
+The quick brown fox jumps over the lazy dog near the river bank.
+`;
+
+const edited = after.replace("jumps over", "leaps over");
+
+describe("moved block detection", () => {
+  it("lists a moved block at its old and its new place", () => {
+    const { pairs, stats } = diffMarkdown(before, after);
+    expect(pairs.map((pair) => (pair.status === "moved" ? `moved ${pair.place}` : pair.status))).toEqual([
+      "equal", "moved from", "equal", "equal", "moved to",
+    ]);
+    expect(pairs[1].status === "moved" && pairs[1].inlineDiff).toBeUndefined();
+    expect(stats).toMatchObject({ blocksMoved: 1, blocksAdded: 0, blocksRemoved: 0, wordsAdded: 0, wordsRemoved: 0 });
+  });
+
+  it("diffs a block that was edited on the way", () => {
+    const { pairs, stats } = diffMarkdown(before, edited);
+    const moved = pairs[4];
+    expect(moved.status === "moved" && moved.inlineDiff?.filter((part) => part.type !== "equal")).toEqual([
+      expect.objectContaining({ type: "removed", value: "jumps " }),
+      expect.objectContaining({ type: "added", value: "leaps " }),
+    ]);
+    expect(stats).toMatchObject({ blocksMoved: 1, wordsAdded: 1, wordsRemoved: 1 });
+  });
+
+  it("leaves rewritten and short blocks alone", () => {
+    const rewritten = after.replace(/The quick.*/, "Closing remarks cover an entirely different subject now.");
+    expect(diffMarkdown(before, rewritten).pairs.some((pair) => pair.status === "moved")).toBe(false);
+    const short = "Short note.\n\nA paragraph that stays.\n";
+    expect(diffMarkdown(short, "A paragraph that stays.\n\nShort note.\n").pairs.some((p) => p.status === "moved"))
+      .toBe(false);
+  });
+});
+
+describe("moved block rendering", () => {
+  it("shows the block once, with anchors between its two places", () => {
+    const { rows } = diffMarkdown(before, after);
+    expect(rows[1]).toMatchObject({ status: "moved", leftLine: 3 });
+    expect(rows[1].leftHtml).toBe(
+      '<button type="button" class="move-anchor move-from" data-move="3:7">moved to line 7</button>',
+    );
+    expect(rows[4].leftHtml).toBe('<div class="spacer"></div>');
+    expect(rows[4].rightHtml).toContain('<button type="button" class="move-anchor move-to" data-move="3:7">');
+    expect(rows[4].rightHtml).toContain("<p>The quick brown fox jumps over the lazy dog near the river bank.</p>");
+  });
+
+  it("marks the moved block at both places in text and Markdown output", () => {
+    const { pairs } = diffMarkdown(before, edited);
+    const redline = renderMarkdown(pairs);
+    expect(redline).toContain("# Notes\n\n<del>The quick brown fox jumps over the lazy dog near the river bank.</del>\n");
+    expect(redline).toContain(
+      "this test.\n\n<ins>The quick brown fox</ins> <del>jumps</del> <ins>leaps over the lazy dog near the river bank.</ins>",
+    );
+    const plain = renderMarkdown(diffMarkdown(before, after).pairs, { style: "markdown" });
+    expect(plain).toContain("# Notes\n\n~~The quick brown fox jumps over the lazy dog near the river bank.~~\n");
+    expect(plain).toContain("this test.\n\n**The quick brown fox jumps over the lazy dog near the river bank.**\n");
+    expect(renderMarkdown(pairs, { style: "critic" })).toContain("{--The quick brown fox jumps");
+    const text = renderText(pairs, "a", "b");
+    expect(text).toContain("< [moved to line 7]\n");
+    expect(text).toContain("> [moved from line 3]\n> The quick brown fox [-jumps -]{+leaps +}over");
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { parseCriticMarkup } from "../src/text/critic.js";
+import { blockToText } from "../src/text/parse.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { renderText } from "../src/render/text.js";
+import { formatStats } from "../src/cli/stats.js";
+import { diffMarkdown } from "../src/index.js";
+
+const joined =
+  "The committee met on Monday to discuss the budget. After a long debate the members agreed on a compromise. " +
+  "The chair then closed the meeting early.\n";
+const three = joined.replace(/\. (After|The chair)/g, ".\n\n$1");
+const two = joined.replace(". After", ".\n\nAfter");
+
+describe("paragraph splits and joins", () => {
+  it("detects a paragraph split into three", () => {
+    const { pairs, stats } = diffMarkdown(joined, three);
+    expect(pairs).toHaveLength(1);
+    const split = pairs[0];
+    expect(split.status).toBe("split");
+    if (split.status !== "split") return;
+    expect(split.parts.map(blockToText)).toEqual([
+      "The committee met on Monday to discuss the budget.",
+      "After a long debate the members agreed on a compromise.",
+      "The chair then closed the meeting early.",
+    ]);
+    expect(split.splitPoints).toEqual([50, 106]);
+    expect(stats).toMatchObject({ blocksSplit: 1, blocksJoined: 0, blocksModified: 0, wordsAdded: 0, wordsRemoved: 0 });
+  });
+
+  it("detects paragraphs joined into one", () => {
+    for (const [left, count] of [[two, 2], [three, 3]] as const) {
+      const { pairs, stats } = diffMarkdown(left, joined);
+      expect(pairs).toHaveLength(1);
+      expect(pairs[0].status === "join" && pairs[0].originals).toHaveLength(count);
+      expect(stats).toMatchObject({ blocksJoined: 1, blocksSplit: 0, blocksRemoved: 0, wordsAdded: 0, wordsRemoved: 0 });
+      expect(formatStats(stats)).toContain("paragraph join");
+    }
+  });
+
+  it("keeps the surrounding paragraphs out of the join", () => {
+    const wrap = (body: string) => `Intro stays here.\n\n${body}\nOutro stays here.\n`;
+    const { pairs } = diffMarkdown(wrap(three), wrap(joined));
+    expect(pairs.map((pair) => pair.status)).toEqual(["equal", "join", "equal"]);
+  });
+});
+
+describe("paragraph join rendering", () => {
+  it("marks each removed break on the left", () => {
+    const { rows } = diffMarkdown(three, joined);
+    expect(rows[0]).toMatchObject({ status: "join", leftLine: 1, rightLine: 1 });
+    expect(rows[0].leftHtml.match(/paragraph-join"><del> ¶<br><\/del>/g)).toHaveLength(2);
+    expect(rows[0].rightHtml).toBe(`<div class="modified-block gap-aligned"><p>${joined.trim()}</p></div>`);
+  });
+
+  it("writes removed breaks in text and Markdown output", () => {
+    const { pairs } = diffMarkdown(two, joined);
+    expect(renderText(pairs, "a", "b")).toContain("~ The committee met on Monday to discuss the budget.[-¶-] After");
+    expect(renderMarkdown(pairs)).toContain("the budget. <del>¶</del> After");
+    const critic = renderMarkdown(pairs, { style: "critic" });
+    expect(critic).toContain("the budget.{~~\n\n~> ~~}After");
+    expect(parseCriticMarkup(critic)).toMatchObject({ original: two, modified: joined });
+  });
+});
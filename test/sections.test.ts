@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { parseMarkdown, extractBlocks } from "../src/text/parse.js";
+import { buildSections } from "../src/text/sections.js";
+import { findSectionMoves } from "../src/core/sections.js";
+import { diffMarkdown } from "../src/index.js";
+import { diffBlocks } from "../src/core/diff.js";
+import { renderText } from "../src/render/text.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { parseCriticMarkup } from "../src/text/critic.js";
+
+const before = `# Guide
+
+Intro text here.
+
+## Installation
+
+Run the installer with npm install.
+
+### Requirements
+
+Node 20 or later.
+
+## Usage
+
+Call the main function with options.
+
+## License
+
+MIT licensed.
+`;
+
+const moved = `# Guide
+
+Intro text here.
+
+## Usage
+
+Call the main function with options.
+
+## License
+
+MIT licensed.
+
+## Installation
+
+Run the installer with npm install.
+
+### Requirements
+
+Node 20 or later.
+`;
+
+const blocks = (source: string) => extractBlocks(parseMarkdown(source));
+
+describe("sections", () => {
+  it("nests headings by depth with their block ranges", () => {
+    const [guide] = buildSections(blocks(before));
+    expect(guide).toMatchObject({ title: "Guide", start: 0, end: 10 });
+    expect(guide.children.map((section) => [section.title, section.start, section.end])).toEqual([
+      ["Installation", 2, 6],
+      ["Usage", 6, 8],
+      ["License", 8, 10],
+    ]);
+    expect(guide.children[0].children[0]).toMatchObject({ title: "Requirements", start: 4, end: 6 });
+  });
+
+  it("finds a section that moved among its siblings", () => {
+    const moves = findSectionMoves(blocks(before), blocks(moved));
+    expect(moves.map((move) => [move.left.title, move.left.start, move.right.start])).toEqual([["Installation", 2, 6]]);
+    expect(findSectionMoves(blocks(before), blocks(before))).toEqual([]);
+  });
+});
+
+describe("section diffing", () => {
+  it("shows a moved section once, unchanged, where it now is", () => {
+    const { pairs, rows, stats } = diffMarkdown(before, moved);
+    expect(pairs.every((pair) => pair.status === "equal")).toBe(true);
+    expect(pairs.filter((pair) => pair.status === "equal" && pair.sectionMoved)).toHaveLength(1);
+    expect(rows[6].rightHtml).toBe('<span class="section-moved-badge">moved section</span><h2>Installation</h2>');
+    expect(stats.wordsAdded + stats.wordsRemoved).toBe(0);
+  });
+
+  it("counts a moved section in the stats", () => {
+    const { stats } = diffMarkdown(before, moved);
+    expect(stats).toMatchObject({ sectionsMoved: 1, blocksMoved: 0, blocksEqual: 10 });
+  });
+
+  it("prints a moved section's heading as a change in text output", () => {
+    const pairs = diffBlocks(blocks(before), blocks(moved));
+    expect(renderText(pairs, "before.md", "after.md", { context: 0 })).toBe([
+      "--- before.md",
+      "+++ after.md",
+      "@@ -19,0 +13,1 @@",
+      "> [section moved from line 5]",
+      "> ## Installation",
+      "",
+    ].join("\n"));
+  });
+
+  it("notes a moved section in the Markdown redline", () => {
+    const pairs = diffBlocks(blocks(before), blocks(moved));
+    expect(renderMarkdown(pairs)).toContain("MIT licensed.\n\n<ins>Moved section</ins>\n\n## Installation\n");
+    expect(renderMarkdown(pairs, { style: "markdown" })).toContain("\n\n**Moved section**\n\n## Installation\n");
+  });
+
+  it("notes a moved section in a CriticMarkup comment that accepting drops", () => {
+    const out = renderMarkdown(diffBlocks(blocks(before), blocks(moved)), { style: "critic" });
+    expect(out).toContain("MIT licensed.\n\n{>>moved section<<}## Installation\n");
+    expect(parseCriticMarkup(out).modified).toBe(moved);
+  });
+
+  it("diffs the moved section's own changes", () => {
+    const { pairs } = diffMarkdown(before, moved.replace("Node 20", "Node 22"));
+    const changed = pairs.filter((pair) => pair.status !== "equal");
+    expect(changed).toHaveLength(1);
+    expect(changed[0].status === "modified" && changed[0].right.position?.start.line).toBe(19);
+  });
+
+  it("outlines each section's change", () => {
+    const after = moved.replace("with options", "with many options") + "\n## FAQ\n\nNew questions.\n";
+    const { outline, html } = diffMarkdown(before, after.replace("MIT licensed.", "MIT licensed.\n\n## Support\n\nAsk."));
+    const [guide] = outline;
+    expect(guide.status).toBe("changed");
+    expect(guide.children.map((section) => [section.title, section.status, section.line])).toEqual([
+      ["Usage", "changed", 5],
+      ["License", "equal", 9],
+      ["Support", "added", 13],
+      ["Installation", "moved", 17],
+      ["FAQ", "added", 25],
+    ]);
+    expect(guide.children[3].children).toMatchObject([{ title: "Requirements", status: "equal" }]);
+    expect(html).toContain('<button type="button" class="outline-item moved" data-side="right" data-line="17">');
+  });
+
+  it("outlines a removed section from the left document", () => {
+    const { outline } = diffMarkdown(before, before.replace("## License\n\nMIT licensed.\n", ""));
+    expect(outline[0].children[2]).toMatchObject({ title: "License", status: "removed", side: "left", line: 17 });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { startDiffServer, EVENTS_PATH, type DiffServer } from "../src/cli/serve.js";
+
+describe("startDiffServer", () => {
+  let server: DiffServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it("serves the page marked for live reload", async () => {
+    server = await startDiffServer(() => "<!DOCTYPE html><html lang=\"en\"><body>v1</body></html>", 0);
+
+    const res = await fetch(server.url);
+    const html = await res.text();
+    expect(res.headers.get("content-type")).toContain("text/html");
+    expect(html).toContain(`data-live-reload="${EVENTS_PATH}"`);
+    expect(html).toContain("v1");
+
+    expect((await fetch(new URL("/missing", server.url))).status).toBe(404);
+  });
+
+  it("re-renders and notifies connected pages on reload", async () => {
+    let version = 1;
+    server = await startDiffServer(() => `<html lang="en"><body>v${version}</body></html>`, 0);
+
+    const controller = new AbortController();
+    const events = await fetch(new URL(EVENTS_PATH, server.url), { signal: controller.signal });
+    const reader = events.body!.getReader();
+    const decoder = new TextDecoder();
+    await reader.read(); // retry: preamble
+
+    version = 2;
+    server.reload();
+    const { value } = await reader.read();
+    controller.abort();
+
+    expect(decoder.decode(value)).toContain("event: reload");
+    expect(await (await fetch(server.url)).text()).toContain("v2");
+  });
+
+  it("keeps the previous page when a re-render fails", async () => {
+    const errors: unknown[] = [];
+    let fail = false;
+    server = await startDiffServer(() => {
+      if (fail) throw new Error("parse failed");
+      return "<html lang=\"en\"><body>ok</body></html>";
+    }, 0, (err) => errors.push(err));
+
+    fail = true;
+    server.reload();
+
+    expect(errors).toHaveLength(1);
+    expect(await (await fetch(server.url)).text()).toContain("ok");
+  });
+});
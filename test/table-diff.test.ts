@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import type { Table } from "mdast";
+import { diffTables } from "../src/core/table-diff.js";
+import { parseMarkdown, blockToText } from "../src/text/parse.js";
+import { renderMarkdown } from "../src/render/markdown.js";
+import { diffMarkdown } from "../src/index.js";
+
+function table(source: string): Table {
+  return parseMarkdown(source).children[0] as Table;
+}
+
+const before = `| Name | Price | Stock |
+|:--|--:|---|
+| Apple | 1 | yes |
+| Pear | 2 | no |
+| Plum | 3 | yes |
+`;
+
+describe("blockToText for tables", () => {
+  it("serializes a GFM pipe table with alignment and escaped pipes", () => {
+    expect(blockToText(table("| a | b |\n|:-:|--:|\n| x \\| y | **z** |\n"))).toBe(
+      "| a | b |\n| :---: | ---: |\n| x \\| y | **z** |",
+    );
+  });
+});
+
+describe("diffTables", () => {
+  it("diffs an edited cell without touching the rest of the table", () => {
+    const diff = diffTables(table(before), table(before.replace("| 2 |", "| 2.50 |")));
+    expect(diff.columns.map((c) => c.status)).toEqual(["equal", "equal", "equal"]);
+    expect(diff.rows.map((r) => r.status)).toEqual(["equal", "equal", "modified", "equal"]);
+    const cell = diff.rows[2].cells[1];
+    expect(cell.status).toBe("modified");
+    expect(cell.inlineDiff?.some((p) => p.type === "added")).toBe(true);
+  });
+
+  it("matches columns by header and marks added and removed ones", () => {
+    const after = "| Name | Origin | Price |\n|---|---|---|\n| Apple | NZ | 1 |\n| Pear | FR | 2 |\n| Plum | ES | 3 |\n";
+    const diff = diffTables(table(before), table(after));
+    expect(diff.columns.map((c) => [c.status, c.leftIdx, c.rightIdx])).toEqual([
+      ["equal", 0, 0],
+      ["added", undefined, 1],
+      ["equal", 1, 2],
+      ["removed", 2, undefined],
+    ]);
+    // Column changes don't make the rows themselves modified
+    expect(diff.rows.every((r) => r.status === "equal")).toBe(true);
+  });
+
+  it("aligns rows and keeps unrelated rows as added and removed", () => {
+    const after = before.replace("| Plum | 3 | yes |", "| Kiwi | 4 | no |") + "| Fig | 5 | yes |\n";
+    const diff = diffTables(table(before), table(after));
+    expect(diff.rows.map((r) => [r.status, r.leftIdx, r.rightIdx])).toEqual([
+      ["equal", 0, 0],
+      ["equal", 1, 1],
+      ["equal", 2, 2],
+      ["removed", 3, undefined],
+      ["added", undefined, 3],
+      ["added", undefined, 4],
+    ]);
+  });
+});
+
+describe("table rendering", () => {
+  const after = "| Name | Price | Stock |\n|:--|--:|---|\n| Apple | 1 | yes |\n| Pear | 2 | low |\n| Plum | 3 | yes |\n| Kiwi | 4 | no |\n";
+
+  it("renders both sides as tables on a shared grid", () => {
+    const { pairs, rows } = diffMarkdown(before, after);
+    expect(pairs[0].status).toBe("modified");
+    const [row] = rows;
+    expect(row.leftHtml).toContain('<table class="table-diff">');
+    expect(row.leftHtml).toContain('<tr class="row-spacer">');
+    expect(row.rightHtml).toContain('<tr class="row-added">');
+    expect(row.rightHtml).toContain('<td class="cell-modified">');
+    expect(row.rightHtml).toContain('<th style="text-align:left">Name</th>');
+  });
+
+  it("marks changed cells in the markdown redline", () => {
+    const { pairs } = diffMarkdown(before, after);
+    expect(renderMarkdown(pairs)).toBe([
+      "| Name | Price | Stock |",
+      "| :--- | ---: | --- |",
+      "| Apple | 1 | yes |",
+      "| Pear | 2 | <del>no</del><ins>low</ins> |",
+      "| Plum | 3 | yes |",
+      "| <ins>Kiwi</ins> | <ins>4</ins> | <ins>no</ins> |",
+      "",
+    ].join("\n"));
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { renderText, formatInlineParts } from "../src/render/text.js";
+import { diffBlocks } from "../src/core/diff.js";
+import { parseMarkdown, extractBlocks } from "../src/text/parse.js";
+import { diffDocumentFrontmatter } from "../src/core/frontmatter.js";
+
+function textDiff(left: string, right: string, context?: number): string {
+  const pairs = diffBlocks(extractBlocks(parseMarkdown(left)), extractBlocks(parseMarkdown(right)));
+  return renderText(pairs, "before.md", "after.md", { context });
+}
+
+describe("formatInlineParts", () => {
+  it("marks removed and added runs and restores markdown", () => {
+    expect(formatInlineParts([
+      { value: "The ", type: "equal" },
+      { value: "quick ", type: "removed" },
+      { value: "lazy ", type: "removed" },
+      { value: "slow ", type: "added" },
+      { value: "\x02brown\x00fox\x03", type: "equal" },
+    ])).toBe("The [-quick lazy -]{+slow +}**brown fox**");
+  });
+});
+
+describe("renderText", () => {
+  const left = "# Title\n\nFirst paragraph stays.\n\nThe quick brown fox jumps over the lazy dog.\n\nLast paragraph stays.\n";
+
+  it("prints changed blocks in full with word markers and line numbers", () => {
+    const out = textDiff(left, left.replace("jumps", "leaps"), 0);
+    expect(out).toBe([
+      "--- before.md",
+      "+++ after.md",
+      "@@ -5,1 +5,1 @@",
+      "~ The quick brown fox [-jumps -]{+leaps +}over the lazy dog.",
+      "",
+    ].join("\n"));
+  });
+
+  it("includes the requested number of context blocks", () => {
+    const out = textDiff(left, left.replace("jumps", "leaps"), 1);
+    expect(out).toContain("@@ -3,5 +3,5 @@");
+    expect(out).toContain("  First paragraph stays.");
+    expect(out).toContain("  Last paragraph stays.");
+    expect(out).not.toContain("# Title");
+  });
+
+  it("shows removed and added blocks with an empty range for the missing side", () => {
+    const out = textDiff("One.\n\nTwo.\n", "One.\n\nTwo.\n\nA completely new closing thought.\n", 0);
+    expect(out).toContain("@@ -3,0 +5,1 @@");
+    expect(out).toContain("+ A completely new closing thought.");
+  });
+
+  it("marks paragraph splits with a pilcrow", () => {
+    const original = "The committee met on Monday to discuss the budget. After a long debate the members agreed on a compromise.";
+    const split = original.replace(". After", ".\n\nAfter");
+    const out = textDiff(original, split, 0);
+    expect(out).toContain("~ The committee met on Monday to discuss the budget.{+¶+}");
+    expect(out).toContain("~ After a long debate");
+  });
+
+  it("returns nothing when the documents are equal", () => {
+    expect(textDiff(left, left)).toBe("");
+  });
+
+  it("prints changed frontmatter keys in their own hunk", () => {
+    const pairs = diffBlocks(extractBlocks(parseMarkdown(left)), extractBlocks(parseMarkdown(left)));
+    const frontmatter = diffDocumentFrontmatter("---\ntitle: Old\ndraft: true\n---\n", "---\ntitle: New\n---\n");
+    expect(renderText(pairs, "before.md", "after.md", { frontmatter })).toBe([
+      "--- before.md",
+      "+++ after.md",
+      "@@ frontmatter @@",
+      "~ title: [-Old-]{+New+}",
+      "- draft: true",
+      "",
+    ].join("\n"));
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { markdownDirs, watchRepo, type RepoWatcher, type WatchTarget } from "../src/cli/watch.js";
+
+describe("markdownDirs", () => {
+  it("includes each file's directory and its ancestors up to the root", () => {
+    const dirs = markdownDirs("/repo", ["README.md", "docs/guide/intro.md", "docs/api.md"]);
+    expect([...dirs].sort()).toEqual(["/repo", "/repo/docs", "/repo/docs/guide"]);
+  });
+});
+
+describe("watchRepo", () => {
+  let root: string;
+  let watcher: RepoWatcher | undefined;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "md-diff-watch-"));
+    mkdirSync(join(root, ".git", "refs", "heads"), { recursive: true });
+    mkdirSync(join(root, "docs"));
+    writeFileSync(join(root, "docs", "intro.md"), "# Intro\n");
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  /** Start watching and resolve with the first batch of changed paths */
+  function nextChange(target: WatchTarget): Promise<string[]> {
+    return new Promise((resolve) => {
+      watcher = watchRepo({
+        root,
+        gitDir: join(root, ".git"),
+        target,
+        listFiles: () => ["docs/intro.md"],
+        onChange: resolve,
+        debounceMs: 50,
+      });
+    });
+  }
+
+  it("reports edits to watched .md files", async () => {
+    const change = nextChange("worktree");
+    writeFileSync(join(root, "docs", "intro.md"), "# Intro\n\nMore.\n");
+    expect(await change).toContain(join(root, "docs", "intro.md"));
+  });
+
+  it("picks up .md files created in new directories", async () => {
+    const changed: string[] = [];
+    watcher = watchRepo({
+      root,
+      gitDir: join(root, ".git"),
+      target: "worktree",
+      listFiles: () => ["docs/intro.md"],
+      onChange: (paths) => changed.push(...paths),
+      debounceMs: 50,
+    });
+
+    mkdirSync(join(root, "docs", "new"));
+    await new Promise((r) => setTimeout(r, 100));
+    writeFileSync(join(root, "docs", "new", "page.md"), "# Page\n");
+    await new Promise((r) => setTimeout(r, 200));
+
+    expect(changed).toContain(join(root, "docs", "new", "page.md"));
+  });
+
+  it("doesn't watch new directories git ignores", async () => {
+    const changed: string[] = [];
+    watcher = watchRepo({
+      root,
+      gitDir: join(root, ".git"),
+      target: "worktree",
+      listFiles: () => ["docs/intro.md"],
+      onChange: (paths) => changed.push(...paths),
+      isIgnored: (path) => path.endsWith("node_modules"),
+      debounceMs: 50,
+    });
+
+    mkdirSync(join(root, "node_modules"));
+    await new Promise((r) => setTimeout(r, 100));
+    writeFileSync(join(root, "node_modules", "README.md"), "# Package\n");
+    await new Promise((r) => setTimeout(r, 200));
+
+    expect(changed).not.toContain(join(root, "node_modules", "README.md"));
+  });
+
+  it("follows refs in nested and new ref directories", async () => {
+    const changed: string[] = [];
+    watcher = watchRepo({
+      root,
+      gitDir: join(root, ".git"),
+      target: "index",
+      listFiles: () => [],
+      onChange: (paths) => changed.push(...paths),
+      debounceMs: 50,
+    });
+
+    mkdirSync(join(root, ".git", "refs", "heads", "feature"));
+    await new Promise((r) => setTimeout(r, 100));
+    writeFileSync(join(root, ".git", "refs", "heads", "feature", "login"), "abc\n");
+    await new Promise((r) => setTimeout(r, 200));
+
+    expect(changed).toContain(join(root, ".git", "refs", "heads", "feature", "login"));
+  });
+
+  it("watches only the index and refs for staged views", async () => {
+    const changed: string[][] = [];
+    watcher = watchRepo({
+      root,
+      gitDir: join(root, ".git"),
+      target: "index",
+      listFiles: () => ["docs/intro.md"],
+      onChange: (paths) => changed.push(paths),
+      debounceMs: 50,
+    });
+
+    writeFileSync(join(root, "docs", "intro.md"), "edited\n");
+    await new Promise((r) => setTimeout(r, 200));
+    expect(changed).toEqual([]);
+
+    writeFileSync(join(root, ".git", "index"), "index");
+    await new Promise((r) => setTimeout(r, 200));
+    expect(changed.flat()).toContain(join(root, ".git", "index"));
+  });
+});